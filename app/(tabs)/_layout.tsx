@@ -8,6 +8,8 @@ import type { BottomTabBarProps } from '@react-navigation/bottom-tabs'
 import { usePhase } from '../../contexts/PhaseContext'
 import { PHASE_PALETTE } from '../../constants/phasePalette'
 import { usePushNotifications } from '../../hooks/usePushNotifications'
+import { useOutboxSync } from '../../hooks/useOutboxSync'
+import { useCycleReminders } from '../../hooks/useCycleReminders'
 
 const { width } = Dimensions.get('window')
 
@@ -101,6 +103,8 @@ function CustomTabBar({ state, navigation }: BottomTabBarProps) {
 
 export default function TabsLayout() {
   usePushNotifications();
+  useOutboxSync();
+  useCycleReminders();
 
   return (
     <Tabs
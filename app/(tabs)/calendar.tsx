@@ -12,44 +12,98 @@ import {
   DeviceEventEmitter,
   RefreshControl,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Colors } from '../../constants/Colors';
 import { useAuth, useUser } from '@clerk/clerk-expo';
 import {
-  getPeriods,
-  getSettings,
   createPeriod,
+  updatePeriod,
   deletePeriod,
+  updateSymptom,
   updateSettings,
-  getSymptoms,
-  getMoods,
   Period,
   UserSettings,
   Symptom,
   Mood,
-  getCurrentViewModeRecord,
 } from '../../lib/api';
-import { buildCacheKey, getCachedData, setCachedData, CacheTTL } from '../../lib/cache';
-import { calculatePredictions, getDayInfo, getPeriodDayInfo, CyclePredictions, getPhaseDetailsForDate, buildEffectivePeriods } from '../../lib/periodCalculations';
+import { hydrateCycleStore, syncCycleStore, getCycleStoreSnapshot } from '../../lib/cycleStore';
+import { useCycleData } from '../../hooks/useCycleData';
+import { useCycleReviews } from '../../hooks/useCycleReviews';
+import { useFlowDays } from '../../hooks/useFlowDays';
+import { useTemperatureReadings } from '../../hooks/useTemperatureReadings';
+import { useLHTests } from '../../hooks/useLHTests';
+import { useIntercourseLog } from '../../hooks/useIntercourseLog';
+import { usePillLog } from '../../hooks/usePillLog';
+import {
+  FLOW_INTENSITIES,
+  FLOW_INTENSITY_LABELS,
+  FlowIntensity,
+  flowWeight,
+  listFlowDays,
+  setFlowDay,
+  summarizeCycleFlow,
+  toPeriodFlowLevel,
+} from '../../lib/flowLog';
+import { calculatePredictions, getDayInfo, getPeriodDayInfo, CyclePredictions, getPhaseDetailsForDate, buildEffectivePeriods, validatePeriodRange } from '../../lib/periodCalculations';
 import { useAIPredictions, invalidatePredictionsCache } from '../../lib/aiPredictions';
+import { centerForecastOn, forecastNextPeriod, periodLikelihoodByDay } from '../../lib/cycleForecast';
+import { isPendingRecord } from '../../lib/outbox';
+import { findConfirmedOvulations, formatTemperature, toCelsius } from '../../lib/temperatureLog';
+import { daysBetween, formatDayKey, fromLocalDate, toLocalDate } from '../../lib/calendarDate';
+import { getPeriodDays, isPeriodDay } from '../../lib/periodRange';
+import { LH_RESULTS, LH_RESULT_LABELS, LHResult, setLHTest, validateLHRatio } from '../../lib/lhTestLog';
+import { setIntercourse } from '../../lib/intercourseLog';
+import { conceptionChance, isTryingToConceive, PEAK_CONCEPTION_CHANCE } from '../../lib/conception';
+import { arePredictionsPaused, getPregnancyProgress } from '../../lib/pregnancy';
+import { getContraceptionNote, getRegimenDay, suppressesNaturalCycle } from '../../lib/contraception';
+import { setPillTaken } from '../../lib/pillLog';
 import { setClerkTokenGetter } from '../../lib/api';
 import { Ionicons } from '@expo/vector-icons';
 import { PHASE_PALETTE, PhaseKey } from '../../constants/phasePalette';
 import PeriLoader from '../../components/PeriLoader';
+import SeverityPicker from '../../components/SeverityPicker';
 import { showToast } from '../../components/Toast';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FLOW_LEVELS: NonNullable<Period['flowLevel']>[] = ['light', 'medium', 'heavy'];
+// Logged period days get stronger fills the heavier the flow
+const FLOW_ALPHA: Record<FlowIntensity, string> = {
+  spotting: '26',
+  light: '44',
+  medium: '66',
+  heavy: '99',
+  very_heavy: 'CC',
+};
+
+// Forecast days less likely than this to be a period day keep their phase colour
+const MIN_SHADED_LIKELIHOOD = 0.1;
+
+/** Two-digit hex alpha scaled between `min` and `max` by a 0–1 likelihood */
+function likelihoodAlpha(likelihood: number, min: number, max: number): string {
+  const alpha = Math.round(min + Math.min(1, likelihood) * (max - min));
+  return alpha.toString(16).padStart(2, '0').toUpperCase();
+}
+
+const formatShortDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+interface PeriodDraft {
+  startDate: Date;
+  endDate: Date | null;
+  flowLevel: Period['flowLevel'];
+}
 
 // Helper function to get phase info for any date
 function getPhaseInfoForDate(
   date: Date,
   periods: Period[],
   predictions: CyclePredictions,
-  settings: UserSettings | null
+  settings: UserSettings | null,
+  confirmedOvulations?: Date[]
 ): { phaseName: string; phaseDay: number } | null {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -57,7 +111,7 @@ function getPhaseInfoForDate(
   dateNormalized.setHours(0, 0, 0, 0);
 
   // Get phase details using the main function
-  const phaseDetails = getPhaseDetailsForDate(date, periods, predictions, settings);
+  const phaseDetails = getPhaseDetailsForDate(date, periods, predictions, settings, confirmedOvulations);
 
   // If no phase details (null), return null
   if (!phaseDetails) {
@@ -72,14 +126,17 @@ function getPhaseInfoForDate(
   // Calculate phase day number based on phase start
   let phaseDay = 1;
   if (phaseDetails.phaseStart) {
-    const daysSinceStart = Math.floor(
-      (dateNormalized.getTime() - phaseDetails.phaseStart.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    const daysSinceStart = daysBetween(fromLocalDate(phaseDetails.phaseStart), fromLocalDate(dateNormalized));
     phaseDay = Math.max(1, daysSinceStart + 1);
   }
 
   // Handle different phases
   if (phaseDetails.phase === 'menstrual') {
+    // Bleeds on hormonal contraception aren't periods
+    const withdrawalBleed = suppressesNaturalCycle(settings);
+    const phaseName = withdrawalBleed
+      ? phaseDetails.isPredicted ? 'Expected Bleed' : 'Bleed'
+      : phaseDetails.isPredicted ? 'Predicted Period' : 'Period';
     const periodInfo = getPeriodDayInfo(
       date,
       periods,
@@ -87,12 +144,12 @@ function getPhaseInfoForDate(
     );
     if (periodInfo) {
       return {
-        phaseName: phaseDetails.isPredicted ? 'Predicted Period' : 'Period',
+        phaseName,
         phaseDay: periodInfo.dayNumber,
       };
     } else {
       return {
-        phaseName: phaseDetails.isPredicted ? 'Predicted Period' : 'Period',
+        phaseName,
         phaseDay: phaseDay,
       };
     }
@@ -118,14 +175,17 @@ function getPhaseInfoForDate(
 }
 
 export default function CalendarScreen() {
+  const router = useRouter();
   const { isSignedIn, getToken } = useAuth();
   const { user } = useUser();
   const [loading, setLoading] = useState(true);
-  const [periods, setPeriods] = useState<Period[]>([]);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const cycleData = useCycleData();
+  const { settings, symptoms: allSymptoms, moods: allMoods } = cycleData;
+  const periods = useMemo(
+    () => buildEffectivePeriods(cycleData.periods, settings),
+    [cycleData.periods, settings]
+  );
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [allSymptoms, setAllSymptoms] = useState<Symptom[]>([]);
-  const [allMoods, setAllMoods] = useState<Mood[]>([]);
   const [selectedDateSymptoms, setSelectedDateSymptoms] = useState<Symptom[]>([]);
   const [selectedDateMoods, setSelectedDateMoods] = useState<Mood[]>([]);
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -134,6 +194,32 @@ export default function CalendarScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [isLoggingPeriod, setIsLoggingPeriod] = useState(false);
   const [isDeletingPeriod, setIsDeletingPeriod] = useState(false);
+  const [periodDraft, setPeriodDraft] = useState<PeriodDraft | null>(null);
+  const [draftPicker, setDraftPicker] = useState<'start' | 'end' | null>(null);
+  const [isSavingPeriod, setIsSavingPeriod] = useState(false);
+  const [isSavingFlow, setIsSavingFlow] = useState(false);
+  const flowDays = useFlowDays();
+  const flowByDay = useMemo(
+    () => new Map(flowDays.map((flowDay) => [flowDay.date, flowDay.intensity])),
+    [flowDays]
+  );
+  const temperatureReadings = useTemperatureReadings();
+  const lhTests = useLHTests();
+  const [lhRatioText, setLhRatioText] = useState('');
+  const intercourseLog = useIntercourseLog();
+  const intercourseByDay = useMemo(
+    () => new Map(intercourseLog.map((entry) => [entry.date, entry])),
+    [intercourseLog]
+  );
+  const tryingToConceive = isTryingToConceive(settings);
+  const predictionsPaused = useMemo(() => arePredictionsPaused(periods, settings), [periods, settings]);
+  const pregnancy = useMemo(() => getPregnancyProgress(settings), [settings]);
+  const naturalCycleSuppressed = suppressesNaturalCycle(settings);
+  const pillLog = usePillLog();
+  const confirmedOvulations = useMemo(
+    () => findConfirmedOvulations(periods, temperatureReadings),
+    [periods, temperatureReadings]
+  );
 
   const todaysLabel = useMemo(() => {
     return new Date().toLocaleDateString('en-US', {
@@ -165,13 +251,31 @@ export default function CalendarScreen() {
   }, [getToken]);
 
   // Use AI predictions with automatic caching and fallback
-  const { predictions, loading: aiLoading, isUsingAI } = useAIPredictions(
+  const { predictions, aiResponse, loading: aiLoading, isUsingAI } = useAIPredictions(
     periods,
     settings,
     user?.id || null
   );
 
 
+  // Day-by-day chance of the next period, so the calendar fades in and out
+  // around the most likely start instead of drawing one hard block. Centred on
+  // the date the predicted days use, which may be the blended AI forecast.
+  const cycleReviews = useCycleReviews();
+  const nextPeriodTime = predictions?.nextPeriodDate ? new Date(predictions.nextPeriodDate).getTime() : null;
+  const forecast = useMemo(() => {
+    const local = forecastNextPeriod(periods, settings, { reviews: cycleReviews });
+    if (!local || nextPeriodTime === null || Number.isNaN(nextPeriodTime)) return null;
+    return centerForecastOn(local, new Date(nextPeriodTime));
+  }, [periods, settings, cycleReviews, nextPeriodTime]);
+  const periodLikelihood = useMemo(
+    () =>
+      forecast
+        ? periodLikelihoodByDay(forecast, predictions?.periodLength || settings?.averagePeriodLength || 5)
+        : new Map<number, number>(),
+    [forecast, predictions?.periodLength, settings?.averagePeriodLength]
+  );
+
   const loadData = useCallback(async () => {
     if (loadingDataRef.current) {
       return;
@@ -186,79 +290,19 @@ export default function CalendarScreen() {
     let showSpinner = !refreshing;
 
     try {
-      const viewModeRecord = getCurrentViewModeRecord();
-      const scopeIdentifier = viewModeRecord?.mode === 'OTHER'
-        ? viewModeRecord?.viewedUserId ?? userRef.current?.id
-        : userRef.current?.id;
-      const cacheScope = buildCacheKey([
-        viewModeRecord?.mode ?? 'UNKNOWN',
-        scopeIdentifier ?? 'self',
-      ]);
+      // 1. FAST LOCAL LOAD - the persisted store renders immediately, even offline
+      await hydrateCycleStore();
 
-      // We will fetch cache in parallel
-      const periodsCacheKey = buildCacheKey(['periods', cacheScope]);
-      const settingsCacheKey = buildCacheKey(['settings', cacheScope]);
-      const symptomsCacheKey = buildCacheKey(['symptoms', cacheScope]);
-      const moodsCacheKey = buildCacheKey(['moods', cacheScope]);
-
-      // 1. FAST CACHE LOAD (Parallel) - Use stale data for immediate UI rendering
-      const [
-        cachedPeriods,
-        cachedSettings,
-        cachedSymptoms,
-        cachedMoods
-      ] = await Promise.all([
-        getCachedData<Period[]>(periodsCacheKey, true),
-        getCachedData<UserSettings | null>(settingsCacheKey, true),
-        getCachedData<Symptom[]>(symptomsCacheKey, true),
-        getCachedData<Mood[]>(moodsCacheKey, true),
-      ]);
-
-      if (cachedPeriods !== undefined) setPeriods(cachedPeriods);
-      if (cachedSettings !== undefined) setSettings(cachedSettings);
-      if (cachedSymptoms !== undefined) setAllSymptoms(cachedSymptoms);
-      if (cachedMoods !== undefined) setAllMoods(cachedMoods);
-
-      // If we got *any* critical data from cache, hide spinner immediately
-      if (cachedPeriods !== undefined || cachedSettings !== undefined) {
+      // If the store has synced before, its data is good enough to render
+      if (getCycleStoreSnapshot().lastSyncedAt !== null) {
         showSpinner = false;
         setLoading(false);
       } else {
         setLoading(showSpinner);
       }
 
-      // 2. BACKGROUND REVALIDATE (Network Fetch)
-      // Pass forceRefresh = true to hit network instead of reading from cache again
-      const [periodsData, settingsData, symptomsData, moodsData] = await Promise.all([
-        getPeriods(true).catch((e) => { console.error('periods fetch error', e); return null; }),
-        getSettings(true).catch((e) => { console.error('settings fetch error', e); return null; }),
-        getSymptoms(undefined, undefined, true).catch((e) => { console.error('symptoms fetch error', e); return null; }),
-        getMoods(undefined, undefined, true).catch((e) => { console.error('moods fetch error', e); return null; }),
-      ]);
-
-      // Only update state if the fetch was successful (not null)
-      if (settingsData !== null) {
-        setSettings(settingsData);
-        await setCachedData(settingsCacheKey, settingsData, CacheTTL.MEDIUM);
-      }
-
-      if (periodsData !== null) {
-        // Use either the freshly fetched settings or fallback to cached settings
-        const effectiveSettings = settingsData !== null ? settingsData : (cachedSettings || null);
-        const effectivePeriods = buildEffectivePeriods(periodsData, effectiveSettings);
-        setPeriods(effectivePeriods);
-        await setCachedData(periodsCacheKey, effectivePeriods, CacheTTL.MEDIUM);
-      }
-
-      if (symptomsData !== null) {
-        setAllSymptoms(symptomsData);
-        await setCachedData(symptomsCacheKey, symptomsData, CacheTTL.SHORT);
-      }
-
-      if (moodsData !== null) {
-        setAllMoods(moodsData);
-        await setCachedData(moodsCacheKey, moodsData, CacheTTL.SHORT);
-      }
+      // 2. BACKGROUND SYNC - push queued writes, pull changes since the last sync
+      await syncCycleStore({ full: refreshing });
     } catch (error: any) {
       if (error.response?.status !== 401) {
         console.error('[Calendar] Error loading data:', error);
@@ -359,41 +403,40 @@ export default function CalendarScreen() {
       const fallbackPeriodLength = Math.max(1, predictions?.periodLength || settings?.averagePeriodLength || 5);
 
       const isActualPeriodDay = periods.some((period) => {
-        const start = new Date(period.startDate);
-        start.setHours(0, 0, 0, 0);
-        // Always use current period length setting, not the stored endDate
-        // This ensures periods display with the user's current preference
-        const end = new Date(period.startDate);
-        end.setHours(0, 0, 0, 0);
-        // Calculate end date: if period length is 5, days are 0,1,2,3,4 (5 days total)
-        // So we add (periodLength - 1) to get the last day
-        end.setDate(end.getDate() + fallbackPeriodLength - 1);
-        end.setHours(23, 59, 59, 999); // Set to end of day to include the full last day
-        return normalizedDate.getTime() >= start.getTime() && normalizedDate.getTime() <= end.getTime();
+        // The period's own end date wins; the fallback length is only for open periods
+        return isPeriodDay(fromLocalDate(normalizedDate), period, fallbackPeriodLength);
       });
 
       if (isActualPeriodDay) {
-        return { phase: 'menstrual' as PhaseKey, color: PHASE_PALETTE.menstrual.color, isPredicted: false };
+        return { phase: 'menstrual' as PhaseKey, color: PHASE_PALETTE.menstrual.color, isPredicted: false, conception: 0 };
       }
 
       // Allow predictions up to 6 months ahead
       if (isBeyondSixMonths) {
-        return { phase: null, color: null, isPredicted: false };
+        return { phase: null, color: null, isPredicted: false, conception: 0 };
       }
 
-      const detail = getPhaseDetailsForDate(normalizedDate, periods, predictions, settings);
+      const detail = getPhaseDetailsForDate(normalizedDate, periods, predictions, settings, confirmedOvulations);
 
       // If no phase details (null), return no phase
       if (!detail) {
-        return { phase: null, color: null, isPredicted: false };
+        return { phase: null, color: null, isPredicted: false, conception: 0 };
       }
 
       const meta = PHASE_PALETTE[detail.phase];
-      return { phase: detail.phase, color: meta.color, isPredicted: detail.isPredicted };
+      // Trying to conceive: fertile days are shaded by the chance of conceiving instead
+      const conception = tryingToConceive ? conceptionChance(normalizedDate, predictions, detail) : 0;
+      return { phase: detail.phase, color: meta.color, isPredicted: detail.isPredicted, conception };
     },
-    [periods, predictions, settings]
+    [periods, predictions, settings, confirmedOvulations, tryingToConceive]
   );
 
+  // Leaving the sheet (or moving to another day) drops any unsaved edit
+  useEffect(() => {
+    setPeriodDraft(null);
+    setDraftPicker(null);
+  }, [selectedDate]);
+
   const handleDatePress = useCallback((date: Date) => {
     setSelectedDate(date);
     setSelectedDateSymptoms([]);
@@ -424,33 +467,29 @@ export default function CalendarScreen() {
       endDate.setHours(23, 59, 59, 999);
 
       // Prevent duplicate or overlapping period entries
-      // Always use current period length setting for overlap checks
-      const overlapsExisting = periods.some((period) => {
-        const start = new Date(period.startDate);
-        start.setHours(0, 0, 0, 0);
-        // Always calculate end date using current period length setting
-        const existingEnd = new Date(period.startDate);
-        existingEnd.setHours(0, 0, 0, 0);
-        existingEnd.setDate(existingEnd.getDate() + periodLength - 1);
-        existingEnd.setHours(23, 59, 59, 999);
-        return date >= start && date <= existingEnd;
-      });
+      const overlapsExisting = periods.some((period) => isPeriodDay(fromLocalDate(date), period, periodLength));
 
       if (overlapsExisting) {
         Alert.alert('Period Already Logged', 'A period is already logged and in progress for this date.');
         return;
       }
 
-      await createPeriod({
+      // Flow is filled in from the per-day entries as they're logged
+      const created = await createPeriod({
         startDate: date.toISOString(),
         endDate: endDate.toISOString(),
-        flowLevel: 'medium',
+        flowLevel: null,
       });
 
       // Invalidate AI predictions cache to trigger background refresh
       await invalidatePredictionsCache();
 
-      showToast('Period logged successfully', 'success');
+      showToast(
+        isPendingRecord(created)
+          ? "Saved offline — we'll sync it when you're back online"
+          : 'Period logged successfully',
+        'success'
+      );
       setShowDatePicker(false);
       setSelectedDate(null);
       loadingDataRef.current = false;
@@ -497,6 +536,106 @@ export default function CalendarScreen() {
     [loadData]
   );
 
+  const handleSavePeriodEdit = useCallback(
+    async (period: Period, draft: PeriodDraft) => {
+      const fallbackLength = settings?.averagePeriodLength || 5;
+      const problem = validatePeriodRange(
+        { id: period.id, startDate: draft.startDate, endDate: draft.endDate },
+        periods,
+        fallbackLength
+      );
+      if (problem) {
+        Alert.alert('Invalid Dates', problem);
+        return;
+      }
+
+      setIsSavingPeriod(true);
+      try {
+        const startDate = new Date(draft.startDate);
+        startDate.setHours(0, 0, 0, 0);
+        const endDate = draft.endDate ? new Date(draft.endDate) : null;
+        endDate?.setHours(23, 59, 59, 999);
+        const changes = {
+          startDate: startDate.toISOString(),
+          endDate: endDate ? endDate.toISOString() : null,
+          flowLevel: draft.flowLevel,
+        };
+
+        // The settings fallback isn't a stored period yet - saving the edit logs it for real
+        const saved = period.id === 'settings-fallback'
+          ? await createPeriod(changes)
+          : await updatePeriod(period.id, changes);
+
+        await invalidatePredictionsCache();
+
+        showToast(
+          isPendingRecord(saved)
+            ? "Saved offline — we'll sync it when you're back online"
+            : 'Period updated',
+          'success'
+        );
+        setSelectedDate(startDate);
+        loadingDataRef.current = false;
+        loadData();
+        DeviceEventEmitter.emit('periodsUpdated');
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to update period');
+      } finally {
+        setIsSavingPeriod(false);
+      }
+    },
+    [periods, settings, loadData]
+  );
+
+  const handleSetFlow = useCallback(
+    async (date: Date, intensity: FlowIntensity | null, period: Period | null | undefined) => {
+      setIsSavingFlow(true);
+      try {
+        await setFlowDay(date, intensity);
+
+        // Keep the period's own flow level in step with its heaviest logged day
+        if (period && period.id !== 'settings-fallback') {
+          const [summary] = summarizeCycleFlow([period], await listFlowDays(), settings?.averagePeriodLength || 5);
+          const level = summary?.heaviest ? toPeriodFlowLevel(summary.heaviest) : period.flowLevel;
+          if (level !== period.flowLevel) {
+            await updatePeriod(period.id, { flowLevel: level });
+            await invalidatePredictionsCache();
+            loadingDataRef.current = false;
+            loadData();
+            DeviceEventEmitter.emit('periodsUpdated');
+          }
+        }
+      } catch (error: any) {
+        showToast(error.message || 'Failed to save flow', 'error');
+      } finally {
+        setIsSavingFlow(false);
+      }
+    },
+    [settings, loadData]
+  );
+
+  const handleUpdateSeverity = useCallback(
+    async (symptom: Symptom, severity: number) => {
+      if (symptom.severity === severity) return;
+      const previous = symptom.severity;
+      const apply = (value: number) =>
+        setSelectedDateSymptoms((current) =>
+          current.map((entry) => (entry.id === symptom.id ? { ...entry, severity: value } : entry))
+        );
+
+      apply(severity);
+      try {
+        await updateSymptom(symptom.id, { severity });
+        loadingDataRef.current = false;
+        loadData();
+      } catch (error: any) {
+        apply(previous);
+        showToast(error.message || 'Failed to update severity', 'error');
+      }
+    },
+    [loadData]
+  );
+
   const prevMonth = useCallback(() => {
     setCurrentMonth((prev) => {
       const newDate = new Date(prev);
@@ -515,34 +654,56 @@ export default function CalendarScreen() {
 
   const days = useMemo(() => getDaysInMonth(currentMonth), [currentMonth, getDaysInMonth]);
 
+  // Only days from today on are in the forecast, so logged periods never get a chance shown
+  const selectedDateLikelihood = useMemo(() => {
+    if (!selectedDate) return null;
+    const day = new Date(selectedDate);
+    day.setHours(0, 0, 0, 0);
+    const likelihood = periodLikelihood.get(day.getTime());
+    return likelihood !== undefined && likelihood >= 0.01 ? likelihood : null;
+  }, [selectedDate, periodLikelihood]);
+
+  // What the AI forecast says about the selected day: the cycle it falls in and,
+  // during PMS, which symptoms to watch for
+  const selectedDateForecast = useMemo(() => {
+    if (!selectedDate || !isUsingAI) return null;
+    const day = new Date(selectedDate);
+    day.setHours(0, 0, 0, 0);
+    const inRange = (start: Date | null, end: Date | null) => {
+      if (!start || !end) return false;
+      const from = new Date(start);
+      from.setHours(0, 0, 0, 0);
+      const to = new Date(end);
+      to.setHours(23, 59, 59, 999);
+      return day >= from && day <= to;
+    };
+    const cycle = predictions.upcomingPeriods?.find((period) => inRange(period.startDate, period.endDate)) ?? null;
+    const symptoms = inRange(predictions.pmsStart, predictions.pmsEnd)
+      ? aiResponse?.predictions?.pms_likelihood?.symptoms_to_watch ?? []
+      : [];
+    return cycle || symptoms.length > 0 ? { cycle, symptoms } : null;
+  }, [selectedDate, isUsingAI, predictions, aiResponse]);
+
   // Get period for selected date
   const selectedDatePeriod = useMemo(() => {
     if (!selectedDate) return null;
-    return periods.find((p) => {
-      const start = new Date(p.startDate);
-      start.setHours(0, 0, 0, 0);
-      const end = p.endDate
-        ? new Date(p.endDate)
-        : new Date(start.getTime() + (settings?.averagePeriodLength || 5) * 24 * 60 * 60 * 1000 - 1);
-      end.setHours(23, 59, 59, 999);
-      return selectedDate >= start && selectedDate <= end;
-    });
-  }, [selectedDate, periods, settings]);
+    const day = fromLocalDate(selectedDate);
+    return periods.find((p) => isPeriodDay(day, p, settings?.averagePeriodLength || 5));
+  }, [selectedDate, periods, settings?.averagePeriodLength]);
 
   const selectedDatePeriodEnd = useMemo(() => {
     if (!selectedDatePeriod) return null;
-    if (selectedDatePeriod.endDate) {
-      const explicit = new Date(selectedDatePeriod.endDate);
-      explicit.setHours(0, 0, 0, 0);
-      return explicit;
-    }
-    const fallbackLength = settings?.averagePeriodLength || 5;
-    const assumed = new Date(selectedDatePeriod.startDate);
-    assumed.setHours(0, 0, 0, 0);
-    assumed.setDate(assumed.getDate() + fallbackLength - 1);
-    return assumed;
+    return toLocalDate(getPeriodDays(selectedDatePeriod, settings?.averagePeriodLength || 5).end);
   }, [selectedDatePeriod, settings?.averagePeriodLength]);
 
+  const selectedDateFlow = selectedDate ? flowByDay.get(formatDayKey(fromLocalDate(selectedDate))) ?? null : null;
+
+  const selectedPeriodFlowSummary = useMemo(() => {
+    if (!selectedDatePeriod) return null;
+    const [summary] = summarizeCycleFlow([selectedDatePeriod], flowDays, settings?.averagePeriodLength || 5);
+    return summary && summary.loggedDays > 0 ? summary : null;
+  }, [selectedDatePeriod, flowDays, settings?.averagePeriodLength]);
+
   // Check if selected date is the first day of a period
   const isFirstDayOfPeriod = useMemo(() => {
     if (!selectedDate || !selectedDatePeriod) return false;
@@ -556,8 +717,75 @@ export default function CalendarScreen() {
   // Get phase info for selected date
   const selectedDatePhaseInfo = useMemo(() => {
     if (!selectedDate) return null;
-    return getPhaseInfoForDate(selectedDate, periods, predictions, settings);
-  }, [selectedDate, periods, predictions, settings]);
+    return getPhaseInfoForDate(selectedDate, periods, predictions, settings, confirmedOvulations);
+  }, [selectedDate, periods, predictions, settings, confirmedOvulations]);
+
+  const selectedDateTemperature = useMemo(() => {
+    if (!selectedDate) return null;
+    const key = formatDayKey(fromLocalDate(selectedDate));
+    return temperatureReadings.find((reading) => reading.date === key) ?? null;
+  }, [selectedDate, temperatureReadings]);
+
+  const selectedDateLHTest = useMemo(() => {
+    if (!selectedDate) return null;
+    const key = formatDayKey(fromLocalDate(selectedDate));
+    return lhTests.find((test) => test.date === key) ?? null;
+  }, [selectedDate, lhTests]);
+
+  useEffect(() => {
+    setLhRatioText(selectedDateLHTest?.ratio != null ? String(selectedDateLHTest.ratio) : '');
+  }, [selectedDateLHTest]);
+
+  const selectedDateIntercourse = useMemo(() => {
+    if (!selectedDate) return null;
+    return intercourseByDay.get(formatDayKey(fromLocalDate(selectedDate))) ?? null;
+  }, [selectedDate, intercourseByDay]);
+
+  const selectedDateConception = useMemo(() => {
+    if (!selectedDate || !tryingToConceive) return 0;
+    const detail = getPhaseDetailsForDate(selectedDate, periods, predictions, settings, confirmedOvulations);
+    return conceptionChance(selectedDate, predictions, detail);
+  }, [selectedDate, tryingToConceive, periods, predictions, settings, confirmedOvulations]);
+
+  // Pill pack day and whether it was taken, for pill users
+  const selectedDatePill = useMemo(() => {
+    if (!selectedDate || settings?.contraception !== 'pill') return null;
+    const day = fromLocalDate(selectedDate);
+    const regimenDay = getRegimenDay(settings, day);
+    if (!regimenDay) return null;
+    const key = formatDayKey(day);
+    return { regimenDay, taken: pillLog.some((entry) => entry.date === key) };
+  }, [selectedDate, settings, pillLog]);
+
+  const handleSetPillTaken = useCallback(async (date: Date, taken: boolean) => {
+    try {
+      await setPillTaken(date, taken);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to save', 'error');
+    }
+  }, []);
+
+  const handleSetIntercourse = useCallback(async (date: Date, entry: { protected: boolean } | null) => {
+    try {
+      await setIntercourse(date, entry);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to save', 'error');
+    }
+  }, []);
+
+  const handleSetLHTest = useCallback(async (date: Date, result: LHResult | null, ratioText: string) => {
+    const ratio = ratioText.trim() ? Number(ratioText.replace(',', '.')) : null;
+    const problem = validateLHRatio(ratio);
+    if (problem) {
+      showToast(problem, 'error');
+      return;
+    }
+    try {
+      await setLHTest(date, result, ratio);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to save LH test', 'error');
+    }
+  }, []);
 
   // Check if selected date is in the past and has no period
   const canLogPeriod = useMemo(() => {
@@ -631,21 +859,44 @@ export default function CalendarScreen() {
               }
 
               const status = getDayStatus(date);
+              const flow = flowByDay.get(formatDayKey(fromLocalDate(date)));
+              const intercourse = intercourseByDay.get(formatDayKey(fromLocalDate(date)));
               const isToday = date.toDateString() === new Date().toDateString();
-              const hasColor = Boolean(status.color);
               const actualAlpha = status.phase === 'menstrual' ? '66' : (status.phase === 'follicular' ? '55' : '33');
               const predictedAlpha = status.phase === 'follicular' ? '33' : '20';
               const borderActualAlpha = status.phase === 'menstrual' ? 'EE' : (status.phase === 'follicular' ? 'CC' : 'AA');
               const borderPredictedAlpha = status.phase === 'follicular' ? '66' : '40';
 
-              const isPredictedMenstrual = status.phase === 'menstrual' && status.isPredicted;
+              // Only future days without a logged period follow the forecast
+              const likelihood = !status.phase || status.isPredicted ? periodLikelihood.get(date.getTime()) : undefined;
+              const isLikelyPeriod = likelihood !== undefined && likelihood >= MIN_SHADED_LIKELIHOOD;
+              const isPredictedMenstrual = (status.phase === 'menstrual' && status.isPredicted) || isLikelyPeriod;
+              const isConceptionDay = !isPredictedMenstrual && status.conception > 0;
+              const hasColor = Boolean(status.color) || isLikelyPeriod || isConceptionDay;
 
               // Use a distinct pink color for predicted periods
-              const baseColor = isPredictedMenstrual ? '#FFB6C1' : status.color;
+              const baseColor = isPredictedMenstrual
+                ? '#FFB6C1'
+                : isConceptionDay
+                  ? PHASE_PALETTE.ovulation.color
+                  : status.color;
 
               // For predicted menstrual, we want it to be clearly visible so use higher opacity
-              const finalAlpha = isPredictedMenstrual ? '55' : (status.isPredicted ? predictedAlpha : actualAlpha);
-              const finalBorderAlpha = isPredictedMenstrual ? 'CC' : (status.isPredicted ? borderPredictedAlpha : borderActualAlpha);
+              const isLoggedFlowDay = status.phase === 'menstrual' && !status.isPredicted && !!flow;
+              const conceptionLikelihood = status.conception / PEAK_CONCEPTION_CHANCE;
+              const finalAlpha = isPredictedMenstrual
+                ? (likelihood !== undefined ? likelihoodAlpha(likelihood, 0x18, 0x88) : '55')
+                : isConceptionDay
+                  ? likelihoodAlpha(conceptionLikelihood, 0x22, 0xAA)
+                  : isLoggedFlowDay
+                  ? FLOW_ALPHA[flow!]
+                  : (status.isPredicted ? predictedAlpha : actualAlpha);
+              const predictedBorderAlpha = likelihood !== undefined ? likelihoodAlpha(likelihood, 0x40, 0xCC) : 'CC';
+              const finalBorderAlpha = isPredictedMenstrual
+                ? predictedBorderAlpha
+                : isConceptionDay
+                  ? likelihoodAlpha(conceptionLikelihood, 0x55, 0xEE)
+                  : (status.isPredicted ? borderPredictedAlpha : borderActualAlpha);
 
               const backgroundColor = hasColor
                 ? `${baseColor}${finalAlpha}`
@@ -671,31 +922,83 @@ export default function CalendarScreen() {
                       styles.dayText,
                       isToday && { fontWeight: '900' },
                       isToday && !hasColor && { color: Colors.primary },
-                      hasColor && !status.isPredicted && styles.dayTextOnPhase,
+                      hasColor && !status.isPredicted && !isLikelyPeriod && styles.dayTextOnPhase,
                     ]}
                   >
                     {date.getDate()}
                   </Text>
+                  {intercourse && (
+                    <Ionicons
+                      name={intercourse.protected ? 'heart-outline' : 'heart'}
+                      size={10}
+                      color={Colors.primary}
+                      style={styles.intercourseMarker}
+                    />
+                  )}
+                  {flow && (
+                    <View style={styles.flowDotsRow}>
+                      {Array.from({ length: flowWeight(flow) }).map((_, dot) => (
+                        <View
+                          key={dot}
+                          style={[
+                            styles.flowDot,
+                            hasColor && !status.isPredicted && !isLikelyPeriod && { backgroundColor: Colors.white },
+                          ]}
+                        />
+                      ))}
+                    </View>
+                  )}
                 </TouchableOpacity>
               );
             })}
           </View>
 
           <View style={styles.legendRow}>
-            {(['menstrual', 'follicular', 'ovulation', 'luteal'] as PhaseKey[]).map((phaseKey) => {
+            {((naturalCycleSuppressed
+              ? ['menstrual']
+              : ['menstrual', 'follicular', 'ovulation', 'luteal']) as PhaseKey[]
+            ).map((phaseKey) => {
               const palette = PHASE_PALETTE[phaseKey];
               return (
                 <View key={phaseKey} style={styles.legendItem}>
                   <View style={[styles.legendDot, { backgroundColor: palette.color }]} />
-                  <Text style={styles.legendText}>{palette.shortLabel}</Text>
+                  <Text style={styles.legendText}>{naturalCycleSuppressed ? 'Bleed' : palette.shortLabel}</Text>
                 </View>
               );
             })}
             <View style={styles.legendItem}>
               <View style={[styles.legendDot, { backgroundColor: '#FFB6C1' }]} />
-              <Text style={styles.legendText}>Predicted Period</Text>
+              <Text style={styles.legendText}>{naturalCycleSuppressed ? 'Expected Bleed' : 'Predicted Period'}</Text>
             </View>
           </View>
+          {settings?.contraception && (
+            <Text style={styles.forecastText}>{getContraceptionNote(settings)}</Text>
+          )}
+          {predictionsPaused && (
+            <Text style={styles.forecastText}>
+              {pregnancy
+                ? `Period predictions are paused while you're pregnant. Due ${formatShortDate(pregnancy.dueDate)}.`
+                : 'Period predictions are paused until you log your first period after the birth.'}
+            </Text>
+          )}
+          {tryingToConceive && (
+            <Text style={styles.forecastText}>
+              Fertile days are shaded by your chance of conceiving: darker days are better timing.
+            </Text>
+          )}
+          {forecast && (
+            <Text style={styles.forecastText}>
+              {`Next period likely ${formatShortDate(forecast.interval.start)} – ${formatShortDate(forecast.interval.end)} ` +
+                `(${Math.round(forecast.interval.probability * 100)}% chance). Darker days are more likely.`}
+            </Text>
+          )}
+          {isUsingAI && (predictions.upcomingPeriods?.length ?? 0) > 0 && (
+            <TouchableOpacity onPress={() => router.push('/ai-forecast')}>
+              <Text style={styles.forecastLink}>
+                {`See the AI forecast for the next ${predictions.upcomingPeriods!.length} cycles`}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <TouchableOpacity
@@ -756,6 +1059,22 @@ export default function CalendarScreen() {
                   <Text style={styles.phaseInfoText}>
                     {selectedDatePhaseInfo.phaseName} - Day {selectedDatePhaseInfo.phaseDay}
                   </Text>
+                  {selectedDateLikelihood !== null && (
+                    <Text style={styles.phaseInfoSubtext}>
+                      About {Math.round(selectedDateLikelihood * 100)}% chance of your period on this day
+                    </Text>
+                  )}
+                  {selectedDateForecast?.cycle && (
+                    <Text style={styles.phaseInfoSubtext}>
+                      {`AI forecast: ${Math.round(selectedDateForecast.cycle.confidence ?? 0)}% confidence` +
+                        (selectedDateForecast.cycle.notes ? ` · ${selectedDateForecast.cycle.notes}` : '')}
+                    </Text>
+                  )}
+                  {!!selectedDateForecast?.symptoms.length && (
+                    <Text style={styles.phaseInfoSubtext}>
+                      Watch for: {selectedDateForecast.symptoms.join(', ')}
+                    </Text>
+                  )}
                 </View>
               ) : selectedDate && (() => {
                 const today = new Date();
@@ -770,9 +1089,24 @@ export default function CalendarScreen() {
               })()}
 
               {/* Period Information */}
-              {selectedDatePeriod && (
+              {selectedDatePeriod && !periodDraft && (
                 <View style={styles.periodInfoContainer}>
-                  <Text style={styles.periodInfoTitle}>Period Information</Text>
+                  <View style={styles.periodInfoHeader}>
+                    <Text style={styles.periodInfoTitle}>Period Information</Text>
+                    <TouchableOpacity
+                      style={styles.periodEditLink}
+                      onPress={() =>
+                        setPeriodDraft({
+                          startDate: new Date(selectedDatePeriod.startDate),
+                          endDate: selectedDatePeriod.endDate ? new Date(selectedDatePeriod.endDate) : null,
+                          flowLevel: selectedDatePeriod.flowLevel,
+                        })
+                      }
+                    >
+                      <Ionicons name="create-outline" size={16} color={Colors.primary} />
+                      <Text style={styles.periodEditLinkText}>Edit</Text>
+                    </TouchableOpacity>
+                  </View>
                   <Text style={styles.periodInfoText}>
                     Start: {new Date(selectedDatePeriod.startDate).toLocaleDateString()}
                   </Text>
@@ -782,6 +1116,239 @@ export default function CalendarScreen() {
                       {!selectedDatePeriod.endDate ? ' (estimated)' : ''}
                     </Text>
                   )}
+                  {selectedPeriodFlowSummary?.heaviest ? (
+                    <Text style={styles.periodInfoText}>
+                      Heaviest day: {FLOW_INTENSITY_LABELS[selectedPeriodFlowSummary.heaviest]}
+                      {selectedPeriodFlowSummary.heaviestDate
+                        ? ` (${selectedPeriodFlowSummary.heaviestDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })})`
+                        : ''}
+                      {' · '}
+                      {selectedPeriodFlowSummary.heavyDays} heavy {selectedPeriodFlowSummary.heavyDays === 1 ? 'day' : 'days'}
+                    </Text>
+                  ) : selectedDatePeriod.flowLevel ? (
+                    <Text style={styles.periodInfoText}>
+                      Flow: {selectedDatePeriod.flowLevel.charAt(0).toUpperCase() + selectedDatePeriod.flowLevel.slice(1)}
+                    </Text>
+                  ) : null}
+                </View>
+              )}
+
+              {/* Period Editor */}
+              {selectedDatePeriod && periodDraft && (
+                <View style={styles.periodInfoContainer}>
+                  <Text style={styles.periodInfoTitle}>Edit Period</Text>
+
+                  <View style={styles.editRow}>
+                    <Text style={styles.editLabel}>Start</Text>
+                    <TouchableOpacity style={styles.editValueButton} onPress={() => setDraftPicker('start')}>
+                      <Text style={styles.editValueText}>{periodDraft.startDate.toLocaleDateString()}</Text>
+                      <Ionicons name="calendar-outline" size={16} color={Colors.primary} />
+                    </TouchableOpacity>
+                  </View>
+
+                  <View style={styles.editRow}>
+                    <Text style={styles.editLabel}>End</Text>
+                    <View style={styles.editValueGroup}>
+                      <TouchableOpacity style={styles.editValueButton} onPress={() => setDraftPicker('end')}>
+                        <Text style={[styles.editValueText, !periodDraft.endDate && styles.editValuePlaceholder]}>
+                          {periodDraft.endDate ? periodDraft.endDate.toLocaleDateString() : 'Not set'}
+                        </Text>
+                        <Ionicons name="calendar-outline" size={16} color={Colors.primary} />
+                      </TouchableOpacity>
+                      {periodDraft.endDate && (
+                        <TouchableOpacity
+                          onPress={() => setPeriodDraft({ ...periodDraft, endDate: null })}
+                          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                        >
+                          <Ionicons name="close-circle" size={20} color={Colors.textSecondary} />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+
+                  {draftPicker && (
+                    <DateTimePicker
+                      value={(draftPicker === 'start' ? periodDraft.startDate : periodDraft.endDate) || periodDraft.startDate}
+                      mode="date"
+                      display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                      maximumDate={new Date()}
+                      minimumDate={draftPicker === 'end' ? periodDraft.startDate : undefined}
+                      onChange={(event, date) => {
+                        const target = draftPicker;
+                        if (Platform.OS === 'android' || event.type === 'dismissed') {
+                          setDraftPicker(null);
+                        }
+                        if (!date || event.type === 'dismissed') return;
+                        setPeriodDraft((prev) => prev && (target === 'start'
+                          ? { ...prev, startDate: date }
+                          : { ...prev, endDate: date }));
+                      }}
+                    />
+                  )}
+
+                  <Text style={[styles.editLabel, styles.editFlowLabel]}>Flow</Text>
+                  <View style={styles.flowChipsRow}>
+                    {FLOW_LEVELS.map((level) => {
+                      const selected = periodDraft.flowLevel === level;
+                      return (
+                        <TouchableOpacity
+                          key={level}
+                          style={[styles.flowChip, selected && styles.flowChipSelected]}
+                          onPress={() => setPeriodDraft({ ...periodDraft, flowLevel: selected ? null : level })}
+                        >
+                          <Text style={[styles.flowChipText, selected && styles.flowChipTextSelected]}>
+                            {level.charAt(0).toUpperCase() + level.slice(1)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              {/* Day's flow - any past day, so spotting between periods can be logged too */}
+              {selectedDate && selectedDate <= new Date() && !periodDraft && (
+                <View style={styles.flowContainer}>
+                  <Text style={styles.moodsTitle}>Flow</Text>
+                  <View style={styles.flowChipsRow}>
+                    {FLOW_INTENSITIES.map((intensity) => {
+                      const selected = selectedDateFlow === intensity;
+                      return (
+                        <TouchableOpacity
+                          key={intensity}
+                          style={[styles.flowChip, styles.dayFlowChip, selected && styles.flowChipSelected]}
+                          onPress={() => handleSetFlow(selectedDate, selected ? null : intensity, selectedDatePeriod)}
+                          disabled={isSavingFlow}
+                        >
+                          <Text
+                            style={[styles.dayFlowChipText, selected && styles.flowChipTextSelected]}
+                            numberOfLines={1}
+                          >
+                            {FLOW_INTENSITY_LABELS[intensity]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              )}
+
+              {/* Basal temperature */}
+              {selectedDate && selectedDate <= new Date() && !periodDraft && (
+                <View style={styles.flowContainer}>
+                  <Text style={styles.moodsTitle}>Temperature</Text>
+                  <TouchableOpacity
+                    style={styles.temperatureRow}
+                    onPress={() => {
+                      const date = formatDayKey(fromLocalDate(selectedDate));
+                      setSelectedDate(null);
+                      router.push({ pathname: '/temperature', params: { date } });
+                    }}
+                  >
+                    <Ionicons name="thermometer-outline" size={18} color={Colors.primary} />
+                    <Text style={styles.temperatureText}>
+                      {selectedDateTemperature
+                        ? `${formatTemperature(
+                            toCelsius(selectedDateTemperature.value, selectedDateTemperature.unit),
+                            selectedDateTemperature.unit
+                          )} at ${selectedDateTemperature.time}` +
+                          (selectedDateTemperature.disturbances.length ? ' (disturbed)' : '')
+                        : 'Log basal temperature'}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={16} color={Colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Trying to conceive: chance and intercourse */}
+              {selectedDate && tryingToConceive && !periodDraft && (
+                <View style={styles.flowContainer}>
+                  <Text style={styles.moodsTitle}>Trying to Conceive</Text>
+                  <Text style={styles.conceptionText}>
+                    {selectedDateConception > 0
+                      ? `Chance of conception: ${Math.round(selectedDateConception * 100)}%`
+                      : 'Outside the fertile window'}
+                  </Text>
+                  {selectedDate <= new Date() && (
+                    <View style={styles.flowChipsRow}>
+                      {([false, true] as const).map((isProtected) => {
+                        const selected = selectedDateIntercourse?.protected === isProtected;
+                        return (
+                          <TouchableOpacity
+                            key={String(isProtected)}
+                            style={[styles.flowChip, selected && styles.flowChipSelected]}
+                            onPress={() => handleSetIntercourse(selectedDate, selected ? null : { protected: isProtected })}
+                          >
+                            <Text style={[styles.flowChipText, selected && styles.flowChipTextSelected]}>
+                              {isProtected ? 'Protected sex' : 'Unprotected sex'}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                </View>
+              )}
+
+              {/* Pill pack: taken or not */}
+              {selectedDate && selectedDatePill && !periodDraft && (
+                <View style={styles.flowContainer}>
+                  <Text style={styles.moodsTitle}>Pill</Text>
+                  <Text style={styles.conceptionText}>
+                    {selectedDatePill.regimenDay.isBreak
+                      ? `Break day ${selectedDatePill.regimenDay.day - selectedDatePill.regimenDay.activeDays} — no pill today`
+                      : `Pill ${selectedDatePill.regimenDay.day} of ${selectedDatePill.regimenDay.activeDays} (pack ${selectedDatePill.regimenDay.packNumber})`}
+                  </Text>
+                  {!selectedDatePill.regimenDay.isBreak && selectedDate <= new Date() && (
+                    <View style={styles.flowChipsRow}>
+                      <TouchableOpacity
+                        style={[styles.flowChip, selectedDatePill.taken && styles.flowChipSelected]}
+                        onPress={() => handleSetPillTaken(selectedDate, !selectedDatePill.taken)}
+                      >
+                        <Text style={[styles.flowChipText, selectedDatePill.taken && styles.flowChipTextSelected]}>
+                          {selectedDatePill.taken ? 'Taken' : 'Mark as taken'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              )}
+
+              {/* Ovulation (LH) test: nothing to detect on hormonal contraception */}
+              {selectedDate && selectedDate <= new Date() && !periodDraft && !naturalCycleSuppressed && (
+                <View style={styles.flowContainer}>
+                  <Text style={styles.moodsTitle}>Ovulation Test</Text>
+                  <View style={styles.flowChipsRow}>
+                    {LH_RESULTS.map((result) => {
+                      const selected = selectedDateLHTest?.result === result;
+                      return (
+                        <TouchableOpacity
+                          key={result}
+                          style={[styles.flowChip, selected && styles.flowChipSelected]}
+                          onPress={() => handleSetLHTest(selectedDate, selected ? null : result, lhRatioText)}
+                        >
+                          <Text style={[styles.flowChipText, selected && styles.flowChipTextSelected]}>
+                            {LH_RESULT_LABELS[result]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {selectedDateLHTest && (
+                    <View style={styles.lhRatioRow}>
+                      <Text style={styles.lhRatioLabel}>Test/control ratio (optional)</Text>
+                      <TextInput
+                        style={styles.lhRatioInput}
+                        value={lhRatioText}
+                        placeholder="e.g. 1.2"
+                        placeholderTextColor={Colors.textSecondary}
+                        onChangeText={(text) => setLhRatioText(text.replace(/[^0-9.,]/g, ''))}
+                        onEndEditing={() => handleSetLHTest(selectedDate, selectedDateLHTest.result, lhRatioText)}
+                        keyboardType="decimal-pad"
+                        maxLength={4}
+                      />
+                    </View>
+                  )}
                 </View>
               )}
 
@@ -804,9 +1371,11 @@ export default function CalendarScreen() {
                 {selectedDateSymptoms.length > 0 ? (
                   selectedDateSymptoms.map((symptom) => (
                     <View key={symptom.id} style={styles.symptomItem}>
-                      <Text style={styles.symptomText}>
-                        {symptom.type} {symptom.severity ? `(Severity: ${symptom.severity}/5)` : ''}
-                      </Text>
+                      <SeverityPicker
+                        label={symptom.type}
+                        value={symptom.severity || 3}
+                        onChange={(severity) => handleUpdateSeverity(symptom, severity)}
+                      />
                     </View>
                   ))
                 ) : (
@@ -815,7 +1384,34 @@ export default function CalendarScreen() {
               </View>
             </ScrollView>
             <View style={styles.bottomActionArea}>
-              {(isFirstDayOfPeriod && selectedDatePeriod) || canLogPeriod ? (
+              {selectedDatePeriod && periodDraft ? (
+                <View style={styles.primaryActionsRow}>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.cancelEditButton]}
+                    onPress={() => {
+                      setPeriodDraft(null);
+                      setDraftPicker(null);
+                    }}
+                    disabled={isSavingPeriod}
+                  >
+                    <Text style={styles.cancelEditButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.logPeriodButton, isSavingPeriod && { opacity: 0.7 }]}
+                    onPress={() => handleSavePeriodEdit(selectedDatePeriod, periodDraft)}
+                    disabled={isSavingPeriod}
+                  >
+                    {isSavingPeriod ? (
+                      <ActivityIndicator color={Colors.white} size="small" />
+                    ) : (
+                      <>
+                        <Ionicons name="checkmark-circle-outline" size={20} color={Colors.white} />
+                        <Text style={styles.logPeriodButtonText}>Save</Text>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              ) : (isFirstDayOfPeriod && selectedDatePeriod) || canLogPeriod ? (
                 <View style={styles.primaryActionsRow}>
                   {isFirstDayOfPeriod && selectedDatePeriod && (
                     <TouchableOpacity
@@ -1042,6 +1638,18 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.textSecondary,
   },
+  forecastText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    lineHeight: 17,
+    marginTop: 4,
+  },
+  forecastLink: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginTop: 6,
+  },
   logPromptCard: {
     backgroundColor: Colors.primary,
     borderRadius: 28,
@@ -1133,6 +1741,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.primary,
   },
+  phaseInfoSubtext: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
   periodInfoContainer: {
     backgroundColor: '#FFE5ED',
     padding: 16,
@@ -1150,6 +1763,153 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginBottom: 4,
   },
+  periodInfoHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  periodEditLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+  },
+  periodEditLinkText: {
+    color: Colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  editRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  editLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  editFlowLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  editValueGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  editValueButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: Colors.white,
+  },
+  editValueText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  editValuePlaceholder: {
+    color: Colors.textSecondary,
+    fontWeight: '400',
+  },
+  flowChipsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  flowChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  flowChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  flowChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  flowChipTextSelected: {
+    color: Colors.white,
+  },
+  flowContainer: {
+    marginBottom: 16,
+  },
+  lhRatioRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  lhRatioLabel: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  lhRatioInput: {
+    width: 72,
+    fontSize: 14,
+    color: Colors.text,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    textAlign: 'center',
+  },
+  temperatureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+  },
+  temperatureText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  conceptionText: {
+    fontSize: 14,
+    color: Colors.text,
+    marginBottom: 10,
+  },
+  intercourseMarker: {
+    position: 'absolute',
+    top: 3,
+    right: 4,
+  },
+  dayFlowChip: {
+    paddingHorizontal: 4,
+  },
+  dayFlowChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  flowDotsRow: {
+    position: 'absolute',
+    bottom: 4,
+    flexDirection: 'row',
+    gap: 2,
+  },
+  flowDot: {
+    width: 3,
+    height: 3,
+    borderRadius: 1.5,
+    backgroundColor: PHASE_PALETTE.menstrual.color,
+  },
   loadingContainer: {
     marginVertical: 16,
     alignItems: 'center',
@@ -1217,6 +1977,16 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  cancelEditButton: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  cancelEditButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   closeButton: {
     paddingVertical: 14,
     borderRadius: 12,
@@ -15,9 +15,18 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../constants/Colors';
-import { chatWithAI, setClerkTokenGetter, getUserInfo } from '../../lib/api';
+import { setClerkTokenGetter, getUserInfo } from '../../lib/api';
+import { useChatStream } from '../../hooks/useChatStream';
+import {
+  createThreadId,
+  getChatThread,
+  saveChatThreadMessages,
+  trimMessagesForRequest,
+} from '../../lib/chatHistory';
 import { useAuth, useUser } from '@clerk/clerk-expo';
 import PeriLoader from '../../components/PeriLoader';
+import ChatContextSharingSheet from '../../components/ChatContextSharingSheet';
+import { useChatContext } from '../../hooks/useChatContext';
 
 interface Message {
   id: string;
@@ -66,7 +75,7 @@ export default function ChatScreen() {
   const router = useRouter();
   const { user } = useUser();
   const { getToken } = useAuth();
-  const params = useLocalSearchParams<{ initialMessage?: string }>();
+  const params = useLocalSearchParams<{ initialMessage?: string; threadId?: string }>();
   const insets = useSafeAreaInsets();
   const TAB_BAR_HEIGHT = 78;
   const [messages, setMessages] = useState<Message[]>([]);
@@ -77,6 +86,11 @@ export default function ChatScreen() {
   const scrollViewRef = useRef<ScrollView>(null);
   const initialMessageSent = useRef(false);
   const ensuredUserRef = useRef(false);
+  const { start: startStream, cancel: cancelStream, isStreaming } = useChatStream();
+  const threadIdRef = useRef(createThreadId());
+  const resumedMessagesRef = useRef<Message[] | null>(null);
+  const chatContext = useChatContext({ userId: user?.id ?? null });
+  const [sharingVisible, setSharingVisible] = useState(false);
 
   const userName = user?.firstName || user?.fullName?.split(' ')[0] || 'there';
 
@@ -122,6 +136,56 @@ export default function ChatScreen() {
     }, 100);
   }, [messages]);
 
+  // Resume a conversation picked in the history screen
+  useEffect(() => {
+    if (!params.threadId || params.threadId === threadIdRef.current) return;
+    let cancelled = false;
+    getChatThread(params.threadId).then((thread) => {
+      if (cancelled || !thread) return;
+      cancelStream();
+      const resumed = thread.messages.map((msg) => ({ ...msg, timestamp: new Date(msg.timestamp) }));
+      threadIdRef.current = thread.id;
+      resumedMessagesRef.current = resumed;
+      setMessages(resumed);
+      setShowQuickActions(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [params.threadId, cancelStream]);
+
+  // Save the conversation once each reply has finished streaming
+  useEffect(() => {
+    if (messages.length === 0 || isStreaming || messages === resumedMessagesRef.current) return;
+    saveChatThreadMessages(
+      threadIdRef.current,
+      messages.map((msg) => ({ ...msg, timestamp: msg.timestamp.toISOString() }))
+    ).catch((error) => console.warn('[Chat] Failed to save conversation:', error));
+  }, [messages, isStreaming]);
+
+  const handleNewConversation = useCallback(() => {
+    cancelStream();
+    threadIdRef.current = createThreadId();
+    resumedMessagesRef.current = null;
+    setMessages([]);
+    setShowQuickActions(true);
+    router.setParams({ threadId: '' });
+  }, [cancelStream, router]);
+
+  const handleOpenHistory = useCallback(() => {
+    router.push({ pathname: '/chat-history', params: { chatRoute: '/(tabs)/chat' } });
+  }, [router]);
+
+  // Create the assistant bubble on the first token, then grow it as the reply streams in
+  const upsertAssistantMessage = useCallback((id: string, content: string) => {
+    setMessages((prev) => {
+      if (prev.some((msg) => msg.id === id)) {
+        return prev.map((msg) => (msg.id === id ? { ...msg, content } : msg));
+      }
+      return [...prev, { id, role: 'assistant', content, timestamp: new Date() }];
+    });
+  }, []);
+
   const handleSendMessage = useCallback(async (messageText: string) => {
     if (!messageText.trim() || loading) return;
 
@@ -155,24 +219,33 @@ export default function ChatScreen() {
         }
       }
 
-      const messagesArray = updatedMessages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      }));
+      // Ground the answer in whatever cycle data the user chose to share
+      const contextMessages = chatContext.summary
+        ? [{
+            role: 'system',
+            content: `The user is chatting about their own menstrual health. Use this summary of their tracking data to personalise your answer, and mention it only when relevant: ${chatContext.summary}`,
+          }]
+        : [];
+      const messagesArray = [
+        ...contextMessages,
+        ...trimMessagesForRequest(updatedMessages).map(msg => ({
+          role: msg.role,
+          content: msg.content,
+        })),
+      ];
 
-      console.log('[Chat] Sending messages:', messagesArray);
-      const response = await chatWithAI(messagesArray);
-      
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response || 'I understand your question. Let me help you with that.',
-        timestamp: new Date(),
-      };
+      const assistantId = (Date.now() + 1).toString();
+      const { text, cancelled } = await startStream(messagesArray, {
+        symptoms: chatContext.symptoms.length ? chatContext.symptoms : undefined,
+        onText: (textSoFar) => upsertAssistantMessage(assistantId, textSoFar),
+      });
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (!text && !cancelled) {
+        upsertAssistantMessage(assistantId, 'I understand your question. Let me help you with that.');
+      }
     } catch (error: any) {
-      console.error('[Chat] Error details:', error);
+      // Not the error itself: axios errors carry the request body, health summary included
+      console.error('[Chat] Error details:', { status: error?.response?.status, message: error?.message });
       ensuredUserRef.current = false;
       let fallbackMessage =
         error?.response?.data?.error ||
@@ -194,7 +267,7 @@ export default function ChatScreen() {
     } finally {
       setLoading(false);
     }
-  }, [messages, loading, showQuickActions]);
+  }, [messages, loading, showQuickActions, startStream, upsertAssistantMessage, chatContext.summary, chatContext.symptoms]);
 
   const handleSend = useCallback(() => {
     handleSendMessage(inputText);
@@ -219,6 +292,31 @@ export default function ChatScreen() {
         style={styles.safeArea} 
         edges={['top']}
       >
+        <View style={styles.topBar}>
+          <TouchableOpacity
+            style={styles.topBarButton}
+            onPress={handleOpenHistory}
+            accessibilityLabel="Conversation history"
+          >
+            <Ionicons name="time-outline" size={22} color={Colors.text} />
+          </TouchableOpacity>
+          <View style={styles.topBarActions}>
+            <TouchableOpacity
+              style={styles.topBarButton}
+              onPress={() => setSharingVisible(true)}
+              accessibilityLabel="Choose what data the assistant can see"
+            >
+              <Ionicons name="shield-checkmark-outline" size={22} color={Colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.topBarButton}
+              onPress={handleNewConversation}
+              accessibilityLabel="New conversation"
+            >
+              <Ionicons name="create-outline" size={22} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
         <KeyboardAvoidingView
           style={styles.keyboardView}
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -283,7 +381,7 @@ export default function ChatScreen() {
                     </Text>
                   </View>
                 ))}
-                {loading && (
+                {loading && messages[messages.length - 1]?.role === 'user' && (
                   <View style={[styles.messageContainer, styles.assistantMessage, styles.loaderMessage]}>
                     <PeriLoader size={100} containerStyle={styles.loaderLottieContainer} />
                   </View>
@@ -305,21 +403,39 @@ export default function ChatScreen() {
               returnKeyType="send"
               blurOnSubmit={false}
             />
-            <TouchableOpacity
-              style={[styles.sendButton, (!inputText.trim() || loading) && styles.sendButtonDisabled]}
-              onPress={handleSend}
-              disabled={!inputText.trim() || loading}
-              activeOpacity={0.7}
-            >
-              <Ionicons
-                name="send"
-                size={20}
-                color={inputText.trim() && !loading ? Colors.white : Colors.textSecondary}
-              />
-            </TouchableOpacity>
+            {isStreaming ? (
+              <TouchableOpacity
+                style={styles.sendButton}
+                onPress={cancelStream}
+                activeOpacity={0.7}
+                accessibilityLabel="Stop answer"
+              >
+                <Ionicons name="stop" size={18} color={Colors.white} />
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.sendButton, (!inputText.trim() || loading) && styles.sendButtonDisabled]}
+                onPress={handleSend}
+                disabled={!inputText.trim() || loading}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name="send"
+                  size={20}
+                  color={inputText.trim() && !loading ? Colors.white : Colors.textSecondary}
+                />
+              </TouchableOpacity>
+            )}
           </View>
         </KeyboardAvoidingView>
       </SafeAreaView>
+      <ChatContextSharingSheet
+        visible={sharingVisible}
+        sharing={chatContext.sharing}
+        summary={chatContext.summary}
+        onChange={chatContext.updateSharing}
+        onClose={() => setSharingVisible(false)}
+      />
     </View>
   );
 }
@@ -344,6 +460,18 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.white,
   },
+  topBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  topBarActions: {
+    flexDirection: 'row',
+  },
+  topBarButton: {
+    padding: 8,
+  },
   keyboardView: {
     flex: 1,
   },
@@ -21,23 +21,19 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '../../constants/Colors';
 import { useAuth, useUser } from '@clerk/clerk-expo';
 import {
-  getPeriods,
-  getSettings,
-  getSymptoms,
-  getMoods,
   createPeriod,
-  Period,
-  UserSettings,
-  Symptom,
-  Mood,
   getReminderStatus,
 
   Reminder,
   getUserInfo,
   UserInfo,
   getCurrentViewModeRecord,
+  updateSettings,
+  TrackingGoal,
 } from '../../lib/api';
 import { buildCacheKey, getCachedData, setCachedData, CacheTTL } from '../../lib/cache';
+import { hydrateCycleStore, syncCycleStore, getCycleStoreSnapshot } from '../../lib/cycleStore';
+import { useCycleData } from '../../hooks/useCycleData';
 import {
   calculatePredictions,
   getDayInfo,
@@ -46,9 +42,10 @@ import {
   getPhaseNote,
   getPhaseDetailsForDate,
   buildEffectivePeriods,
-  generatePredictedPeriods,
+  resolvePredictedPeriods,
 } from '../../lib/periodCalculations';
 import { useAIPredictions, invalidatePredictionsCache } from '../../lib/aiPredictions';
+import { isPendingRecord } from '../../lib/outbox';
 import { PHASE_PALETTE, PhaseKey } from '../../constants/phasePalette';
 import { usePhase } from '../../contexts/PhaseContext';
 import { setClerkTokenGetter } from '../../lib/api';
@@ -56,8 +53,37 @@ import { Ionicons } from '@expo/vector-icons';
 import PeriLoader from '../../components/PeriLoader';
 import { Video } from 'expo-av';
 import { showToast } from '../../components/Toast';
+import RedFlagAlert from '../../components/RedFlagAlert';
+import CycleReviewPrompt from '../../components/CycleReviewPrompt';
+import SymptomsToWatchCard from '../../components/SymptomsToWatchCard';
+import ConceptionCard from '../../components/ConceptionCard';
+import PregnancyCard from '../../components/PregnancyCard';
+import PostpartumCard from '../../components/PostpartumCard';
+import ContraceptionCard from '../../components/ContraceptionCard';
+import { useRedFlagAlerts } from '../../hooks/useRedFlagAlerts';
+import { useCycleReviews } from '../../hooks/useCycleReviews';
+import { useTemperatureReadings } from '../../hooks/useTemperatureReadings';
+import { useIntercourseLog } from '../../hooks/useIntercourseLog';
+import { usePillLog } from '../../hooks/usePillLog';
+import { findConfirmedOvulations } from '../../lib/temperatureLog';
+import { FERTILE_SIGNAL_LABELS } from '../../lib/fertileWindow';
+import { conceptionChance, countCyclesTrying, suggestPregnancyTest, summarizeConceptionTiming } from '../../lib/conception';
+import { setIntercourse } from '../../lib/intercourseLog';
+import { arePredictionsPaused, getPostpartumStatus, getPregnancyProgress, settingsForGoal } from '../../lib/pregnancy';
+import {
+  CONTRACEPTION_LABELS,
+  getContraceptionNote,
+  getMissedPillGuidance,
+  getRegimenDay,
+  suppressesNaturalCycle,
+} from '../../lib/contraception';
+import { setPillTaken } from '../../lib/pillLog';
+import { daysBetween, formatDayKey, fromLocalDate, getToday } from '../../lib/calendarDate';
+import { isPeriodDay, periodStartDay } from '../../lib/periodRange';
+import { CycleReviewAnswer, findPendingCycleReview, saveCycleReview } from '../../lib/cycleReview';
 
 const { width } = Dimensions.get('window');
+const SYMPTOMS_LEAD_DAYS = 3; // symptoms to watch show up this many days before PMS is due
 const CIRCLE_RADIUS = 155;
 const SVG_SIZE = 400;
 
@@ -71,6 +97,15 @@ const formatDisplayName = (value: string) => {
     .join(' ');
 };
 
+const formatRefreshedAgo = (date: Date) => {
+  const minutes = Math.round((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+};
+
 const getTimeGreeting = () => {
   const hour = new Date().getHours();
   if (hour < 12) return 'Good morning';
@@ -85,10 +120,29 @@ export default function HomeScreen() {
   const { phaseColors } = usePhase();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [periods, setPeriods] = useState<Period[]>([]);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
-  const [todaySymptoms, setTodaySymptoms] = useState<Symptom[]>([]);
-  const [todayMoods, setTodayMoods] = useState<Mood[]>([]);
+  const cycleData = useCycleData();
+  const redFlags = useRedFlagAlerts();
+  const { periods, settings } = cycleData;
+  const cycleReviews = useCycleReviews();
+  const pendingCycleReview = useMemo(
+    () => findPendingCycleReview(periods, settings, cycleReviews),
+    [periods, settings, cycleReviews]
+  );
+  const [isSavingReview, setIsSavingReview] = useState(false);
+  const { todaySymptoms, todayMoods } = useMemo(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setHours(23, 59, 59, 999);
+    const isToday = (date: string) => {
+      const time = new Date(date).getTime();
+      return time >= start.getTime() && time <= end.getTime();
+    };
+    return {
+      todaySymptoms: cycleData.symptoms.filter((symptom) => isToday(symptom.date)),
+      todayMoods: cycleData.moods.filter((mood) => isToday(mood.date)),
+    };
+  }, [cycleData.symptoms, cycleData.moods]);
   const [userName, setUserName] = useState<string>('');
   const [userInfo, setUserInfo] = useState<any>(null); // Store user info to check if viewing someone else
   const [lastReminder, setLastReminder] = useState<Reminder | null>(null);
@@ -115,6 +169,28 @@ export default function HomeScreen() {
   }, [videoVisible]);
 
 
+  const handleCycleReviewAnswer = useCallback(
+    async (answer: CycleReviewAnswer) => {
+      if (!pendingCycleReview) return;
+      setIsSavingReview(true);
+      try {
+        await saveCycleReview(pendingCycleReview.key, answer);
+        showToast(
+          answer === 'missed_log'
+            ? 'Thanks! That cycle won’t skew your predictions. You can add the missed period from the calendar.'
+            : 'Thanks! Your predictions have been updated.',
+          'success'
+        );
+      } catch (error) {
+        console.error('[Home] Failed to save cycle review:', error);
+        showToast('Could not save your answer. Please try again.', 'error');
+      } finally {
+        setIsSavingReview(false);
+      }
+    },
+    [pendingCycleReview]
+  );
+
   // Set up token getter
   useEffect(() => {
     if (getToken) {
@@ -173,7 +249,7 @@ export default function HomeScreen() {
   );
 
   // Use AI predictions with automatic caching and fallback
-  const { predictions, loading: aiLoading, isUsingAI } = useAIPredictions(
+  const { predictions, aiResponse, loading: aiLoading, isUsingAI, lastRefreshedAt, isStale } = useAIPredictions(
     periods.length > 0 ? periods : displayPeriods,
     settings,
     user?.id || null
@@ -194,16 +270,22 @@ export default function HomeScreen() {
     return currentPeriodInfo !== null;
   }, [currentPeriodInfo]);
 
+  const temperatureReadings = useTemperatureReadings();
+  const confirmedOvulations = useMemo(
+    () => findConfirmedOvulations(displayPeriods, temperatureReadings),
+    [displayPeriods, temperatureReadings]
+  );
+
   const currentCycleInfo = useMemo(() => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    const phaseDetail = getPhaseDetailsForDate(today, displayPeriods, predictions, settings);
+    const phaseDetail = getPhaseDetailsForDate(today, displayPeriods, predictions, settings, confirmedOvulations);
 
     // Handle null phase detail (no phase information available)
     if (!phaseDetail) {
       // Default to follicular phase with default metadata
       const defaultMetadata = PHASE_PALETTE.follicular;
-      const dayInfo = getDayInfo(today, displayPeriods, predictions);
+      const dayInfo = getDayInfo(today, displayPeriods, predictions, settings);
 
       const sortedPeriods = [...displayPeriods].sort(
         (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
@@ -211,12 +293,7 @@ export default function HomeScreen() {
 
       let cycleDay = 1;
       if (sortedPeriods.length > 0) {
-        const lastPeriodStart = new Date(sortedPeriods[0].startDate);
-        lastPeriodStart.setHours(0, 0, 0, 0);
-        const daysSinceLastPeriod = Math.floor(
-          (today.getTime() - lastPeriodStart.getTime()) / (1000 * 60 * 60 * 24)
-        );
-        cycleDay = daysSinceLastPeriod + 1;
+        cycleDay = daysBetween(periodStartDay(sortedPeriods[0]), fromLocalDate(today)) + 1;
       }
 
       return {
@@ -231,7 +308,7 @@ export default function HomeScreen() {
     }
 
     const metadata = PHASE_PALETTE[phaseDetail.phase];
-    const dayInfo = getDayInfo(today, displayPeriods, predictions);
+    const dayInfo = getDayInfo(today, displayPeriods, predictions, settings);
 
     const sortedPeriods = [...displayPeriods].sort(
       (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
@@ -239,18 +316,13 @@ export default function HomeScreen() {
 
     let cycleDay = 1;
     if (sortedPeriods.length > 0) {
-      const lastPeriodStart = new Date(sortedPeriods[0].startDate);
-      lastPeriodStart.setHours(0, 0, 0, 0);
-      const daysSinceLastPeriod = Math.floor(
-        (today.getTime() - lastPeriodStart.getTime()) / (1000 * 60 * 60 * 24)
-      );
-      cycleDay = daysSinceLastPeriod + 1;
+      cycleDay = daysBetween(periodStartDay(sortedPeriods[0]), fromLocalDate(today)) + 1;
     }
 
     const phaseStart = phaseDetail.phaseStart;
     let phaseDay = 1;
     if (phaseStart) {
-      const diff = Math.floor((today.getTime() - phaseStart.getTime()) / (1000 * 60 * 60 * 24));
+      const diff = daysBetween(fromLocalDate(phaseStart), fromLocalDate(today));
       phaseDay = diff >= 0 ? diff + 1 : 1;
     }
 
@@ -263,32 +335,158 @@ export default function HomeScreen() {
       dayInfo,
       isPredicted: phaseDetail.isPredicted,
     };
-  }, [displayPeriods, predictions, settings]);
+  }, [displayPeriods, predictions, settings, confirmedOvulations]);
 
   const daysUntilPeriod = useMemo(() => {
     if (isOnPeriod || !predictions.nextPeriodDate) return null;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const nextPeriod = new Date(predictions.nextPeriodDate);
-    nextPeriod.setHours(0, 0, 0, 0);
-    const diff = Math.ceil((nextPeriod.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const diff = daysBetween(getToday(), fromLocalDate(new Date(predictions.nextPeriodDate)));
     return diff > 0 ? diff : null;
   }, [predictions.nextPeriodDate, isOnPeriod]);
 
   const upcomingPredicted = useMemo(() => {
     // Generate predictions for 6 months ahead
-    const base = generatePredictedPeriods(periods.length > 0 ? periods : displayPeriods, settings, 6);
+    const base = resolvePredictedPeriods(periods.length > 0 ? periods : displayPeriods, settings, predictions, 6);
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     const future = base.filter((cycle) => cycle.startDate.getTime() > today.getTime());
     return future;
-  }, [periods, displayPeriods, settings]);
+  }, [periods, displayPeriods, settings, predictions]);
+
+  // The AI's symptoms to watch, only in the run-up to the next period
+  const symptomsToWatch = useMemo(() => {
+    const symptoms = isUsingAI ? aiResponse?.predictions?.pms_likelihood?.symptoms_to_watch ?? [] : [];
+    if (isOnPeriod || symptoms.length === 0 || !predictions.pmsStart || !predictions.nextPeriodDate) return null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const pmsStart = new Date(predictions.pmsStart);
+    pmsStart.setHours(0, 0, 0, 0);
+    const showFrom = new Date(pmsStart);
+    showFrom.setDate(showFrom.getDate() - SYMPTOMS_LEAD_DAYS);
+    if (today < showFrom || today >= new Date(predictions.nextPeriodDate)) return null;
+    return {
+      symptoms,
+      pmsStart,
+      recommendation: aiResponse?.health_insights?.recommendations?.[0] ?? null,
+    };
+  }, [isUsingAI, aiResponse, isOnPeriod, predictions.pmsStart, predictions.nextPeriodDate]);
+
+  // Trying-to-conceive mode: today's chance, timing this cycle and when to test
+  const intercourseLog = useIntercourseLog();
+  const [isLoggingIntercourse, setIsLoggingIntercourse] = useState(false);
+  const conception = useMemo(() => {
+    const cycleNumber = countCyclesTrying(displayPeriods, settings);
+    if (cycleNumber === null) return null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const todayKey = formatDayKey(getToday());
+    return {
+      cycleNumber,
+      todayChance: conceptionChance(today, predictions),
+      timing: summarizeConceptionTiming(predictions, intercourseLog),
+      testSuggestion: suggestPregnancyTest(predictions, displayPeriods),
+      loggedToday: intercourseLog.some((entry) => entry.date === todayKey),
+    };
+  }, [displayPeriods, settings, predictions, intercourseLog]);
+
+  // Pregnancy and postpartum: predictions are paused and these cards take their place
+  const pregnancy = useMemo(() => getPregnancyProgress(settings), [settings]);
+  const postpartum = useMemo(() => getPostpartumStatus(displayPeriods, settings), [displayPeriods, settings]);
+  const predictionsPaused = useMemo(() => arePredictionsPaused(displayPeriods, settings), [displayPeriods, settings]);
+  const [isChangingGoal, setIsChangingGoal] = useState(false);
+
+  const handleChangeGoal = useCallback(
+    async (goal: TrackingGoal, options?: { birthDate?: Date; breastfeeding?: boolean }) => {
+      setIsChangingGoal(true);
+      try {
+        await updateSettings(settingsForGoal(goal, settings, displayPeriods, options));
+        DeviceEventEmitter.emit('settingsUpdated');
+      } catch (error: any) {
+        console.error('[Home] Failed to change goal:', error);
+        showToast(error.message || 'Could not update your goal. Please try again.', 'error');
+      } finally {
+        setIsChangingGoal(false);
+      }
+    },
+    [settings, displayPeriods]
+  );
+
+  const handleBabyArrived = useCallback(() => {
+    const arrived = (breastfeeding: boolean) =>
+      handleChangeGoal('postpartum', { birthDate: new Date(), breastfeeding });
+    Alert.alert('Congratulations!', 'Are you breastfeeding? It changes when your period is likely to come back.', [
+      { text: 'Yes', onPress: () => arrived(true) },
+      { text: 'No', onPress: () => arrived(false) },
+    ]);
+  }, [handleChangeGoal]);
+
+  const handlePregnant = useCallback(() => {
+    Alert.alert('Switch to pregnancy mode?', 'Period predictions will pause and your due date will be worked out from your last period.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Switch', onPress: () => handleChangeGoal('pregnant') },
+    ]);
+  }, [handleChangeGoal]);
+
+  // Hormonal contraception: bleeds follow the pack, which replaces phases and fertile days
+  const pillLog = usePillLog();
+  const [isLoggingPill, setIsLoggingPill] = useState(false);
+  const naturalCycleSuppressed = suppressesNaturalCycle(settings);
+  const contraception = useMemo(() => {
+    if (!settings?.contraception) return null;
+    const todayKey = formatDayKey(getToday());
+    return {
+      method: settings.contraception,
+      regimenDay: getRegimenDay(settings),
+      missedPills: getMissedPillGuidance(settings, pillLog),
+      takenToday: pillLog.some((entry) => entry.date === todayKey),
+      note: getContraceptionNote(settings),
+    };
+  }, [settings, pillLog]);
+
+  const handleTogglePillToday = useCallback(async () => {
+    if (!contraception) return;
+    setIsLoggingPill(true);
+    try {
+      await setPillTaken(new Date(), !contraception.takenToday);
+    } catch (error) {
+      console.error('[Home] Failed to log pill:', error);
+      showToast('Could not save. Please try again.', 'error');
+    } finally {
+      setIsLoggingPill(false);
+    }
+  }, [contraception]);
+
+  const handleToggleIntercourseToday = useCallback(async () => {
+    if (!conception) return;
+    setIsLoggingIntercourse(true);
+    try {
+      await setIntercourse(new Date(), conception.loggedToday ? null : { protected: false });
+    } catch (error) {
+      console.error('[Home] Failed to log intercourse:', error);
+      showToast('Could not save. Please try again.', 'error');
+    } finally {
+      setIsLoggingIntercourse(false);
+    }
+  }, [conception]);
 
   // Check if user has no period data
   const hasNoPeriodData = useMemo(() => {
     return displayPeriods.length === 0;
   }, [displayPeriods.length]);
 
+  // Centre of the circle on hormonal contraception: day of the pack or break, or days since the last bleed
+  const contraceptionDial = useMemo(() => {
+    if (!naturalCycleSuppressed) return null;
+    const regimenDay = contraception?.regimenDay;
+    if (regimenDay) {
+      return regimenDay.isBreak
+        ? { value: String(regimenDay.day - regimenDay.activeDays), caption: 'day of break' }
+        : { value: String(regimenDay.day), caption: regimenDay.method === 'pill' ? 'day of pack' : 'day of cycle' };
+    }
+    return hasNoPeriodData
+      ? { value: '—', caption: 'no bleeds logged' }
+      : { value: String(currentCycleInfo.cycleDay - 1), caption: 'days since last bleed' };
+  }, [naturalCycleSuppressed, contraception, hasNoPeriodData, currentCycleInfo.cycleDay]);
+
   const phaseGradientColors = useMemo((): [string, string, string] => {
     return currentCycleInfo.phaseMeta.gradient;
   }, [currentCycleInfo.phaseMeta]);
@@ -332,73 +530,34 @@ export default function HomeScreen() {
         scopeIdentifier ?? 'self',
       ]);
 
-      const periodsCacheKey = buildCacheKey(['periods', cacheScope]);
-      const settingsCacheKey = buildCacheKey(['settings', cacheScope]);
-
-      // We'll fetch cache items together below
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(today);
-      endOfDay.setHours(23, 59, 59, 999);
-
-      const symptomsCacheKey = buildCacheKey(['symptoms', cacheScope, today.toISOString(), endOfDay.toISOString()]);
-      const moodsCacheKey = buildCacheKey(['moods', cacheScope, today.toISOString(), endOfDay.toISOString()]);
       const remindersCacheKey = buildCacheKey(['reminders', cacheScope]);
 
-      // 1. FAST CACHE LOAD (Parallel)
-      const [
-        cachedPeriods,
-        cachedSettings,
-        cachedSymptoms,
-        cachedMoods,
-        cachedReminderStatus
-      ] = await Promise.all([
-        getCachedData<Period[]>(periodsCacheKey),
-        getCachedData<UserSettings | null>(settingsCacheKey),
-        getCachedData<Symptom[]>(symptomsCacheKey),
-        getCachedData<Mood[]>(moodsCacheKey),
+      // 1. FAST LOCAL LOAD (Parallel) - persisted store plus cached reminder status
+      const [, cachedReminderStatus] = await Promise.all([
+        hydrateCycleStore(),
         getCachedData<{ enabled: boolean; lastReminder: Reminder | null }>(remindersCacheKey)
       ]);
 
-      if (cachedPeriods !== undefined) setPeriods(cachedPeriods);
-      if (cachedSettings !== undefined) setSettings(cachedSettings);
-      if (cachedSymptoms !== undefined) setTodaySymptoms(cachedSymptoms);
-      if (cachedMoods !== undefined) setTodayMoods(cachedMoods);
       if (cachedReminderStatus !== undefined) {
         setReminderEnabled(cachedReminderStatus.enabled);
         setLastReminder(cachedReminderStatus.lastReminder);
       }
 
-      // If we got *any* critical data from cache, hide spinner immediately
-      if (cachedPeriods !== undefined || cachedSettings !== undefined) {
+      // If the store has synced before, its data is good enough to render
+      if (getCycleStoreSnapshot().lastSyncedAt !== null) {
         showSpinner = false;
         setLoading(false);
       } else {
         setLoading(showSpinner);
       }
 
-      // 2. BACKGROUND REVALIDATE (Network Fetch)
-      // Pass forceRefresh = true to hit network instead of reading from cache again
-      const [
-        periodsData, 
-        settingsData, 
-        symptoms, 
-        moods, 
-        reminderStatus
-      ] = await Promise.all([
-        getPeriods(true).catch(() => cachedPeriods || []),
-        getSettings(true).catch(() => cachedSettings || null),
-        getSymptoms(today.toISOString(), endOfDay.toISOString(), true).catch(() => cachedSymptoms || []),
-        getMoods(today.toISOString(), endOfDay.toISOString(), true).catch(() => cachedMoods || []),
+      // 2. BACKGROUND SYNC - push queued writes, pull changes since the last sync
+      const [, reminderStatus] = await Promise.all([
+        syncCycleStore({ full: refreshing }),
         getReminderStatus(true).catch(() => cachedReminderStatus || { enabled: false, lastReminder: null }),
       ]);
 
       // 3. SILENT STATE UPDATE
-      setPeriods(periodsData);
-      setSettings(settingsData);
-      setTodaySymptoms(symptoms);
-      setTodayMoods(moods);
       setReminderEnabled(reminderStatus.enabled);
       setLastReminder(reminderStatus.lastReminder);
 
@@ -472,34 +631,30 @@ export default function HomeScreen() {
       endDate.setDate(endDate.getDate() + periodLength - 1);
       endDate.setHours(23, 59, 59, 999);
 
-      // Always use current period length setting for overlap checks
-      const overlapsExisting = periods.some((period) => {
-        const start = new Date(period.startDate);
-        start.setHours(0, 0, 0, 0);
-        // Always calculate end date using current period length setting
-        // If period length is 5, days are 0,1,2,3,4 (5 days total)
-        const existingEnd = new Date(period.startDate);
-        existingEnd.setHours(0, 0, 0, 0);
-        existingEnd.setDate(existingEnd.getDate() + periodLength - 1);
-        existingEnd.setHours(23, 59, 59, 999); // Set to end of day
-        return today >= start && today <= existingEnd;
-      });
+      // A logged period's own end date wins; the length setting is only for open periods
+      const overlapsExisting = periods.some((period) => isPeriodDay(fromLocalDate(today), period, periodLength));
 
       if (overlapsExisting) {
         Alert.alert('Period Already Logged', 'Today is already part of a logged period.');
         return;
       }
 
-      await createPeriod({
+      // Flow is filled in from the per-day entries logged on the calendar
+      const created = await createPeriod({
         startDate: today.toISOString(),
         endDate: endDate.toISOString(),
-        flowLevel: 'medium',
+        flowLevel: null,
       });
 
       // Invalidate AI predictions cache to trigger background refresh
       await invalidatePredictionsCache();
 
-      showToast('Period logged successfully', 'success');
+      showToast(
+        isPendingRecord(created)
+          ? "Saved offline — we'll sync it when you're back online"
+          : 'Period logged successfully',
+        'success'
+      );
       loadData();
       DeviceEventEmitter.emit('periodsUpdated');
     } catch (error: any) {
@@ -530,11 +685,7 @@ export default function HomeScreen() {
   const ovulationArc = useMemo(() => {
     if (!predictions.ovulationDate) return null;
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const ovDate = new Date(predictions.ovulationDate);
-    ovDate.setHours(0, 0, 0, 0);
-    const daysUntilOv = Math.ceil((ovDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const daysUntilOv = daysBetween(getToday(), fromLocalDate(new Date(predictions.ovulationDate)));
 
     if (daysUntilOv >= 0 && daysUntilOv < 30) {
       const arcRadius = 185;
@@ -552,9 +703,6 @@ export default function HomeScreen() {
 
   // Memoize period arc
   const periodArc = useMemo(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
     // If on period, show current period arc
     if (isOnPeriod && currentPeriodInfo) {
       const arcRadius = 185;
@@ -569,9 +717,7 @@ export default function HomeScreen() {
 
     // If not on period, show next period arc
     if (predictions.nextPeriodDate && !isOnPeriod) {
-      const periodDate = new Date(predictions.nextPeriodDate);
-      periodDate.setHours(0, 0, 0, 0);
-      const daysUntilPeriod = Math.ceil((periodDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+      const daysUntilPeriod = daysBetween(getToday(), fromLocalDate(new Date(predictions.nextPeriodDate)));
 
       if (daysUntilPeriod >= 0 && daysUntilPeriod < 30) {
         const arcRadius = 185;
@@ -665,6 +811,69 @@ export default function HomeScreen() {
             </View>
           </View>
 
+          {redFlags.active[0] && (
+            <RedFlagAlert
+              alert={redFlags.active[0]}
+              onDismiss={() => redFlags.dismiss(redFlags.active[0].key)}
+              onViewHistory={() => router.push('/health-alerts')}
+            />
+          )}
+
+          {pendingCycleReview && (
+            <CycleReviewPrompt
+              gap={pendingCycleReview}
+              onAnswer={handleCycleReviewAnswer}
+              disabled={isSavingReview}
+            />
+          )}
+
+          {conception && (
+            <ConceptionCard
+              cycleNumber={conception.cycleNumber}
+              todayChance={conception.todayChance}
+              timing={conception.timing}
+              testSuggestion={conception.testSuggestion}
+              loggedToday={conception.loggedToday}
+              onToggleToday={handleToggleIntercourseToday}
+              onPregnant={handlePregnant}
+              disabled={isLoggingIntercourse || isChangingGoal}
+            />
+          )}
+
+          {pregnancy && (
+            <PregnancyCard progress={pregnancy} onBabyArrived={handleBabyArrived} disabled={isChangingGoal} />
+          )}
+
+          {postpartum && (
+            <PostpartumCard
+              status={postpartum}
+              onResumeTracking={() => handleChangeGoal('track_cycle')}
+              disabled={isChangingGoal}
+            />
+          )}
+
+          {contraception && (
+            <ContraceptionCard
+              method={contraception.method}
+              regimenDay={contraception.regimenDay}
+              missedPills={contraception.missedPills}
+              takenToday={contraception.takenToday}
+              note={contraception.note}
+              onTogglePill={handleTogglePillToday}
+              onManage={() => router.push('/contraception')}
+              disabled={isLoggingPill}
+            />
+          )}
+
+          {symptomsToWatch && (
+            <SymptomsToWatchCard
+              symptoms={symptomsToWatch.symptoms}
+              pmsStart={symptomsToWatch.pmsStart}
+              recommendation={symptomsToWatch.recommendation}
+              onOpenForecast={() => router.push('/ai-forecast')}
+            />
+          )}
+
           {/* Center Circle */}
           <View style={styles.circleContainer}>
             {/* Heart Image Background */}
@@ -747,12 +956,66 @@ export default function HomeScreen() {
                   fill="#333"
                   fontWeight="600"
                 >
-                  {`${currentCycleInfo.phaseMeta.emoji} ${currentCycleInfo.phaseMeta.shortLabel}`}
-                  {currentCycleInfo.isPredicted ? ' (predicted)' : ''}
+                  {pregnancy
+                    ? `🤰 Trimester ${pregnancy.trimester}`
+                    : postpartum && predictionsPaused
+                      ? '👶 Postpartum'
+                      : naturalCycleSuppressed
+                        ? contraception?.regimenDay?.isBreak
+                          ? '🩸 Break'
+                          : `💊 ${CONTRACEPTION_LABELS[contraception!.method]}`
+                        : `${currentCycleInfo.phaseMeta.emoji} ${currentCycleInfo.phaseMeta.shortLabel}${currentCycleInfo.isPredicted ? ' (predicted)' : ''}`}
                 </SvgText>
 
                 {/* Center content: Phase day or days left */}
-                {hasNoPeriodData ? (
+                {pregnancy || (postpartum && predictionsPaused) ? (
+                  // Weeks pregnant, or weeks since the birth while waiting for periods to return
+                  <>
+                    <SvgText
+                      x="200"
+                      y="195"
+                      textAnchor="middle"
+                      fontSize="60"
+                      fill="#000"
+                      fontWeight="bold"
+                    >
+                      {pregnancy ? pregnancy.week : postpartum!.weeksSinceBirth}
+                    </SvgText>
+                    <SvgText
+                      x="200"
+                      y="220"
+                      textAnchor="middle"
+                      fontSize="14"
+                      fill="#666"
+                      fontWeight="500"
+                    >
+                      {pregnancy ? 'weeks pregnant' : 'weeks since birth'}
+                    </SvgText>
+                  </>
+                ) : contraceptionDial ? (
+                  <>
+                    <SvgText
+                      x="200"
+                      y="195"
+                      textAnchor="middle"
+                      fontSize="60"
+                      fill="#000"
+                      fontWeight="bold"
+                    >
+                      {contraceptionDial.value}
+                    </SvgText>
+                    <SvgText
+                      x="200"
+                      y="220"
+                      textAnchor="middle"
+                      fontSize="14"
+                      fill="#666"
+                      fontWeight="500"
+                    >
+                      {contraceptionDial.caption}
+                    </SvgText>
+                  </>
+                ) : hasNoPeriodData ? (
                   // Blank state when no period data
                   <>
                     <SvgText
@@ -835,7 +1098,7 @@ export default function HomeScreen() {
                   fill="#666"
                   fontWeight="600"
                 >
-                  Next Period
+                  {pregnancy ? 'Due Date' : naturalCycleSuppressed ? 'Next Bleed' : 'Next Period'}
                 </SvgText>
                 <SvgText
                   x="200"
@@ -845,26 +1108,36 @@ export default function HomeScreen() {
                   fill="#666"
                   fontWeight="500"
                 >
-                  {hasNoPeriodData || !predictions.nextPeriodDate
-                    ? 'Calculating...'
-                    : `will start on - ${new Date(predictions.nextPeriodDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }).toLowerCase()}`}
+                  {pregnancy
+                    ? pregnancy.dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+                    : predictionsPaused
+                      ? 'paused until it returns'
+                      : naturalCycleSuppressed
+                        ? predictions.nextPeriodDate
+                          ? `expected from - ${new Date(predictions.nextPeriodDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }).toLowerCase()}`
+                          : 'not predicted'
+                        : hasNoPeriodData || !predictions.nextPeriodDate
+                          ? 'Calculating...'
+                          : `will start on - ${new Date(predictions.nextPeriodDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }).toLowerCase()}`}
                 </SvgText>
               </Svg>
             </View>
 
             {/* Log Period Button - inside circle */}
-            <TouchableOpacity
-              style={[styles.logPeriodButtonInside, isLoggingPeriod && { opacity: 0.7 }]}
-              onPress={handleLogPeriod}
-              activeOpacity={0.7}
-              disabled={isLoggingPeriod}
-            >
-              {isLoggingPeriod ? (
-                <ActivityIndicator color={Colors.primary} size="small" />
-              ) : (
-                <Text style={styles.logPeriodButtonTextInside}>Log Period</Text>
-              )}
-            </TouchableOpacity>
+            {!pregnancy && (
+              <TouchableOpacity
+                style={[styles.logPeriodButtonInside, isLoggingPeriod && { opacity: 0.7 }]}
+                onPress={handleLogPeriod}
+                activeOpacity={0.7}
+                disabled={isLoggingPeriod}
+              >
+                {isLoggingPeriod ? (
+                  <ActivityIndicator color={Colors.primary} size="small" />
+                ) : (
+                  <Text style={styles.logPeriodButtonTextInside}>{naturalCycleSuppressed ? 'Log Bleed' : 'Log Period'}</Text>
+                )}
+              </TouchableOpacity>
+            )}
 
             {/* Mascot (Giraffe) in bottom-right */}
             <View style={styles.mascotContainer}>
@@ -873,7 +1146,7 @@ export default function HomeScreen() {
           </View>
 
           {/* Cycle Phase Cards */}
-          {!hasNoPeriodData && (
+          {(!hasNoPeriodData || naturalCycleSuppressed) && (
             <View style={styles.phaseCardsContainer}>
               {predictions.fertileWindowStart && predictions.fertileWindowEnd && (
                 <View style={[styles.phaseCard, styles.fertilityCard]}>
@@ -887,6 +1160,11 @@ export default function HomeScreen() {
                       day: 'numeric',
                     })}`}
                   </Text>
+                  {!!predictions.fertileWindowSignals?.length && (
+                    <Text style={styles.phaseCardRangeText} numberOfLines={1}>
+                      {predictions.fertileWindowSignals.map((signal) => FERTILE_SIGNAL_LABELS[signal.kind]).join(' + ')}
+                    </Text>
+                  )}
                   <View style={styles.phaseCardIcon}>
                     <Image
                       source={require('../../assets/images/images/heart_icon.png')}
@@ -918,7 +1196,11 @@ export default function HomeScreen() {
 
               {(predictions.nextPeriodDate || isOnPeriod) && (
                 <View style={[styles.phaseCard, styles.periodCard]}>
-                  <Text style={styles.phaseCardLabel}>{isOnPeriod ? 'On Your Period' : 'Next Period'}</Text>
+                  <Text style={styles.phaseCardLabel}>
+                    {naturalCycleSuppressed
+                      ? isOnPeriod ? 'Bleeding' : 'Next Bleed'
+                      : isOnPeriod ? 'On Your Period' : 'Next Period'}
+                  </Text>
                   <Text style={styles.phaseCardDateText}>
                     {isOnPeriod && currentPeriodInfo
                       ? `Day ${currentPeriodInfo.dayNumber}`
@@ -929,6 +1211,24 @@ export default function HomeScreen() {
                         })
                         : '—'}
                   </Text>
+                  {!isOnPeriod && predictions.nextPeriodWindow && (
+                    <Text style={styles.phaseCardRangeText}>
+                      {`Likely ${new Date(predictions.nextPeriodWindow.start).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                      })} – ${new Date(predictions.nextPeriodWindow.end).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                      })}`}
+                    </Text>
+                  )}
+                  {!isOnPeriod && isUsingAI && lastRefreshedAt && (
+                    <Text style={styles.phaseCardRangeText}>
+                      {aiLoading && isStale
+                        ? 'AI forecast refreshing…'
+                        : `AI forecast updated ${formatRefreshedAgo(lastRefreshedAt)}`}
+                    </Text>
+                  )}
                   <View style={styles.phaseCardIcon}>
                     <Image
                       source={require('../../assets/images/images/drop_icon.png')}
@@ -1057,10 +1357,14 @@ export default function HomeScreen() {
 
           {upcomingPredicted.length > 0 && (
             <View style={styles.futureCard}>
-              <Text style={styles.futureHeading}>Upcoming periods (next 6 months)</Text>
+              <View style={styles.futureHeadingRow}>
+                <Text style={styles.futureHeading}>Upcoming periods (next 6 months)</Text>
+                <TouchableOpacity onPress={() => router.push('/ai-forecast')}>
+                  <Text style={styles.futureLink}>Details</Text>
+                </TouchableOpacity>
+              </View>
               {upcomingPredicted.slice(0, 12).map((cycle, index) => {
-                const cycleLengthDays =
-                  Math.round((cycle.endDate.getTime() - cycle.startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+                const cycleLengthDays = daysBetween(fromLocalDate(cycle.startDate), fromLocalDate(cycle.endDate)) + 1;
                 return (
                   <View key={`${cycle.startDate.toISOString()}-${index}`} style={styles.futureRow}>
                     <View>
@@ -1075,7 +1379,12 @@ export default function HomeScreen() {
                         {cycle.startDate.toLocaleDateString('en-US', { weekday: 'short' })}
                       </Text>
                     </View>
-                    <Text style={styles.futureDuration}>{cycleLengthDays} day{cycleLengthDays === 1 ? '' : 's'}</Text>
+                    <View style={styles.futureRight}>
+                      <Text style={styles.futureDuration}>{cycleLengthDays} day{cycleLengthDays === 1 ? '' : 's'}</Text>
+                      {typeof cycle.confidence === 'number' && (
+                        <Text style={styles.futureLabel}>{Math.round(cycle.confidence)}% confidence</Text>
+                      )}
+                    </View>
                   </View>
                 );
               })}
@@ -1271,6 +1580,12 @@ const styles = StyleSheet.create({
     color: '#1E2432',
     textAlign: 'left',
   },
+  phaseCardRangeText: {
+    fontSize: 10,
+    color: '#666',
+    textAlign: 'left',
+    marginTop: 2,
+  },
   phaseCardLabel: {
     fontSize: 16,
     fontWeight: '700',
@@ -1444,11 +1759,27 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 3,
   },
+  futureHeadingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
   futureHeading: {
+    flex: 1,
     fontSize: 18,
     fontWeight: 'bold',
     color: Colors.text,
-    marginBottom: 16,
+  },
+  futureLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginLeft: 12,
+    marginTop: 3,
+  },
+  futureRight: {
+    alignItems: 'flex-end',
   },
   futureRow: {
     flexDirection: 'row',
@@ -1,17 +1,30 @@
 import { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, DeviceEventEmitter } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, TextInput, DeviceEventEmitter, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { Colors } from '../../constants/Colors';
 import { useAuth, useUser } from '@clerk/clerk-expo';
-import { getSettings, updateSettings, UserSettings, setViewMode } from '../../lib/api';
+import { getSettings, updateSettings, UserSettings, setViewMode, TrackingGoal } from '../../lib/api';
 import { setClerkTokenGetter } from '../../lib/api';
-import { clearStoredPushToken } from '../../lib/notifications';
+import { clearStoredPushToken, cancelCycleReminders } from '../../lib/notifications';
+import { settingsForGoal } from '../../lib/pregnancy';
+import { CONTRACEPTION_LABELS } from '../../lib/contraception';
+import { buildEffectivePeriods } from '../../lib/periodCalculations';
+import { useCycleData } from '../../hooks/useCycleData';
 import PeriLoader from '../../components/PeriLoader';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { showToast } from '../../components/Toast';
 
+const REMINDER_DAY_OPTIONS = [1, 2, 3, 5];
+
+const GOAL_OPTIONS: { goal: TrackingGoal; label: string; hint: string }[] = [
+  { goal: 'track_cycle', label: 'Track my cycle', hint: 'Periods, phases and symptoms' },
+  { goal: 'conceive', label: 'Trying to conceive', hint: 'Daily chance of conceiving, timing and when to test' },
+  { goal: 'pregnant', label: 'Pregnant', hint: 'Week-by-week progress; period predictions paused' },
+  { goal: 'postpartum', label: 'Had a baby', hint: 'Follows the return of your periods' },
+];
+
 export default function Profile() {
   const { signOut, getToken } = useAuth();
   const { user } = useUser();
@@ -23,6 +36,7 @@ export default function Profile() {
   const [lastPeriodDate, setLastPeriodDate] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const cycleData = useCycleData();
 
   // Set up token getter
   useEffect(() => {
@@ -173,6 +187,68 @@ export default function Profile() {
     }
   }, []);
 
+  const handleUpdateReminders = useCallback(async (changes: Pick<UserSettings, 'reminderEnabled' | 'reminderDaysBefore'>) => {
+    setIsUpdating(true);
+    try {
+      const updated = await updateSettings(changes);
+      if (updated) {
+        setSettings(updated);
+        DeviceEventEmitter.emit('settingsUpdated');
+        showToast(updated.reminderEnabled ? 'Reminders updated!' : 'Reminders turned off');
+      }
+    } catch (error: any) {
+      console.error('Error updating reminders:', error);
+      showToast(error.message || 'Failed to update reminders.', 'error');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, []);
+
+  const saveGoal = useCallback(async (goal: TrackingGoal, breastfeeding?: boolean) => {
+    setIsUpdating(true);
+    try {
+      const periods = buildEffectivePeriods(cycleData.periods, settings);
+      const updated = await updateSettings(settingsForGoal(goal, settings, periods, { breastfeeding }));
+      if (updated) {
+        setSettings(updated);
+        DeviceEventEmitter.emit('settingsUpdated');
+        showToast('Goal updated!');
+      }
+    } catch (error: any) {
+      console.error('Error updating goal:', error);
+      showToast(error.message || 'Failed to update goal.', 'error');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [cycleData.periods, settings]);
+
+  const handleUpdateGoal = useCallback((goal: TrackingGoal) => {
+    if (goal !== 'postpartum') {
+      saveGoal(goal);
+      return;
+    }
+    Alert.alert('Are you breastfeeding?', 'It changes when your period is likely to come back.', [
+      { text: 'Yes', onPress: () => saveGoal(goal, true) },
+      { text: 'No', onPress: () => saveGoal(goal, false) },
+    ]);
+  }, [saveGoal]);
+
+  const handleUpdateBreastfeeding = useCallback(async (breastfeeding: boolean) => {
+    setIsUpdating(true);
+    try {
+      const updated = await updateSettings({ breastfeeding });
+      if (updated) {
+        setSettings(updated);
+        DeviceEventEmitter.emit('settingsUpdated');
+      }
+    } catch (error: any) {
+      console.error('Error updating breastfeeding:', error);
+      showToast(error.message || 'Failed to update.', 'error');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, []);
+
   const handleSignOut = useCallback(async () => {
     Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
       { text: 'Cancel', style: 'cancel' },
@@ -182,6 +258,7 @@ export default function Profile() {
         onPress: async () => {
           try {
             await clearStoredPushToken();
+            await cancelCycleReminders();
             await setViewMode(null);
             await signOut();
           } catch (error: any) {
@@ -303,6 +380,150 @@ export default function Profile() {
           )}
         </View>
 
+        {/* Goal */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Goal</Text>
+          <Text style={styles.sectionDescription}>
+            Choose what the app focuses on. Your period history stays the same whichever you pick.
+          </Text>
+          {GOAL_OPTIONS.map((option) => {
+            const selected = (settings?.goal ?? 'track_cycle') === option.goal;
+            return (
+              <TouchableOpacity
+                key={option.goal}
+                style={[styles.goalRow, selected && styles.goalRowSelected]}
+                onPress={() => handleUpdateGoal(option.goal)}
+                disabled={isUpdating || loading || selected}
+              >
+                <View style={styles.settingLabelContainer}>
+                  <Text style={styles.settingLabel}>{option.label}</Text>
+                  <Text style={styles.settingHint}>{option.hint}</Text>
+                </View>
+                <Ionicons
+                  name={selected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={selected ? Colors.primary : Colors.textSecondary}
+                />
+              </TouchableOpacity>
+            );
+          })}
+
+          {settings?.goal === 'postpartum' && (
+            <View style={styles.settingRow}>
+              <View style={styles.settingLabelContainer}>
+                <Text style={styles.settingLabel}>Breastfeeding</Text>
+                <Text style={styles.settingHint}>Periods are slower to return and less regular</Text>
+              </View>
+              <Switch
+                value={!!settings.breastfeeding}
+                onValueChange={handleUpdateBreastfeeding}
+                disabled={isUpdating || loading}
+                trackColor={{ true: Colors.primary, false: Colors.border }}
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Contraception */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Contraception</Text>
+          <Text style={styles.sectionDescription}>
+            On the pill, patch, ring, a hormonal IUD or the implant, bleeds aren’t periods and there are no fertile days, so predictions change to match.
+          </Text>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/contraception')}>
+            <Ionicons name="medical-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>
+              {settings?.contraception ? CONTRACEPTION_LABELS[settings.contraception] : 'None'}
+            </Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        {/* Reminders */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Reminders</Text>
+          <Text style={styles.sectionDescription}>
+            Get a notification before your period is due, when your fertile window starts and ahead of PMS days.
+          </Text>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingLabelContainer}>
+              <Text style={styles.settingLabel}>Cycle Reminders</Text>
+              <Text style={styles.settingHint}>Scheduled on this device</Text>
+            </View>
+            <Switch
+              value={!!settings?.reminderEnabled}
+              onValueChange={(value) => handleUpdateReminders({ reminderEnabled: value })}
+              disabled={isUpdating || loading}
+              trackColor={{ true: Colors.primary, false: Colors.border }}
+            />
+          </View>
+
+          {settings?.reminderEnabled && (
+            <View style={styles.settingRow}>
+              <View style={styles.settingLabelContainer}>
+                <Text style={styles.settingLabel}>Remind Me</Text>
+                <Text style={styles.settingHint}>Days before your period</Text>
+              </View>
+              <View style={styles.reminderDaysRow}>
+                {REMINDER_DAY_OPTIONS.map((days) => {
+                  const selected = (settings.reminderDaysBefore ?? 2) === days;
+                  return (
+                    <TouchableOpacity
+                      key={days}
+                      style={[styles.reminderDayChip, selected && styles.reminderDayChipSelected]}
+                      onPress={() => handleUpdateReminders({ reminderDaysBefore: days })}
+                      disabled={isUpdating || selected}
+                    >
+                      <Text style={[styles.reminderDayText, selected && styles.reminderDayTextSelected]}>{days}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+        </View>
+
+        {/* Health Data */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Health Data</Text>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/clinician-report')}>
+            <Ionicons name="document-text-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>Doctor Report (PDF)</Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/symptom-trends')}>
+            <Ionicons name="analytics-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>Symptom Trends</Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/temperature')}>
+            <Ionicons name="thermometer-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>Basal Temperature</Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/ai-forecast')}>
+            <Ionicons name="telescope-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>Cycle Forecast</Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/prediction-accuracy')}>
+            <Ionicons name="checkmark-done-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>Prediction Accuracy</Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/data-transfer')}>
+            <Ionicons name="swap-vertical-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>Export & Import Data</Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/health-alerts')}>
+            <Ionicons name="medkit-outline" size={20} color={Colors.primary} />
+            <Text style={styles.linkRowText}>Health Alerts</Text>
+            <Ionicons name="chevron-forward" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
         {/* Account Actions */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Account</Text>
@@ -418,6 +639,62 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.textSecondary,
   },
+  reminderDaysRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  reminderDayChip: {
+    minWidth: 36,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  reminderDayChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  reminderDayText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  reminderDayTextSelected: {
+    color: Colors.white,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 12,
+  },
+  goalRowSelected: {
+    borderColor: Colors.primary,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 12,
+  },
+  linkRowText: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
   signOutButton: {
     flexDirection: 'row',
     alignItems: 'center',
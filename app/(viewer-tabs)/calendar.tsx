@@ -15,10 +15,6 @@ import { useFocusEffect } from 'expo-router';
 import { Colors } from '../../constants/Colors';
 import { useAuth, useUser } from '@clerk/clerk-expo';
 import {
-  getPeriods,
-  getSettings,
-  getSymptoms,
-  getMoods,
   getUserInfo,
   Period,
   UserSettings,
@@ -27,9 +23,13 @@ import {
   UserInfo,
   getCurrentViewModeRecord,
 } from '../../lib/api';
-import { buildCacheKey, getCachedData, setCachedData, CacheTTL } from '../../lib/cache';
+import { buildCacheKey, getCachedData } from '../../lib/cache';
+import { hydrateCycleStore, syncCycleStore, getCycleStoreSnapshot } from '../../lib/cycleStore';
+import { useCycleData } from '../../hooks/useCycleData';
 import { calculatePredictions, getDayInfo, getPeriodDayInfo, CyclePredictions, getPhaseDetailsForDate, buildEffectivePeriods } from '../../lib/periodCalculations';
 import { setClerkTokenGetter } from '../../lib/api';
+import { daysBetween, fromLocalDate } from '../../lib/calendarDate';
+import { isPeriodDay } from '../../lib/periodRange';
 import { Ionicons } from '@expo/vector-icons';
 import { PHASE_PALETTE, PhaseKey } from '../../constants/phasePalette';
 import PeriLoader from '../../components/PeriLoader';
@@ -65,9 +65,7 @@ function getPhaseInfoForDate(
   // Calculate phase day number based on phase start
   let phaseDay = 1;
   if (phaseDetails.phaseStart) {
-    const daysSinceStart = Math.floor(
-      (dateNormalized.getTime() - phaseDetails.phaseStart.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    const daysSinceStart = daysBetween(fromLocalDate(phaseDetails.phaseStart), fromLocalDate(dateNormalized));
     phaseDay = Math.max(1, daysSinceStart + 1);
   }
 
@@ -114,11 +112,13 @@ export default function ViewerCalendarScreen() {
   const { isSignedIn, getToken } = useAuth();
   const { user } = useUser();
   const [loading, setLoading] = useState(true);
-  const [periods, setPeriods] = useState<Period[]>([]);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const cycleData = useCycleData();
+  const { settings, symptoms: allSymptoms, moods: allMoods } = cycleData;
+  const periods = useMemo(
+    () => buildEffectivePeriods(cycleData.periods, settings),
+    [cycleData.periods, settings]
+  );
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [allSymptoms, setAllSymptoms] = useState<Symptom[]>([]);
-  const [allMoods, setAllMoods] = useState<Mood[]>([]);
   const [selectedDateSymptoms, setSelectedDateSymptoms] = useState<Symptom[]>([]);
   const [selectedDateMoods, setSelectedDateMoods] = useState<Mood[]>([]);
   const [currentMonth, setCurrentMonth] = useState(new Date());
@@ -149,7 +149,7 @@ export default function ViewerCalendarScreen() {
     return calculatePredictions(periods, settings);
   }, [periods, settings]);
 
-  const loadData = useCallback(async ({ skipSpinner = false }: { skipSpinner?: boolean } = {}) => {
+  const loadData = useCallback(async ({ skipSpinner = false, full = false }: { skipSpinner?: boolean; full?: boolean } = {}) => {
     if (loadingDataRef.current) {
       return;
     }
@@ -171,24 +171,11 @@ export default function ViewerCalendarScreen() {
       ]);
 
       const userInfoCacheKey = buildCacheKey(['viewer-user-info', cacheScope]);
-      const periodsCacheKey = buildCacheKey(['viewer-periods', cacheScope]);
-      const settingsCacheKey = buildCacheKey(['viewer-settings', cacheScope]);
-      const symptomsCacheKey = buildCacheKey(['viewer-symptoms', cacheScope]);
-      const moodsCacheKey = buildCacheKey(['viewer-moods', cacheScope]);
-
-      // 1. FAST CACHE LOAD (Parallel) - Use stale data for immediate UI rendering
-      const [
-        cachedUserInfo,
-        cachedPeriods,
-        cachedSettings,
-        cachedSymptoms,
-        cachedMoods
-      ] = await Promise.all([
+
+      // 1. FAST LOCAL LOAD (Parallel) - persisted store plus cached user info
+      const [, cachedUserInfo] = await Promise.all([
+        hydrateCycleStore(),
         getCachedData<UserInfo | null>(userInfoCacheKey, true),
-        getCachedData<Period[]>(periodsCacheKey, true),
-        getCachedData<UserSettings | null>(settingsCacheKey, true),
-        getCachedData<Symptom[]>(symptomsCacheKey, true),
-        getCachedData<Mood[]>(moodsCacheKey, true)
       ]);
 
       if (cachedUserInfo !== undefined) {
@@ -201,25 +188,17 @@ export default function ViewerCalendarScreen() {
         }
       }
 
-      if (cachedPeriods !== undefined) setPeriods(cachedPeriods);
-      if (cachedSettings !== undefined) setSettings(cachedSettings);
-      if (cachedSymptoms !== undefined) setAllSymptoms(cachedSymptoms);
-      if (cachedMoods !== undefined) setAllMoods(cachedMoods);
-
-      // Hide spinner immediately if we got data
-      if (cachedPeriods !== undefined || cachedSettings !== undefined) {
+      // If the store has synced before, its data is good enough to render
+      if (getCycleStoreSnapshot().lastSyncedAt !== null) {
         setLoading(false);
       } else if (!skipSpinner) {
         setLoading(true);
       }
 
-      // 2. BACKGROUND REVALIDATE (Network Fetch)
-      const [info, periodsData, settingsData, symptomsData, moodsData] = await Promise.all([
+      // 2. BACKGROUND SYNC - pull changes since the last sync
+      const [info] = await Promise.all([
         getUserInfo(true).catch(() => cachedUserInfo || null),
-        getPeriods(true).catch((e) => { console.error('periods fetch error', e); return null; }),
-        getSettings(true).catch((e) => { console.error('settings fetch error', e); return null; }),
-        getSymptoms(undefined, undefined, true).catch((e) => { console.error('symptoms fetch error', e); return null; }),
-        getMoods(undefined, undefined, true).catch((e) => { console.error('moods fetch error', e); return null; }),
+        syncCycleStore({ full }),
       ]);
 
       // 3. SILENT STATE UPDATE
@@ -237,24 +216,6 @@ export default function ViewerCalendarScreen() {
           setViewedUserName(name);
         }
       }
-
-      if (settingsData !== null) {
-        setSettings(settingsData);
-      }
-
-      if (periodsData !== null) {
-        const effectiveSettings = settingsData !== null ? settingsData : (cachedSettings || null);
-        const effectivePeriods = buildEffectivePeriods(periodsData, effectiveSettings);
-        setPeriods(effectivePeriods);
-      }
-
-      if (symptomsData !== null) {
-        setAllSymptoms(symptomsData);
-      }
-
-      if (moodsData !== null) {
-        setAllMoods(moodsData);
-      }
     } catch (error: any) {
       if (error.response?.status !== 401) {
         console.error('[Viewer Calendar] Error loading data:', error);
@@ -311,7 +272,7 @@ export default function ViewerCalendarScreen() {
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     loadingDataRef.current = false;
-    await loadData({ skipSpinner: true });
+    await loadData({ skipSpinner: true, full: true });
     setRefreshing(false);
   }, [loadData]);
 
@@ -352,17 +313,8 @@ export default function ViewerCalendarScreen() {
       const fallbackPeriodLength = Math.max(1, predictions?.periodLength || settings?.averagePeriodLength || 5);
 
       const isActualPeriodDay = periods.some((period) => {
-        const start = new Date(period.startDate);
-        start.setHours(0, 0, 0, 0);
-        // Always use current period length setting, not the stored endDate
-        // This ensures periods display with the user's current preference
-        const end = new Date(period.startDate);
-        end.setHours(0, 0, 0, 0);
-        // Calculate end date: if period length is 5, days are 0,1,2,3,4 (5 days total)
-        // So we add (periodLength - 1) to get the last day
-        end.setDate(end.getDate() + fallbackPeriodLength - 1);
-        end.setHours(23, 59, 59, 999); // Set to end of day to include the full last day
-        return normalizedDate.getTime() >= start.getTime() && normalizedDate.getTime() <= end.getTime();
+        // The period's own end date wins; the fallback length is only for open periods
+        return isPeriodDay(fromLocalDate(normalizedDate), period, fallbackPeriodLength);
       });
 
       if (isActualPeriodDay) {
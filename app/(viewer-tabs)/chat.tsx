@@ -10,20 +10,12 @@ import {
   Platform,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../constants/Colors';
 import {
-  chatWithAI,
   getUserInfo,
-  getPeriods,
-  getSettings,
-  getSymptoms,
-  getMoods,
-  Period,
-  UserSettings,
-  Symptom,
-  Mood,
   Reminder,
   UserInfo,
   getCurrentViewModeRecord,
@@ -31,8 +23,16 @@ import {
 } from '@/lib/api';
 import { buildCacheKey, getCachedData, setCachedData } from '@/lib/cache';
 import { useAuth, useUser } from '@clerk/clerk-expo';
-import { calculatePredictions, getDayInfo, CyclePredictions, buildEffectivePeriods } from '../../lib/periodCalculations';
 import PeriLoader from '../../components/PeriLoader';
+import ChatContextSharingSheet from '../../components/ChatContextSharingSheet';
+import { useChatContext } from '../../hooks/useChatContext';
+import { useChatStream } from '../../hooks/useChatStream';
+import {
+  createThreadId,
+  getChatThread,
+  saveChatThreadMessages,
+  trimMessagesForRequest,
+} from '../../lib/chatHistory';
 
 interface Message {
   id: string;
@@ -58,14 +58,16 @@ export default function ViewerChatScreen() {
   const insets = useSafeAreaInsets();
 
   const [messages, setMessages] = useState<Message[]>([]);
+  const { start: startStream, cancel: cancelStream, isStreaming } = useChatStream();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ threadId?: string }>();
+  const threadIdRef = useRef(createThreadId());
+  const resumedMessagesRef = useRef<Message[] | null>(null);
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(false);
   const [showQuickActions, setShowQuickActions] = useState(true);
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
-  const [periods, setPeriods] = useState<Period[]>([]);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
-  const [todaySymptoms, setTodaySymptoms] = useState<Symptom[]>([]);
-  const [todayMoods, setTodayMoods] = useState<Mood[]>([]);
+  const [sharingVisible, setSharingVisible] = useState(false);
 
   const scrollViewRef = useRef<ScrollView>(null);
 
@@ -92,6 +94,8 @@ export default function ViewerChatScreen() {
     return userInfo?.viewedUser?.name || viewedUserName;
   }, [userInfo, viewedUserName]);
 
+  const chatContext = useChatContext({ userId: user?.id ?? null, subjectName: viewedUserFullName });
+
   // Prepare quick actions tailored for the viewer
   const quickActions = useMemo<QuickAction[]>(() => {
     const friendlyName = viewedUserFullName;
@@ -160,185 +164,6 @@ export default function ViewerChatScreen() {
     loadUserInfo();
   }, [user]);
 
-  // Load cycle data for viewed user
-  useEffect(() => {
-    const loadViewerData = async () => {
-      try {
-        const viewModeRecord = getCurrentViewModeRecord();
-        const scopeIdentifier = viewModeRecord?.mode === 'OTHER'
-          ? viewModeRecord?.viewedUserId ?? user?.id
-          : user?.id;
-        const cacheScope = buildCacheKey([
-          viewModeRecord?.mode ?? 'UNKNOWN',
-          scopeIdentifier ?? 'self',
-        ]);
-
-        const periodsCacheKey = buildCacheKey(['viewer-chat-periods', cacheScope]);
-        const settingsCacheKey = buildCacheKey(['viewer-chat-settings', cacheScope]);
-
-        const cachedPeriods = await getCachedData<Period[]>(periodsCacheKey);
-        let showSpinner = true;
-        if (cachedPeriods !== undefined) {
-          setPeriods(cachedPeriods);
-          showSpinner = false;
-        }
-
-        const cachedSettings = await getCachedData<UserSettings | null>(settingsCacheKey);
-        if (cachedSettings !== undefined) {
-          setSettings(cachedSettings);
-          showSpinner = false;
-        }
-
-        if (showSpinner) {
-          setLoading(true);
-        }
-
-        const [periodsData, settingsData] = await Promise.all([
-          getPeriods().catch(() => []),
-          getSettings().catch(() => null),
-        ]);
-
-        const effectivePeriods = buildEffectivePeriods(periodsData, settingsData);
-        setPeriods(effectivePeriods);
-        setSettings(settingsData);
-
-        await setCachedData(periodsCacheKey, effectivePeriods);
-        await setCachedData(settingsCacheKey, settingsData);
-
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(today);
-        endOfDay.setHours(23, 59, 59, 999);
-
-        const symptomsCacheKey = buildCacheKey([
-          'viewer-chat-symptoms',
-          cacheScope,
-          today.toISOString(),
-          endOfDay.toISOString(),
-        ]);
-        const moodsCacheKey = buildCacheKey([
-          'viewer-chat-moods',
-          cacheScope,
-          today.toISOString(),
-          endOfDay.toISOString(),
-        ]);
-
-        const cachedSymptoms = await getCachedData<Symptom[]>(symptomsCacheKey);
-        if (cachedSymptoms !== undefined) {
-          setTodaySymptoms(cachedSymptoms);
-        }
-
-        const cachedMoods = await getCachedData<Mood[]>(moodsCacheKey);
-        if (cachedMoods !== undefined) {
-          setTodayMoods(cachedMoods);
-        }
-
-        const [symptomsData, moodsData] = await Promise.all([
-          getSymptoms(today.toISOString(), endOfDay.toISOString()).catch(() => []),
-          getMoods(today.toISOString(), endOfDay.toISOString()).catch(() => []),
-        ]);
-
-        setTodaySymptoms(symptomsData);
-        setTodayMoods(moodsData);
-
-        await setCachedData(symptomsCacheKey, symptomsData);
-        await setCachedData(moodsCacheKey, moodsData);
-      } catch (error) {
-        console.error('[Viewer Chat] Failed to load viewer cycle data:', error);
-      }
-    };
-
-    loadViewerData();
-  }, [user]);
-
-  const predictions = useMemo<CyclePredictions>(() => {
-    return calculatePredictions(periods, settings);
-  }, [periods, settings]);
-
-  const todayPhaseInfo = useMemo(() => {
-    if (!periods.length) return null;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return getDayInfo(today, periods, predictions);
-  }, [periods, predictions]);
-
-  const lastPeriodStart = useMemo(() => {
-    if (!periods.length) return null;
-    const latest = [...periods].sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())[0];
-    return latest?.startDate ? new Date(latest.startDate) : null;
-  }, [periods]);
-
-  const contextSummary = useMemo(() => {
-    const friendlyName = viewedUserFullName;
-    const parts: string[] = [];
-
-    if (!periods.length) {
-      parts.push(`${friendlyName} has not logged any period data yet. Encourage them gently to record their cycles so you can support them with accurate insights.`);
-    } else {
-      if (lastPeriodStart) {
-        parts.push(`${friendlyName}'s last recorded period started on ${lastPeriodStart.toLocaleDateString('en-US', {
-          month: 'long',
-          day: 'numeric',
-          year: 'numeric',
-        })}.`);
-      }
-
-      if (predictions.nextPeriodDate) {
-        parts.push(`The next predicted period is around ${new Date(predictions.nextPeriodDate).toLocaleDateString('en-US', {
-          month: 'long',
-          day: 'numeric',
-        })}.`);
-      }
-
-      if (predictions.ovulationDate) {
-        parts.push(`Ovulation is projected near ${new Date(predictions.ovulationDate).toLocaleDateString('en-US', {
-          month: 'long',
-          day: 'numeric',
-        })}.`);
-      }
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const cycleDay = predictions?.cycleLength
-        ? Math.max(
-            1,
-            Math.ceil(
-              (today.getTime() -
-                (lastPeriodStart?.setHours(0, 0, 0, 0) ?? today.getTime())) /
-                (1000 * 60 * 60 * 24)
-            ) + 1
-          )
-        : null;
-
-      if (cycleDay && todayPhaseInfo) {
-        const phaseLabel = todayPhaseInfo.isPeriod
-          ? 'period phase'
-          : todayPhaseInfo.isFertile
-          ? 'fertile window'
-          : todayPhaseInfo.isPMS
-          ? 'luteal phase'
-          : 'follicular phase';
-        parts.push(`${friendlyName} is currently around cycle day ${cycleDay}, likely in the ${phaseLabel}.`);
-      }
-    }
-
-    if (todayMoods.length) {
-      const moodList = todayMoods.map((m) => m.type).join(', ');
-      parts.push(`Mood check-ins today include: ${moodList}.`);
-    }
-
-    if (todaySymptoms.length) {
-      const symptomList = todaySymptoms.map((s) => s.type).join(', ');
-      parts.push(`Symptoms observed today: ${symptomList}.`);
-    }
-
-    if (!parts.length) {
-      parts.push(`No new logs are available yet for ${friendlyName}. Focus on supportive guidance and encourage gentle tracking.`);
-    }
-
-    return parts.join(' ');
-  }, [viewedUserFullName, periods.length, lastPeriodStart, predictions, todayMoods, todaySymptoms, todayPhaseInfo]);
-
   // Auto-scroll when messages update
   useEffect(() => {
     const timeout = setTimeout(() => {
@@ -347,6 +172,56 @@ export default function ViewerChatScreen() {
     return () => clearTimeout(timeout);
   }, [messages]);
 
+  // Resume a conversation picked in the history screen
+  useEffect(() => {
+    if (!params.threadId || params.threadId === threadIdRef.current) return;
+    let cancelled = false;
+    getChatThread(params.threadId).then((thread) => {
+      if (cancelled || !thread) return;
+      cancelStream();
+      const resumed = thread.messages.map((msg) => ({ ...msg, timestamp: new Date(msg.timestamp) }));
+      threadIdRef.current = thread.id;
+      resumedMessagesRef.current = resumed;
+      setMessages(resumed);
+      setShowQuickActions(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [params.threadId, cancelStream]);
+
+  // Save the conversation once each reply has finished streaming
+  useEffect(() => {
+    if (messages.length === 0 || isStreaming || messages === resumedMessagesRef.current) return;
+    saveChatThreadMessages(
+      threadIdRef.current,
+      messages.map((msg) => ({ ...msg, timestamp: msg.timestamp.toISOString() }))
+    ).catch((error) => console.warn('[Viewer Chat] Failed to save conversation:', error));
+  }, [messages, isStreaming]);
+
+  const handleNewConversation = useCallback(() => {
+    cancelStream();
+    threadIdRef.current = createThreadId();
+    resumedMessagesRef.current = null;
+    setMessages([]);
+    setShowQuickActions(true);
+    router.setParams({ threadId: '' });
+  }, [cancelStream, router]);
+
+  const handleOpenHistory = useCallback(() => {
+    router.push({ pathname: '/chat-history', params: { chatRoute: '/(viewer-tabs)/chat' } });
+  }, [router]);
+
+  // Create the assistant bubble on the first token, then grow it as the reply streams in
+  const upsertAssistantMessage = useCallback((id: string, content: string) => {
+    setMessages((prev) => {
+      if (prev.some((msg) => msg.id === id)) {
+        return prev.map((msg) => (msg.id === id ? { ...msg, content } : msg));
+      }
+      return [...prev, { id, role: 'assistant', content, timestamp: new Date() }];
+    });
+  }, []);
+
   const handleSendMessage = useCallback(
     async (messageText: string) => {
       if (!messageText.trim() || loading) return;
@@ -372,31 +247,32 @@ export default function ViewerChatScreen() {
       try {
         const familyContext = {
           role: 'system',
-          content: `You are "Eira", an empathetic, medically-informed AI family coach. Always greet ${viewerName} warmly and make it clear you're talking to them to help interpret ${viewedUserFullName}'s patterns and wellbeing. Use phrases like "${viewedUserFullName} is experiencing..." or "She might feel..."—never imply you are speaking to ${viewedUserFullName} directly. Offer expert yet compassionate guidance, use clear language, respect privacy, and reference ${viewedUserFullName}'s cycle data, symptoms, moods, and reminders when relevant. Always frame advice as supportive actions ${viewerName} and their family can take for ${viewedUserFullName}, avoiding clinical jargon and providing next steps. If real data is missing, never say "can't fetch data"; instead suggest how the family can track observations together and offer caring guidance. ${contextSummary}`,
+          content: `You are "Eira", an empathetic, medically-informed AI family coach. Always greet ${viewerName} warmly and make it clear you're talking to them to help interpret ${viewedUserFullName}'s patterns and wellbeing. Use phrases like "${viewedUserFullName} is experiencing..." or "She might feel..."—never imply you are speaking to ${viewedUserFullName} directly. Offer expert yet compassionate guidance, use clear language, respect privacy, and reference ${viewedUserFullName}'s cycle data, symptoms, moods, and reminders when relevant. Always frame advice as supportive actions ${viewerName} and their family can take for ${viewedUserFullName}, avoiding clinical jargon and providing next steps. If real data is missing, never say "can't fetch data"; instead suggest how the family can track observations together and offer caring guidance. ${chatContext.summary || `No logs are available yet for ${viewedUserFullName}. Focus on supportive guidance and encourage gentle tracking.`}`,
         };
 
         const messagesArray = [
           familyContext,
-          ...updatedMessages.map((msg) => ({
+          ...trimMessagesForRequest(updatedMessages).map((msg) => ({
             role: msg.role,
             content: msg.content,
           })),
         ];
 
-        const response = await chatWithAI(messagesArray);
-
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content:
-            response ||
-            `I'm here for you. Let's talk about how we can support ${viewedUserFullName} today.`,
-          timestamp: new Date(),
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
+        const assistantId = (Date.now() + 1).toString();
+        const { text, cancelled } = await startStream(messagesArray, {
+          symptoms: chatContext.symptoms.length ? chatContext.symptoms : undefined,
+          onText: (textSoFar) => upsertAssistantMessage(assistantId, textSoFar),
+        });
+
+        if (!text && !cancelled) {
+          upsertAssistantMessage(
+            assistantId,
+            `I'm here for you. Let's talk about how we can support ${viewedUserFullName} today.`
+          );
+        }
       } catch (error: any) {
-        console.error('[Viewer Chat] Error details:', error);
+        // Not the error itself: axios errors carry the request body, health summary included
+        console.error('[Viewer Chat] Error details:', { status: error?.response?.status, message: error?.message });
         const errorMessage: Message = {
           id: (Date.now() + 1).toString(),
           role: 'assistant',
@@ -410,7 +286,7 @@ export default function ViewerChatScreen() {
         setLoading(false);
       }
     },
-    [messages, loading, showQuickActions, viewerName, viewedUserFullName, contextSummary]
+    [messages, loading, showQuickActions, viewerName, viewedUserFullName, chatContext.summary, chatContext.symptoms, startStream, upsertAssistantMessage]
   );
 
   const handleSend = useCallback(() => {
@@ -448,6 +324,31 @@ export default function ViewerChatScreen() {
       </View>
 
       <SafeAreaView style={[styles.safeArea, { paddingBottom: TAB_BAR_OFFSET + insets.bottom }]}>
+        <View style={styles.topBar}>
+          <TouchableOpacity
+            style={styles.topBarButton}
+            onPress={handleOpenHistory}
+            accessibilityLabel="Conversation history"
+          >
+            <Ionicons name="time-outline" size={22} color={Colors.text} />
+          </TouchableOpacity>
+          <View style={styles.topBarActions}>
+            <TouchableOpacity
+              style={styles.topBarButton}
+              onPress={() => setSharingVisible(true)}
+              accessibilityLabel="Choose what data the assistant can see"
+            >
+              <Ionicons name="shield-checkmark-outline" size={22} color={Colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.topBarButton}
+              onPress={handleNewConversation}
+              accessibilityLabel="New conversation"
+            >
+              <Ionicons name="create-outline" size={22} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
         <KeyboardAvoidingView
           style={styles.keyboardView}
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -519,7 +420,7 @@ export default function ViewerChatScreen() {
                     </Text>
                   </View>
                 ))}
-                {loading && (
+                {loading && messages[messages.length - 1]?.role === 'user' && (
                   <View style={[styles.messageContainer, styles.assistantMessage, styles.loaderMessage]}>
                     <PeriLoader size={110} containerStyle={styles.loaderLottieContainer} />
                   </View>
@@ -547,20 +448,33 @@ export default function ViewerChatScreen() {
               onSubmitEditing={handleSend}
               returnKeyType="send"
             />
-            <TouchableOpacity
-              style={[styles.sendButton, (!inputText.trim() || loading) && styles.sendButtonDisabled]}
-              onPress={handleSend}
-              disabled={!inputText.trim() || loading}
-            >
-              <Ionicons
-                name="send"
-                size={20}
-                color={inputText.trim() && !loading ? Colors.white : Colors.textSecondary}
-              />
-            </TouchableOpacity>
+            {isStreaming ? (
+              <TouchableOpacity style={styles.sendButton} onPress={cancelStream} accessibilityLabel="Stop answer">
+                <Ionicons name="stop" size={18} color={Colors.white} />
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.sendButton, (!inputText.trim() || loading) && styles.sendButtonDisabled]}
+                onPress={handleSend}
+                disabled={!inputText.trim() || loading}
+              >
+                <Ionicons
+                  name="send"
+                  size={20}
+                  color={inputText.trim() && !loading ? Colors.white : Colors.textSecondary}
+                />
+              </TouchableOpacity>
+            )}
           </View>
         </KeyboardAvoidingView>
       </SafeAreaView>
+      <ChatContextSharingSheet
+        visible={sharingVisible}
+        sharing={chatContext.sharing}
+        summary={chatContext.summary}
+        onChange={chatContext.updateSharing}
+        onClose={() => setSharingVisible(false)}
+      />
     </View>
   );
 }
@@ -595,6 +509,18 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.white,
   },
+  topBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  topBarActions: {
+    flexDirection: 'row',
+  },
+  topBarButton: {
+    padding: 8,
+  },
   keyboardView: {
     flex: 1,
   },
@@ -18,24 +18,20 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '../../constants/Colors';
 import { useAuth, useUser } from '@clerk/clerk-expo';
 import {
-  getPeriods,
-  getSettings,
-  getSymptoms,
-  getMoods,
   getReminderStatus,
 
   createPeriod,
-  Period,
-  UserSettings,
-  Symptom,
-  Mood,
   Reminder,
   UserInfo,
   getUserInfo,
   getCurrentViewModeRecord,
 } from '../../lib/api';
 import { buildCacheKey, getCachedData, setCachedData, CacheTTL } from '../../lib/cache';
+import { hydrateCycleStore, syncCycleStore, getCycleStoreSnapshot } from '../../lib/cycleStore';
+import { useCycleData } from '../../hooks/useCycleData';
 import { calculatePredictions, getDayInfo, getPeriodDayInfo, CyclePredictions, getPhaseDetailsForDate, buildEffectivePeriods } from '../../lib/periodCalculations';
+import { daysBetween, fromLocalDate, getToday } from '../../lib/calendarDate';
+import { periodStartDay } from '../../lib/periodRange';
 import { usePhase } from '../../contexts/PhaseContext';
 import { setClerkTokenGetter } from '../../lib/api';
 import { Ionicons } from '@expo/vector-icons';
@@ -71,10 +67,26 @@ export default function ViewerInsightsScreen() {
   const { isSignedIn, getToken } = useAuth();
   const { phaseColors } = usePhase();
   const [loading, setLoading] = useState(true);
-  const [periods, setPeriods] = useState<Period[]>([]);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
-  const [todaySymptoms, setTodaySymptoms] = useState<Symptom[]>([]);
-  const [todayMoods, setTodayMoods] = useState<Mood[]>([]);
+  const cycleData = useCycleData();
+  const { settings } = cycleData;
+  const periods = useMemo(
+    () => buildEffectivePeriods(cycleData.periods, settings),
+    [cycleData.periods, settings]
+  );
+  const { todaySymptoms, todayMoods } = useMemo(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setHours(23, 59, 59, 999);
+    const isToday = (date: string) => {
+      const time = new Date(date).getTime();
+      return time >= start.getTime() && time <= end.getTime();
+    };
+    return {
+      todaySymptoms: cycleData.symptoms.filter((symptom) => isToday(symptom.date)),
+      todayMoods: cycleData.moods.filter((mood) => isToday(mood.date)),
+    };
+  }, [cycleData.symptoms, cycleData.moods]);
   const [userName, setUserName] = useState<string>('');
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
   const [lastReminder, setLastReminder] = useState<Reminder | null>(null);
@@ -199,18 +211,13 @@ export default function ViewerInsightsScreen() {
 
     let cycleDay = 1;
     if (sortedPeriods.length > 0) {
-      const lastPeriodStart = new Date(sortedPeriods[0].startDate);
-      lastPeriodStart.setHours(0, 0, 0, 0);
-      const daysSinceLastPeriod = Math.floor(
-        (today.getTime() - lastPeriodStart.getTime()) / (1000 * 60 * 60 * 24)
-      );
-      cycleDay = daysSinceLastPeriod + 1;
+      cycleDay = daysBetween(periodStartDay(sortedPeriods[0]), fromLocalDate(today)) + 1;
     }
 
     const phaseStart = phaseDetail.phaseStart;
     let phaseDay = 1;
     if (phaseStart) {
-      const diff = Math.floor((today.getTime() - phaseStart.getTime()) / (1000 * 60 * 60 * 24));
+      const diff = daysBetween(fromLocalDate(phaseStart), fromLocalDate(today));
       phaseDay = diff >= 0 ? diff + 1 : 1;
     }
 
@@ -227,11 +234,7 @@ export default function ViewerInsightsScreen() {
 
   const daysUntilPeriod = useMemo(() => {
     if (isOnPeriod || !predictions.nextPeriodDate) return null;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const nextPeriod = new Date(predictions.nextPeriodDate);
-    nextPeriod.setHours(0, 0, 0, 0);
-    const diff = Math.ceil((nextPeriod.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const diff = daysBetween(getToday(), fromLocalDate(new Date(predictions.nextPeriodDate)));
     return diff > 0 ? diff : null;
   }, [predictions.nextPeriodDate, isOnPeriod]);
 
@@ -278,74 +281,34 @@ export default function ViewerInsightsScreen() {
         scopeIdentifier ?? 'self',
       ]);
 
-      const periodsCacheKey = buildCacheKey(['viewer-periods', cacheScope]);
-      const settingsCacheKey = buildCacheKey(['viewer-settings', cacheScope]);
-
-      // We'll fetch cache items together below
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(today);
-      endOfDay.setHours(23, 59, 59, 999);
-
-      const symptomsCacheKey = buildCacheKey(['viewer-symptoms', cacheScope, today.toISOString(), endOfDay.toISOString()]);
-      const moodsCacheKey = buildCacheKey(['viewer-moods', cacheScope, today.toISOString(), endOfDay.toISOString()]);
       const remindersCacheKey = buildCacheKey(['viewer-reminders', cacheScope]);
 
-      // 1. FAST CACHE LOAD (Parallel)
-      const [
-        cachedPeriods,
-        cachedSettings,
-        cachedSymptoms,
-        cachedMoods,
-        cachedReminderStatus
-      ] = await Promise.all([
-        getCachedData<Period[]>(periodsCacheKey),
-        getCachedData<UserSettings | null>(settingsCacheKey),
-        getCachedData<Symptom[]>(symptomsCacheKey),
-        getCachedData<Mood[]>(moodsCacheKey),
+      // 1. FAST LOCAL LOAD (Parallel) - persisted store plus cached reminder status
+      const [, cachedReminderStatus] = await Promise.all([
+        hydrateCycleStore(),
         getCachedData<{ enabled: boolean; lastReminder: Reminder | null }>(remindersCacheKey)
       ]);
 
-      if (cachedPeriods !== undefined) setPeriods(cachedPeriods);
-      if (cachedSettings !== undefined) setSettings(cachedSettings);
-      if (cachedSymptoms !== undefined) setTodaySymptoms(cachedSymptoms);
-      if (cachedMoods !== undefined) setTodayMoods(cachedMoods);
       if (cachedReminderStatus !== undefined) {
         setReminderEnabled(cachedReminderStatus.enabled);
         setLastReminder(cachedReminderStatus.lastReminder);
       }
 
-      // If we got *any* critical data from cache, hide spinner immediately
-      if (cachedPeriods !== undefined || cachedSettings !== undefined) {
+      // If the store has synced before, its data is good enough to render
+      if (getCycleStoreSnapshot().lastSyncedAt !== null) {
         showSpinner = false;
         setLoading(false);
       } else {
         setLoading(showSpinner);
       }
 
-      // 2. BACKGROUND REVALIDATE (Network Fetch)
-      // Pass forceRefresh = true to hit network instead of reading from cache again
-      const [
-        periodsData, 
-        settingsData, 
-        symptoms, 
-        moods, 
-        reminderStatus
-      ] = await Promise.all([
-        getPeriods(true).catch(() => cachedPeriods || []),
-        getSettings(true).catch(() => cachedSettings || null),
-        getSymptoms(today.toISOString(), endOfDay.toISOString(), true).catch(() => cachedSymptoms || []),
-        getMoods(today.toISOString(), endOfDay.toISOString(), true).catch(() => cachedMoods || []),
+      // 2. BACKGROUND SYNC - pull changes since the last sync
+      const [, reminderStatus] = await Promise.all([
+        syncCycleStore(),
         getReminderStatus(true).catch(() => cachedReminderStatus || { enabled: false, lastReminder: null }),
       ]);
 
       // 3. SILENT STATE UPDATE
-      const effectivePeriods = buildEffectivePeriods(periodsData, settingsData);
-      setPeriods(effectivePeriods);
-      setSettings(settingsData);
-      setTodaySymptoms(symptoms);
-      setTodayMoods(moods);
       setReminderEnabled(reminderStatus.enabled);
       setLastReminder(reminderStatus.lastReminder);
     } catch (error: any) {
@@ -397,11 +360,7 @@ export default function ViewerInsightsScreen() {
   const ovulationArc = useMemo(() => {
     if (!predictions.ovulationDate) return null;
     
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const ovDate = new Date(predictions.ovulationDate);
-    ovDate.setHours(0, 0, 0, 0);
-    const daysUntilOv = Math.ceil((ovDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const daysUntilOv = daysBetween(getToday(), fromLocalDate(new Date(predictions.ovulationDate)));
     
     if (daysUntilOv >= 0 && daysUntilOv < 30) {
       const arcRadius = 185;
@@ -419,9 +378,6 @@ export default function ViewerInsightsScreen() {
 
   // Memoize period arc
   const periodArc = useMemo(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
     if (isOnPeriod && currentPeriodInfo) {
       const arcRadius = 185;
       const startAngle = (5 * Math.PI) / 6;
@@ -434,9 +390,7 @@ export default function ViewerInsightsScreen() {
     }
     
     if (predictions.nextPeriodDate && !isOnPeriod) {
-      const periodDate = new Date(predictions.nextPeriodDate);
-      periodDate.setHours(0, 0, 0, 0);
-      const daysUntilPeriod = Math.ceil((periodDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+      const daysUntilPeriod = daysBetween(getToday(), fromLocalDate(new Date(predictions.nextPeriodDate)));
       
       if (daysUntilPeriod >= 0 && daysUntilPeriod < 30) {
         const arcRadius = 185;
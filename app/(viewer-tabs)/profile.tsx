@@ -5,7 +5,7 @@ import { useAuth, useUser } from '@clerk/clerk-expo';
 import { useRouter } from 'expo-router';
 import { Colors } from '../../constants/Colors';
 import { setViewMode } from '../../lib/api';
-import { clearStoredPushToken } from '../../lib/notifications';
+import { clearStoredPushToken, cancelCycleReminders } from '../../lib/notifications';
 import PeriLoader from '../../components/PeriLoader';
 
 export default function ViewerProfileScreen() {
@@ -20,6 +20,7 @@ export default function ViewerProfileScreen() {
     try {
       setLoading(true);
       await clearStoredPushToken();
+      await cancelCycleReminders();
       await signOut();
       await setViewMode(null);
     } catch (error: any) {
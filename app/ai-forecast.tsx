@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useUser } from '@clerk/clerk-expo';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { useCycleData } from '../hooks/useCycleData';
+import { syncCycleStore } from '../lib/cycleStore';
+import { useAIPredictions } from '../lib/aiPredictions';
+import { buildEffectivePeriods, PredictedPeriodRange, resolvePredictedPeriods } from '../lib/periodCalculations';
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+function confidenceLabel(confidence: number): string {
+  if (confidence >= 80) return 'High confidence';
+  if (confidence >= 50) return 'Medium confidence';
+  return 'Low confidence';
+}
+
+function CycleRow({ period, index }: { period: PredictedPeriodRange; index: number }) {
+  const hasConfidence = typeof period.confidence === 'number';
+  return (
+    <View style={styles.cycleRow}>
+      <View style={styles.cycleHeader}>
+        <Text style={styles.cycleTitle}>
+          Cycle {index + 1} · {formatDate(period.startDate)} – {formatDate(period.endDate)}
+        </Text>
+        {hasConfidence && (
+          <View style={[styles.confidenceBadge, period.confidence! >= 80 && styles.confidenceBadgeHigh]}>
+            <Text style={[styles.confidenceText, period.confidence! >= 80 && styles.confidenceTextHigh]}>
+              {Math.round(period.confidence!)}%
+            </Text>
+          </View>
+        )}
+      </View>
+      {hasConfidence && <Text style={styles.cycleDetail}>{confidenceLabel(period.confidence!)}</Text>}
+      {!!period.notes && <Text style={styles.cycleNotes}>{period.notes}</Text>}
+    </View>
+  );
+}
+
+export default function AIForecastScreen() {
+  const router = useRouter();
+  const { user } = useUser();
+  const { periods, settings } = useCycleData();
+  const displayPeriods = useMemo(() => buildEffectivePeriods(periods, settings), [periods, settings]);
+  const { predictions, aiResponse, loading, isUsingAI, lastRefreshedAt, refresh } = useAIPredictions(
+    periods.length > 0 ? periods : displayPeriods,
+    settings,
+    user?.id || null
+  );
+
+  useEffect(() => {
+    syncCycleStore().catch((error) => console.warn('[AIForecast] Sync failed:', error));
+  }, []);
+
+  const upcoming = useMemo(() => {
+    if (predictions.upcomingPeriods?.length) return predictions.upcomingPeriods;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return resolvePredictedPeriods(displayPeriods, settings, predictions, 6).filter(
+      (period) => period.startDate.getTime() >= today.getTime()
+    );
+  }, [predictions, displayPeriods, settings]);
+
+  const analysis = isUsingAI ? aiResponse?.cycle_analysis : undefined;
+  const recommendations = (isUsingAI && aiResponse?.health_insights?.recommendations) || [];
+  const symptomsToWatch = (isUsingAI && aiResponse?.predictions?.pms_likelihood?.symptoms_to_watch) || [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Cycle Forecast</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          {isUsingAI
+            ? 'Your upcoming cycles as forecast by AI from your logged history. The calendar shows the same dates.'
+            : "The AI forecast isn't available right now, so these dates come from the on-device calculator."}
+        </Text>
+
+        {analysis && (
+          <View style={styles.summaryCard}>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>{analysis.average_cycle_length}</Text>
+              <Text style={styles.summaryLabel}>Avg cycle</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>{analysis.cycle_regularity || '—'}</Text>
+              <Text style={styles.summaryLabel}>Regularity</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>{analysis.total_cycles_analyzed}</Text>
+              <Text style={styles.summaryLabel}>Cycles analysed</Text>
+            </View>
+          </View>
+        )}
+        {!!analysis?.cycle_variance && <Text style={styles.varianceText}>{analysis.cycle_variance}</Text>}
+
+        <Text style={styles.sectionTitle}>Upcoming cycles</Text>
+        {upcoming.length === 0 ? (
+          <Text style={styles.emptyText}>Log a period to see your forecast.</Text>
+        ) : (
+          upcoming.map((period, index) => (
+            <CycleRow key={period.startDate.toISOString()} period={period} index={index} />
+          ))
+        )}
+
+        {symptomsToWatch.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Symptoms to watch</Text>
+            {predictions.pmsStart && (
+              <Text style={styles.sectionDetail}>PMS may start around {formatDate(new Date(predictions.pmsStart))}.</Text>
+            )}
+            <View style={styles.chipRow}>
+              {symptomsToWatch.map((symptom) => (
+                <View key={symptom} style={styles.chip}>
+                  <Text style={styles.chipText}>{symptom}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {recommendations.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Recommendations</Text>
+            {recommendations.map((recommendation) => (
+              <View key={recommendation} style={styles.recommendationRow}>
+                <Ionicons name="sparkles-outline" size={16} color={Colors.primary} style={styles.recommendationIcon} />
+                <Text style={styles.recommendationText}>{recommendation}</Text>
+              </View>
+            ))}
+          </>
+        )}
+
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>
+            {lastRefreshedAt
+              ? `AI forecast updated ${lastRefreshedAt.toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}`
+              : 'Not updated from AI yet'}
+          </Text>
+          <TouchableOpacity style={styles.refreshButton} onPress={refresh} disabled={loading}>
+            {loading ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <Text style={styles.refreshButtonText}>Refresh</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginBottom: 8,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.text,
+    textTransform: 'capitalize',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  varianceText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionDetail: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+  },
+  cycleRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  cycleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  cycleTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginRight: 12,
+  },
+  cycleDetail: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  cycleNotes: {
+    fontSize: 13,
+    color: Colors.text,
+    lineHeight: 18,
+    marginTop: 6,
+  },
+  confidenceBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: Colors.surface,
+  },
+  confidenceBadgeHigh: {
+    backgroundColor: '#E8F5E9',
+  },
+  confidenceText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  confidenceTextHigh: {
+    color: '#2E7D32',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.text,
+    textTransform: 'capitalize',
+  },
+  recommendationRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  recommendationIcon: {
+    marginRight: 8,
+    marginTop: 2,
+  },
+  recommendationText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 24,
+  },
+  footerText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  refreshButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  refreshButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
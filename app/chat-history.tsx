@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  Modal,
+  DeviceEventEmitter,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { ChatThread, listChatThreads, renameChatThread, deleteChatThread } from '../lib/chatHistory';
+import { PeriLoader } from '../components/PeriLoader';
+import { showToast } from '../components/Toast';
+
+const CHAT_ROUTES = ['/(tabs)/chat', '/(viewer-tabs)/chat'] as const;
+type ChatRoute = (typeof CHAT_ROUTES)[number];
+
+const formatUpdatedAt = (value: string) => {
+  const date = new Date(value);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+export default function ChatHistoryScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ chatRoute?: string }>();
+  const chatRoute: ChatRoute = CHAT_ROUTES.includes(params.chatRoute as ChatRoute)
+    ? (params.chatRoute as ChatRoute)
+    : '/(tabs)/chat';
+
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [searchText, setSearchText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [renamingThread, setRenamingThread] = useState<ChatThread | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setThreads(await listChatThreads(searchText));
+    } finally {
+      setLoading(false);
+    }
+  }, [searchText]);
+
+  useEffect(() => {
+    loadThreads();
+  }, [loadThreads]);
+
+  useEffect(() => {
+    const subscription = DeviceEventEmitter.addListener('chatThreadsUpdated', loadThreads);
+    return () => subscription.remove();
+  }, [loadThreads]);
+
+  const handleOpenThread = useCallback(
+    (thread: ChatThread) => {
+      router.navigate({ pathname: chatRoute, params: { threadId: thread.id } });
+    },
+    [router, chatRoute]
+  );
+
+  const handleStartRename = useCallback((thread: ChatThread) => {
+    setRenamingThread(thread);
+    setRenameText(thread.title);
+  }, []);
+
+  const handleSaveRename = useCallback(async () => {
+    if (!renamingThread) return;
+    await renameChatThread(renamingThread.id, renameText);
+    setRenamingThread(null);
+  }, [renamingThread, renameText]);
+
+  const handleDelete = useCallback((thread: ChatThread) => {
+    Alert.alert('Delete Conversation', `Delete "${thread.title}"? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteChatThread(thread.id);
+          showToast('Conversation deleted', 'success');
+        },
+      },
+    ]);
+  }, []);
+
+  const renderThread = useCallback(
+    ({ item }: { item: ChatThread }) => {
+      const lastMessage = item.messages[item.messages.length - 1];
+      return (
+        <TouchableOpacity style={styles.threadRow} onPress={() => handleOpenThread(item)} activeOpacity={0.7}>
+          <View style={styles.threadContent}>
+            <View style={styles.threadTitleRow}>
+              <Text style={styles.threadTitle} numberOfLines={1}>
+                {item.title}
+              </Text>
+              <Text style={styles.threadDate}>{formatUpdatedAt(item.updatedAt)}</Text>
+            </View>
+            {lastMessage && (
+              <Text style={styles.threadPreview} numberOfLines={2}>
+                {lastMessage.content}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={() => handleStartRename(item)}
+            style={styles.threadAction}
+            accessibilityLabel="Rename conversation"
+          >
+            <Ionicons name="pencil-outline" size={18} color={Colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleDelete(item)}
+            style={styles.threadAction}
+            accessibilityLabel="Delete conversation"
+          >
+            <Ionicons name="trash-outline" size={18} color={Colors.error} />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      );
+    },
+    [handleOpenThread, handleStartRename, handleDelete]
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Conversations</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={20} color={Colors.textSecondary} style={styles.searchIcon} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search conversations"
+          placeholderTextColor={Colors.textSecondary}
+          value={searchText}
+          onChangeText={setSearchText}
+        />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <PeriLoader size="large" />
+        </View>
+      ) : (
+        <FlatList
+          data={threads}
+          keyExtractor={(item) => item.id}
+          renderItem={renderThread}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {searchText.trim() ? 'No conversations match your search.' : 'Your conversations will appear here.'}
+            </Text>
+          }
+        />
+      )}
+
+      <Modal
+        visible={renamingThread !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setRenamingThread(null)}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Rename conversation</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={renameText}
+              onChangeText={setRenameText}
+              autoFocus
+              maxLength={96}
+              onSubmitEditing={handleSaveRename}
+              returnKeyType="done"
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity onPress={() => setRenamingThread(null)} style={styles.modalButton}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleSaveRename}
+                style={styles.modalButton}
+                disabled={!renameText.trim()}
+              >
+                <Text style={[styles.modalSaveText, !renameText.trim() && styles.modalSaveTextDisabled]}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    margin: 16,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    minHeight: 200,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  threadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  threadContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  threadTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  threadTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginRight: 8,
+  },
+  threadDate: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  threadPreview: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+  },
+  threadAction: {
+    padding: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 48,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    backgroundColor: Colors.white,
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: Colors.text,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+    gap: 8,
+  },
+  modalButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+  },
+  modalSaveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  modalSaveTextDisabled: {
+    opacity: 0.4,
+  },
+});
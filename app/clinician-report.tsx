@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '@clerk/clerk-expo';
+import { Colors } from '../constants/Colors';
+import { useCycleData } from '../hooks/useCycleData';
+import { useFlowDays } from '../hooks/useFlowDays';
+import { syncCycleStore } from '../lib/cycleStore';
+import { buildEffectivePeriods, calculatePredictions } from '../lib/periodCalculations';
+import { buildClinicianReport, renderClinicianReportPdf, ReportDateRange } from '../lib/clinicianReport';
+import { shareFile } from '../lib/shareFile';
+import { showToast } from '../components/Toast';
+
+const RANGE_OPTIONS = [
+  { key: '3m', label: '3 months', months: 3 },
+  { key: '6m', label: '6 months', months: 6 },
+  { key: '12m', label: '12 months', months: 12 },
+  { key: 'all', label: 'All time', months: null },
+] as const;
+type RangeKey = (typeof RANGE_OPTIONS)[number]['key'];
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function ClinicianReportScreen() {
+  const router = useRouter();
+  const { user } = useUser();
+  const { periods, symptoms, moods, settings } = useCycleData();
+  const flowDays = useFlowDays();
+  const [rangeKey, setRangeKey] = useState<RangeKey>('6m');
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    syncCycleStore().catch((error) => console.warn('[ClinicianReport] Sync failed:', error));
+  }, []);
+
+  const range = useMemo<ReportDateRange>(() => {
+    const end = new Date();
+    const option = RANGE_OPTIONS.find((entry) => entry.key === rangeKey)!;
+    if (option.months !== null) {
+      const start = new Date(end);
+      start.setMonth(start.getMonth() - option.months);
+      return { start, end };
+    }
+    const earliest = periods.reduce<Date>((min, period) => {
+      const start = new Date(period.startDate);
+      return start < min ? start : min;
+    }, end);
+    return { start: earliest, end };
+  }, [rangeKey, periods]);
+
+  const report = useMemo(() => {
+    const predictions = calculatePredictions(buildEffectivePeriods(periods, settings), settings);
+    return buildClinicianReport({
+      periods,
+      symptoms,
+      moods,
+      settings,
+      predictions,
+      range,
+      flowDays,
+      patientName: user?.fullName ?? null,
+    });
+  }, [periods, symptoms, moods, settings, range, flowDays, user?.fullName]);
+
+  const handleShare = useCallback(async () => {
+    setGenerating(true);
+    try {
+      const bytes = renderClinicianReportPdf({ ...report, generatedAt: new Date() });
+      await shareFile({
+        filename: `cycle-report-${new Date().toISOString().split('T')[0]}.pdf`,
+        content: bytes,
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: 'Share cycle report',
+      });
+    } catch (error) {
+      console.error('[ClinicianReport] Failed to share report:', error);
+      showToast('Could not create the report. Please try again.', 'error');
+    } finally {
+      setGenerating(false);
+    }
+  }, [report]);
+
+  const summaryRows = [
+    { label: 'Periods logged', value: String(report.cycles.length) },
+    {
+      label: 'Average cycle',
+      value: report.cycleLengthStats ? `${report.cycleLengthStats.average} days` : '—',
+    },
+    {
+      label: 'Average period',
+      value: report.periodLengthStats ? `${report.periodLengthStats.average} days` : '—',
+    },
+    { label: 'Symptoms tracked', value: String(report.symptomsByPhase.length) },
+    { label: 'Serious symptoms', value: String(report.flaggedSymptoms.length) },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Doctor Report</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          A PDF summary of your cycles, period lengths and symptoms to bring to your gynecologist.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Date range</Text>
+        <View style={styles.rangeRow}>
+          {RANGE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.rangeChip, rangeKey === option.key && styles.rangeChipSelected]}
+              onPress={() => setRangeKey(option.key)}
+            >
+              <Text style={[styles.rangeChipText, rangeKey === option.key && styles.rangeChipTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.rangeText}>
+          {formatDate(range.start)} – {formatDate(range.end)}
+        </Text>
+
+        <Text style={styles.sectionTitle}>Included in the report</Text>
+        <View style={styles.summaryCard}>
+          {summaryRows.map((row) => (
+            <View key={row.label} style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{row.label}</Text>
+              <Text style={styles.summaryValue}>{row.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.shareButton, generating && styles.shareButtonDisabled]}
+          onPress={handleShare}
+          disabled={generating}
+        >
+          {generating ? (
+            <ActivityIndicator color={Colors.white} />
+          ) : (
+            <>
+              <Ionicons name="share-outline" size={20} color={Colors.white} />
+              <Text style={styles.shareButtonText}>Create PDF & Share</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  rangeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  rangeChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  rangeChipText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  rangeChipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  rangeText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 10,
+    marginBottom: 24,
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 24,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  summaryLabel: {
+    fontSize: 15,
+    color: Colors.text,
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  shareButtonDisabled: {
+    opacity: 0.7,
+  },
+  shareButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+});
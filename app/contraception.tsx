@@ -0,0 +1,469 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Switch,
+  Platform,
+  DeviceEventEmitter,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Colors } from '../constants/Colors';
+import { useCycleData } from '../hooks/useCycleData';
+import { usePillLog } from '../hooks/usePillLog';
+import { ContraceptionMethod, ContraceptionRegimen, updateSettings } from '../lib/api';
+import { addDays, formatDayKey, fromApiDate, fromLocalDate, getNow, getToday, toApiDate, toLocalDate } from '../lib/calendarDate';
+import {
+  CONTRACEPTION_LABELS,
+  CONTRACEPTION_METHODS,
+  getContraceptionNote,
+  getMissedPillGuidance,
+  getRegimenDay,
+  METHOD_REGIMENS,
+  PACK_DAYS,
+  REGIMEN_LABELS,
+  RegimenMethod,
+} from '../lib/contraception';
+import { setPillTaken } from '../lib/pillLog';
+import ContraceptionCard from '../components/ContraceptionCard';
+import { showToast } from '../components/Toast';
+
+const DEFAULT_REMINDER_TIME = '09:00';
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const START_LABELS: Record<RegimenMethod, string> = {
+  pill: 'First pill of this pack',
+  patch: 'First patch of this cycle',
+  ring: 'Ring put in',
+};
+
+function isRegimenMethod(method: ContraceptionMethod | null): method is RegimenMethod {
+  return method === 'pill' || method === 'patch' || method === 'ring';
+}
+
+function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function timeToDate(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = getNow();
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+}
+
+export default function ContraceptionScreen() {
+  const router = useRouter();
+  const { settings } = useCycleData();
+  const pillLog = usePillLog();
+
+  const [method, setMethod] = useState<ContraceptionMethod | null>(null);
+  const [regimen, setRegimen] = useState<ContraceptionRegimen>('21_7');
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [reminderTime, setReminderTime] = useState<string | null>(null);
+  const [picker, setPicker] = useState<'date' | 'time' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The form starts from the saved settings, and follows them when they sync
+  useEffect(() => {
+    setMethod(settings?.contraception ?? null);
+    setRegimen(settings?.contraceptionRegimen ?? '21_7');
+    const start = fromApiDate(settings?.contraceptionStartDate);
+    setStartDate(start ? toLocalDate(start) : null);
+    setReminderTime(settings?.contraceptionReminderTime ?? null);
+  }, [settings?.contraception, settings?.contraceptionRegimen, settings?.contraceptionStartDate, settings?.contraceptionReminderTime]);
+
+  const today = getToday();
+  const todayKey = formatDayKey(today);
+  const regimenDay = useMemo(() => getRegimenDay(settings), [settings]);
+  const missedPills = useMemo(() => getMissedPillGuidance(settings, pillLog), [settings, pillLog]);
+  const taken = useMemo(() => new Set(pillLog.map((entry) => entry.date)), [pillLog]);
+  const missed = useMemo(
+    () => new Set((missedPills?.missedDays ?? []).map((day) => formatDayKey(fromLocalDate(day)))),
+    [missedPills]
+  );
+
+  // Every day of the current pack, break included
+  const packDays = useMemo(() => {
+    if (!regimenDay || regimenDay.method !== 'pill') return [];
+    const packStart = fromLocalDate(regimenDay.packStart);
+    return Array.from({ length: PACK_DAYS }, (_, index) => {
+      const day = addDays(packStart, index);
+      return { day, key: formatDayKey(day), number: index + 1, isBreak: index >= regimenDay.activeDays };
+    });
+  }, [regimenDay]);
+
+  const regimenOptions = isRegimenMethod(method) ? METHOD_REGIMENS[method] : [];
+  const chosenRegimen = regimenOptions.includes(regimen) ? regimen : '21_7';
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const scheduled = isRegimenMethod(method);
+      await updateSettings({
+        contraception: method,
+        contraceptionRegimen: scheduled ? chosenRegimen : null,
+        contraceptionStartDate: scheduled && startDate ? toApiDate(fromLocalDate(startDate)) : null,
+        contraceptionReminderTime: scheduled ? reminderTime : null,
+      });
+      DeviceEventEmitter.emit('settingsUpdated');
+      showToast('Contraception saved', 'success');
+    } catch (error: any) {
+      console.error('[Contraception] Failed to save:', error);
+      showToast(error?.message || 'Could not save. Please try again.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePill = async (date: Date, wasTaken: boolean) => {
+    try {
+      await setPillTaken(date, !wasTaken);
+    } catch (error: any) {
+      showToast(error?.message || 'Could not save. Please try again.', 'error');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Contraception</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {settings?.contraception && (
+          <View style={styles.cardWrapper}>
+            <ContraceptionCard
+              method={settings.contraception}
+              regimenDay={regimenDay}
+              missedPills={missedPills}
+              takenToday={taken.has(todayKey)}
+              note={getContraceptionNote(settings)}
+              onTogglePill={() => handleTogglePill(toLocalDate(today), taken.has(todayKey))}
+            />
+          </View>
+        )}
+
+        {packDays.length > 0 && (
+          <View style={styles.packCard}>
+            <Text style={styles.sectionTitle}>Pack {regimenDay!.packNumber}</Text>
+            <Text style={styles.formHint}>Tap a day to tick off its pill. Faded days are the break.</Text>
+            <View style={styles.packGrid}>
+              {packDays.map((packDay) => {
+                const isTaken = taken.has(packDay.key);
+                const isFuture = packDay.key > todayKey;
+                return (
+                  <TouchableOpacity
+                    key={packDay.key}
+                    style={[
+                      styles.packDay,
+                      packDay.isBreak && styles.packDayBreak,
+                      isTaken && styles.packDayTaken,
+                      missed.has(packDay.key) && styles.packDayMissed,
+                      packDay.key === todayKey && styles.packDayToday,
+                    ]}
+                    onPress={() => handleTogglePill(toLocalDate(packDay.day), isTaken)}
+                    disabled={packDay.isBreak || isFuture}
+                  >
+                    <Text style={[styles.packDayText, isTaken && styles.packDayTextTaken]}>{packDay.number}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.formHint}>
+              {`Next pack starts ${formatDate(regimenDay!.nextPackStart)}`}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.formCard}>
+          <Text style={styles.formLabel}>Method</Text>
+          <View style={styles.chipRow}>
+            {[null, ...CONTRACEPTION_METHODS].map((option) => {
+              const selected = method === option;
+              return (
+                <TouchableOpacity
+                  key={option ?? 'none'}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setMethod(option)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {option ? CONTRACEPTION_LABELS[option] : 'None'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {isRegimenMethod(method) && (
+            <>
+              <Text style={[styles.formLabel, styles.formLabelSpaced]}>Schedule</Text>
+              <View style={styles.chipRow}>
+                {regimenOptions.map((option) => {
+                  const selected = chosenRegimen === option;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => setRegimen(option)}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{REGIMEN_LABELS[option]}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={[styles.formLabel, styles.formLabelSpaced]}>{START_LABELS[method]}</Text>
+              <TouchableOpacity style={styles.pickerButton} onPress={() => setPicker('date')}>
+                <Ionicons name="calendar-outline" size={16} color={Colors.primary} />
+                <Text style={styles.pickerButtonText}>{startDate ? formatDate(startDate) : 'Choose a date'}</Text>
+              </TouchableOpacity>
+
+              <View style={styles.reminderRow}>
+                <View style={styles.reminderLabel}>
+                  <Text style={styles.formLabel}>Reminders</Text>
+                  <Text style={styles.formHint}>
+                    {method === 'pill' ? 'Every day you have a pill to take' : `When your ${method} goes on, gets changed or comes off`}
+                  </Text>
+                </View>
+                <Switch
+                  value={!!reminderTime}
+                  onValueChange={(value) => setReminderTime(value ? DEFAULT_REMINDER_TIME : null)}
+                  trackColor={{ true: Colors.primary, false: Colors.border }}
+                />
+              </View>
+              {reminderTime && (
+                <TouchableOpacity style={styles.pickerButton} onPress={() => setPicker('time')}>
+                  <Ionicons name="time-outline" size={16} color={Colors.primary} />
+                  <Text style={styles.pickerButtonText}>{reminderTime}</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+
+          {picker && (
+            <DateTimePicker
+              value={picker === 'date' ? startDate ?? getNow() : timeToDate(reminderTime ?? DEFAULT_REMINDER_TIME)}
+              mode={picker}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              maximumDate={picker === 'date' ? getNow() : undefined}
+              onChange={(event, picked) => {
+                const target = picker;
+                if (Platform.OS === 'android' || event.type === 'dismissed') {
+                  setPicker(null);
+                }
+                if (!picked || event.type === 'dismissed') return;
+                if (target === 'date') setStartDate(toLocalDate(fromLocalDate(picked)));
+                else setReminderTime(toTimeString(picked));
+              }}
+            />
+          )}
+
+          {method && method !== 'copper_iud' && (
+            <Text style={styles.formHint}>
+              Fertile days, ovulation and PMS predictions are hidden while you use it. Bleeds you log are still kept.
+            </Text>
+          )}
+
+          <View style={styles.formActions}>
+            <TouchableOpacity
+              style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isSaving}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  cardWrapper: {
+    marginHorizontal: -20,
+  },
+  packCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  packGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  packDay: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  packDayBreak: {
+    opacity: 0.4,
+  },
+  packDayTaken: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  packDayMissed: {
+    borderColor: Colors.warning,
+    borderWidth: 2,
+  },
+  packDayToday: {
+    borderColor: Colors.text,
+    borderWidth: 2,
+  },
+  packDayText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  packDayTextTaken: {
+    color: Colors.white,
+  },
+  formCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  formLabelSpaced: {
+    marginTop: 16,
+  },
+  formHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  pickerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  pickerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  reminderLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 16,
+  },
+  saveButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+});
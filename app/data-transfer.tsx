@@ -0,0 +1,405 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  ActivityIndicator,
+  DeviceEventEmitter,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { Colors } from '../constants/Colors';
+import { useCycleData } from '../hooks/useCycleData';
+import { syncCycleStore, getCycleStoreSnapshot } from '../lib/cycleStore';
+import { invalidatePredictionsCache } from '../lib/aiPredictions';
+import { buildExportBundle, serializeBundleCsv, serializeBundleJson } from '../lib/dataExport';
+import { ImportPlan, ImportResult, planImport, runImport, validateImportData } from '../lib/dataImport';
+import { parseImportFile } from '../lib/importAdapters';
+import { getFlowDaysSnapshot, loadFlowDays } from '../lib/flowLog';
+import { getTemperatureReadingsSnapshot, loadTemperatureReadings } from '../lib/temperatureLog';
+import { getLHTestsSnapshot, loadLHTests } from '../lib/lhTestLog';
+import { getIntercourseSnapshot, loadIntercourseLog } from '../lib/intercourseLog';
+import { getPillLogSnapshot, loadPillLog } from '../lib/pillLog';
+import { shareFile } from '../lib/shareFile';
+import { showToast } from '../components/Toast';
+
+const MAX_PREVIEW_PERIODS = 5;
+const MAX_LISTED_ISSUES = 20;
+const MAX_LISTED_UNMAPPED = 12;
+
+const formatDay = (key: string) =>
+  new Date(`${key}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/** Every per-day log that is exported, read from its store */
+async function readDayLogs() {
+  await Promise.all([loadFlowDays(), loadTemperatureReadings(), loadLHTests(), loadIntercourseLog(), loadPillLog()]);
+  return {
+    flow: getFlowDaysSnapshot(),
+    temperature: getTemperatureReadingsSnapshot(),
+    lh_test: getLHTestsSnapshot(),
+    intercourse: getIntercourseSnapshot(),
+    pill: getPillLogSnapshot(),
+  };
+}
+
+export default function DataTransferScreen() {
+  const router = useRouter();
+  const cycleData = useCycleData();
+  const [exporting, setExporting] = useState<'json' | 'csv' | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const handleExport = useCallback(
+    async (format: 'json' | 'csv') => {
+      setExporting(format);
+      try {
+        const bundle = buildExportBundle({ ...cycleData, dayLogs: await readDayLogs() });
+        const date = new Date().toISOString().split('T')[0];
+        await shareFile(
+          format === 'json'
+            ? {
+                filename: `peri-peri-export-${date}.json`,
+                content: serializeBundleJson(bundle),
+                mimeType: 'application/json',
+                UTI: 'public.json',
+                dialogTitle: 'Export your data',
+              }
+            : {
+                filename: `peri-peri-export-${date}.csv`,
+                content: serializeBundleCsv(bundle),
+                mimeType: 'text/csv',
+                UTI: 'public.comma-separated-values-text',
+                dialogTitle: 'Export your data',
+              }
+        );
+      } catch (error) {
+        console.error('[DataTransfer] Export failed:', error);
+        showToast('Could not export your data. Please try again.', 'error');
+      } finally {
+        setExporting(null);
+      }
+    },
+    [cycleData]
+  );
+
+  const handlePickFile = useCallback(async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: [
+          'application/json',
+          'text/csv',
+          'text/comma-separated-values',
+          'text/plain',
+          'text/xml',
+          'application/xml',
+        ],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets[0]) return;
+
+      const asset = picked.assets[0];
+      const text = await new File(asset.uri).text();
+      const bundle = validateImportData(parseImportFile(text, asset.name));
+      // Compare against the freshest copy so re-importing the same file finds its duplicates
+      await syncCycleStore().catch(() => undefined);
+      setFileName(asset.name);
+      setResult(null);
+      setPlan(planImport(bundle, { ...getCycleStoreSnapshot(), dayLogs: await readDayLogs() }));
+    } catch (error: any) {
+      console.warn('[DataTransfer] Could not read import file:', error);
+      showToast(error?.message || 'Could not read that file.', 'error');
+    }
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!plan) return;
+    try {
+      const outcome = await runImport(plan, (done, total) => setProgress({ done, total }));
+      setResult(outcome);
+      setPlan(null);
+      if (outcome.created > 0) {
+        await invalidatePredictionsCache();
+        await syncCycleStore({ full: true }).catch(() => undefined);
+        DeviceEventEmitter.emit('periodsUpdated');
+      }
+      showToast(
+        outcome.failed.length ? `Imported ${outcome.created}, ${outcome.failed.length} failed` : `Imported ${outcome.created} records`,
+        outcome.failed.length ? 'error' : 'success'
+      );
+    } finally {
+      setProgress(null);
+    }
+  }, [plan]);
+
+  const planTotal = plan ? plan.periods.length + plan.symptoms.length + plan.moods.length + plan.dayLogs.length : 0;
+  const duplicateTotal = plan
+    ? plan.duplicates.periods + plan.duplicates.symptoms + plan.duplicates.moods + plan.duplicates.dayLogs
+    : 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Export & Import</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Export</Text>
+        <Text style={styles.sectionDescription}>
+          Download every period, symptom and mood you have logged, your daily logs (flow, temperature, LH tests,
+          intercourse and pills), plus your cycle settings.
+        </Text>
+        <View style={styles.buttonRow}>
+          {(['json', 'csv'] as const).map((format) => (
+            <TouchableOpacity
+              key={format}
+              style={styles.secondaryButton}
+              onPress={() => handleExport(format)}
+              disabled={exporting !== null}
+            >
+              {exporting === format ? (
+                <ActivityIndicator color={Colors.primary} />
+              ) : (
+                <Text style={styles.secondaryButtonText}>{format.toUpperCase()}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Import</Text>
+        <Text style={styles.sectionDescription}>
+          Bring back a Peri Peri export, or move over from Clue, Flo (CSV) or Apple Health (export.xml). Periods that
+          overlap ones you already logged are skipped.
+        </Text>
+        <TouchableOpacity style={styles.secondaryButton} onPress={handlePickFile} disabled={progress !== null}>
+          <Ionicons name="folder-open-outline" size={18} color={Colors.primary} />
+          <Text style={styles.secondaryButtonText}>Choose File</Text>
+        </TouchableOpacity>
+
+        {plan && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{fileName}</Text>
+            <Text style={styles.cardMuted}>Read as {plan.source}</Text>
+            <Text style={styles.cardLine}>
+              {plan.periods.length} periods · {plan.symptoms.length} symptoms · {plan.moods.length} moods
+              {plan.dayLogs.length > 0 ? ` · ${plan.dayLogs.length} daily log entries` : ''} to add
+            </Text>
+            {duplicateTotal > 0 && (
+              <Text style={styles.cardMuted}>{duplicateTotal} already logged — will be skipped</Text>
+            )}
+            {plan.periods.slice(0, MAX_PREVIEW_PERIODS).map((period) => (
+              <Text key={period.startDate} style={styles.cardMuted}>
+                • {formatDay(period.startDate)}
+                {period.endDate ? ` – ${formatDay(period.endDate)}` : ''}
+                {period.flowLevel ? ` (${period.flowLevel})` : ''}
+              </Text>
+            ))}
+            {plan.periods.length > MAX_PREVIEW_PERIODS && (
+              <Text style={styles.cardMuted}>…and {plan.periods.length - MAX_PREVIEW_PERIODS} more periods</Text>
+            )}
+
+            {progress ? (
+              <View style={styles.progressContainer}>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.cardMuted}>
+                  Importing {progress.done} of {progress.total}…
+                </Text>
+              </View>
+            ) : (
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setPlan(null)}>
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, planTotal === 0 && styles.buttonDisabled]}
+                  onPress={handleImport}
+                  disabled={planTotal === 0}
+                >
+                  <Text style={styles.primaryButtonText}>Import {planTotal}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        {result && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Import finished</Text>
+            <Text style={styles.cardLine}>{result.created} records added</Text>
+            {result.failed.length > 0 && (
+              <Text style={styles.cardError}>{result.failed.length} could not be saved</Text>
+            )}
+          </View>
+        )}
+
+        {plan && plan.unmapped.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Not imported</Text>
+            <Text style={styles.cardMuted}>These entries have no match in Peri Peri and will be left out:</Text>
+            {plan.unmapped.slice(0, MAX_LISTED_UNMAPPED).map((entry) => (
+              <Text key={entry.value} style={styles.cardMuted}>
+                • {entry.value} ({entry.count})
+              </Text>
+            ))}
+            {plan.unmapped.length > MAX_LISTED_UNMAPPED && (
+              <Text style={styles.cardMuted}>…and {plan.unmapped.length - MAX_LISTED_UNMAPPED} more</Text>
+            )}
+          </View>
+        )}
+
+        {(plan?.issues.length || result?.failed.length) ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Problems found</Text>
+            {[...(result?.failed ?? []), ...(plan?.issues ?? [])].slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+              <Text key={`${issue.where}-${index}`} style={styles.cardMuted}>
+                {issue.where}: {issue.message}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  sectionSpacing: {
+    marginTop: 32,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  cardLine: {
+    fontSize: 14,
+    color: Colors.text,
+    marginBottom: 6,
+  },
+  cardMuted: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 19,
+  },
+  cardError: {
+    fontSize: 14,
+    color: Colors.error,
+  },
+  progressContainer: {
+    marginTop: 12,
+    gap: 6,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.border,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: Colors.primary,
+  },
+});
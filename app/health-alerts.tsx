@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  DeviceEventEmitter,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { TriageAlert, listTriageAlerts, clearTriageAlerts } from '../lib/symptomTriage';
+import { showToast } from '../components/Toast';
+
+const formatTriggeredAt = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function HealthAlertsScreen() {
+  const router = useRouter();
+  const [alerts, setAlerts] = useState<TriageAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      setAlerts(await listTriageAlerts());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+    const subscription = DeviceEventEmitter.addListener('triageAlertsUpdated', loadAlerts);
+    return () => subscription.remove();
+  }, [loadAlerts]);
+
+  const handleClear = useCallback(() => {
+    Alert.alert('Clear Alert History', 'Remove all past alerts? Alerts that still apply will show again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          await clearTriageAlerts();
+          showToast('Alert history cleared', 'success');
+        },
+      },
+    ]);
+  }, []);
+
+  const renderAlert = useCallback(({ item }: { item: TriageAlert }) => {
+    const isUrgent = item.severity === 'urgent';
+    return (
+      <View style={styles.alertRow}>
+        <View style={styles.alertTitleRow}>
+          <Ionicons
+            name={isUrgent ? 'alert-circle' : 'medkit-outline'}
+            size={18}
+            color={isUrgent ? Colors.error : Colors.textSecondary}
+            style={styles.alertIcon}
+          />
+          <Text style={styles.alertTitle}>{item.title}</Text>
+          <Text style={styles.alertDate}>{formatTriggeredAt(item.triggeredAt)}</Text>
+        </View>
+        {item.reasons.map((reason) => (
+          <Text key={reason} style={styles.alertReason}>
+            • {reason}
+          </Text>
+        ))}
+        <Text style={styles.alertStatus}>
+          {item.dismissedAt ? `Dismissed ${formatTriggeredAt(item.dismissedAt)}` : 'Not dismissed'}
+        </Text>
+      </View>
+    );
+  }, []);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Health Alerts</Text>
+        <TouchableOpacity
+          onPress={handleClear}
+          style={styles.closeButton}
+          disabled={alerts.length === 0}
+          accessibilityLabel="Clear alert history"
+        >
+          <Ionicons
+            name="trash-outline"
+            size={20}
+            color={alerts.length === 0 ? Colors.border : Colors.textSecondary}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={alerts}
+        keyExtractor={(item) => item.key}
+        renderItem={renderAlert}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <Text style={styles.intro}>
+            These alerts were raised from symptoms and periods you logged. They are not a diagnosis, but are worth
+            mentioning to a doctor.
+          </Text>
+        }
+        ListEmptyComponent={loading ? null : <Text style={styles.emptyText}>No alerts so far.</Text>}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  alertRow: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  alertTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  alertIcon: {
+    marginRight: 8,
+  },
+  alertTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  alertDate: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginLeft: 8,
+  },
+  alertReason: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  alertStatus: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 6,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 48,
+  },
+});
@@ -13,8 +13,10 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../constants/Colors';
-import { createSymptom, createMood, getSymptoms, getMoods, Symptom, Mood } from '../lib/api';
+import { createSymptom, updateSymptom, createMood, getSymptoms, getMoods, Symptom, Mood } from '../lib/api';
+import { isPendingRecord } from '../lib/outbox';
 import PeriLoader from '../components/PeriLoader';
+import SeverityPicker from '../components/SeverityPicker';
 import { showToast } from '../components/Toast';
 
 const MOOD_OPTIONS = [
@@ -49,6 +51,8 @@ const SYMPTOM_OPTIONS = [
   { emoji: '⬇️', label: 'Vaginal itching' },
 ];
 
+const DEFAULT_SEVERITY = 3;
+
 export default function LogSymptomsScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ date?: string }>();
@@ -60,6 +64,7 @@ export default function LogSymptomsScreen() {
   });
   const [selectedMoods, setSelectedMoods] = useState<string[]>([]);
   const [selectedSymptoms, setSelectedSymptoms] = useState<string[]>([]);
+  const [severities, setSeverities] = useState<Record<string, number>>({});
   const [searchText, setSearchText] = useState('');
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -88,6 +93,7 @@ export default function LogSymptomsScreen() {
       setExistingSymptoms(symptoms);
       setSelectedMoods(moods.map(m => m.type));
       setSelectedSymptoms(symptoms.map(s => s.type));
+      setSeverities(Object.fromEntries(symptoms.map(s => [s.type, s.severity || DEFAULT_SEVERITY])));
     } catch (error) {
       console.error('[LogSymptoms] Error loading existing data:', error);
     } finally {
@@ -148,6 +154,10 @@ export default function LogSymptomsScreen() {
       const symptomsToAdd = selectedSymptoms.filter(s => !currentSymptoms.includes(s));
       // Find symptoms to remove (existing not in new selections)
       const symptomsToRemove = existingSymptoms.filter(s => !selectedSymptoms.includes(s.type));
+      // Existing symptoms whose severity was changed
+      const symptomsToUpdate = existingSymptoms.filter(
+        s => selectedSymptoms.includes(s.type) && (severities[s.type] ?? DEFAULT_SEVERITY) !== s.severity
+      );
 
       // Save new moods and symptoms in parallel
       const savePromises: Promise<any>[] = [];
@@ -157,20 +167,30 @@ export default function LogSymptomsScreen() {
       });
 
       symptomsToAdd.forEach(symptom => {
-        savePromises.push(createSymptom({ date: dateISO, type: symptom, severity: 3 }));
+        savePromises.push(createSymptom({ date: dateISO, type: symptom, severity: severities[symptom] ?? DEFAULT_SEVERITY }));
+      });
+
+      symptomsToUpdate.forEach(symptom => {
+        savePromises.push(updateSymptom(symptom.id, { severity: severities[symptom.type] ?? DEFAULT_SEVERITY }));
       });
 
       // Note: We'll need to add delete functions for moods/symptoms if needed
       // For now, we only add new ones
 
-      await Promise.all(savePromises);
+      const saved = await Promise.all(savePromises);
+      const savedOffline = saved.some((record) => isPendingRecord(record));
 
       // Optimistically update - navigate back immediately
       router.back();
       
       // Small delay to allow navigation, then show success
       setTimeout(() => {
-        showToast('Your symptoms and moods have been saved!', 'success');
+        showToast(
+          savedOffline
+            ? "Saved offline — we'll sync when you're back online"
+            : 'Your symptoms and moods have been saved!',
+          'success'
+        );
       }, 300);
     } catch (error: any) {
       console.error('[LogSymptoms] Error saving:', error);
@@ -178,7 +198,7 @@ export default function LogSymptomsScreen() {
     } finally {
       setSaving(false);
     }
-  }, [selectedDate, selectedMoods, selectedSymptoms, existingMoods, existingSymptoms, router]);
+  }, [selectedDate, selectedMoods, selectedSymptoms, severities, existingMoods, existingSymptoms, router]);
 
   const filteredMoods = MOOD_OPTIONS.filter(option =>
     option.label.toLowerCase().includes(searchText.toLowerCase())
@@ -275,6 +295,21 @@ export default function LogSymptomsScreen() {
               </View>
             </View>
 
+            {/* Severity for each selected symptom */}
+            {selectedSymptoms.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>How strong?</Text>
+                {selectedSymptoms.map(symptom => (
+                  <SeverityPicker
+                    key={symptom}
+                    label={symptom}
+                    value={severities[symptom] ?? DEFAULT_SEVERITY}
+                    onChange={(severity) => setSeverities(prev => ({ ...prev, [symptom]: severity }))}
+                  />
+                ))}
+              </View>
+            )}
+
             {/* Save Button */}
             <TouchableOpacity
               style={[styles.saveButton, saving && styles.saveButtonDisabled]}
@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, DeviceEventEmitter } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { useCycleData } from '../hooks/useCycleData';
+import { useCycleReviews } from '../hooks/useCycleReviews';
+import { syncCycleStore } from '../lib/cycleStore';
+import {
+  listPredictionSnapshots,
+  PredictionSnapshot,
+  ScoredPrediction,
+  scorePredictions,
+  SourceAccuracy,
+} from '../lib/predictionAccuracy';
+
+const SOURCE_LABELS = {
+  local: 'On-device calculator',
+  ai: 'AI predictions',
+} as const;
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+function errorLabel(errorDays: number): string {
+  if (errorDays === 0) return 'Spot on';
+  const days = Math.abs(errorDays) === 1 ? 'day' : 'days';
+  return errorDays > 0 ? `${errorDays} ${days} later` : `${-errorDays} ${days} earlier`;
+}
+
+function biasLabel(bias: number): string {
+  if (Math.abs(bias) < 1) return 'No consistent lean early or late';
+  return bias > 0
+    ? `Your period usually comes ${bias} days after this prediction`
+    : `Your period usually comes ${-bias} days before this prediction`;
+}
+
+function SourceCard({ accuracy }: { accuracy: SourceAccuracy }) {
+  return (
+    <View style={styles.sourceCard}>
+      <Text style={styles.sourceTitle}>{SOURCE_LABELS[accuracy.source]}</Text>
+      {accuracy.meanAbsoluteError === null ? (
+        <Text style={styles.sourceDetail}>No periods logged yet since its first prediction.</Text>
+      ) : (
+        <>
+          <Text style={styles.sourceStat}>
+            Off by {accuracy.meanAbsoluteError} {accuracy.meanAbsoluteError === 1 ? 'day' : 'days'} on average
+          </Text>
+          <Text style={styles.sourceDetail}>
+            {biasLabel(accuracy.bias ?? 0)} · {accuracy.cycles.length}{' '}
+            {accuracy.cycles.length === 1 ? 'cycle' : 'cycles'} checked
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+function HistoryRow({ entry }: { entry: ScoredPrediction }) {
+  const isClose = Math.abs(entry.errorDays) <= 1;
+  return (
+    <View style={styles.historyRow}>
+      <View style={styles.historyText}>
+        <Text style={styles.historyTitle}>
+          {SOURCE_LABELS[entry.source]}
+          {entry.model ? ` · ${entry.model}` : ''}
+        </Text>
+        <Text style={styles.historyDetail}>
+          Predicted {formatDate(entry.predictedStart)}, started {formatDate(entry.actualStart)}
+        </Text>
+      </View>
+      <View style={[styles.errorBadge, isClose && styles.errorBadgeClose]}>
+        <Text style={[styles.errorBadgeText, isClose && styles.errorBadgeTextClose]}>{errorLabel(entry.errorDays)}</Text>
+      </View>
+    </View>
+  );
+}
+
+export default function PredictionAccuracyScreen() {
+  const router = useRouter();
+  const { periods, settings } = useCycleData();
+  const cycleReviews = useCycleReviews();
+  const [snapshots, setSnapshots] = useState<PredictionSnapshot[]>([]);
+
+  const refresh = useCallback(() => {
+    listPredictionSnapshots()
+      .then(setSnapshots)
+      .catch((error) => console.warn('[PredictionAccuracy] Failed to load snapshots:', error));
+  }, []);
+
+  useEffect(() => {
+    syncCycleStore().catch((error) => console.warn('[PredictionAccuracy] Sync failed:', error));
+    refresh();
+    const subscription = DeviceEventEmitter.addListener('predictionAccuracyUpdated', refresh);
+    return () => subscription.remove();
+  }, [refresh]);
+
+  const accuracy = useMemo(
+    () => scorePredictions(snapshots, periods, settings, cycleReviews),
+    [snapshots, periods, settings, cycleReviews]
+  );
+  const history = useMemo(
+    () =>
+      [...accuracy.local.cycles, ...accuracy.ai.cycles].sort(
+        (a, b) => b.cycleStart.getTime() - a.cycleStart.getTime() || a.source.localeCompare(b.source)
+      ),
+    [accuracy]
+  );
+  const aiShare = Math.round(accuracy.aiWeight * 100);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Prediction Accuracy</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          Every time your next period is predicted, the date is saved. Once you log the real start, we check how
+          close each prediction was.
+        </Text>
+
+        <SourceCard accuracy={accuracy.local} />
+        <SourceCard accuracy={accuracy.ai} />
+
+        <View style={styles.weightCard}>
+          <Ionicons name="git-merge-outline" size={20} color={Colors.primary} style={styles.weightIcon} />
+          <Text style={styles.weightText}>
+            {accuracy.hasTrackRecord
+              ? `Based on their track records, your next-period date leans ${aiShare}% on AI and ${100 - aiShare}% on the on-device calculator.`
+              : 'Until both have a few cycles of history, your next-period date weighs AI and the on-device calculator equally.'}
+          </Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>History</Text>
+        {history.length === 0 ? (
+          <Text style={styles.emptyText}>Log your next period to see how the predictions did.</Text>
+        ) : (
+          history.map((entry) => (
+            <HistoryRow key={`${entry.source}-${entry.cycleStart.getTime()}`} entry={entry} />
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  sourceCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  sourceTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  sourceStat: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  sourceDetail: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 4,
+    lineHeight: 18,
+  },
+  weightCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginTop: 4,
+    marginBottom: 24,
+  },
+  weightIcon: {
+    marginRight: 10,
+  },
+  weightText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  historyText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  historyDetail: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  errorBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#FDECEC',
+  },
+  errorBadgeClose: {
+    backgroundColor: '#E8F5E9',
+  },
+  errorBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  errorBadgeTextClose: {
+    color: '#2E7D32',
+  },
+});
@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, Dimensions } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Svg, { Circle, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+import { Colors } from '../constants/Colors';
+import { useCycleData } from '../hooks/useCycleData';
+import { syncCycleStore } from '../lib/cycleStore';
+import { buildSymptomTrend, listLoggedSymptomTypes, SymptomTrend } from '../lib/symptomTrends';
+
+const CHART_WIDTH = Dimensions.get('window').width - 40;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = { top: 12, right: 8, bottom: 24, left: 24 };
+const PLOT_WIDTH = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+const PLOT_HEIGHT = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+const SEVERITY_TICKS = [1, 3, 5];
+
+const severityY = (severity: number) => CHART_PADDING.top + PLOT_HEIGHT - (severity / 5) * PLOT_HEIGHT;
+
+function trendSummary(trend: SymptomTrend): string {
+  if (!trend.byCycle.length) return `No ${trend.label.toLowerCase()} logged during a tracked cycle yet.`;
+  if (!trend.direction) return 'Log this symptom over at least 3 cycles to see whether it’s changing.';
+
+  const recent = trend.byCycle.slice(-6);
+  const first = recent[0].average;
+  const last = recent[recent.length - 1].average;
+  const over = `over the last ${recent.length} cycles`;
+  if (trend.direction === 'worsening') {
+    return `${trend.label} has been getting worse ${over}: average severity went from ${first} to ${last}.`;
+  }
+  if (trend.direction === 'improving') {
+    return `${trend.label} has been easing ${over}: average severity went from ${first} to ${last}.`;
+  }
+  return `${trend.label} has stayed about the same ${over} (around ${last} out of 5).`;
+}
+
+function SeverityGrid() {
+  return (
+    <>
+      {SEVERITY_TICKS.map((tick) => (
+        <React.Fragment key={tick}>
+          <Line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={severityY(tick)}
+            y2={severityY(tick)}
+            stroke={Colors.border}
+            strokeWidth={1}
+          />
+          <SvgText x={CHART_PADDING.left - 8} y={severityY(tick) + 4} fontSize={10} fill={Colors.textSecondary} textAnchor="end">
+            {tick}
+          </SvgText>
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+function CycleDayChart({ trend }: { trend: SymptomTrend }) {
+  const lastDay = Math.max(28, ...trend.byCycleDay.map((point) => point.cycleDay));
+  const slot = PLOT_WIDTH / lastDay;
+  const barWidth = Math.max(2, slot - 2);
+
+  return (
+    <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+      <SeverityGrid />
+      {trend.byCycleDay.map((point) => {
+        const y = severityY(point.average);
+        return (
+          <Rect
+            key={point.cycleDay}
+            x={CHART_PADDING.left + (point.cycleDay - 1) * slot + (slot - barWidth) / 2}
+            y={y}
+            width={barWidth}
+            height={CHART_PADDING.top + PLOT_HEIGHT - y}
+            rx={1.5}
+            fill={Colors.primary}
+            opacity={0.45 + point.average * 0.11}
+          />
+        );
+      })}
+      {[1, 7, 14, 21, 28].filter((day) => day <= lastDay).map((day) => (
+        <SvgText
+          key={day}
+          x={CHART_PADDING.left + (day - 0.5) * slot}
+          y={CHART_HEIGHT - 6}
+          fontSize={10}
+          fill={Colors.textSecondary}
+          textAnchor="middle"
+        >
+          {day}
+        </SvgText>
+      ))}
+    </Svg>
+  );
+}
+
+function CycleChart({ trend }: { trend: SymptomTrend }) {
+  const cycles = trend.byCycle.slice(-12);
+  const step = cycles.length > 1 ? PLOT_WIDTH / (cycles.length - 1) : 0;
+  const xFor = (index: number) => CHART_PADDING.left + (cycles.length > 1 ? index * step : PLOT_WIDTH / 2);
+  const path = cycles
+    .map((cycle, index) => `${index === 0 ? 'M' : 'L'} ${xFor(index)} ${severityY(cycle.average)}`)
+    .join(' ');
+  const labelEvery = Math.ceil(cycles.length / 6);
+
+  return (
+    <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+      <SeverityGrid />
+      {cycles.map((cycle, index) => (
+        <Line
+          key={`max-${cycle.cycleStart.getTime()}`}
+          x1={xFor(index)}
+          x2={xFor(index)}
+          y1={severityY(cycle.average)}
+          y2={severityY(cycle.max)}
+          stroke={Colors.primary}
+          strokeOpacity={0.35}
+          strokeWidth={2}
+        />
+      ))}
+      {cycles.length > 1 && <Path d={path} stroke={Colors.primary} strokeWidth={2} fill="none" />}
+      {cycles.map((cycle, index) => (
+        <Circle
+          key={cycle.cycleStart.getTime()}
+          cx={xFor(index)}
+          cy={severityY(cycle.average)}
+          r={4}
+          fill={Colors.white}
+          stroke={Colors.primary}
+          strokeWidth={2}
+        />
+      ))}
+      {cycles.map((cycle, index) =>
+        index % labelEvery === 0 || index === cycles.length - 1 ? (
+          <SvgText
+            key={`label-${cycle.cycleStart.getTime()}`}
+            x={xFor(index)}
+            y={CHART_HEIGHT - 6}
+            fontSize={10}
+            fill={Colors.textSecondary}
+            textAnchor="middle"
+          >
+            {cycle.cycleStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </SvgText>
+        ) : null
+      )}
+    </Svg>
+  );
+}
+
+export default function SymptomTrendsScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ type?: string }>();
+  const { periods, symptoms } = useCycleData();
+  const loggedTypes = useMemo(() => listLoggedSymptomTypes(symptoms), [symptoms]);
+  const [chosenType, setChosenType] = useState<string | null>(params.type ?? null);
+
+  useEffect(() => {
+    syncCycleStore().catch((error) => console.warn('[SymptomTrends] Sync failed:', error));
+  }, []);
+
+  const activeType = chosenType ?? loggedTypes[0]?.type ?? null;
+  const trend = useMemo(
+    () => (activeType ? buildSymptomTrend(activeType, symptoms, periods) : null),
+    [activeType, symptoms, periods]
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Symptom Trends</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {!loggedTypes.length || !trend ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="analytics-outline" size={40} color={Colors.textSecondary} />
+            <Text style={styles.emptyText}>
+              Log symptoms with how strong they feel and their trends will show up here.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Symptom</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {loggedTypes.map((entry) => {
+                const selected = entry.type === activeType;
+                return (
+                  <TouchableOpacity
+                    key={entry.type}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setChosenType(entry.type)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {entry.label} · {entry.count}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            <View style={[styles.summaryCard, trend.direction === 'worsening' && styles.summaryCardWarning]}>
+              {trend.direction === 'worsening' && (
+                <Ionicons name="trending-up" size={20} color={Colors.error} style={styles.summaryIcon} />
+              )}
+              <Text style={styles.summaryText}>{trendSummary(trend)}</Text>
+            </View>
+
+            <Text style={styles.sectionTitle}>By cycle day</Text>
+            <Text style={styles.chartHint}>Average severity (1–5) on each day after your period starts</Text>
+            <View style={styles.chartCard}>
+              <CycleDayChart trend={trend} />
+            </View>
+
+            <Text style={styles.sectionTitle}>Across cycles</Text>
+            <Text style={styles.chartHint}>Average severity per cycle; the faint line reaches the worst day</Text>
+            <View style={styles.chartCard}>
+              <CycleChart trend={trend} />
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  summaryCardWarning: {
+    backgroundColor: '#FDECEC',
+  },
+  summaryIcon: {
+    marginRight: 10,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  chartHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  chartCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingVertical: 8,
+    marginBottom: 24,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,591 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Dimensions,
+  TextInput,
+  Platform,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import Svg, { Circle, Line, Path, Text as SvgText } from 'react-native-svg';
+import { Colors } from '../constants/Colors';
+import { useCycleData } from '../hooks/useCycleData';
+import { useTemperatureReadings } from '../hooks/useTemperatureReadings';
+import { syncCycleStore } from '../lib/cycleStore';
+import { buildEffectivePeriods } from '../lib/periodCalculations';
+import { daysBetween, formatDayKey, fromLocalDate, getNow, parseDayKey, toLocalDate } from '../lib/calendarDate';
+import {
+  analyzeTemperatureCycles,
+  deleteTemperatureReading,
+  formatTemperature,
+  fromCelsius,
+  saveTemperatureReading,
+  TEMPERATURE_DISTURBANCES,
+  TEMPERATURE_DISTURBANCE_LABELS,
+  TemperatureCycle,
+  TemperatureDisturbance,
+  TemperatureUnit,
+  validateTemperature,
+} from '../lib/temperatureLog';
+import { showToast } from '../components/Toast';
+
+const CHART_WIDTH = Dimensions.get('window').width - 40;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 12, right: 8, bottom: 24, left: 36 };
+const PLOT_WIDTH = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+const PLOT_HEIGHT = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+const UNITS: TemperatureUnit[] = ['C', 'F'];
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function timeToDate(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = getNow();
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+}
+
+function shiftSummary(cycle: TemperatureCycle, unit: TemperatureUnit): string {
+  if (cycle.shift) {
+    const rule = cycle.shift.rule === 'fourth_high' ? 'four' : 'three';
+    return (
+      `Ovulation confirmed around ${formatDate(cycle.shift.ovulationDate)}: your temperature stayed above ` +
+      `${formatTemperature(cycle.shift.coverline, unit)} for ${rule} readings from ${formatDate(cycle.shift.firstHighDate)}.`
+    );
+  }
+  const usable = cycle.points.filter((point) => !point.disturbed).length;
+  if (usable < 9) {
+    return `No temperature shift yet. Log every morning before getting up — it takes at least 9 readings to confirm ovulation (${usable} so far).`;
+  }
+  return 'No sustained temperature rise yet this cycle, so ovulation hasn’t been confirmed.';
+}
+
+function TemperatureChart({ cycle, unit }: { cycle: TemperatureCycle; unit: TemperatureUnit }) {
+  const lastDay = Math.max(28, ...cycle.points.map((point) => point.cycleDay));
+  const slot = PLOT_WIDTH / lastDay;
+  const values = cycle.points.map((point) => fromCelsius(point.celsius, unit));
+  if (cycle.shift) values.push(fromCelsius(cycle.shift.coverline, unit));
+  const step = unit === 'F' ? 0.2 : 0.1;
+  const min = Math.floor(Math.min(...values) / step) * step - step;
+  const max = Math.ceil(Math.max(...values) / step) * step + step;
+
+  const xFor = (cycleDay: number) => CHART_PADDING.left + (cycleDay - 0.5) * slot;
+  const yFor = (value: number) => CHART_PADDING.top + PLOT_HEIGHT - ((value - min) / (max - min)) * PLOT_HEIGHT;
+
+  const usable = cycle.points.filter((point) => !point.disturbed);
+  const path = usable
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${xFor(point.cycleDay)} ${yFor(fromCelsius(point.celsius, unit))}`)
+    .join(' ');
+  const ticks = [min + step, (min + max) / 2, max - step];
+  const ovulationDay = cycle.shift
+    ? daysBetween(fromLocalDate(cycle.start), fromLocalDate(cycle.shift.ovulationDate)) + 1
+    : null;
+
+  return (
+    <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+      {ticks.map((tick) => (
+        <React.Fragment key={tick}>
+          <Line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={yFor(tick)}
+            y2={yFor(tick)}
+            stroke={Colors.border}
+            strokeWidth={1}
+          />
+          <SvgText x={CHART_PADDING.left - 6} y={yFor(tick) + 4} fontSize={10} fill={Colors.textSecondary} textAnchor="end">
+            {tick.toFixed(unit === 'F' ? 1 : 2)}
+          </SvgText>
+        </React.Fragment>
+      ))}
+      {cycle.shift && (
+        <Line
+          x1={CHART_PADDING.left}
+          x2={CHART_WIDTH - CHART_PADDING.right}
+          y1={yFor(fromCelsius(cycle.shift.coverline, unit))}
+          y2={yFor(fromCelsius(cycle.shift.coverline, unit))}
+          stroke={Colors.primary}
+          strokeDasharray="4 4"
+          strokeWidth={1.5}
+        />
+      )}
+      {ovulationDay !== null && (
+        <Line
+          x1={xFor(ovulationDay)}
+          x2={xFor(ovulationDay)}
+          y1={CHART_PADDING.top}
+          y2={CHART_PADDING.top + PLOT_HEIGHT}
+          stroke={Colors.primary}
+          strokeOpacity={0.4}
+          strokeWidth={slot * 0.8}
+        />
+      )}
+      {usable.length > 1 && <Path d={path} stroke={Colors.primary} strokeWidth={2} fill="none" />}
+      {cycle.points.map((point) => (
+        <Circle
+          key={point.cycleDay}
+          cx={xFor(point.cycleDay)}
+          cy={yFor(fromCelsius(point.celsius, unit))}
+          r={3.5}
+          fill={point.disturbed ? Colors.white : Colors.primary}
+          stroke={point.disturbed ? Colors.textSecondary : Colors.primary}
+          strokeWidth={1.5}
+        />
+      ))}
+      {[1, 7, 14, 21, 28].filter((day) => day <= lastDay).map((day) => (
+        <SvgText
+          key={day}
+          x={xFor(day)}
+          y={CHART_HEIGHT - 6}
+          fontSize={10}
+          fill={Colors.textSecondary}
+          textAnchor="middle"
+        >
+          {day}
+        </SvgText>
+      ))}
+    </Svg>
+  );
+}
+
+export default function TemperatureScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ date?: string }>();
+  const { periods, settings } = useCycleData();
+  const readings = useTemperatureReadings();
+
+  const initialDay = (params.date && parseDayKey(params.date)) || fromLocalDate(getNow());
+  const [date, setDate] = useState<Date>(toLocalDate(initialDay));
+  const [time, setTime] = useState(toTimeString(getNow()));
+  const [valueText, setValueText] = useState('');
+  const [unit, setUnit] = useState<TemperatureUnit>('C');
+  const [disturbances, setDisturbances] = useState<TemperatureDisturbance[]>([]);
+  const [picker, setPicker] = useState<'date' | 'time' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [chosenCycle, setChosenCycle] = useState<number | null>(null);
+
+  useEffect(() => {
+    syncCycleStore().catch((error) => console.warn('[Temperature] Sync failed:', error));
+  }, []);
+
+  // Readings are charted in whatever unit was used last
+  const lastUnit = readings[readings.length - 1]?.unit;
+  useEffect(() => {
+    if (lastUnit) setUnit(lastUnit);
+  }, [lastUnit]);
+
+  const dayKey = formatDayKey(fromLocalDate(date));
+  const existing = useMemo(() => readings.find((reading) => reading.date === dayKey) ?? null, [readings, dayKey]);
+
+  // Picking a day that already has a reading loads it for editing
+  useEffect(() => {
+    if (!existing) {
+      setValueText('');
+      setDisturbances([]);
+      return;
+    }
+    setValueText(String(existing.value));
+    setUnit(existing.unit);
+    setTime(existing.time);
+    setDisturbances(existing.disturbances);
+  }, [existing]);
+
+  const displayPeriods = useMemo(() => buildEffectivePeriods(periods, settings), [periods, settings]);
+  const cycles = useMemo(
+    () => analyzeTemperatureCycles(displayPeriods, readings).filter((cycle) => cycle.points.length > 0).reverse(),
+    [displayPeriods, readings]
+  );
+  const activeCycle = cycles[Math.min(chosenCycle ?? 0, cycles.length - 1)] ?? null;
+
+  const toggleDisturbance = (disturbance: TemperatureDisturbance) => {
+    setDisturbances((current) =>
+      current.includes(disturbance) ? current.filter((item) => item !== disturbance) : [...current, disturbance]
+    );
+  };
+
+  const handleSave = async () => {
+    const value = Number(valueText.replace(',', '.'));
+    const problem = validateTemperature(value, unit);
+    if (problem) {
+      showToast(problem, 'error');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveTemperatureReading({ date, value, unit, time, disturbances });
+      showToast('Temperature saved', 'success');
+    } catch (error: any) {
+      showToast(error?.message || 'Could not save the temperature.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    await deleteTemperatureReading(date);
+    showToast('Temperature removed', 'success');
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton}>
+          <Ionicons name="close" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Basal Temperature</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.formCard}>
+          <View style={styles.formRow}>
+            <TouchableOpacity style={styles.pickerButton} onPress={() => setPicker('date')}>
+              <Ionicons name="calendar-outline" size={16} color={Colors.primary} />
+              <Text style={styles.pickerButtonText}>{formatDate(date)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.pickerButton} onPress={() => setPicker('time')}>
+              <Ionicons name="time-outline" size={16} color={Colors.primary} />
+              <Text style={styles.pickerButtonText}>{time}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {picker && (
+            <DateTimePicker
+              value={picker === 'date' ? date : timeToDate(time)}
+              mode={picker}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              maximumDate={picker === 'date' ? getNow() : undefined}
+              onChange={(event, picked) => {
+                const target = picker;
+                if (Platform.OS === 'android' || event.type === 'dismissed') {
+                  setPicker(null);
+                }
+                if (!picked || event.type === 'dismissed') return;
+                if (target === 'date') setDate(toLocalDate(fromLocalDate(picked)));
+                else setTime(toTimeString(picked));
+              }}
+            />
+          )}
+
+          <View style={styles.formRow}>
+            <TextInput
+              style={styles.valueInput}
+              value={valueText}
+              placeholder={unit === 'C' ? '36.45' : '97.61'}
+              placeholderTextColor={Colors.textSecondary}
+              onChangeText={(text) => setValueText(text.replace(/[^0-9.,]/g, ''))}
+              keyboardType="decimal-pad"
+              maxLength={6}
+            />
+            <View style={styles.unitToggle}>
+              {UNITS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.unitOption, unit === option && styles.unitOptionSelected]}
+                  onPress={() => setUnit(option)}
+                >
+                  <Text style={[styles.unitText, unit === option && styles.unitTextSelected]}>°{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <Text style={styles.formLabel}>Anything that could affect it?</Text>
+          <View style={styles.chipRow}>
+            {TEMPERATURE_DISTURBANCES.map((disturbance) => {
+              const selected = disturbances.includes(disturbance);
+              return (
+                <TouchableOpacity
+                  key={disturbance}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleDisturbance(disturbance)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {TEMPERATURE_DISTURBANCE_LABELS[disturbance]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {disturbances.length > 0 && (
+            <Text style={styles.formHint}>Readings with a disturbance are charted but left out of ovulation detection.</Text>
+          )}
+
+          <View style={styles.formActions}>
+            {existing && (
+              <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+                <Text style={styles.deleteButtonText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.saveButton, (isSaving || !valueText) && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isSaving || !valueText}
+            >
+              <Text style={styles.saveButtonText}>{existing ? 'Update' : 'Save'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {!activeCycle ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="thermometer-outline" size={40} color={Colors.textSecondary} />
+            <Text style={styles.emptyText}>
+              Take your temperature each morning before getting up. Once a cycle has readings, its chart shows here.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>Cycle</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.cycleChipRow}>
+              {cycles.map((cycle, index) => {
+                const selected = cycle === activeCycle;
+                return (
+                  <TouchableOpacity
+                    key={cycle.start.getTime()}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setChosenCycle(index)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {formatDate(cycle.start)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            <View style={[styles.summaryCard, activeCycle.shift && styles.summaryCardConfirmed]}>
+              <Text style={styles.summaryText}>{shiftSummary(activeCycle, unit)}</Text>
+            </View>
+
+            <Text style={styles.chartHint}>
+              Temperature by cycle day. The dashed line is the coverline; hollow dots had a disturbance.
+            </Text>
+            <View style={styles.chartCard}>
+              <TemperatureChart cycle={activeCycle} unit={unit} />
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.white,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  formCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  formRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 12,
+  },
+  pickerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  pickerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  valueInput: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+    color: Colors.text,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  unitToggle: {
+    flexDirection: 'row',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    overflow: 'hidden',
+  },
+  unitOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    backgroundColor: Colors.white,
+  },
+  unitOptionSelected: {
+    backgroundColor: Colors.primary,
+  },
+  unitText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  unitTextSelected: {
+    color: Colors.white,
+  },
+  formLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  formHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 8,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 16,
+  },
+  deleteButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.error,
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  saveButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.primary,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.white,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cycleChipRow: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  summaryCardConfirmed: {
+    backgroundColor: '#E8F5E9',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  chartHint: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  chartCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+});
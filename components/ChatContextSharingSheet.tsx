@@ -0,0 +1,133 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Switch, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { ChatContextSharing } from '../lib/chatContext';
+
+interface ChatContextSharingSheetProps {
+  visible: boolean;
+  sharing: ChatContextSharing;
+  /** The summary that will be sent with the current toggles */
+  summary: string;
+  onChange: (sharing: ChatContextSharing) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: { key: keyof ChatContextSharing; title: string; description: string }[] = [
+  { key: 'cycle', title: 'Cycle & phase', description: 'Last period, cycle day and current phase' },
+  { key: 'predictions', title: 'Predictions', description: 'Next period, ovulation and how confident they are' },
+  { key: 'symptoms', title: 'Symptoms', description: 'Symptoms from the last 7 days with severity' },
+  { key: 'moods', title: 'Moods', description: 'Mood check-ins from the last 7 days' },
+];
+
+export default function ChatContextSharingSheet({
+  visible,
+  sharing,
+  summary,
+  onChange,
+  onClose,
+}: ChatContextSharingSheetProps) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>What the assistant can see</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} accessibilityLabel="Close">
+              <Ionicons name="close" size={22} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {OPTIONS.map((option) => (
+            <View key={option.key} style={styles.optionRow}>
+              <View style={styles.optionText}>
+                <Text style={styles.optionTitle}>{option.title}</Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </View>
+              <Switch
+                value={sharing[option.key]}
+                onValueChange={(value) => onChange({ ...sharing, [option.key]: value })}
+                trackColor={{ true: Colors.primary, false: Colors.border }}
+              />
+            </View>
+          ))}
+
+          <Text style={styles.previewLabel}>Sent with your next message</Text>
+          <ScrollView style={styles.preview}>
+            <Text style={styles.previewText}>
+              {summary || 'Nothing — the assistant will only see your messages.'}
+            </Text>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.white,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  optionText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  previewLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  preview: {
+    maxHeight: 140,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 12,
+  },
+  previewText: {
+    fontSize: 13,
+    color: Colors.text,
+    lineHeight: 19,
+  },
+});
@@ -0,0 +1,220 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { PHASE_PALETTE } from '../constants/phasePalette';
+import { ConceptionTiming, PEAK_CONCEPTION_CHANCE, PregnancyTestSuggestion } from '../lib/conception';
+
+interface ConceptionCardProps {
+  /** 1 for the first cycle of trying */
+  cycleNumber: number;
+  /** Chance of conceiving from intercourse today, 0–1 */
+  todayChance: number;
+  timing: ConceptionTiming | null;
+  testSuggestion: PregnancyTestSuggestion | null;
+  loggedToday: boolean;
+  onToggleToday: () => void;
+  /** Offered once the period is due, to switch to pregnancy mode after a positive test */
+  onPregnant?: () => void;
+  disabled?: boolean;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+const formatPercent = (chance: number) => `${Math.round(chance * 100)}%`;
+
+function timingSummary(timing: ConceptionTiming): string {
+  if (timing.loggedDays === 0) {
+    return `Nothing logged in your fertile window yet. The two days before ovulation (around ${formatDate(timing.ovulationDate)}) and the day itself matter most.`;
+  }
+  const days = timing.loggedDays === 1 ? '1 fertile day' : `${timing.loggedDays} fertile days`;
+  return timing.coveredBestDays
+    ? `Sex on ${days}, including your best days — about a ${formatPercent(timing.cycleChance)} chance this cycle.`
+    : `Sex on ${days}, but not the two days before ovulation or the day itself — about a ${formatPercent(timing.cycleChance)} chance this cycle.`;
+}
+
+/** Trying-to-conceive summary: today's chance, timing across the fertile window and when to test */
+export default function ConceptionCard({
+  cycleNumber,
+  todayChance,
+  timing,
+  testSuggestion,
+  loggedToday,
+  onToggleToday,
+  onPregnant,
+  disabled,
+}: ConceptionCardProps) {
+  const title = todayChance > 0
+    ? `${formatPercent(todayChance)} chance of conceiving today`
+    : 'Outside your fertile window today';
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="heart-circle-outline" size={22} color={Colors.primary} style={styles.icon} />
+        <View style={styles.headerText}>
+          <Text style={styles.eyebrow}>Trying to conceive · Cycle {cycleNumber}</Text>
+          <Text style={styles.title}>{title}</Text>
+        </View>
+      </View>
+
+      {timing && (
+        <>
+          <View style={styles.windowRow}>
+            {timing.days.map((day) => (
+              <View key={day.date.getTime()} style={styles.windowDay}>
+                <View
+                  style={[
+                    styles.windowBar,
+                    { opacity: 0.25 + 0.75 * (day.chance / PEAK_CONCEPTION_CHANCE) },
+                  ]}
+                />
+                <Ionicons
+                  name={day.logged ? 'heart' : 'heart-outline'}
+                  size={14}
+                  color={day.logged ? Colors.primary : Colors.border}
+                />
+                <Text style={styles.windowDayText}>{day.date.getDate()}</Text>
+              </View>
+            ))}
+          </View>
+          <Text style={styles.detail}>{timingSummary(timing)}</Text>
+        </>
+      )}
+
+      {testSuggestion && (
+        <View style={styles.testRow}>
+          <Ionicons name="flask-outline" size={18} color={Colors.primary} style={styles.icon} />
+          <Text style={styles.testText}>{testSuggestion.message}</Text>
+        </View>
+      )}
+      {testSuggestion && testSuggestion.daysLate >= 0 && onPregnant && (
+        <TouchableOpacity style={styles.link} onPress={onPregnant} disabled={disabled}>
+          <Text style={styles.linkText}>Positive test? Switch to pregnancy mode</Text>
+          <Ionicons name="chevron-forward" size={16} color={Colors.primary} />
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, loggedToday && styles.buttonActive, disabled && styles.buttonDisabled]}
+        onPress={onToggleToday}
+        disabled={disabled}
+      >
+        <Ionicons name={loggedToday ? 'heart' : 'heart-outline'} size={16} color={loggedToday ? Colors.white : Colors.primary} />
+        <Text style={[styles.buttonText, loggedToday && styles.buttonTextActive]}>
+          {loggedToday ? 'Logged for today' : 'Log sex today'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  icon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 2,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+    marginBottom: 10,
+  },
+  windowDay: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  windowBar: {
+    width: '100%',
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: PHASE_PALETTE.ovulation.color,
+  },
+  windowDayText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  detail: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  testRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 12,
+  },
+  testText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  link: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginRight: 2,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  buttonActive: {
+    backgroundColor: Colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  buttonTextActive: {
+    color: Colors.white,
+  },
+});
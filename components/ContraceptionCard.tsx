@@ -0,0 +1,248 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { ContraceptionMethod } from '../lib/api';
+import {
+  CONTRACEPTION_LABELS,
+  describeRegimenChange,
+  MissedPillGuidance,
+  PACK_DAYS,
+  RegimenDay,
+} from '../lib/contraception';
+
+interface ContraceptionCardProps {
+  method: ContraceptionMethod;
+  /** Null for methods without a schedule, or before a start date is set */
+  regimenDay: RegimenDay | null;
+  missedPills: MissedPillGuidance | null;
+  takenToday: boolean;
+  /** How bleeding works with this method */
+  note: string | null;
+  onTogglePill: () => void;
+  /** Opens the contraception screen; the link is hidden when omitted */
+  onManage?: () => void;
+  disabled?: boolean;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const NEXT_PACK_LABELS: Record<RegimenDay['method'], string> = {
+  pill: 'Start your next pack on',
+  patch: 'Put on a new patch on',
+  ring: 'Put in a new ring on',
+};
+
+function regimenTitle(regimenDay: RegimenDay): string {
+  const { method, day, activeDays } = regimenDay;
+  if (regimenDay.isBreak) {
+    const breakName = method === 'pill' ? 'Break' : method === 'patch' ? 'Patch-free' : 'Ring-free';
+    return `${breakName} day ${day - activeDays} of ${PACK_DAYS - activeDays}`;
+  }
+  if (method === 'pill') return `Pill ${day} of ${activeDays}`;
+  const change = describeRegimenChange(regimenDay);
+  if (change) return change;
+  return method === 'patch' ? `Week ${Math.ceil(day / 7)} of your patch cycle` : `Day ${day} with your ring`;
+}
+
+function regimenDetail(regimenDay: RegimenDay): string {
+  if (regimenDay.isBreak || !regimenDay.breakStart) {
+    const next = `${NEXT_PACK_LABELS[regimenDay.method]} ${formatDate(regimenDay.nextPackStart)}.`;
+    return regimenDay.breakStart ? next : `${next} No break in your regimen, so no bleed is expected.`;
+  }
+  return `Your break starts ${formatDate(regimenDay.breakStart)}, and a withdrawal bleed usually comes a few days in.`;
+}
+
+/** Today's pill, patch or ring, missed-pill advice and how bleeding works with the method */
+export default function ContraceptionCard({
+  method,
+  regimenDay,
+  missedPills,
+  takenToday,
+  note,
+  onTogglePill,
+  onManage,
+  disabled,
+}: ContraceptionCardProps) {
+  const label = CONTRACEPTION_LABELS[method];
+  const needsStartDate = !regimenDay && (method === 'pill' || method === 'patch' || method === 'ring');
+  const showPillButton = method === 'pill' && regimenDay && !regimenDay.isBreak;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="medical-outline" size={22} color={Colors.primary} style={styles.icon} />
+        <View style={styles.headerText}>
+          <Text style={styles.eyebrow}>
+            {regimenDay ? `${label} · ${method === 'pill' ? 'Pack' : 'Cycle'} ${regimenDay.packNumber}` : label}
+          </Text>
+          <Text style={styles.title}>
+            {regimenDay ? regimenTitle(regimenDay) : needsStartDate ? 'Add the day you started' : `Using the ${label.toLowerCase()}`}
+          </Text>
+        </View>
+      </View>
+
+      {regimenDay && <Text style={styles.detail}>{regimenDetail(regimenDay)}</Text>}
+      {needsStartDate && (
+        <Text style={styles.detail}>Set when your current pack, patch or ring started to see your break days and get reminders.</Text>
+      )}
+
+      {missedPills && (
+        <View style={[styles.missed, missedPills.needsBackup && styles.missedUrgent]} accessibilityRole="alert">
+          <Text style={styles.missedTitle}>{missedPills.title}</Text>
+          {missedPills.steps.map((step) => (
+            <View key={step} style={styles.stepRow}>
+              <Text style={styles.bullet}>•</Text>
+              <Text style={styles.stepText}>{step}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {note && <Text style={styles.note}>{note}</Text>}
+
+      {showPillButton && (
+        <TouchableOpacity
+          style={[styles.button, takenToday && styles.buttonActive, disabled && styles.buttonDisabled]}
+          onPress={onTogglePill}
+          disabled={disabled}
+        >
+          <Ionicons
+            name={takenToday ? 'checkmark-circle' : 'ellipse-outline'}
+            size={16}
+            color={takenToday ? Colors.white : Colors.primary}
+          />
+          <Text style={[styles.buttonText, takenToday && styles.buttonTextActive]}>
+            {takenToday ? "Today's pill taken" : "Mark today's pill as taken"}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {onManage && (
+        <TouchableOpacity style={styles.link} onPress={onManage}>
+          <Text style={styles.linkText}>{needsStartDate ? 'Set start date' : 'Pack and reminders'}</Text>
+          <Ionicons name="chevron-forward" size={16} color={Colors.primary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  icon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 2,
+  },
+  detail: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  missed: {
+    backgroundColor: '#FFF8EC',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.warning,
+    padding: 12,
+    marginTop: 12,
+  },
+  missedUrgent: {
+    backgroundColor: '#FFF4F4',
+    borderColor: Colors.error,
+  },
+  missedTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  bullet: {
+    fontSize: 14,
+    color: Colors.text,
+    marginRight: 6,
+    lineHeight: 20,
+  },
+  stepText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  note: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 10,
+    lineHeight: 17,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  buttonActive: {
+    backgroundColor: Colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  buttonTextActive: {
+    color: Colors.white,
+  },
+  link: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginRight: 2,
+  },
+});
@@ -0,0 +1,137 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { CycleReviewAnswer, ReviewedCycleGap } from '../lib/cycleReview';
+
+interface CycleReviewPromptProps {
+  gap: ReviewedCycleGap;
+  onAnswer: (answer: CycleReviewAnswer) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/** Asks about one implausibly long or short cycle so it can be classified for good */
+export default function CycleReviewPrompt({ gap, onAnswer, disabled }: CycleReviewPromptProps) {
+  const isLong = gap.issue === 'too_long';
+  const title = isLong && gap.suggestedMissedDate
+    ? `Did you forget to log a period around ${formatDate(gap.suggestedMissedDate)}?`
+    : 'Were these two separate periods?';
+  const detail = isLong
+    ? `Your periods on ${formatDate(gap.previousStart)} and ${formatDate(gap.nextStart)} were ${gap.length} days apart, longer than usual for you.`
+    : `Periods logged on ${formatDate(gap.previousStart)} and ${formatDate(gap.nextStart)} are only ${gap.length} days apart.`;
+  const options: { answer: CycleReviewAnswer; label: string }[] = isLong
+    ? [
+        { answer: 'missed_log', label: 'Yes, I missed one' },
+        { answer: 'genuine', label: 'No, it was a long cycle' },
+      ]
+    : [
+        { answer: 'genuine', label: 'Yes, two periods' },
+        { answer: 'not_a_cycle', label: 'No, it was spotting' },
+      ];
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="help-circle" size={22} color={Colors.primary} style={styles.icon} />
+        <View style={styles.headerText}>
+          <Text style={styles.eyebrow}>Check your history</Text>
+          <Text style={styles.title}>{title}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.detail}>{detail}</Text>
+      <Text style={styles.note}>Until you answer, this cycle is left out of your predictions.</Text>
+
+      <View style={styles.buttonRow}>
+        {options.map((option, index) => (
+          <TouchableOpacity
+            key={option.answer}
+            style={[styles.button, index === 0 && styles.buttonPrimary, disabled && styles.buttonDisabled]}
+            onPress={() => onAnswer(option.answer)}
+            disabled={disabled}
+          >
+            <Text style={[styles.buttonText, index === 0 && styles.buttonTextPrimary]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  icon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 2,
+  },
+  detail: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  note: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 6,
+    lineHeight: 17,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  buttonPrimary: {
+    backgroundColor: Colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  buttonTextPrimary: {
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,112 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { PostpartumStatus } from '../lib/pregnancy';
+
+interface PostpartumCardProps {
+  status: PostpartumStatus;
+  /** Switch back to ordinary cycle tracking; offered once periods have returned */
+  onResumeTracking: () => void;
+  disabled?: boolean;
+}
+
+/** After a birth: how long it's been and whether periods have come back */
+export default function PostpartumCard({ status, onResumeTracking, disabled }: PostpartumCardProps) {
+  const weeks = status.weeksSinceBirth === 1 ? '1 week' : `${status.weeksSinceBirth} weeks`;
+  const title = status.firstPeriod ? 'Your period is back' : 'Waiting for your period to return';
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="flower-outline" size={22} color={Colors.primary} style={styles.icon} />
+        <View style={styles.headerText}>
+          <Text style={styles.eyebrow}>
+            {`Postpartum · ${weeks}${status.breastfeeding ? ' · Breastfeeding' : ''}`}
+          </Text>
+          <Text style={styles.title}>{title}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.detail}>{status.message}</Text>
+      {!status.firstPeriod && (
+        <Text style={styles.note}>Predictions are paused until you log your first period.</Text>
+      )}
+
+      {status.firstPeriod && (
+        <TouchableOpacity
+          style={[styles.button, disabled && styles.buttonDisabled]}
+          onPress={onResumeTracking}
+          disabled={disabled}
+        >
+          <Text style={styles.buttonText}>Back to regular cycle tracking</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  icon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 2,
+  },
+  detail: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  note: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 6,
+    lineHeight: 17,
+  },
+  button: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { PregnancyProgress } from '../lib/pregnancy';
+
+interface PregnancyCardProps {
+  progress: PregnancyProgress;
+  onBabyArrived: () => void;
+  disabled?: boolean;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+function countdown(daysToGo: number): string {
+  if (daysToGo > 1) return `${daysToGo} days to go`;
+  if (daysToGo === 1) return '1 day to go';
+  if (daysToGo === 0) return 'Due today';
+  return `${-daysToGo} ${daysToGo === -1 ? 'day' : 'days'} past your due date`;
+}
+
+/** Week-by-week pregnancy progress, shown on home while period predictions are paused */
+export default function PregnancyCard({ progress, onBabyArrived, disabled }: PregnancyCardProps) {
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="heart-circle-outline" size={22} color={Colors.primary} style={styles.icon} />
+        <View style={styles.headerText}>
+          <Text style={styles.eyebrow}>Pregnancy · Trimester {progress.trimester}</Text>
+          <Text style={styles.title}>
+            {`Week ${progress.week}${progress.day ? `, day ${progress.day}` : ''}`}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${Math.round(progress.progress * 100)}%` }]} />
+      </View>
+      <View style={styles.progressLabels}>
+        <Text style={styles.progressText}>{countdown(progress.daysToGo)}</Text>
+        <Text style={styles.progressText}>Due {formatDate(progress.dueDate)}</Text>
+      </View>
+
+      <Text style={styles.detail}>{progress.note}</Text>
+      <Text style={styles.note}>Period predictions and reminders are paused. Your period history is kept as it is.</Text>
+
+      <TouchableOpacity
+        style={[styles.button, disabled && styles.buttonDisabled]}
+        onPress={onBabyArrived}
+        disabled={disabled}
+      >
+        <Text style={styles.buttonText}>My baby has arrived</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  icon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: Colors.border,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: Colors.primary,
+  },
+  progressLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+    marginBottom: 10,
+  },
+  progressText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  detail: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  note: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 6,
+    lineHeight: 17,
+  },
+  button: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.white,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,129 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+import { TriageAlert } from '../lib/symptomTriage';
+
+interface RedFlagAlertProps {
+  alert: TriageAlert;
+  onDismiss: () => void;
+  /** Opens the alert history; the link is hidden when omitted */
+  onViewHistory?: () => void;
+}
+
+export default function RedFlagAlert({ alert, onDismiss, onViewHistory }: RedFlagAlertProps) {
+  const isUrgent = alert.severity === 'urgent';
+
+  return (
+    <View style={[styles.card, isUrgent && styles.cardUrgent]} accessibilityRole="alert">
+      <View style={styles.headerRow}>
+        <Ionicons name="medkit" size={22} color={Colors.error} style={styles.icon} />
+        <View style={styles.headerText}>
+          <Text style={styles.eyebrow}>Consider seeing a doctor</Text>
+          <Text style={styles.title}>{alert.title}</Text>
+        </View>
+        <TouchableOpacity onPress={onDismiss} style={styles.closeButton} accessibilityLabel="Dismiss alert">
+          <Ionicons name="close" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      {alert.reasons.map((reason) => (
+        <View key={reason} style={styles.reasonRow}>
+          <Text style={styles.bullet}>•</Text>
+          <Text style={styles.reasonText}>{reason}</Text>
+        </View>
+      ))}
+
+      <Text style={styles.disclaimer}>
+        {isUrgent
+          ? 'If you feel faint, short of breath or very unwell right now, seek urgent care.'
+          : 'This is not a diagnosis — it is based on what you logged.'}
+      </Text>
+
+      {onViewHistory && (
+        <TouchableOpacity onPress={onViewHistory} style={styles.historyLink}>
+          <Text style={styles.historyLinkText}>View past alerts</Text>
+          <Ionicons name="chevron-forward" size={16} color={Colors.primary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFF4F4',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#F5C2C2',
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  cardUrgent: {
+    borderColor: Colors.error,
+    borderWidth: 2,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  icon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.error,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  bullet: {
+    fontSize: 14,
+    color: Colors.text,
+    marginRight: 6,
+    lineHeight: 20,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  disclaimer: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 10,
+    lineHeight: 17,
+  },
+  historyLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 10,
+  },
+  historyLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginRight: 2,
+  },
+});
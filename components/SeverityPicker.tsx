@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors } from '../constants/Colors';
+import { severityLabels } from '../lib/symptomTips';
+
+const LEVELS = [1, 2, 3, 4, 5];
+
+interface SeverityPickerProps {
+  value: number;
+  onChange: (severity: number) => void;
+  /** Shown to the left of the scale, e.g. the symptom name */
+  label?: string;
+  disabled?: boolean;
+}
+
+/** Row of 1–5 buttons for a symptom's severity, with the chosen level spelled out */
+export default function SeverityPicker({ value, onChange, label, disabled }: SeverityPickerProps) {
+  return (
+    <View style={styles.container}>
+      {label ? (
+        <View style={styles.labelRow}>
+          <Text style={styles.label} numberOfLines={1}>{label}</Text>
+          <Text style={styles.levelName}>{severityLabels[value] ?? ''}</Text>
+        </View>
+      ) : null}
+      <View style={styles.scale}>
+        {LEVELS.map((level) => {
+          const filled = level <= value;
+          return (
+            <TouchableOpacity
+              key={level}
+              style={[styles.step, filled && styles.stepFilled, filled && { opacity: 0.4 + level * 0.12 }]}
+              onPress={() => onChange(level)}
+              disabled={disabled}
+              accessibilityRole="button"
+              accessibilityLabel={`Severity ${level}: ${severityLabels[level]}`}
+              accessibilityState={{ selected: level === value }}
+            >
+              <Text style={[styles.stepText, filled && styles.stepTextFilled]}>{level}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  levelName: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  scale: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  step: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  stepFilled: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  stepText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  stepTextFilled: {
+    color: Colors.white,
+  },
+});
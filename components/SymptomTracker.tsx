@@ -15,6 +15,9 @@ import { Colors } from '../constants/Colors'
 import { Ionicons } from '@expo/vector-icons'
 import { createSymptom, deleteSymptom, Symptom, getSymptoms, createMood, getMoods, deleteMood, Mood } from '../lib/api'
 import { symptomOptions, moodOptions, symptomData, SymptomType, MoodType } from '../lib/symptomTips'
+import SeverityPicker from './SeverityPicker'
+
+const DEFAULT_SEVERITY = 3
 
 interface SymptomTrackerProps {
   date: Date
@@ -27,6 +30,7 @@ export default function SymptomTracker({ date: initialDate, onClose, onSave, onS
   const [selectedDate, setSelectedDate] = useState(initialDate)
   const [selectedSymptoms, setSelectedSymptoms] = useState<SymptomType[]>([])
   const [selectedMoods, setSelectedMoods] = useState<MoodType[]>([])
+  const [severities, setSeverities] = useState<Partial<Record<SymptomType, number>>>({})
   const [saving, setSaving] = useState(false)
   const [existingSymptoms, setExistingSymptoms] = useState<Symptom[]>([])
   const [existingMoods, setExistingMoods] = useState<Mood[]>([])
@@ -35,6 +39,7 @@ export default function SymptomTracker({ date: initialDate, onClose, onSave, onS
   useEffect(() => {
     // Reset selections first to prevent showing old data
     setSelectedSymptoms([])
+    setSeverities({})
     setSelectedMoods([])
     loadExistingData()
   }, [selectedDate])
@@ -77,6 +82,7 @@ export default function SymptomTracker({ date: initialDate, onClose, onSave, onS
       // Only select what was previously saved by the user
       if (filteredSymptoms.length > 0) {
         setSelectedSymptoms(filteredSymptoms.map(s => s.type as SymptomType))
+        setSeverities(Object.fromEntries(filteredSymptoms.map(s => [s.type, s.severity || DEFAULT_SEVERITY])))
       } else {
         setSelectedSymptoms([])
       }
@@ -147,7 +153,7 @@ export default function SymptomTracker({ date: initialDate, onClose, onSave, onS
     if (selectedSymptoms.length > 0 && onSymptomsSaved) {
       const symptomsForCallback = selectedSymptoms.map(symptomType => ({
         symptom: symptomType,
-        severity: 3,
+        severity: severities[symptomType] ?? DEFAULT_SEVERITY,
       }))
       onSymptomsSaved(symptomsForCallback)
     }
@@ -174,7 +180,7 @@ export default function SymptomTracker({ date: initialDate, onClose, onSave, onS
           createSymptom({
             date: dateString,
             type: symptomType,
-            severity: 3,
+            severity: severities[symptomType] ?? DEFAULT_SEVERITY,
           }).catch(err => console.log('Error creating symptom:', err))
         ),
         ...selectedMoods.map(moodType => 
@@ -354,6 +360,21 @@ export default function SymptomTracker({ date: initialDate, onClose, onSave, onS
             </View>
           </View>
 
+          {/* Severity for each selected symptom */}
+          {selectedSymptoms.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>How strong?</Text>
+              {selectedSymptoms.map((symptomType) => (
+                <SeverityPicker
+                  key={symptomType}
+                  label={symptomOptions.find(option => option.type === symptomType)?.label ?? symptomType}
+                  value={severities[symptomType] ?? DEFAULT_SEVERITY}
+                  onChange={(severity) => setSeverities(prev => ({ ...prev, [symptomType]: severity }))}
+                />
+              ))}
+            </View>
+          )}
+
           {/* Save Button */}
           <TouchableOpacity
             style={[styles.saveButton, saving && styles.saveButtonDisabled]}
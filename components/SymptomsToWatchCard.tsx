@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../constants/Colors';
+
+interface SymptomsToWatchCardProps {
+  symptoms: string[];
+  pmsStart: Date;
+  /** First AI recommendation, shown underneath when there is one */
+  recommendation?: string | null;
+  onOpenForecast: () => void;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/** The AI's symptoms to watch for in the run-up to the next period */
+export default function SymptomsToWatchCard({ symptoms, pmsStart, recommendation, onOpenForecast }: SymptomsToWatchCardProps) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const title = pmsStart <= today ? 'PMS may have started' : `PMS may start around ${formatDate(pmsStart)}`;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Ionicons name="eye-outline" size={22} color={Colors.primary} style={styles.icon} />
+        <View style={styles.headerText}>
+          <Text style={styles.eyebrow}>Symptoms to watch</Text>
+          <Text style={styles.title}>{title}</Text>
+        </View>
+      </View>
+
+      <View style={styles.chipRow}>
+        {symptoms.map((symptom) => (
+          <View key={symptom} style={styles.chip}>
+            <Text style={styles.chipText}>{symptom}</Text>
+          </View>
+        ))}
+      </View>
+      {!!recommendation && <Text style={styles.detail}>{recommendation}</Text>}
+
+      <TouchableOpacity style={styles.link} onPress={onOpenForecast}>
+        <Text style={styles.linkText}>See full forecast</Text>
+        <Ionicons name="chevron-forward" size={16} color={Colors.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  icon: {
+    marginRight: 10,
+    marginTop: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  eyebrow: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.text,
+    textTransform: 'capitalize',
+  },
+  detail: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+    marginTop: 10,
+  },
+  link: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginRight: 2,
+  },
+});
@@ -1,7 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
-import { getPeriods, getSettings } from '../lib/api';
 import { calculatePredictions, getPhaseDetailsForDate, buildEffectivePeriods } from '../lib/periodCalculations';
-import type { Period, UserSettings } from '../lib/api';
+import { useCycleData } from '../hooks/useCycleData';
 import { PHASE_PALETTE, PhaseKey } from '../constants/phasePalette';
 
 type PhaseContextType = {
@@ -44,16 +43,19 @@ function buildPhaseColors(phase: PhaseKey) {
 
 export const PhaseProvider = ({ children }: { children: ReactNode }) => {
   const [phase, setPhase] = useState<PhaseKey>('follicular');
-  const [periods, setPeriods] = useState<Period[]>([]);
-  const [settings, setSettings] = useState<UserSettings | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { periods: storedPeriods, settings, isHydrated } = useCycleData();
+
+  const periods = useMemo(
+    () => buildEffectivePeriods(storedPeriods, settings),
+    [storedPeriods, settings]
+  );
 
   const predictions = useMemo(() => {
     return calculatePredictions(periods, settings);
   }, [periods, settings]);
 
   useEffect(() => {
-    if (isLoading) return;
+    if (!isHydrated) return;
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -61,38 +63,7 @@ export const PhaseProvider = ({ children }: { children: ReactNode }) => {
     if (phaseDetails) {
       setPhase(phaseDetails.phase);
     }
-  }, [periods, predictions, isLoading, settings]);
-
-  useEffect(() => {
-    let mounted = true;
-
-    const loadData = async () => {
-      try {
-        const [periodsData, settingsData] = await Promise.all([
-          getPeriods().catch(() => []),
-          getSettings().catch(() => null),
-        ]);
-
-        if (mounted) {
-          const effectivePeriods = buildEffectivePeriods(periodsData, settingsData);
-          setPeriods(effectivePeriods);
-          setSettings(settingsData);
-          setIsLoading(false);
-        }
-      } catch (error) {
-        console.error('Error loading phase data:', error);
-        if (mounted) {
-          setIsLoading(false);
-        }
-      }
-    };
-
-    loadData();
-
-    return () => {
-      mounted = false;
-    };
-  }, []);
+  }, [periods, predictions, isHydrated, settings]);
 
   const phaseColors = useMemo(() => buildPhaseColors(phase), [phase]);
 
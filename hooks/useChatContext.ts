@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCycleData } from './useCycleData';
+import { syncCycleStore } from '../lib/cycleStore';
+import { useAIPredictions } from '../lib/aiPredictions';
+import { buildEffectivePeriods } from '../lib/periodCalculations';
+import {
+  buildChatContext,
+  ChatContextSharing,
+  DEFAULT_CHAT_CONTEXT_SHARING,
+  loadChatContextSharing,
+  saveChatContextSharing,
+} from '../lib/chatContext';
+
+/**
+ * Everything a chat screen needs to ground the AI in the shared cycle dataset:
+ * the context summary, recent symptoms for `chatWithAI`, and the user's
+ * sharing toggles (persisted per scope).
+ */
+export function useChatContext(options: { userId: string | null; subjectName?: string | null }) {
+  const { periods: storedPeriods, settings, symptoms, moods, isHydrated } = useCycleData();
+  const [sharing, setSharing] = useState<ChatContextSharing>(DEFAULT_CHAT_CONTEXT_SHARING);
+
+  const periods = useMemo(() => buildEffectivePeriods(storedPeriods, settings), [storedPeriods, settings]);
+  const { predictions, aiResponse, isUsingAI } = useAIPredictions(periods, settings, options.userId);
+
+  useEffect(() => {
+    loadChatContextSharing().then(setSharing);
+    syncCycleStore().catch((error) => console.warn('[ChatContext] Sync failed:', error));
+  }, []);
+
+  const updateSharing = useCallback((next: ChatContextSharing) => {
+    setSharing(next);
+    saveChatContextSharing(next);
+  }, []);
+
+  const context = useMemo(
+    () =>
+      buildChatContext(
+        {
+          subjectName: options.subjectName,
+          periods,
+          settings,
+          symptoms,
+          moods,
+          predictions,
+          aiResponse,
+          isUsingAI,
+        },
+        sharing
+      ),
+    [options.subjectName, periods, settings, symptoms, moods, predictions, aiResponse, isUsingAI, sharing]
+  );
+
+  return { ...context, sharing, updateSharing, isReady: isHydrated };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { streamChatWithAI, isAbortError, ChatMessagePayload } from '../lib/chatStream';
+
+export interface ChatStreamResult {
+  text: string;
+  /** True when the user stopped the answer; `text` holds whatever arrived before that */
+  cancelled: boolean;
+}
+
+/**
+ * Runs one streamed AI reply at a time for a chat screen. `onText` receives the
+ * reply assembled so far on every token; `cancel` stops it, and unmounting the
+ * screen cancels any answer still in flight.
+ */
+export function useChatStream() {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const start = useCallback(
+    async (
+      messages: ChatMessagePayload[],
+      options: { symptoms?: any[]; onText: (text: string) => void }
+    ): Promise<ChatStreamResult> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setIsStreaming(true);
+
+      let latest = '';
+      try {
+        const text = await streamChatWithAI(messages, {
+          symptoms: options.symptoms,
+          signal: controller.signal,
+          onToken: (_token, textSoFar) => {
+            // Nothing more reaches the screen once the answer is stopped or the screen has gone
+            if (controller.signal.aborted) return;
+            latest = textSoFar;
+            options.onText(textSoFar);
+          },
+        });
+        return { text, cancelled: false };
+      } catch (error) {
+        if (isAbortError(error)) return { text: latest, cancelled: true };
+        throw error;
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsStreaming(false);
+        }
+      }
+    },
+    []
+  );
+
+  return { start, cancel, isStreaming };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  CycleDataSnapshot,
+  getCycleStoreSnapshot,
+  hydrateCycleStore,
+  subscribeToCycleStore,
+} from '../lib/cycleStore';
+
+/**
+ * Subscribe to the shared periods/symptoms/moods/settings dataset. Loads the
+ * persisted copy on mount; screens decide when to call `syncCycleStore`.
+ */
+export function useCycleData(): CycleDataSnapshot {
+  const snapshot = useSyncExternalStore(subscribeToCycleStore, getCycleStoreSnapshot);
+
+  useEffect(() => {
+    hydrateCycleStore().catch((error) => console.warn('[CycleStore] Hydrate failed:', error));
+  }, []);
+
+  return snapshot;
+}
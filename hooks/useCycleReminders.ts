@@ -0,0 +1,34 @@
+import { useEffect, useMemo } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+import { useCycleData } from './useCycleData';
+import { usePillLog } from './usePillLog';
+import { syncCycleStore } from '../lib/cycleStore';
+import { buildEffectivePeriods, calculatePredictions } from '../lib/periodCalculations';
+import { scheduleCycleReminders } from '../lib/notifications';
+
+/**
+ * Keep on-device period, fertile-window, PMS and pill reminders in step with
+ * the shared cycle data and pill log. Mounted once in the tab layout.
+ */
+export function useCycleReminders() {
+  const { periods, settings, isHydrated } = useCycleData();
+  const pillLog = usePillLog();
+
+  const predictions = useMemo(
+    () => calculatePredictions(buildEffectivePeriods(periods, settings), settings),
+    [periods, settings]
+  );
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    scheduleCycleReminders(predictions, settings, pillLog);
+  }, [predictions, settings, pillLog, isHydrated]);
+
+  // Settings edits (reminder toggle, cycle length) don't go through the store
+  useEffect(() => {
+    const subscription = DeviceEventEmitter.addListener('settingsUpdated', () => {
+      syncCycleStore().catch((error) => console.warn('[Notifications] Sync failed:', error));
+    });
+    return () => subscription.remove();
+  }, []);
+}
@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  CycleReviews,
+  getCycleReviewsSnapshot,
+  loadCycleReviews,
+  subscribeToCycleReviews,
+} from '../lib/cycleReview';
+
+/** The user's answers about flagged cycles, loaded on mount and kept current with `saveCycleReview` */
+export function useCycleReviews(): CycleReviews {
+  const reviews = useSyncExternalStore(subscribeToCycleReviews, getCycleReviewsSnapshot);
+
+  useEffect(() => {
+    loadCycleReviews().catch((error) => console.warn('[CycleReview] Load failed:', error));
+  }, []);
+
+  return reviews;
+}
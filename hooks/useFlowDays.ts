@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { FlowDay, getFlowDaysSnapshot, loadFlowDays, subscribeToFlowDays } from '../lib/flowLog';
+
+/** Per-day flow entries, loaded on mount and kept current with `setFlowDay` */
+export function useFlowDays(): FlowDay[] {
+  const flowDays = useSyncExternalStore(subscribeToFlowDays, getFlowDaysSnapshot);
+
+  useEffect(() => {
+    loadFlowDays().catch((error) => console.warn('[FlowLog] Load failed:', error));
+  }, []);
+
+  return flowDays;
+}
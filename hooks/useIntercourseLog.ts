@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getIntercourseSnapshot,
+  IntercourseEntry,
+  loadIntercourseLog,
+  subscribeToIntercourseLog,
+} from '../lib/intercourseLog';
+
+/** Days intercourse was logged, loaded on mount and kept current with `setIntercourse` */
+export function useIntercourseLog(): IntercourseEntry[] {
+  const entries = useSyncExternalStore(subscribeToIntercourseLog, getIntercourseSnapshot);
+
+  useEffect(() => {
+    loadIntercourseLog().catch((error) => console.warn('[IntercourseLog] Load failed:', error));
+  }, []);
+
+  return entries;
+}
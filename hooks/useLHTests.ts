@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getLHTestsSnapshot, LHTest, loadLHTests, subscribeToLHTests } from '../lib/lhTestLog';
+
+/** Ovulation (LH) test results, loaded on mount and kept current with `setLHTest` */
+export function useLHTests(): LHTest[] {
+  const tests = useSyncExternalStore(subscribeToLHTests, getLHTestsSnapshot);
+
+  useEffect(() => {
+    loadLHTests().catch((error) => console.warn('[LHTestLog] Load failed:', error));
+  }, []);
+
+  return tests;
+}
@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { AppState, DeviceEventEmitter } from 'react-native';
+import { flushOutbox, OutboxConflict } from '../lib/outbox';
+import { invalidatePredictionsCache } from '../lib/aiPredictions';
+import { showToast } from '../components/Toast';
+
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+const ENTITY_LABELS: Record<OutboxConflict['item']['entity'], string> = {
+  period: 'period',
+  symptom: 'symptom',
+  mood: 'mood',
+  day_log: 'log entry',
+};
+
+/**
+ * Keeps the offline write queue draining: replays on mount, when the app returns
+ * to the foreground and on a slow interval, and tells screens to reload once
+ * queued writes reach the server.
+ */
+export function useOutboxSync() {
+  useEffect(() => {
+    const flush = () => {
+      flushOutbox().catch((error) => console.warn('[Outbox] Flush failed:', error));
+    };
+
+    flush();
+
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') flush();
+    });
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    const syncedSubscription = DeviceEventEmitter.addListener(
+      'outboxSynced',
+      async ({ entities }: { entities: string[] }) => {
+        if (entities.includes('period')) {
+          await invalidatePredictionsCache();
+        }
+        // Home reloads periods, symptoms and moods together on this event
+        DeviceEventEmitter.emit('periodsUpdated');
+      }
+    );
+
+    const conflictSubscription = DeviceEventEmitter.addListener('outboxConflict', (conflict: OutboxConflict) => {
+      const label = ENTITY_LABELS[conflict.item.entity];
+      showToast(`A ${label} saved offline couldn't be synced: ${conflict.message}`, 'error');
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      clearInterval(interval);
+      syncedSubscription.remove();
+      conflictSubscription.remove();
+    };
+  }, []);
+}
@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getPillLogSnapshot, loadPillLog, PillLogEntry, subscribeToPillLog } from '../lib/pillLog';
+
+/** Pills ticked off, loaded on mount and kept current with `setPillTaken` */
+export function usePillLog(): PillLogEntry[] {
+  const entries = useSyncExternalStore(subscribeToPillLog, getPillLogSnapshot);
+
+  useEffect(() => {
+    loadPillLog().catch((error) => console.warn('[PillLog] Load failed:', error));
+  }, []);
+
+  return entries;
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+import { useCycleData } from './useCycleData';
+import { useFlowDays } from './useFlowDays';
+import {
+  TriageAlert,
+  dismissTriageAlert,
+  evaluateRedFlags,
+  listTriageAlerts,
+  recordTriageFindings,
+} from '../lib/symptomTriage';
+
+/**
+ * Red-flag alerts for the shared cycle dataset. Findings are re-evaluated
+ * whenever periods, symptoms or flow days change and written to the alert
+ * log; `active` holds the ones that still match and haven't been dismissed.
+ */
+export function useRedFlagAlerts() {
+  const { periods, symptoms, isHydrated } = useCycleData();
+  const flowDays = useFlowDays();
+  const [active, setActive] = useState<TriageAlert[]>([]);
+  const [activeKeys, setActiveKeys] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    let cancelled = false;
+    const findings = evaluateRedFlags(periods, symptoms, new Date(), flowDays);
+    recordTriageFindings(findings)
+      .then(() => {
+        if (!cancelled) setActiveKeys(findings.map((finding) => finding.key));
+      })
+      .catch((error) => console.warn('[SymptomTriage] Failed to record findings:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [periods, symptoms, flowDays, isHydrated]);
+
+  const refresh = useCallback(async () => {
+    const alerts = await listTriageAlerts();
+    setActive(
+      activeKeys
+        .map((key) => alerts.find((alert) => alert.key === key))
+        .filter((alert): alert is TriageAlert => !!alert && !alert.dismissedAt)
+    );
+  }, [activeKeys]);
+
+  useEffect(() => {
+    refresh();
+    const subscription = DeviceEventEmitter.addListener('triageAlertsUpdated', refresh);
+    return () => subscription.remove();
+  }, [refresh]);
+
+  const dismiss = useCallback((key: string) => dismissTriageAlert(key), []);
+
+  return { active, dismiss };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getTemperatureReadingsSnapshot,
+  loadTemperatureReadings,
+  subscribeToTemperatureReadings,
+  TemperatureReading,
+} from '../lib/temperatureLog';
+
+/** Basal temperature readings, loaded on mount and kept current with `saveTemperatureReading` */
+export function useTemperatureReadings(): TemperatureReading[] {
+  const readings = useSyncExternalStore(subscribeToTemperatureReadings, getTemperatureReadingsSnapshot);
+
+  useEffect(() => {
+    loadTemperatureReadings().catch((error) => console.warn('[TemperatureLog] Load failed:', error));
+  }, []);
+
+  return readings;
+}
@@ -1,8 +1,23 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { getAIPredictions } from './api';
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { getAIPredictions, getCacheScope } from './api';
 import { calculatePredictions, CyclePredictions } from './periodCalculations';
-import { Period, UserSettings } from './api';
+import { getCycleReviewsSnapshot, loadCycleReviews, subscribeToCycleReviews } from './cycleReview';
+import { loadPredictionAccuracy, recordPrediction } from './predictionAccuracy';
+import { parseAIDate, validateAIResponse } from './aiResponseValidation';
+import { addDays, daysBetween, fromLocalDate, toLocalDate } from './calendarDate';
+import { getCycleStoreSnapshot, subscribeToCycleStore } from './cycleStore';
+import { FertilitySignals, hasObservedFertilitySignals } from './fertileWindow';
+import { getLHTestsSnapshot, loadLHTests, subscribeToLHTests } from './lhTestLog';
+import { arePredictionsPaused } from './pregnancy';
+import { suppressesNaturalCycle } from './contraception';
+import {
+    findConfirmedOvulations,
+    getTemperatureReadingsSnapshot,
+    loadTemperatureReadings,
+    subscribeToTemperatureReadings,
+} from './temperatureLog';
+import { Period, Symptom, UserSettings } from './api';
 
 // AI Response interface (from Gemini)
 export interface AIResponse {
@@ -20,13 +35,14 @@ export interface AIResponse {
         notes: string;
     }>;
     predictions: {
-        next_ovulation: {
+        // Dropped by validateAIResponse when implausible; the local values are used instead
+        next_ovulation?: {
             date: string;
             confidence: number;
             fertile_window_start: string;
             fertile_window_end: string;
         };
-        pms_likelihood: {
+        pms_likelihood?: {
             start_date: string;
             confidence: number;
             symptoms_to_watch: string[];
@@ -39,23 +55,52 @@ export interface AIResponse {
     model: string;
 }
 
-// Cached predictions with metadata
+// Cached AI predictions for one cache scope (`MODE::email`)
 interface CachedPredictions {
-    ai: AIResponse | null;
-    legacy: CyclePredictions;
+    ai: AIResponse;
+    /** Share of the AI date in the blended next-period date when it was fetched */
+    aiWeight: number;
     cachedAt: number;
-    userId: string;
+    /** `predictionDataSignature` of the data the predictions were fetched for */
+    dataSignature: string;
 }
 
-const CACHE_KEY = 'ai_predictions_cache';
+export interface PredictionsRefreshStatus {
+    /** When the AI predictions on screen were fetched; null while only local predictions are shown */
+    lastRefreshedAt: Date | null;
+    /** Older than a day, or fetched before the latest change to periods, symptoms or settings */
+    isStale: boolean;
+}
+
+const CACHE_KEY_PREFIX = 'ai_predictions_cache_v1::';
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
 /**
- * Convert AI response to legacy CyclePredictions format for backward compatibility
+ * Mucus, LH tests or a temperature shift logged this cycle beat any forecast,
+ * so when the local predictions used them their ovulation and fertile window
+ * replace the AI's.
+ */
+function withObservedFertileWindow(predictions: CyclePredictions, local: CyclePredictions): CyclePredictions {
+    if (!hasObservedFertilitySignals(local.fertileWindowSignals)) return predictions;
+    return {
+        ...predictions,
+        ovulationDate: local.ovulationDate,
+        fertileWindowStart: local.fertileWindowStart,
+        fertileWindowEnd: local.fertileWindowEnd,
+        fertileWindowSignals: local.fertileWindowSignals,
+    };
+}
+
+/**
+ * Convert AI response to legacy CyclePredictions format for backward compatibility.
+ * `aiWeight` (0–1, from each source's track record in lib/predictionAccuracy.ts)
+ * blends the AI next-period date with the local one; the AI's later cycles,
+ * ovulation and PMS dates move along with it.
  */
 export function convertAIToLegacyFormat(
     aiResponse: AIResponse | null,
-    fallback: CyclePredictions
+    fallback: CyclePredictions,
+    aiWeight = 1
 ): CyclePredictions {
     if (!aiResponse || !aiResponse.next_periods || aiResponse.next_periods.length === 0) {
         return fallback;
@@ -63,58 +108,119 @@ export function convertAIToLegacyFormat(
 
     try {
         const nextPeriod = aiResponse.next_periods[0];
+        const aiStart = parseAIDate(nextPeriod?.start_date);
+        const localStart = fallback.nextPeriodDate ? new Date(fallback.nextPeriodDate) : null;
+        const localWindow = fallback.nextPeriodWindow;
         const nextOvulation = aiResponse.predictions?.next_ovulation;
         const pms = aiResponse.predictions?.pms_likelihood;
 
-        return {
-            nextPeriodDate: nextPeriod?.start_date ? new Date(nextPeriod.start_date) : fallback.nextPeriodDate,
-            ovulationDate: nextOvulation?.date ? new Date(nextOvulation.date) : fallback.ovulationDate,
+        // Whole days the blended date sits away from the AI's own date
+        const shiftDays = aiStart && localStart
+            ? Math.round((1 - aiWeight) * daysBetween(fromLocalDate(aiStart), fromLocalDate(localStart)))
+            : 0;
+        // Unreadable dates come back invalid so the checks below drop them
+        const fromAI = (value: string, offsetDays = 0) => {
+            const date = parseAIDate(value);
+            return date ? toLocalDate(addDays(fromLocalDate(date), shiftDays + offsetDays)) : new Date(NaN);
+        };
+        const nextPeriodDate = nextPeriod?.start_date ? fromAI(nextPeriod.start_date) : fallback.nextPeriodDate;
+
+        // Later cycles move by the same amount so the forecast keeps its spacing
+        const ovulationDate = nextOvulation?.date ? fromAI(nextOvulation.date) : fallback.ovulationDate;
+
+        const upcomingPeriods = aiResponse.next_periods
+            .map((period) => ({
+                startDate: fromAI(period.start_date),
+                endDate: fromAI(period.end_date),
+                confidence: period.confidence,
+                notes: period.notes,
+            }))
+            .filter((period) => !Number.isNaN(period.startDate.getTime()) && !Number.isNaN(period.endDate.getTime()));
+
+        return withObservedFertileWindow({
+            nextPeriodDate,
+            ovulationDate,
             fertileWindowStart: nextOvulation?.fertile_window_start
-                ? new Date(nextOvulation.fertile_window_start)
+                ? fromAI(nextOvulation.fertile_window_start)
                 : fallback.fertileWindowStart,
             fertileWindowEnd: nextOvulation?.fertile_window_end
-                ? new Date(nextOvulation.fertile_window_end)
+                ? fromAI(nextOvulation.fertile_window_end)
                 : fallback.fertileWindowEnd,
-            pmsStart: pms?.start_date ? new Date(pms.start_date) : fallback.pmsStart,
-            pmsEnd: nextPeriod?.start_date
-                ? new Date(new Date(nextPeriod.start_date).getTime() - 24 * 60 * 60 * 1000)
-                : fallback.pmsEnd,
+            pmsStart: pms?.start_date ? fromAI(pms.start_date) : fallback.pmsStart,
+            pmsEnd: nextPeriod?.start_date ? fromAI(nextPeriod.start_date, -1) : fallback.pmsEnd,
             cycleLength: fallback.cycleLength,
             periodLength: fallback.periodLength,
             confidence: nextPeriod?.confidence >= 80 ? 'high' : nextPeriod?.confidence >= 50 ? 'medium' : 'low',
-        };
+            // The local range only describes the blended date if it agrees with it
+            nextPeriodWindow:
+                localWindow && nextPeriodDate &&
+                nextPeriodDate >= new Date(localWindow.start) && nextPeriodDate <= new Date(localWindow.end)
+                    ? localWindow
+                    : null,
+            upcomingPeriods,
+            fertileWindowSignals: nextOvulation?.date && ovulationDate
+                ? [{
+                    kind: 'ai_forecast',
+                    date: ovulationDate,
+                    detail: `AI forecast: ovulation around ${ovulationDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+                }]
+                : fallback.fertileWindowSignals,
+        }, fallback);
     } catch (error) {
         console.error('[AI Predictions] Error converting AI to legacy format:', error);
         return fallback;
     }
 }
 
+function cacheKey(scope: string): string {
+    return `${CACHE_KEY_PREFIX}${scope}`;
+}
+
+/** Short, stable hash so the signature doesn't grow with the history */
+function hashString(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
+
+/**
+ * Fingerprint of everything the AI predictions are based on. Adding, editing
+ * or deleting a period or symptom, or changing the cycle settings, changes it.
+ */
+export function predictionDataSignature(
+    periods: Period[],
+    symptoms: Symptom[],
+    settings: UserSettings | null
+): string {
+    const periodPart = periods
+        .map((period) => `${period.id}:${period.startDate}:${period.endDate ?? ''}:${period.flowLevel ?? ''}:${period.updatedAt}`)
+        .sort()
+        .join('|');
+    const symptomPart = symptoms
+        .map((symptom) => `${symptom.id}:${symptom.date}:${symptom.type}:${symptom.severity}`)
+        .sort()
+        .join('|');
+    const settingsPart = settings
+        ? `${settings.averageCycleLength}:${settings.averagePeriodLength}:${settings.lastPeriodDate ?? ''}:${settings.goal ?? ''}:${settings.contraception ?? ''}:${settings.contraceptionRegimen ?? ''}:${settings.contraceptionStartDate ?? ''}:${settings.updatedAt ?? ''}`
+        : '';
+    return `${periods.length}.${symptoms.length}.${hashString(`${periodPart}#${symptomPart}#${settingsPart}`)}`;
+}
+
 /**
- * Get cached predictions from AsyncStorage
+ * Get cached predictions for a scope from AsyncStorage. Stale entries are
+ * still returned; the caller shows them while a fresh copy is fetched.
  */
-async function getCachedPredictions(userId: string): Promise<CachedPredictions | null> {
+async function getCachedPredictions(scope: string): Promise<CachedPredictions | null> {
     try {
-        const cached = await AsyncStorage.getItem(CACHE_KEY);
+        const cached = await AsyncStorage.getItem(cacheKey(scope));
         if (!cached) return null;
 
         const parsed: CachedPredictions = JSON.parse(cached);
-
-        // Verify it's for the same user
-        if (parsed.userId !== userId) {
-            console.log('[AI Predictions] Cache is for different user, ignoring');
-            return null;
-        }
-
-        // Check if cache is expired
-        const now = Date.now();
-        const age = now - parsed.cachedAt;
-
-        if (age > CACHE_DURATION) {
-            console.log('[AI Predictions] Cache expired', { age: Math.round(age / 1000 / 60), minutes: 'minutes' });
+        if (!parsed?.ai || typeof parsed.cachedAt !== 'number') {
             return null;
         }
-
-        console.log('[AI Predictions] Using cached predictions', { age: Math.round(age / 1000 / 60), minutes: 'minutes old' });
         return parsed;
     } catch (error) {
         console.error('[AI Predictions] Error reading cache:', error);
@@ -123,33 +229,27 @@ async function getCachedPredictions(userId: string): Promise<CachedPredictions |
 }
 
 /**
- * Save predictions to AsyncStorage
+ * Save predictions for a scope to AsyncStorage
  */
-async function savePredictionsToCache(
-    aiResponse: AIResponse | null,
-    legacy: CyclePredictions,
-    userId: string
-): Promise<void> {
+async function savePredictionsToCache(scope: string, entry: CachedPredictions): Promise<void> {
     try {
-        const cache: CachedPredictions = {
-            ai: aiResponse,
-            legacy,
-            cachedAt: Date.now(),
-            userId,
-        };
-        await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cache));
-        console.log('[AI Predictions] Saved to cache');
+        await AsyncStorage.setItem(cacheKey(scope), JSON.stringify(entry));
+        console.log('[AI Predictions] Saved to cache', { scope });
     } catch (error) {
         console.error('[AI Predictions] Error saving cache:', error);
     }
 }
 
+function isCacheStale(entry: CachedPredictions, dataSignature: string, now = Date.now()): boolean {
+    return now - entry.cachedAt > CACHE_DURATION || entry.dataSignature !== dataSignature;
+}
+
 /**
- * Invalidate (clear) the predictions cache
+ * Invalidate (clear) the predictions cache for the current user and view mode
  */
 export async function invalidatePredictionsCache(): Promise<void> {
     try {
-        await AsyncStorage.removeItem(CACHE_KEY);
+        await AsyncStorage.removeItem(cacheKey(getCacheScope()));
         console.log('[AI Predictions] Cache invalidated');
     } catch (error) {
         console.error('[AI Predictions] Error invalidating cache:', error);
@@ -159,14 +259,18 @@ export async function invalidatePredictionsCache(): Promise<void> {
 /**
  * Fetch fresh AI predictions from backend
  */
-async function fetchAIPredictions(): Promise<AIResponse | null> {
+async function fetchAIPredictions(local: CyclePredictions): Promise<AIResponse | null> {
     try {
         console.log('[AI Predictions] Fetching from backend...');
         const response = await getAIPredictions();
 
         if (response.success && response.predictions) {
             console.log('[AI Predictions] Received AI predictions');
-            return response.predictions as AIResponse;
+            const { response: validated, issues } = validateAIResponse(response.predictions, local);
+            issues.forEach((issue) =>
+                console.warn(`[AI Predictions] ${issue.action} ${issue.field || 'response'}: ${issue.message}`)
+            );
+            return validated;
         }
 
         console.warn('[AI Predictions] Backend returned no predictions');
@@ -177,82 +281,189 @@ async function fetchAIPredictions(): Promise<AIResponse | null> {
     }
 }
 
+function latestPeriodStart(periods: Period[]): Date | null {
+    if (periods.length === 0) return null;
+    return periods
+        .map((period) => new Date(period.startDate))
+        .reduce((latest, start) => (start > latest ? start : latest));
+}
+
 /**
- * React hook for using AI predictions with caching and background refresh
+ * Snapshot a freshly fetched AI prediction against the period it was made from
+ */
+function recordAIPrediction(aiData: AIResponse, periods: Period[]): void {
+    const cycleStart = latestPeriodStart(periods);
+    const predictedStart = aiData.next_periods?.[0]?.start_date;
+    if (!cycleStart || !predictedStart) return;
+    recordPrediction({
+        source: 'ai',
+        model: aiData.model ?? null,
+        generatedAt: aiData.generated_at || new Date().toISOString(),
+        cycleStart,
+        predictedStart: parseAIDate(predictedStart) ?? new Date(predictedStart),
+    }).catch((error) => console.warn('[AI Predictions] Failed to record AI prediction:', error));
+}
+
+/**
+ * React hook for using AI predictions with caching and background refresh.
+ * The cache is kept per user and view mode; a cached copy is shown straight
+ * away and, when it is over a day old or the data has changed since, a fresh
+ * one is fetched in the background.
  */
 export function useAIPredictions(
     periods: Period[],
     settings: UserSettings | null,
     userId: string | null
 ) {
+    // Answers about flagged cycles change what counts toward the statistics
+    const cycleReviews = useSyncExternalStore(subscribeToCycleReviews, getCycleReviewsSnapshot);
+
+    // Symptoms come from the shared dataset; they only feed the staleness check
+    const { symptoms, isHydrated } = useSyncExternalStore(subscribeToCycleStore, getCycleStoreSnapshot);
+
+    // Observations logged this cycle that can place the fertile window
+    const lhTests = useSyncExternalStore(subscribeToLHTests, getLHTestsSnapshot);
+    const temperatureReadings = useSyncExternalStore(subscribeToTemperatureReadings, getTemperatureReadingsSnapshot);
+    const fertilitySignals = useMemo<FertilitySignals>(
+        () => ({ symptoms, lhTests, confirmedOvulations: findConfirmedOvulations(periods, temperatureReadings) }),
+        [symptoms, lhTests, periods, temperatureReadings]
+    );
+
+    useEffect(() => {
+        loadCycleReviews().catch((error) => console.warn('[AI Predictions] Failed to load cycle reviews:', error));
+        loadLHTests().catch((error) => console.warn('[AI Predictions] Failed to load LH tests:', error));
+        loadTemperatureReadings().catch((error) => console.warn('[AI Predictions] Failed to load temperatures:', error));
+    }, []);
+
     // Calculate static fallback immediately (synchronous)
-    const staticPredictions = calculatePredictions(periods, settings);
+    const staticPredictions = calculatePredictions(periods, settings, cycleReviews, fertilitySignals);
+
+    const scope = getCacheScope();
+    const dataSignature = useMemo(
+        () => predictionDataSignature(periods, symptoms, settings),
+        [periods, symptoms, settings]
+    );
 
     const [predictions, setPredictions] = useState<CyclePredictions>(staticPredictions);
     const [aiResponse, setAiResponse] = useState<AIResponse | null>(null);
     const [loading, setLoading] = useState(false);
     const [isUsingAI, setIsUsingAI] = useState(false);
+    const [refreshStatus, setRefreshStatus] = useState<PredictionsRefreshStatus>({
+        lastRefreshedAt: null,
+        isStale: false,
+    });
 
-    // Track if we've already loaded for this user
-    const loadedUserRef = useRef<string | null>(null);
+    // Loads read the latest inputs through a ref so a queued reload never uses old data
+    const latestRef = useRef({ periods, settings, cycleReviews, staticPredictions, dataSignature });
+    latestRef.current = { periods, settings, cycleReviews, staticPredictions, dataSignature };
+
+    const shownScopeRef = useRef<string | null>(null);
     const isLoadingRef = useRef(false);
+    const queuedLoadRef = useRef<boolean | null>(null);
 
     /**
-     * Load predictions (from cache or fetch)
+     * Load predictions (from cache, refreshing in the background when stale)
      */
-    const loadPredictions = useCallback(async (forceRefresh = false) => {
-        if (!userId || isLoadingRef.current) return;
+    const loadPredictions = useCallback(async (forceRefresh = false): Promise<void> => {
+        if (!userId) return;
+
+        // Data changed mid-fetch: run again once the current fetch settles
+        if (isLoadingRef.current) {
+            queuedLoadRef.current = (queuedLoadRef.current ?? false) || forceRefresh;
+            return;
+        }
 
         isLoadingRef.current = true;
+        const loadScope = getCacheScope();
+        const { periods, settings, cycleReviews, staticPredictions, dataSignature } = latestRef.current;
 
         try {
-            // Always show static predictions immediately (no lag!)
-            setPredictions(staticPredictions);
-            setIsUsingAI(false);
-
-            // Try to get from cache first
-            if (!forceRefresh) {
-                const cached = await getCachedPredictions(userId);
-                if (cached) {
-                    // Use cached AI predictions
-                    setAiResponse(cached.ai);
-                    setPredictions(cached.legacy);
-                    setIsUsingAI(true);
-                    isLoadingRef.current = false;
+            // Another user or view mode: never show the previous scope's AI predictions
+            if (shownScopeRef.current !== loadScope) {
+                shownScopeRef.current = loadScope;
+                setAiResponse(null);
+                setPredictions(staticPredictions);
+                setIsUsingAI(false);
+                setRefreshStatus({ lastRefreshedAt: null, isStale: false });
+            }
+
+            // Paused for a pregnancy, or bleeds set by contraception: nothing to ask the AI, and a cached forecast would be wrong
+            if (arePredictionsPaused(periods, settings) || suppressesNaturalCycle(settings)) {
+                setAiResponse(null);
+                setPredictions(staticPredictions);
+                setIsUsingAI(false);
+                setRefreshStatus({ lastRefreshedAt: null, isStale: false });
+                return;
+            }
+
+            const cached = await getCachedPredictions(loadScope);
+            if (cached && getCacheScope() === loadScope) {
+                const isStale = isCacheStale(cached, dataSignature);
+                setAiResponse(cached.ai);
+                setPredictions(convertAIToLegacyFormat(cached.ai, staticPredictions, cached.aiWeight));
+                setIsUsingAI(true);
+                setRefreshStatus({ lastRefreshedAt: new Date(cached.cachedAt), isStale });
+
+                if (!forceRefresh && !isStale) {
+                    console.log('[AI Predictions] Using cached predictions', {
+                        age: Math.round((Date.now() - cached.cachedAt) / 1000 / 60),
+                        minutes: 'minutes old',
+                    });
                     return;
                 }
+                console.log('[AI Predictions] Cache is stale, refreshing in background');
             }
 
-            // Cache miss or forced refresh - fetch from backend (in background)
             setLoading(true);
 
             // Fetch AI predictions asynchronously
-            const aiData = await fetchAIPredictions();
+            const aiData = await fetchAIPredictions(staticPredictions);
+
+            // The view mode switched while we were waiting; these belong to the old scope
+            if (getCacheScope() !== loadScope) return;
 
             if (aiData) {
-                // Convert to legacy format
-                const legacyFormat = convertAIToLegacyFormat(aiData, staticPredictions);
+                recordAIPrediction(aiData, periods);
 
-                // Save to cache
-                await savePredictionsToCache(aiData, legacyFormat, userId);
+                // Convert to legacy format, leaning on whichever source has been more accurate
+                const accuracy = await loadPredictionAccuracy(periods, settings, cycleReviews);
+                const legacyFormat = convertAIToLegacyFormat(aiData, staticPredictions, accuracy.aiWeight);
+                const cachedAt = Date.now();
+
+                await savePredictionsToCache(loadScope, {
+                    ai: aiData,
+                    aiWeight: accuracy.aiWeight,
+                    cachedAt,
+                    dataSignature,
+                });
 
-                // Update state
                 setAiResponse(aiData);
                 setPredictions(legacyFormat);
                 setIsUsingAI(true);
-            } else {
+                setRefreshStatus({ lastRefreshedAt: new Date(cachedAt), isStale: false });
+            } else if (!cached) {
                 // AI failed, stick with static
                 console.log('[AI Predictions] Falling back to static predictions');
                 setIsUsingAI(false);
+            } else {
+                console.log('[AI Predictions] Refresh failed, keeping stale cached predictions');
             }
         } catch (error) {
             console.warn('[AI Predictions] Error loading predictions (falling back to static):', error);
-            setIsUsingAI(false);
         } finally {
             setLoading(false);
             isLoadingRef.current = false;
+
+            const queued = queuedLoadRef.current;
+            if (queued !== null) {
+                queuedLoadRef.current = null;
+                loadPredictionsRef.current(queued);
+            }
         }
-    }, [userId, staticPredictions]);
+    }, [userId]);
+
+    const loadPredictionsRef = useRef(loadPredictions);
+    loadPredictionsRef.current = loadPredictions;
 
     /**
      * Refresh predictions (force fetch from backend)
@@ -263,33 +474,53 @@ export function useAIPredictions(
     }, [loadPredictions]);
 
     /**
-     * Initial load when component mounts or user changes
+     * Load on mount, and again whenever the user, view mode or underlying data
+     * changes — a changed signature makes the cached copy stale.
      */
     useEffect(() => {
-        if (userId && loadedUserRef.current !== userId) {
-            loadedUserRef.current = userId;
+        if (userId && isHydrated) {
             loadPredictions(false);
         }
-    }, [userId, loadPredictions]);
+    }, [userId, isHydrated, scope, dataSignature, loadPredictions]);
+
+    /**
+     * Snapshot the local prediction for the current cycle so it can be scored later
+     */
+    const localNextPeriodTime = staticPredictions.nextPeriodDate?.getTime() ?? null;
+    useEffect(() => {
+        const cycleStart = latestPeriodStart(periods);
+        if (!cycleStart || localNextPeriodTime === null) return;
+        recordPrediction({
+            source: 'local',
+            model: null,
+            generatedAt: new Date().toISOString(),
+            cycleStart,
+            predictedStart: new Date(localNextPeriodTime),
+        }).catch((error) => console.warn('[AI Predictions] Failed to record local prediction:', error));
+    }, [periods, localNextPeriodTime]);
 
     /**
      * Update static predictions when data changes
      */
     useEffect(() => {
         // Recalculate static predictions whenever periods/settings change
-        const newStatic = calculatePredictions(periods, settings);
+        const newStatic = calculatePredictions(periods, settings, cycleReviews, fertilitySignals);
 
-        // If we're not using AI, update immediately
+        // If we're not using AI, update immediately; otherwise only newly logged signals apply
         if (!isUsingAI) {
             setPredictions(newStatic);
+        } else {
+            setPredictions((current) => withObservedFertileWindow(current, newStatic));
         }
-    }, [periods, settings, isUsingAI]);
+    }, [periods, settings, cycleReviews, fertilitySignals, isUsingAI]);
 
     return {
         predictions,
         aiResponse,
         loading,
         isUsingAI,
+        lastRefreshedAt: refreshStatus.lastRefreshedAt,
+        isStale: refreshStatus.isStale,
         refresh: refreshPredictions,
     };
 }
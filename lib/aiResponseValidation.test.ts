@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIValidationResult, parseAIDate, validateAIResponse } from './aiResponseValidation';
+import type { CyclePredictions } from './periodCalculations';
+
+const TODAY = new Date(2026, 4, 20, 9, 30);
+
+const LOCAL: CyclePredictions = {
+  nextPeriodDate: new Date(2026, 5, 8),
+  ovulationDate: new Date(2026, 4, 25),
+  fertileWindowStart: new Date(2026, 4, 20),
+  fertileWindowEnd: new Date(2026, 4, 25),
+  pmsStart: new Date(2026, 5, 3),
+  pmsEnd: new Date(2026, 5, 7),
+  cycleLength: 28,
+  periodLength: 5,
+  confidence: 'medium',
+};
+
+function response(overrides: Record<string, unknown> = {}) {
+  return {
+    cycle_analysis: { average_cycle_length: 28, cycle_variance: 'low', cycle_regularity: 'regular', total_cycles_analyzed: 6 },
+    next_periods: [
+      { cycle_number: 1, start_date: '2026-06-09', end_date: '2026-06-13', confidence: 82, notes: 'On schedule' },
+      { cycle_number: 2, start_date: '2026-07-07', end_date: '2026-07-11', confidence: 70, notes: '' },
+    ],
+    predictions: {
+      next_ovulation: {
+        date: '2026-05-26',
+        confidence: 65,
+        fertile_window_start: '2026-05-21',
+        fertile_window_end: '2026-05-26',
+      },
+      pms_likelihood: { start_date: '2026-06-04', confidence: 60, symptoms_to_watch: ['cramps', 7] },
+    },
+    generated_at: '2026-05-20T08:00:00.000Z',
+    model: 'test',
+    ...overrides,
+  };
+}
+
+const ovulation = (date: string, start: string, end: string) => ({
+  predictions: { next_ovulation: { date, confidence: 50, fertile_window_start: start, fertile_window_end: end } },
+});
+
+const fields = (result: AIValidationResult) => result.issues.map((issue) => `${issue.action} ${issue.field}`);
+
+describe('parseAIDate', () => {
+  it('reads date-only strings as local days and instants on the device clock', () => {
+    assert.equal(parseAIDate('2026-06-09')?.getTime(), new Date(2026, 5, 9).getTime());
+    assert.equal(parseAIDate('2026-06-09T15:00:00')?.getTime(), new Date(2026, 5, 9).getTime());
+    assert.equal(parseAIDate('soon'), null);
+    assert.equal(parseAIDate(20260609), null);
+  });
+});
+
+describe('validateAIResponse', () => {
+  it('passes a plausible response through unchanged', () => {
+    const result = validateAIResponse(response(), LOCAL, TODAY);
+    assert.deepEqual(result.issues, []);
+    assert.deepEqual(result.response?.next_periods.map((period) => period.start_date), ['2026-06-09', '2026-07-07']);
+    assert.deepEqual(result.response?.predictions.pms_likelihood?.symptoms_to_watch, ['cramps']);
+  });
+
+  it('rejects a next period too far from the local forecast', () => {
+    const raw = response({ next_periods: [{ start_date: '2026-06-25', end_date: '2026-06-29', confidence: 90 }] });
+    const result = validateAIResponse(raw, LOCAL, TODAY);
+    assert.equal(result.response, null);
+    assert.deepEqual(fields(result), ['rejected next_periods[0].start_date']);
+  });
+
+  it('rejects a response with no usable period', () => {
+    assert.equal(validateAIResponse({ next_periods: [] }, LOCAL, TODAY).response, null);
+    assert.equal(validateAIResponse('nope', LOCAL, TODAY).response, null);
+    const past = validateAIResponse(response({ next_periods: [{ start_date: '2026-05-19' }] }), LOCAL, TODAY);
+    assert.deepEqual(fields(past), ['dropped next_periods[0].start_date', 'rejected next_periods']);
+  });
+
+  it('drops later periods that are too close together and clamps implausible lengths and confidence', () => {
+    const raw = response({
+      next_periods: [
+        { start_date: '2026-06-09', end_date: '2026-06-30', confidence: 140 },
+        { start_date: '2026-06-15', end_date: '2026-06-19', confidence: 50 },
+        { start_date: '2026-07-07', end_date: 'unknown', confidence: 'high' },
+      ],
+    });
+    const result = validateAIResponse(raw, LOCAL, TODAY);
+    assert.deepEqual(
+      result.response?.next_periods.map(({ start_date, end_date, confidence }) => [start_date, end_date, confidence]),
+      [
+        ['2026-06-09', '2026-06-13', 100],
+        ['2026-07-07', '2026-07-11', 0],
+      ]
+    );
+    assert.deepEqual(fields(result), [
+      'clamped next_periods[0].end_date',
+      'clamped next_periods[0].confidence',
+      'dropped next_periods[1].start_date',
+      'clamped next_periods[2].end_date',
+      'clamped next_periods[2].confidence',
+    ]);
+  });
+
+  it('drops ovulation too close to the period and rebuilds a fertile window that misses ovulation', () => {
+    const tooLate = response(ovulation('2026-06-05', '2026-05-31', '2026-06-05'));
+    const dropped = validateAIResponse(tooLate, LOCAL, TODAY);
+    assert.equal(dropped.response?.predictions.next_ovulation, undefined);
+    assert.deepEqual(fields(dropped), ['dropped predictions.next_ovulation.date']);
+
+    const missedWindow = response(ovulation('2026-05-26', '2026-05-27', '2026-05-30'));
+    const rebuilt = validateAIResponse(missedWindow, LOCAL, TODAY).response?.predictions.next_ovulation;
+    assert.equal(rebuilt?.fertile_window_start, '2026-05-21');
+    assert.equal(rebuilt?.fertile_window_end, '2026-05-26');
+  });
+
+  it('drops a PMS start that is not in the days before the period', () => {
+    const raw = response({ predictions: { pms_likelihood: { start_date: '2026-06-10', confidence: 60 } } });
+    const result = validateAIResponse(raw, LOCAL, TODAY);
+    assert.equal(result.response?.predictions.pms_likelihood, undefined);
+    assert.deepEqual(fields(result), ['dropped predictions.pms_likelihood.start_date']);
+  });
+
+  it('replaces an implausible average cycle length with the local one', () => {
+    const raw = response({ cycle_analysis: { average_cycle_length: 4, total_cycles_analyzed: -2 } });
+    const result = validateAIResponse(raw, LOCAL, TODAY);
+    assert.equal(result.response?.cycle_analysis.average_cycle_length, 28);
+    assert.equal(result.response?.cycle_analysis.total_cycles_analyzed, 0);
+  });
+});
@@ -0,0 +1,270 @@
+import type { AIResponse } from './aiPredictions';
+import type { CyclePredictions } from './periodCalculations';
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  daysBetween,
+  formatDayKey,
+  fromDeviceDate,
+  fromLocalDate,
+  getNow,
+  parseDayKey,
+  toLocalDate,
+} from './calendarDate';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const MAX_LOCAL_DISAGREEMENT_DAYS = 10;  // further from the local forecast than this is treated as a hallucination
+const MAX_PERIOD_DAYS = 15;
+const MIN_CYCLE_DAYS = 15;
+const MAX_CYCLE_DAYS = 90;
+const MIN_LUTEAL_DAYS = 7;               // ovulation this close to the period (or closer) isn't plausible
+const MAX_LUTEAL_DAYS = 20;
+const FERTILE_DAYS_BEFORE_OVULATION = 5;
+const MAX_PMS_LEAD_DAYS = 14;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type AIValidationAction = 'rejected' | 'dropped' | 'clamped';
+
+export interface AIValidationIssue {
+  /** Path of the offending field, e.g. `next_periods[0].end_date` */
+  field: string;
+  action: AIValidationAction;
+  message: string;
+}
+
+export interface AIValidationResult {
+  /** Null when the response as a whole can't be trusted */
+  response: AIResponse | null;
+  issues: AIValidationIssue[];
+}
+
+type NextPeriod = AIResponse['next_periods'][number];
+type Ovulation = NonNullable<AIResponse['predictions']['next_ovulation']>;
+type PmsLikelihood = NonNullable<AIResponse['predictions']['pms_likelihood']>;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+/** Confidence as a 0–100 number; `null` when it isn't a number at all */
+function asConfidence(value: unknown): number | null {
+  const numeric = typeof value === 'string' ? Number(value) : value;
+  if (typeof numeric !== 'number' || Number.isNaN(numeric)) return null;
+  return Math.min(100, Math.max(0, numeric));
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Date-only strings are local calendar days; anything else goes through `Date` */
+export function parseAIDate(value: unknown): Date | null {
+  const day = fromDeviceDate(value);
+  return day ? toLocalDate(day) : null;
+}
+
+/**
+ * Check an `/api/predictions/ai` payload before anything is shown. The next
+ * period must parse, lie in the future and agree with the local forecast;
+ * without that the whole response is rejected. Other fields that break the
+ * rules (ovulation after the period, a fertile window missing ovulation,
+ * confidence outside 0–100…) are clamped or dropped so the local values are
+ * used in their place. Every change is reported in `issues`.
+ */
+export function validateAIResponse(
+  raw: unknown,
+  local: CyclePredictions,
+  today: Date = getNow()
+): AIValidationResult {
+  const issues: AIValidationIssue[] = [];
+  const reject = (field: string, message: string): AIValidationResult => {
+    issues.push({ field, action: 'rejected', message });
+    return { response: null, issues };
+  };
+  const note = (field: string, action: AIValidationAction, message: string) => {
+    issues.push({ field, action, message });
+  };
+
+  const todayDay = fromLocalDate(today);
+
+  if (!isRecord(raw)) return reject('', 'Response is not an object.');
+  if (!Array.isArray(raw.next_periods) || raw.next_periods.length === 0) {
+    return reject('next_periods', 'Response has no upcoming periods.');
+  }
+
+  // ── Upcoming periods ──
+  const nextPeriods: NextPeriod[] = [];
+  let previousStart: CalendarDate | null = null;
+  raw.next_periods.forEach((entry: unknown, index: number) => {
+    const field = `next_periods[${index}]`;
+    if (!isRecord(entry)) {
+      note(field, 'dropped', 'Entry is not an object.');
+      return;
+    }
+    const start = fromDeviceDate(entry.start_date);
+    if (!start) {
+      note(`${field}.start_date`, 'dropped', `Start date "${String(entry.start_date)}" could not be read.`);
+      return;
+    }
+    if (compareDates(start, todayDay) < 0) {
+      note(`${field}.start_date`, 'dropped', `Start date ${formatDayKey(start)} is in the past.`);
+      return;
+    }
+    if (previousStart) {
+      const gap = daysBetween(previousStart, start);
+      if (gap < MIN_CYCLE_DAYS || gap > MAX_CYCLE_DAYS) {
+        note(`${field}.start_date`, 'dropped', `Starts ${gap} days after the previous predicted period.`);
+        return;
+      }
+    }
+
+    let end = fromDeviceDate(entry.end_date);
+    const length = end ? daysBetween(start, end) + 1 : 0;
+    if (!end || length < 1 || length > MAX_PERIOD_DAYS) {
+      end = addDays(start, Math.max(1, local.periodLength) - 1);
+      note(`${field}.end_date`, 'clamped', `End date "${String(entry.end_date)}" replaced with ${formatDayKey(end)}.`);
+    }
+
+    let confidence = asConfidence(entry.confidence);
+    if (confidence === null) {
+      confidence = 0;
+      note(`${field}.confidence`, 'clamped', 'Confidence is not a number; treated as 0.');
+    } else if (confidence !== entry.confidence) {
+      note(`${field}.confidence`, 'clamped', `Confidence ${String(entry.confidence)} clamped to ${confidence}.`);
+    }
+
+    nextPeriods.push({
+      cycle_number: typeof entry.cycle_number === 'number' ? entry.cycle_number : nextPeriods.length + 1,
+      start_date: formatDayKey(start),
+      end_date: formatDayKey(end),
+      confidence,
+      notes: asString(entry.notes),
+    });
+    previousStart = start;
+  });
+
+  if (nextPeriods.length === 0) {
+    return reject('next_periods', 'None of the upcoming periods passed validation.');
+  }
+
+  const nextStart = parseDayKey(nextPeriods[0].start_date)!;
+  if (local.nextPeriodDate) {
+    const disagreement = daysBetween(fromLocalDate(new Date(local.nextPeriodDate)), nextStart);
+    if (Math.abs(disagreement) > MAX_LOCAL_DISAGREEMENT_DAYS) {
+      return reject(
+        'next_periods[0].start_date',
+        `Next period ${formatDayKey(nextStart)} is ${Math.abs(disagreement)} days from the local forecast.`
+      );
+    }
+  }
+
+  // ── Ovulation and fertile window ──
+  const rawPredictions = isRecord(raw.predictions) ? raw.predictions : {};
+  let ovulation: Ovulation | undefined;
+  if (isRecord(rawPredictions.next_ovulation)) {
+    const entry = rawPredictions.next_ovulation;
+    const date = fromDeviceDate(entry.date);
+    const lead = date ? daysBetween(date, nextStart) : null;
+    if (!date || lead === null) {
+      note('predictions.next_ovulation.date', 'dropped', `Ovulation date "${String(entry.date)}" could not be read.`);
+    } else if (lead < MIN_LUTEAL_DAYS || lead > MAX_LUTEAL_DAYS) {
+      note(
+        'predictions.next_ovulation.date',
+        'dropped',
+        `Ovulation ${formatDayKey(date)} is ${lead} days before the next period, outside ${MIN_LUTEAL_DAYS}–${MAX_LUTEAL_DAYS}.`
+      );
+    } else {
+      let windowStart = fromDeviceDate(entry.fertile_window_start);
+      let windowEnd = fromDeviceDate(entry.fertile_window_end);
+      if (!windowStart || !windowEnd || compareDates(windowStart, date) > 0 || compareDates(windowEnd, date) < 0) {
+        windowStart = addDays(date, -FERTILE_DAYS_BEFORE_OVULATION);
+        windowEnd = date;
+        note(
+          'predictions.next_ovulation.fertile_window',
+          'clamped',
+          `Fertile window doesn't contain ovulation; replaced with ${formatDayKey(windowStart)} – ${formatDayKey(windowEnd)}.`
+        );
+      }
+      const confidence = asConfidence(entry.confidence);
+      if (confidence === null || confidence !== entry.confidence) {
+        note('predictions.next_ovulation.confidence', 'clamped', `Confidence ${String(entry.confidence)} clamped.`);
+      }
+      ovulation = {
+        date: formatDayKey(date),
+        confidence: confidence ?? 0,
+        fertile_window_start: formatDayKey(windowStart),
+        fertile_window_end: formatDayKey(windowEnd),
+      };
+    }
+  }
+
+  // ── PMS ──
+  let pms: PmsLikelihood | undefined;
+  if (isRecord(rawPredictions.pms_likelihood)) {
+    const entry = rawPredictions.pms_likelihood;
+    const start = fromDeviceDate(entry.start_date);
+    const lead = start ? daysBetween(start, nextStart) : null;
+    if (!start || lead === null || lead < 1 || lead > MAX_PMS_LEAD_DAYS) {
+      note('predictions.pms_likelihood.start_date', 'dropped', `PMS start "${String(entry.start_date)}" isn't in the days before the next period.`);
+    } else {
+      const confidence = asConfidence(entry.confidence);
+      if (confidence === null || confidence !== entry.confidence) {
+        note('predictions.pms_likelihood.confidence', 'clamped', `Confidence ${String(entry.confidence)} clamped.`);
+      }
+      pms = {
+        start_date: formatDayKey(start),
+        confidence: confidence ?? 0,
+        symptoms_to_watch: Array.isArray(entry.symptoms_to_watch)
+          ? entry.symptoms_to_watch.filter((symptom): symptom is string => typeof symptom === 'string')
+          : [],
+      };
+    }
+  }
+
+  // ── Cycle analysis and metadata ──
+  const analysis = isRecord(raw.cycle_analysis) ? raw.cycle_analysis : {};
+  let averageCycleLength = analysis.average_cycle_length;
+  if (typeof averageCycleLength !== 'number' || averageCycleLength < MIN_CYCLE_DAYS || averageCycleLength > MAX_CYCLE_DAYS) {
+    note('cycle_analysis.average_cycle_length', 'clamped', `Average cycle length ${String(averageCycleLength)} replaced with ${local.cycleLength}.`);
+    averageCycleLength = local.cycleLength;
+  }
+  const totalCycles = analysis.total_cycles_analyzed;
+
+  const generatedAt = parseAIDate(raw.generated_at) ? String(raw.generated_at) : new Date().toISOString();
+  if (generatedAt !== raw.generated_at) {
+    note('generated_at', 'clamped', 'Missing or unreadable; set to now.');
+  }
+
+  const healthInsights = isRecord(raw.health_insights) && Array.isArray(raw.health_insights.recommendations)
+    ? {
+        recommendations: raw.health_insights.recommendations.filter(
+          (item): item is string => typeof item === 'string'
+        ),
+      }
+    : undefined;
+
+  return {
+    response: {
+      cycle_analysis: {
+        average_cycle_length: averageCycleLength as number,
+        cycle_variance: asString(analysis.cycle_variance),
+        cycle_regularity: asString(analysis.cycle_regularity),
+        total_cycles_analyzed:
+          typeof totalCycles === 'number' && totalCycles >= 0 ? Math.floor(totalCycles) : 0,
+      },
+      next_periods: nextPeriods,
+      predictions: {
+        next_ovulation: ovulation,
+        pms_likelihood: pms,
+      },
+      health_insights: healthInsights,
+      generated_at: generatedAt,
+      model: asString(raw.model, 'unknown'),
+    },
+    issues,
+  };
+}
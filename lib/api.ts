@@ -2,9 +2,19 @@ import axios from 'axios';
 import Constants from 'expo-constants';
 import * as SecureStore from 'expo-secure-store';
 import { getCachedData, setCachedData, clearCacheByPattern, buildCacheKey, CacheTTL } from './cache';
+import {
+  configureOutbox,
+  enqueueMutation,
+  applyPendingMutations,
+  isNetworkError,
+  notifyOnline,
+  isPendingRecord,
+  OutboxEntity,
+} from './outbox';
+import { fromApiDate, fromDeviceDate, isWithin, toApiDate, toApiRange, toFloatingDate } from './calendarDate';
 
 // Helper to get current cache scope
-function getCacheScope(): string {
+export function getCacheScope(): string {
   const mode = currentViewModeRecord?.mode || 'SELF';
   const email = mode === 'OTHER' ? currentViewModeRecord?.viewedUserEmail : currentViewModeRecord?.email;
   return `${mode}::${email || 'unknown'}`;
@@ -274,7 +284,7 @@ api.interceptors.request.use(
 );
 
 // Add response interceptor for debugging
-const buildFriendlyMessage = (error: any): string => {
+export const buildFriendlyMessage = (error: any): string => {
   const status = error?.response?.status;
   const dataMessage =
     error?.response?.data?.message ||
@@ -319,6 +329,8 @@ api.interceptors.response.use(
         data: response.data,
       });
     }
+    // A request got through, so any writes waiting on connectivity can go now
+    notifyOnline();
     return response;
   },
   (error) => {
@@ -344,6 +356,54 @@ api.interceptors.response.use(
   }
 );
 
+// Base URL and headers for requests that can't go through axios (streamed chat replies)
+export const API_BASE_URL = API_URL;
+
+export async function buildRequestHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Timezone-Offset': String(new Date().getTimezoneOffset()),
+  };
+  try {
+    const token = getClerkToken ? await getClerkToken() : null;
+    if (token) headers.Authorization = `Bearer ${token}`;
+  } catch {
+    // Silent - token getter might not be ready yet
+  }
+  if (currentViewModeRecord?.mode) {
+    headers['X-View-Mode'] = currentViewModeRecord.mode;
+  }
+  return headers;
+}
+
+// Offline write queue: endpoints used when replaying queued writes
+const OUTBOX_ENDPOINTS: Record<OutboxEntity, string> = {
+  period: '/api/periods',
+  symptom: '/api/symptoms',
+  mood: '/api/moods',
+  day_log: '/api/day-logs',
+};
+
+configureOutbox({
+  getScope: getCacheScope,
+  send: async (item) => {
+    const base = OUTBOX_ENDPOINTS[item.entity];
+    switch (item.operation) {
+      case 'create': {
+        const response = await api.post(base, item.payload);
+        return response.data[item.entity] || response.data;
+      }
+      case 'update': {
+        const response = await api.patch(`${base}/${item.targetId}`, item.payload);
+        return response.data[item.entity] || response.data;
+      }
+      case 'delete':
+        await api.delete(`${base}/${item.targetId}`);
+        return null;
+    }
+  },
+});
+
 // Login for someone else API functions
 export const loginForOtherAPI = {
   // Verify credentials (email only - no password required)
@@ -462,6 +522,15 @@ export interface Mood {
   createdAt: string;
 }
 
+/**
+ * What the user is tracking for: `conceive` turns on trying-to-conceive mode;
+ * `pregnant` and `postpartum` pause period predictions (see lib/pregnancy.ts)
+ */
+export type TrackingGoal = 'track_cycle' | 'conceive' | 'pregnant' | 'postpartum';
+export type ContraceptionMethod = 'pill' | 'patch' | 'ring' | 'hormonal_iud' | 'copper_iud' | 'implant';
+/** Active days followed by a hormone-free break: 21+7, 24+4, or no break at all */
+export type ContraceptionRegimen = '21_7' | '24_4' | 'continuous';
+
 export interface UserSettings {
   id?: string;
   userId?: string;
@@ -472,19 +541,89 @@ export interface UserSettings {
   birthYear?: number | null;
   reminderEnabled?: boolean;
   reminderDaysBefore?: number;
+  goal?: TrackingGoal | null;
+  /** When the current attempt to conceive began; cycles trying are counted from here */
+  ttcStartedAt?: string | null;
+  /** First day of the last period before the current or most recent pregnancy */
+  pregnancyStartDate?: string | null;
+  dueDate?: string | null;
+  /** The birth, or whenever pregnancy mode was left; null while still pregnant */
+  pregnancyEndDate?: string | null;
+  breastfeeding?: boolean | null;
+  contraception?: ContraceptionMethod | null;
+  contraceptionRegimen?: ContraceptionRegimen | null;
+  /** Day 1 of the current pill pack, patch or ring cycle */
+  contraceptionStartDate?: string | null;
+  /** Local time for pill and patch/ring reminders, HH:MM; null turns them off */
+  contraceptionReminderTime?: string | null;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Calendar days cross the API boundary here: the server is sent UTC-midnight
+// days and the app gets zone-less timestamps back (see lib/calendarDate.ts)
+function toServerDay(value: string): string {
+  const day = fromDeviceDate(value);
+  return day ? toApiDate(day) : value;
+}
+
+function toClientDay(value: string, endOfDay = false): string {
+  const day = fromApiDate(value);
+  return day ? toFloatingDate(day, endOfDay) : value;
+}
+
+export function normalizePeriod(period: Period): Period {
+  return {
+    ...period,
+    startDate: toClientDay(period.startDate),
+    endDate: period.endDate ? toClientDay(period.endDate, true) : period.endDate,
+  };
+}
+
+/** Symptoms and moods both hang off a single `date` */
+export function normalizeDatedRecord<T extends { date: string }>(record: T): T {
+  return { ...record, date: toClientDay(record.date) };
+}
+
+function rangeParams(startDate?: string, endDate?: string): Record<string, string> {
+  const start = startDate ? fromDeviceDate(startDate) : null;
+  const end = endDate ? fromDeviceDate(endDate) : null;
+  if (start && end) return toApiRange(start, end);
+  const params: Record<string, string> = {};
+  if (start) params.startDate = toApiRange(start, start).startDate;
+  if (end) params.endDate = toApiRange(end, end).endDate;
+  return params;
+}
+
+/** Drop records the widened `rangeParams` query let in from the neighbouring days */
+function withinRange<T extends { date: string }>(records: T[], startDate?: string, endDate?: string): T[] {
+  const start = startDate ? fromDeviceDate(startDate) : null;
+  const end = endDate ? fromDeviceDate(endDate) : null;
+  if (!start && !end) return records;
+  return records.filter((record) => {
+    const day = fromApiDate(record.date);
+    return !day || isWithin(day, start ?? day, end ?? day);
+  });
+}
+
 // Period API functions
 export const getPeriods = async (forceRefresh = false): Promise<Period[]> => {
   const key = buildCacheKey(['periods', getCacheScope()]);
   if (!forceRefresh) {
     const cached = await getCachedData<Period[]>(key);
-    if (cached) return cached;
+    if (cached) return cached.map(normalizePeriod);
   }
-  const response = await api.get('/api/periods');
-  const data = response.data.periods || [];
+  let data: Period[];
+  try {
+    const response = await api.get('/api/periods');
+    data = (response.data.periods || []).map(normalizePeriod);
+  } catch (error) {
+    // Offline: serve the last known list (with queued writes applied)
+    const stale = isNetworkError(error) ? await getCachedData<Period[]>(key, true) : undefined;
+    if (!stale) throw error;
+    return (await applyPendingMutations('period', getCacheScope(), stale)).map(normalizePeriod);
+  }
+  data = await applyPendingMutations('period', getCacheScope(), data);
   await setCachedData(key, data, CacheTTL.MEDIUM);
   return data;
 };
@@ -494,9 +633,33 @@ export const createPeriod = async (data: {
   endDate?: string | null;
   flowLevel?: 'light' | 'medium' | 'heavy' | null;
 }): Promise<Period> => {
-  const response = await api.post('/api/periods', data);
-  await clearCacheByPattern(`periods::${getCacheScope()}`);
-  return response.data.period || response.data;
+  const payload = {
+    ...data,
+    startDate: toServerDay(data.startDate),
+    endDate: data.endDate ? toServerDay(data.endDate) : data.endDate,
+  };
+  try {
+    const response = await api.post('/api/periods', payload);
+    await clearCacheByPattern(`periods::${getCacheScope()}`);
+    return normalizePeriod(response.data.period || response.data);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const now = new Date().toISOString();
+    const queued = await enqueueMutation<Period>({
+      entity: 'period',
+      operation: 'create',
+      scope: getCacheScope(),
+      payload,
+      record: {
+        startDate: toClientDay(payload.startDate),
+        endDate: payload.endDate ? toClientDay(payload.endDate, true) : null,
+        flowLevel: data.flowLevel ?? null,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    return queued!;
+  }
 };
 
 export const updatePeriod = async (id: string, data: {
@@ -504,14 +667,44 @@ export const updatePeriod = async (id: string, data: {
   endDate?: string | null;
   flowLevel?: 'light' | 'medium' | 'heavy' | null;
 }): Promise<Period> => {
-  const response = await api.patch(`/api/periods/${id}`, data);
-  await clearCacheByPattern(`periods::${getCacheScope()}`);
-  return response.data.period || response.data;
+  const payload = { ...data };
+  if (data.startDate) payload.startDate = toServerDay(data.startDate);
+  if (data.endDate) payload.endDate = toServerDay(data.endDate);
+  try {
+    // Records still waiting in the outbox can only be changed through it
+    if (!isPendingRecord({ id })) {
+      const response = await api.patch(`/api/periods/${id}`, payload);
+      await clearCacheByPattern(`periods::${getCacheScope()}`);
+      return normalizePeriod(response.data.period || response.data);
+    }
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+  }
+  const record = { ...payload, updatedAt: new Date().toISOString() } as Period;
+  if (record.startDate) record.startDate = toClientDay(record.startDate);
+  if (record.endDate) record.endDate = toClientDay(record.endDate, true);
+  const queued = await enqueueMutation<Period>({
+    entity: 'period',
+    operation: 'update',
+    scope: getCacheScope(),
+    targetId: id,
+    payload,
+    record,
+  });
+  return queued!;
 };
 
 export const deletePeriod = async (id: string): Promise<void> => {
-  await api.delete(`/api/periods/${id}`);
-  await clearCacheByPattern(`periods::${getCacheScope()}`);
+  try {
+    if (!isPendingRecord({ id })) {
+      await api.delete(`/api/periods/${id}`);
+      await clearCacheByPattern(`periods::${getCacheScope()}`);
+      return;
+    }
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+  }
+  await enqueueMutation({ entity: 'period', operation: 'delete', scope: getCacheScope(), targetId: id });
 };
 
 // User API functions
@@ -643,14 +836,22 @@ export const getSymptoms = async (startDate?: string, endDate?: string, forceRef
   const key = buildCacheKey(['symptoms', getCacheScope(), startDate, endDate]);
   if (!forceRefresh) {
     const cached = await getCachedData<Symptom[]>(key);
-    if (cached) return cached;
+    if (cached) return cached.map(normalizeDatedRecord);
   }
-  const params: any = {};
-  if (startDate) params.startDate = startDate;
-  if (endDate) params.endDate = endDate;
+  const params = rangeParams(startDate, endDate);
 
-  const response = await api.get('/api/symptoms', { params });
-  const data = response.data.symptoms || [];
+  let data: Symptom[];
+  try {
+    const response = await api.get('/api/symptoms', { params });
+    data = withinRange<Symptom>(response.data.symptoms || [], startDate, endDate).map(normalizeDatedRecord);
+  } catch (error) {
+    const stale = isNetworkError(error) ? await getCachedData<Symptom[]>(key, true) : undefined;
+    if (!stale) throw error;
+    return (await applyPendingMutations('symptom', getCacheScope(), stale, { startDate, endDate })).map(
+      normalizeDatedRecord
+    );
+  }
+  data = await applyPendingMutations('symptom', getCacheScope(), data, { startDate, endDate });
   await setCachedData(key, data, CacheTTL.SHORT);
   return data;
 };
@@ -660,18 +861,64 @@ export const createSymptom = async (data: {
   type: string;
   severity?: number;
 }): Promise<Symptom> => {
-  const response = await api.post('/api/symptoms', {
-    date: data.date,
+  const payload = {
+    date: toServerDay(data.date),
     type: data.type,
     severity: data.severity || 3,
+  };
+  try {
+    const response = await api.post('/api/symptoms', payload);
+    await clearCacheByPattern(`symptoms::${getCacheScope()}`);
+    return normalizeDatedRecord<Symptom>(response.data.symptom || response.data);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const queued = await enqueueMutation<Symptom>({
+      entity: 'symptom',
+      operation: 'create',
+      scope: getCacheScope(),
+      payload,
+      record: { ...payload, date: toClientDay(payload.date), createdAt: new Date().toISOString() },
+    });
+    return queued!;
+  }
+};
+
+export const updateSymptom = async (id: string, data: {
+  type?: string;
+  severity?: number;
+}): Promise<Symptom> => {
+  try {
+    // Records still waiting in the outbox can only be changed through it
+    if (!isPendingRecord({ id })) {
+      const response = await api.patch(`/api/symptoms/${id}`, data);
+      await clearCacheByPattern(`symptoms::${getCacheScope()}`);
+      return normalizeDatedRecord<Symptom>(response.data.symptom || response.data);
+    }
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+  }
+  const queued = await enqueueMutation<Symptom>({
+    entity: 'symptom',
+    operation: 'update',
+    scope: getCacheScope(),
+    targetId: id,
+    payload: data,
+    record: { ...data, updatedAt: new Date().toISOString() } as Partial<Symptom> as Symptom,
   });
-  await clearCacheByPattern(`symptoms::${getCacheScope()}`);
-  return response.data.symptom || response.data;
+  return queued!;
 };
 
 export const deleteSymptom = async (id: string): Promise<void> => {
-  await api.delete(`/api/symptoms/${id}`);
-  await clearCacheByPattern(`symptoms::${getCacheScope()}`);
+  try {
+    if (!isPendingRecord({ id })) {
+      await api.delete(`/api/symptoms/${id}`);
+      await clearCacheByPattern(`symptoms::${getCacheScope()}`);
+      return;
+    }
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+  }
+  await enqueueMutation({ entity: 'symptom', operation: 'delete', scope: getCacheScope(), targetId: id });
 };
 
 // Moods API functions
@@ -679,14 +926,22 @@ export const getMoods = async (startDate?: string, endDate?: string, forceRefres
   const key = buildCacheKey(['moods', getCacheScope(), startDate, endDate]);
   if (!forceRefresh) {
     const cached = await getCachedData<Mood[]>(key);
-    if (cached) return cached;
+    if (cached) return cached.map(normalizeDatedRecord);
   }
-  const params: any = {};
-  if (startDate) params.startDate = startDate;
-  if (endDate) params.endDate = endDate;
+  const params = rangeParams(startDate, endDate);
 
-  const response = await api.get('/api/moods', { params });
-  const data = response.data.moods || [];
+  let data: Mood[];
+  try {
+    const response = await api.get('/api/moods', { params });
+    data = withinRange<Mood>(response.data.moods || [], startDate, endDate).map(normalizeDatedRecord);
+  } catch (error) {
+    const stale = isNetworkError(error) ? await getCachedData<Mood[]>(key, true) : undefined;
+    if (!stale) throw error;
+    return (await applyPendingMutations('mood', getCacheScope(), stale, { startDate, endDate })).map(
+      normalizeDatedRecord
+    );
+  }
+  data = await applyPendingMutations('mood', getCacheScope(), data, { startDate, endDate });
   await setCachedData(key, data, CacheTTL.SHORT);
   return data;
 };
@@ -695,24 +950,115 @@ export const createMood = async (data: {
   date: string;
   type: string;
 }): Promise<Mood> => {
-  const response = await api.post('/api/moods', {
-    date: data.date,
+  const payload = {
+    date: toServerDay(data.date),
     type: data.type,
-  });
-  await clearCacheByPattern(`moods::${getCacheScope()}`);
-  return response.data.mood || response.data;
+  };
+  try {
+    const response = await api.post('/api/moods', payload);
+    await clearCacheByPattern(`moods::${getCacheScope()}`);
+    return normalizeDatedRecord<Mood>(response.data.mood || response.data);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    const queued = await enqueueMutation<Mood>({
+      entity: 'mood',
+      operation: 'create',
+      scope: getCacheScope(),
+      payload,
+      record: { ...payload, date: toClientDay(payload.date), createdAt: new Date().toISOString() },
+    });
+    return queued!;
+  }
 };
 
 export const deleteMood = async (id: string): Promise<void> => {
-  await api.delete(`/api/moods/${id}`);
-  await clearCacheByPattern(`moods::${getCacheScope()}`);
+  try {
+    if (!isPendingRecord({ id })) {
+      await api.delete(`/api/moods/${id}`);
+      await clearCacheByPattern(`moods::${getCacheScope()}`);
+      return;
+    }
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+  }
+  await enqueueMutation({ entity: 'mood', operation: 'delete', scope: getCacheScope(), targetId: id });
+};
+
+// Delta sync API functions (used by lib/cycleStore.ts)
+export interface ChangeSet<T> {
+  records: T[];
+  deletedIds: string[];
+  /** False when the server answered with its full list, e.g. because it ignored `updatedSince` */
+  isDelta: boolean;
+}
+
+const getChangesSince = async <T>(
+  path: string,
+  listKey: string,
+  updatedSince: string | null,
+  normalize: (record: T) => T
+): Promise<ChangeSet<T>> => {
+  const response = await api.get(path, { params: updatedSince ? { updatedSince } : undefined });
+  const hasTombstones = Array.isArray(response.data.deletedIds);
+  return {
+    records: (response.data[listKey] || []).map(normalize),
+    deletedIds: hasTombstones ? response.data.deletedIds : [],
+    isDelta: !!updatedSince && (hasTombstones || response.data.updatedSince === updatedSince),
+  };
+};
+
+export const getPeriodChanges = (updatedSince: string | null) =>
+  getChangesSince<Period>('/api/periods', 'periods', updatedSince, normalizePeriod);
+
+export const getSymptomChanges = (updatedSince: string | null) =>
+  getChangesSince<Symptom>('/api/symptoms', 'symptoms', updatedSince, normalizeDatedRecord);
+
+export const getMoodChanges = (updatedSince: string | null) =>
+  getChangesSince<Mood>('/api/moods', 'moods', updatedSince, normalizeDatedRecord);
+
+// Per-day log API functions (flow, temperature, LH tests, intercourse, pills)
+export type DayLogKind = 'flow' | 'temperature' | 'lh_test' | 'intercourse' | 'pill';
+
+/**
+ * Whether per-day logs are uploaded and pulled. Off until the backend serves
+ * `/api/day-logs/:kind(/:date)`; until then the logs stay on the device.
+ */
+export const DAY_LOG_SYNC_ENABLED = false;
+
+/** Every entry of one log for the active user, one per day */
+export const getDayLogs = async <T>(kind: DayLogKind): Promise<T[]> => {
+  const response = await api.get(`/api/day-logs/${kind}`);
+  return response.data.entries || [];
+};
+
+/**
+ * Queue the entry for one day (YYYY-MM-DD), or clearing the day with `null`,
+ * as a `day_log` update/delete of `<kind>/<date>`. The outbox sends it, so the
+ * local write never waits on the server.
+ */
+export const queueDayLog = async (
+  kind: DayLogKind,
+  date: string,
+  entry: Record<string, any> | null
+): Promise<void> => {
+  await enqueueMutation({
+    entity: 'day_log',
+    operation: entry ? 'update' : 'delete',
+    scope: getCacheScope(),
+    targetId: `${kind}/${date}`,
+    payload: entry,
+  });
 };
 
 // Chat API function
-export const chatWithAI = async (messages: Array<{ role: string; content: string }>, symptoms?: any[]): Promise<string> => {
+export const chatWithAI = async (
+  messages: Array<{ role: string; content: string }>,
+  symptoms?: any[],
+  signal?: AbortSignal
+): Promise<string> => {
   const response = await api.post('/api/chat', {
     messages,
     symptoms,
-  });
+  }, { signal });
   return response.data.response || response.data.message || 'I understand your question. Let me help you with that.';
 };
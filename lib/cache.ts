@@ -179,6 +179,53 @@ export async function clearCacheByPattern(pattern: string): Promise<void> {
   }
 }
 
+/**
+ * Rewrite every cache entry whose key contains the given substring.
+ * The entry keeps its original timestamp and TTL, so patching does not extend its life.
+ * Expired entries are patched too — callers reading with `returnStale` still see the change.
+ *
+ * Example: `updateCachedDataByPattern('periods::SELF::a@b.com', (periods) => [...periods, created])`
+ */
+export async function updateCachedDataByPattern<T>(
+  pattern: string,
+  updater: (value: T, key: string) => T
+): Promise<void> {
+  const keys = new Set<string>();
+  for (const key of memoryCache.keys()) {
+    if (key.includes(pattern)) {
+      keys.add(key);
+    }
+  }
+
+  try {
+    const allKeys = await AsyncStorage.getAllKeys();
+    for (const k of allKeys) {
+      if (k.startsWith(CACHE_PREFIX) && k.includes(pattern)) {
+        keys.add(k.slice(CACHE_PREFIX.length));
+      }
+    }
+  } catch (error) {
+    console.warn('[Cache] Pattern update key scan error:', error);
+  }
+
+  for (const key of keys) {
+    try {
+      let entry: CacheEntry<T> | undefined = memoryCache.get(key);
+      if (!entry) {
+        const raw = await AsyncStorage.getItem(storageKey(key));
+        entry = raw ? JSON.parse(raw) : undefined;
+      }
+      if (!entry) continue;
+
+      const updated: CacheEntry<T> = { ...entry, value: updater(entry.value, key) };
+      memoryCache.set(key, updated);
+      await AsyncStorage.setItem(storageKey(key), JSON.stringify(updated));
+    } catch (error) {
+      console.warn('[Cache] Pattern update error for key', key, error);
+    }
+  }
+}
+
 /**
  * Get the timestamp of when a cache entry was stored.
  */
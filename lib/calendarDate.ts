@@ -0,0 +1,175 @@
+// ─── Configuration ────────────────────────────────────────────────────────────
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HALF_DAY_MS = DAY_MS / 2;
+const END_OF_DAY_MS = 999;           // `setHours(23, 59, 59, 999)` — how the app has always marked the last day
+
+// `YYYY-MM-DD`, optionally with a time but no zone: a day on the wall calendar
+const FLOATING_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?)?$/;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A day on the calendar, the same wherever the user is. `month` is 1–12. */
+export interface CalendarDate {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+}
+
+/** Source of "now" for the date calculations; swapped out to test any today */
+export interface Clock {
+  now(): Date;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const systemClock: Clock = { now: () => new Date() };
+let clock: Clock = systemClock;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function parseFloating(value: string): CalendarDate | null {
+  const match = FLOATING_DATE.exec(value);
+  if (!match) return null;
+  return calendarDate(Number(match[1]), Number(match[2]), Number(match[3]));
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Use `next` as the clock from now on; `null` goes back to the system clock */
+export function setClock(next: Clock | null): void {
+  clock = next ?? systemClock;
+}
+
+/** A clock stopped at `at` */
+export function fixedClock(at: Date | string): Clock {
+  const time = new Date(at).getTime();
+  return { now: () => new Date(time) };
+}
+
+export function getNow(): Date {
+  return clock.now();
+}
+
+export function getToday(): CalendarDate {
+  return fromLocalDate(clock.now());
+}
+
+/** Out-of-range parts roll over, so `calendarDate(2024, 1, 32)` is 1 February */
+export function calendarDate(year: number, month: number, day: number): CalendarDate {
+  return fromDayNumber(Math.floor(Date.UTC(year, month - 1, day) / DAY_MS));
+}
+
+/** Days since 1970-01-01. Counted in UTC, so DST changes never add or lose a day. */
+export function toDayNumber(date: CalendarDate): number {
+  return Math.floor(Date.UTC(date.year, date.month - 1, date.day) / DAY_MS);
+}
+
+export function fromDayNumber(dayNumber: number): CalendarDate {
+  const utc = new Date(dayNumber * DAY_MS);
+  return { year: utc.getUTCFullYear(), month: utc.getUTCMonth() + 1, day: utc.getUTCDate() };
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+/** Whole days from `from` to `to`; negative when `to` is earlier */
+export function daysBetween(from: CalendarDate, to: CalendarDate): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return toDayNumber(a) - toDayNumber(b);
+}
+
+export function isSameDay(a: CalendarDate, b: CalendarDate): boolean {
+  return toDayNumber(a) === toDayNumber(b);
+}
+
+/** Inclusive of both ends */
+export function isWithin(date: CalendarDate, start: CalendarDate, end: CalendarDate): boolean {
+  const day = toDayNumber(date);
+  return day >= toDayNumber(start) && day <= toDayNumber(end);
+}
+
+/** `YYYY-MM-DD` */
+export function formatDayKey(date: CalendarDate): string {
+  return `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+export function parseDayKey(key: string): CalendarDate | null {
+  return parseFloating(key);
+}
+
+/** The day a `Date` falls on in the device's time zone — for dates picked in the UI */
+export function fromLocalDate(date: Date): CalendarDate {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+/** Local midnight (or the last millisecond) of the day, for code that still works in `Date`s */
+export function toLocalDate(date: CalendarDate, endOfDay = false): Date {
+  return endOfDay
+    ? new Date(date.year, date.month - 1, date.day, 23, 59, 59, END_OF_DAY_MS)
+    : new Date(date.year, date.month - 1, date.day);
+}
+
+// ── API boundary ──
+
+/**
+ * Read a date the server sent. Floating values (`YYYY-MM-DD`, with or without
+ * a zone-less time) are exact. Instants were written by older app versions as
+ * local midnight (or 23:59:59.999 for period ends) in whatever zone the device
+ * was in, so they're rounded to the nearest UTC midnight, which lands on the
+ * intended day for any zone within ±12 hours.
+ */
+export function fromApiDate(value: unknown): CalendarDate | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const floating = parseFloating(value.trim());
+  if (floating) return floating;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  const isEndOfDay = new Date(time).getUTCMilliseconds() === END_OF_DAY_MS;
+  const dayNumber = Math.floor((time + (isEndOfDay ? 1 : 0) + HALF_DAY_MS) / DAY_MS);
+  return fromDayNumber(isEndOfDay ? dayNumber - 1 : dayNumber);
+}
+
+/**
+ * Read a date produced on this device: floating values are exact, instants
+ * are taken in the device's current time zone.
+ */
+export function fromDeviceDate(value: unknown): CalendarDate | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const floating = parseFloating(value.trim());
+  if (floating) return floating;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : fromLocalDate(date);
+}
+
+/** How days are sent to the server: UTC midnight, readable back the same from any zone */
+export function toApiDate(date: CalendarDate): string {
+  return `${formatDayKey(date)}T00:00:00.000Z`;
+}
+
+/**
+ * How days are handed to the rest of the app: a zone-less timestamp, which
+ * `new Date()` reads as local midnight (or the end of the day) wherever the
+ * device is.
+ */
+export function toFloatingDate(date: CalendarDate, endOfDay = false): string {
+  return `${formatDayKey(date)}T${endOfDay ? '23:59:59.999' : '00:00:00'}`;
+}
+
+/**
+ * Query bounds for a range of days. Older records sit up to 12 hours either
+ * side of their day's UTC midnight, so the bounds are widened by that much;
+ * callers filter the results back down with `fromApiDate`.
+ */
+export function toApiRange(start: CalendarDate, end: CalendarDate): { startDate: string; endDate: string } {
+  return {
+    startDate: new Date(toDayNumber(start) * DAY_MS - HALF_DAY_MS).toISOString(),
+    endDate: new Date((toDayNumber(end) + 1) * DAY_MS + HALF_DAY_MS - 1).toISOString(),
+  };
+}
@@ -0,0 +1,194 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCacheScope, Period, UserSettings, Symptom, Mood } from './api';
+import { CyclePredictions, DetailedPhaseKey, getPhaseDetailsForDate } from './periodCalculations';
+import type { AIResponse } from './aiPredictions';
+import { addDays, daysBetween, fromApiDate, fromLocalDate, isWithin } from './calendarDate';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const SHARING_KEY_PREFIX = 'chat_context_sharing_v1::';
+const RECENT_LOG_DAYS = 7;          // symptoms/moods older than this are left out
+const MAX_LOGS_PER_KIND = 15;
+
+const PHASE_LABELS: Record<DetailedPhaseKey, string> = {
+  menstrual: 'menstrual phase (period)',
+  follicular: 'follicular phase',
+  ovulation: 'ovulation / fertile window',
+  luteal: 'luteal phase',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+/** Which parts of the user's data may be sent along with chat messages */
+export interface ChatContextSharing {
+  cycle: boolean;
+  symptoms: boolean;
+  moods: boolean;
+  predictions: boolean;
+}
+
+export const DEFAULT_CHAT_CONTEXT_SHARING: ChatContextSharing = {
+  cycle: true,
+  symptoms: true,
+  moods: true,
+  predictions: true,
+};
+
+export interface ChatContextInput {
+  /** Name used in the summary; omit to describe "the user" (self mode) */
+  subjectName?: string | null;
+  /** Effective periods (see `buildEffectivePeriods`) */
+  periods: Period[];
+  settings: UserSettings | null;
+  symptoms: Symptom[];
+  moods: Mood[];
+  predictions: CyclePredictions;
+  aiResponse?: AIResponse | null;
+  isUsingAI?: boolean;
+  today?: Date;
+}
+
+export interface ChatContext {
+  /** Plain-language summary for the system prompt; empty when nothing is shared */
+  summary: string;
+  /** Recent symptoms in the shape `chatWithAI` accepts */
+  symptoms: { date: string; type: string; severity: number }[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function startOfDay(date: Date): Date {
+  const copy = new Date(date);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+}
+
+function formatDay(value: Date | string, withYear = false): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    ...(withYear ? { year: 'numeric' } : {}),
+  });
+}
+
+function humanize(type: string): string {
+  return type.toLowerCase().replace(/_/g, ' ');
+}
+
+function recentLogs<T extends { date: string }>(logs: T[], today: Date): T[] {
+  const end = fromLocalDate(today);
+  const start = addDays(end, -(RECENT_LOG_DAYS - 1));
+  return logs
+    .filter((log) => {
+      const day = fromApiDate(log.date);
+      return !!day && isWithin(day, start, end);
+    })
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, MAX_LOGS_PER_KIND);
+}
+
+function describeCycle(input: ChatContextInput, subject: string, today: Date): string[] {
+  const { periods, settings, predictions } = input;
+  if (!periods.length) {
+    return [`${subject} has not logged any period data yet.`];
+  }
+
+  const parts: string[] = [];
+  const latest = [...periods].sort(
+    (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
+  )[0];
+  const lastStart = startOfDay(new Date(latest.startDate));
+  parts.push(`${subject}'s last recorded period started on ${formatDay(lastStart, true)}.`);
+
+  const cycleDay = daysBetween(fromLocalDate(lastStart), fromLocalDate(today)) + 1;
+  const phase = getPhaseDetailsForDate(today, periods, predictions, settings);
+  if (cycleDay >= 1) {
+    const phaseText = phase
+      ? `, ${phase.isPredicted ? 'likely in' : 'in'} the ${PHASE_LABELS[phase.phase]}`
+      : '';
+    parts.push(`Today is cycle day ${cycleDay}${phaseText}.`);
+  }
+  parts.push(`Average cycle length is about ${predictions.cycleLength} days and periods last about ${predictions.periodLength} days.`);
+  return parts;
+}
+
+function describePredictions(input: ChatContextInput): string[] {
+  const { predictions, aiResponse, isUsingAI } = input;
+  const parts: string[] = [];
+
+  if (predictions.nextPeriodDate) {
+    parts.push(`The next period is predicted around ${formatDay(predictions.nextPeriodDate)}.`);
+  }
+  if (predictions.ovulationDate) {
+    parts.push(`Ovulation is projected near ${formatDay(predictions.ovulationDate)}.`);
+  }
+
+  const aiConfidence = aiResponse?.next_periods?.[0]?.confidence;
+  if (isUsingAI && typeof aiConfidence === 'number') {
+    const ovulationConfidence = aiResponse?.predictions?.next_ovulation?.confidence;
+    parts.push(
+      `These dates come from the AI forecast with ${Math.round(aiConfidence)}% confidence for the period` +
+        (typeof ovulationConfidence === 'number' ? ` and ${Math.round(ovulationConfidence)}% for ovulation.` : '.')
+    );
+  } else if (parts.length) {
+    parts.push(`These dates are calendar estimates with ${predictions.confidence} confidence.`);
+  }
+  return parts;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Summarise the user's cycle, recent logs and predictions for the AI, sharing
+ * only what `sharing` allows. Used by both the self and viewer chats.
+ */
+export function buildChatContext(input: ChatContextInput, sharing: ChatContextSharing): ChatContext {
+  const today = startOfDay(input.today ?? new Date());
+  const subject = input.subjectName || 'The user';
+  const parts: string[] = [];
+
+  if (sharing.cycle) {
+    parts.push(...describeCycle(input, subject, today));
+  }
+  if (sharing.predictions && input.periods.length) {
+    parts.push(...describePredictions(input));
+  }
+
+  const symptoms = sharing.symptoms ? recentLogs(input.symptoms, today) : [];
+  if (symptoms.length) {
+    const list = symptoms
+      .map((symptom) => `${humanize(symptom.type)} (severity ${symptom.severity}/5, ${formatDay(symptom.date)})`)
+      .join('; ');
+    parts.push(`Symptoms logged in the last ${RECENT_LOG_DAYS} days: ${list}.`);
+  }
+
+  const moods = sharing.moods ? recentLogs(input.moods, today) : [];
+  if (moods.length) {
+    const list = moods.map((mood) => `${humanize(mood.type)} (${formatDay(mood.date)})`).join('; ');
+    parts.push(`Moods logged in the last ${RECENT_LOG_DAYS} days: ${list}.`);
+  }
+
+  return {
+    summary: parts.join(' '),
+    symptoms: symptoms.map((symptom) => ({
+      date: symptom.date,
+      type: symptom.type,
+      severity: symptom.severity,
+    })),
+  };
+}
+
+export async function loadChatContextSharing(): Promise<ChatContextSharing> {
+  try {
+    const raw = await AsyncStorage.getItem(`${SHARING_KEY_PREFIX}${getCacheScope()}`);
+    return raw ? { ...DEFAULT_CHAT_CONTEXT_SHARING, ...JSON.parse(raw) } : DEFAULT_CHAT_CONTEXT_SHARING;
+  } catch (error) {
+    console.warn('[ChatContext] Failed to read sharing preferences:', error);
+    return DEFAULT_CHAT_CONTEXT_SHARING;
+  }
+}
+
+export async function saveChatContextSharing(sharing: ChatContextSharing): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${SHARING_KEY_PREFIX}${getCacheScope()}`, JSON.stringify(sharing));
+  } catch (error) {
+    console.warn('[ChatContext] Failed to save sharing preferences:', error);
+  }
+}
@@ -0,0 +1,160 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import { getCacheScope } from './api';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const THREADS_KEY_PREFIX = 'chat_threads_v1::';
+const MAX_THREADS = 50;                 // oldest conversations are dropped beyond this
+const MAX_STORED_MESSAGES = 200;        // per conversation
+const REQUEST_MAX_MESSAGES = 20;        // sent to the AI per turn
+const REQUEST_MAX_CHARS = 12000;
+const TITLE_MAX_LENGTH = 48;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface ChatHistoryMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** ISO string — `Date` objects don't survive JSON */
+  timestamp: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatHistoryMessage[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function storageKey(): string {
+  return `${THREADS_KEY_PREFIX}${getCacheScope()}`;
+}
+
+async function readThreads(): Promise<ChatThread[]> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey());
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('[ChatHistory] Failed to read threads:', error);
+    return [];
+  }
+}
+
+async function writeThreads(threads: ChatThread[]): Promise<void> {
+  const sorted = [...threads]
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .slice(0, MAX_THREADS);
+  try {
+    await AsyncStorage.setItem(storageKey(), JSON.stringify(sorted));
+  } catch (error) {
+    console.warn('[ChatHistory] Failed to save threads:', error);
+  }
+  DeviceEventEmitter.emit('chatThreadsUpdated');
+}
+
+function buildThreadTitle(messages: ChatHistoryMessage[]): string {
+  const firstQuestion = messages.find((msg) => msg.role === 'user')?.content.trim() ?? '';
+  if (!firstQuestion) return 'New conversation';
+  const singleLine = firstQuestion.replace(/\s+/g, ' ');
+  return singleLine.length > TITLE_MAX_LENGTH
+    ? `${singleLine.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`
+    : singleLine;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function createThreadId(): string {
+  return `thread-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Conversations for the current user and view mode, newest first. `query`
+ * matches titles and message text, case-insensitively.
+ */
+export async function listChatThreads(query?: string): Promise<ChatThread[]> {
+  const threads = await readThreads();
+  const sorted = threads.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  const needle = query?.trim().toLowerCase();
+  if (!needle) return sorted;
+  return sorted.filter(
+    (thread) =>
+      thread.title.toLowerCase().includes(needle) ||
+      thread.messages.some((msg) => msg.content.toLowerCase().includes(needle))
+  );
+}
+
+export async function getChatThread(id: string): Promise<ChatThread | null> {
+  const threads = await readThreads();
+  return threads.find((thread) => thread.id === id) ?? null;
+}
+
+/**
+ * Store the latest messages of a conversation, creating it on first save.
+ * The title comes from the first question unless the user has renamed it.
+ */
+export async function saveChatThreadMessages(id: string, messages: ChatHistoryMessage[]): Promise<void> {
+  if (messages.length === 0) return;
+  const threads = await readThreads();
+  const now = new Date().toISOString();
+  const trimmed = messages.slice(-MAX_STORED_MESSAGES);
+  const existing = threads.find((thread) => thread.id === id);
+
+  if (existing) {
+    existing.messages = trimmed;
+    existing.updatedAt = now;
+  } else {
+    threads.push({
+      id,
+      title: buildThreadTitle(trimmed),
+      createdAt: now,
+      updatedAt: now,
+      messages: trimmed,
+    });
+  }
+  await writeThreads(threads);
+}
+
+export async function renameChatThread(id: string, title: string): Promise<void> {
+  const trimmedTitle = title.trim();
+  if (!trimmedTitle) return;
+  const threads = await readThreads();
+  const thread = threads.find((entry) => entry.id === id);
+  if (!thread) return;
+  thread.title = trimmedTitle.slice(0, TITLE_MAX_LENGTH * 2);
+  await writeThreads(threads);
+}
+
+export async function deleteChatThread(id: string): Promise<void> {
+  const threads = await readThreads();
+  await writeThreads(threads.filter((thread) => thread.id !== id));
+}
+
+/**
+ * Keep the request sent to the AI bounded: the most recent messages that fit
+ * in both the message and character budgets, starting on a user turn. The
+ * newest message is always kept, even if it alone exceeds the budget.
+ */
+export function trimMessagesForRequest<T extends { role: string; content: string }>(
+  messages: T[],
+  options?: { maxMessages?: number; maxChars?: number }
+): T[] {
+  const maxMessages = options?.maxMessages ?? REQUEST_MAX_MESSAGES;
+  const maxChars = options?.maxChars ?? REQUEST_MAX_CHARS;
+
+  const kept: T[] = [];
+  let chars = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (kept.length > 0 && (kept.length >= maxMessages || chars + message.content.length > maxChars)) break;
+    kept.unshift(message);
+    chars += message.content.length;
+  }
+
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+  return kept;
+}
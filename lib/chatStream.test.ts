@@ -0,0 +1,145 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AxiosAdapter } from 'axios';
+import { api } from './api';
+import { streamChatWithAI } from './chatStream';
+import { setTestFetch, TestFetchInit } from './testSetup';
+
+const MESSAGES = [{ role: 'user', content: 'Why am I tired before my period?' }];
+const encoder = new TextEncoder();
+
+function sseResponse(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/** A stream that sends `chunks` and ends */
+function chunkedStream(chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+/** A stream that sends `first` and then stays open until the request is aborted, like a real connection */
+function stalledStream(first: string, signal: AbortSignal | undefined): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(first));
+      signal?.addEventListener('abort', () => {
+        const error = new Error('The operation was aborted');
+        error.name = 'AbortError';
+        controller.error(error);
+      });
+    },
+  });
+}
+
+/** Answer axios requests (the one-shot path) without a network */
+function answerAxios(reply: (body: { messages: unknown[] }) => unknown): string[] {
+  const urls: string[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    urls.push(config.url ?? '');
+    return { data: reply(JSON.parse(config.data)), status: 200, statusText: 'OK', headers: {}, config };
+  };
+  api.defaults.adapter = adapter;
+  return urls;
+}
+
+afterEach(() => {
+  setTestFetch(null);
+  api.defaults.adapter = undefined;
+});
+
+describe('streamChatWithAI', () => {
+  it('delivers tokens as they arrive and resolves with the whole reply', async () => {
+    const sentBodies: { stream?: boolean }[] = [];
+    setTestFetch(async (_url: string, init?: TestFetchInit) => {
+      sentBodies.push(JSON.parse(init?.body ?? '{}'));
+      return sseResponse(chunkedStream(['data: {"token":"Tired"}\n\nda', 'ta: {"token":"ness"}\n\n', 'data: [DONE]\n\n']));
+    });
+
+    const tokens: string[] = [];
+    const reply = await streamChatWithAI(MESSAGES, { onToken: (token) => tokens.push(token) });
+
+    assert.equal(reply, 'Tiredness');
+    assert.deepEqual(tokens, ['Tired', 'ness']);
+    assert.equal(sentBodies[0]?.stream, true);
+  });
+
+  it('rejects with an AbortError and stops delivering tokens when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    setTestFetch(async (_url: string, init?: TestFetchInit) =>
+      sseResponse(stalledStream('data: {"token":"Partial"}\n\n', init?.signal))
+    );
+
+    const tokens: string[] = [];
+    const pending = streamChatWithAI(MESSAGES, {
+      signal: controller.signal,
+      onToken: (token) => {
+        tokens.push(token);
+        controller.abort();
+      },
+    });
+
+    await assert.rejects(pending, { name: 'AbortError' });
+    assert.deepEqual(tokens, ['Partial']);
+  });
+
+  it('falls back to the one-shot chat request when streaming is not supported', async () => {
+    setTestFetch(async () => {
+      throw new TypeError('Streaming fetch is not supported');
+    });
+    const urls = answerAxios((body) => ({ response: `You sent ${body.messages.length} message` }));
+
+    const tokens: string[] = [];
+    const reply = await streamChatWithAI(MESSAGES, { onToken: (token) => tokens.push(token) });
+
+    assert.equal(reply, 'You sent 1 message');
+    assert.deepEqual(tokens, ['You sent 1 message']);
+    assert.deepEqual(urls, ['/api/chat']);
+  });
+
+  it('delivers a plain JSON answer as one token', async () => {
+    setTestFetch(async () =>
+      new Response(JSON.stringify({ response: 'All at once' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    const tokens: string[] = [];
+    assert.equal(await streamChatWithAI(MESSAGES, { onToken: (token) => tokens.push(token) }), 'All at once');
+    assert.deepEqual(tokens, ['All at once']);
+  });
+
+  it('turns error responses into friendly errors with the status', async () => {
+    setTestFetch(async () => new Response(JSON.stringify({ error: 'Rate limited' }), { status: 429 }));
+
+    await assert.rejects(
+      streamChatWithAI(MESSAGES, { onToken: () => {} }),
+      (error: { response: { status: number }; friendlyMessage: string }) => {
+        assert.equal(error.response.status, 429);
+        assert.equal(error.friendlyMessage, 'Rate limited');
+        return true;
+      }
+    );
+  });
+
+  it('does not fall back when the request is aborted before it connects', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    setTestFetch(async () => {
+      const error = new Error('The operation was aborted');
+      error.name = 'AbortError';
+      throw error;
+    });
+    const urls = answerAxios(() => ({ response: 'should not be asked' }));
+
+    await assert.rejects(streamChatWithAI(MESSAGES, { signal: controller.signal, onToken: () => {} }), {
+      name: 'AbortError',
+    });
+    assert.deepEqual(urls, []);
+  });
+});
@@ -0,0 +1,133 @@
+import { fetch } from 'expo/fetch';
+import { API_BASE_URL, buildRequestHeaders, buildFriendlyMessage, chatWithAI } from './api';
+import { createSSEParser, extractToken } from './sseParser';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type ChatMessagePayload = { role: string; content: string };
+
+export interface StreamChatOptions {
+  symptoms?: any[];
+  /** Abort to stop an answer mid-way; the promise then rejects with an `AbortError` */
+  signal?: AbortSignal;
+  /** Called for every chunk of text, with the reply assembled so far */
+  onToken: (token: string, text: string) => void;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+function createAbortError(): Error {
+  const error = new Error('The chat reply was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+function readJsonReply(body: string): string {
+  try {
+    const data = JSON.parse(body);
+    return data?.response || data?.message || '';
+  } catch {
+    return body;
+  }
+}
+
+async function oneShotReply(messages: ChatMessagePayload[], options: StreamChatOptions): Promise<string> {
+  const { signal } = options;
+  let reply: string;
+  try {
+    reply = await chatWithAI(messages, options.symptoms, signal);
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    throw error;
+  }
+  if (signal?.aborted) throw createAbortError();
+  options.onToken(reply, reply);
+  return reply;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Ask the AI for a reply and deliver it token by token. Resolves with the full
+ * text. When the server answers with a regular JSON body, or streaming isn't
+ * available on this platform, the whole reply is delivered as a single token —
+ * callers never need a separate code path for `chatWithAI`.
+ */
+export async function streamChatWithAI(
+  messages: ChatMessagePayload[],
+  options: StreamChatOptions
+): Promise<string> {
+  const { signal, onToken } = options;
+  let response: Awaited<ReturnType<typeof fetch>>;
+
+  try {
+    response = await fetch(`${API_BASE_URL}/api/chat`, {
+      method: 'POST',
+      headers: { ...(await buildRequestHeaders()), Accept: 'text/event-stream' },
+      body: JSON.stringify({ messages, symptoms: options.symptoms, stream: true }),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw createAbortError();
+    // Streaming fetch unavailable or failed to connect — the axios path has retries and friendly errors
+    console.warn('[ChatStream] Streaming request failed, falling back to one-shot chat:', error);
+    return oneShotReply(messages, options);
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    let data: any = null;
+    try {
+      data = body ? JSON.parse(body) : null;
+    } catch {
+      data = { error: body };
+    }
+    // Shape it like an axios error so screens can handle both the same way
+    const failure: any = { response: { status: response.status, data } };
+    const error: any = new Error(buildFriendlyMessage(failure));
+    Object.assign(error, failure);
+    error.friendlyMessage = error.message;
+    throw error;
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    // The server doesn't stream: it sent the whole reply at once
+    const reply = readJsonReply(await response.text());
+    onToken(reply, reply);
+    return reply;
+  }
+
+  let text = '';
+  const parser = createSSEParser((data, event) => {
+    if (event === 'error') {
+      throw new Error(extractToken(data) || 'The assistant stopped responding.');
+    }
+    const token = extractToken(data);
+    if (!token) return;
+    text += token;
+    onToken(token, text);
+  });
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (parser.push(decoder.decode(value, { stream: true }))) break;
+    }
+    parser.push(decoder.decode());
+    parser.flush();
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw createAbortError();
+    throw error;
+  } finally {
+    // Stops the download if we returned early on `[DONE]` or an error
+    reader.cancel().catch(() => {});
+  }
+
+  return text;
+}
@@ -0,0 +1,428 @@
+import { Period, Symptom, Mood, UserSettings } from './api';
+import { CyclePredictions, DetailedPhaseKey, getPhaseDetailsForDate } from './periodCalculations';
+import { symptomOptions, moodOptions, seriousSymptomTypes } from './symptomTips';
+import { evaluateRedFlags, normalizeSymptomType, TriageFinding } from './symptomTriage';
+import { createPdfDocument, PdfColor } from './pdfDocument';
+import { FlowDay, FlowIntensity, FLOW_INTENSITY_LABELS, summarizeCycleFlow } from './flowLog';
+import {
+  CalendarDate,
+  compareDates,
+  daysBetween,
+  fromApiDate,
+  fromLocalDate,
+  isWithin,
+  parseDayKey,
+  toLocalDate,
+} from './calendarDate';
+import { getPeriodDays, periodStartDay } from './periodRange';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const MAX_SYMPTOM_ROWS = 20;
+const MAX_MOOD_ROWS = 8;
+
+const PHASES: DetailedPhaseKey[] = ['menstrual', 'follicular', 'ovulation', 'luteal'];
+const PHASE_LABELS: Record<DetailedPhaseKey, string> = {
+  menstrual: 'Menstrual',
+  follicular: 'Follicular',
+  ovulation: 'Ovulation',
+  luteal: 'Luteal',
+};
+
+const PAGE_MARGIN = 48;
+const ACCENT: PdfColor = [1, 0.42, 0.616];     // Colors.primary
+const MUTED: PdfColor = [0.4, 0.4, 0.4];
+const RULE: PdfColor = [0.88, 0.88, 0.88];
+const ROW_TINT: PdfColor = [0.97, 0.97, 0.97];
+const WARNING: PdfColor = [0.8, 0.15, 0.15];
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface ReportDateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ClinicianReportInput {
+  /** Stored periods (not the settings fallback — the report lists real logs only) */
+  periods: Period[];
+  symptoms: Symptom[];
+  moods: Mood[];
+  settings: UserSettings | null;
+  predictions: CyclePredictions;
+  range: ReportDateRange;
+  /** Per-day flow entries; when present they replace the per-period flow level */
+  flowDays?: FlowDay[];
+  patientName?: string | null;
+  generatedAt?: Date;
+}
+
+export interface ReportCycleRow {
+  startDate: Date;
+  endDate: Date | null;
+  /** Days bled, inclusive; null while the period has no end date */
+  periodLength: number | null;
+  /** Days until the next logged period; null for the latest one */
+  cycleLength: number | null;
+  flowLevel: Period['flowLevel'];
+  /** From per-day flow entries; null when no day of the period was logged */
+  heaviestFlow: FlowIntensity | null;
+  heavyFlowDays: number;
+}
+
+export interface LengthStats {
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  standardDeviation: number;
+}
+
+export interface SymptomPhaseRow {
+  type: string;
+  label: string;
+  total: number;
+  byPhase: Record<DetailedPhaseKey, number>;
+}
+
+export interface FlaggedSymptom {
+  date: Date;
+  label: string;
+  severity: number;
+}
+
+export interface ClinicianReport {
+  range: ReportDateRange;
+  patientName: string | null;
+  generatedAt: Date;
+  cycles: ReportCycleRow[];
+  cycleLengthStats: LengthStats | null;
+  periodLengthStats: LengthStats | null;
+  symptomsByPhase: SymptomPhaseRow[];
+  flaggedSymptoms: FlaggedSymptom[];
+  /** Red-flag patterns (see `evaluateRedFlags`) as of the end of the range */
+  redFlags: TriageFinding[];
+  moodCounts: { label: string; count: number }[];
+  predictions: CyclePredictions;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+/** A logged date's calendar day, however it arrived (see `fromApiDate`) */
+function dayOf(value: string): CalendarDate {
+  return fromApiDate(value) ?? fromLocalDate(new Date(value));
+}
+
+function inRange(day: CalendarDate | null, range: ReportDateRange): boolean {
+  return day !== null && isWithin(day, fromLocalDate(range.start), fromLocalDate(range.end));
+}
+
+function formatDate(date: Date | null): string {
+  if (!date) return '—';
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatDays(value: number | null): string {
+  return value === null ? '—' : `${value} ${value === 1 ? 'day' : 'days'}`;
+}
+
+function symptomLabel(type: string): string {
+  const normalized = normalizeSymptomType(type);
+  const option = symptomOptions.find((entry) => entry.type === normalized);
+  return option?.label ?? type.replace(/_/g, ' ').replace(/^\w/, (char) => char.toUpperCase());
+}
+
+function moodLabel(type: string): string {
+  const normalized = normalizeSymptomType(type);
+  return moodOptions.find((entry) => entry.type === normalized)?.label ?? type;
+}
+
+function computeStats(values: number[]): LengthStats | null {
+  if (!values.length) return null;
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+  return {
+    count: values.length,
+    average: Math.round(average * 10) / 10,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    standardDeviation: Math.round(Math.sqrt(variance) * 10) / 10,
+  };
+}
+
+function buildCycleRows(
+  periods: Period[],
+  flowDays: FlowDay[],
+  settings: UserSettings | null,
+  range: ReportDateRange
+): ReportCycleRow[] {
+  const sorted = [...periods].sort((a, b) => compareDates(periodStartDay(a), periodStartDay(b)));
+  const flowSummaries = summarizeCycleFlow(sorted, flowDays, settings?.averagePeriodLength || 5);
+  return sorted
+    .map((period, index) => {
+      const days = getPeriodDays(period, settings?.averagePeriodLength || 5);
+      const next = sorted[index + 1];
+      const flow = flowSummaries.find((summary) => summary.periodId === period.id);
+      return {
+        startDate: toLocalDate(days.start),
+        endDate: days.isOpen ? null : toLocalDate(days.end),
+        periodLength: days.isOpen ? null : days.length,
+        cycleLength: next ? daysBetween(days.start, periodStartDay(next)) : null,
+        flowLevel: period.flowLevel,
+        heaviestFlow: flow?.heaviest ?? null,
+        heavyFlowDays: flow?.heavyDays ?? 0,
+      };
+    })
+    .filter((row) => inRange(fromLocalDate(row.startDate), range));
+}
+
+function flowCell(row: ReportCycleRow): string {
+  if (row.heaviestFlow) {
+    const heavy = row.heavyFlowDays ? `, ${row.heavyFlowDays} heavy ${row.heavyFlowDays === 1 ? 'day' : 'days'}` : '';
+    return `${FLOW_INTENSITY_LABELS[row.heaviestFlow]}${heavy}`;
+  }
+  return row.flowLevel ? row.flowLevel.replace(/^\w/, (char) => char.toUpperCase()) : '—';
+}
+
+function statsLine(label: string, stats: LengthStats | null): string {
+  if (!stats) return `${label}: not enough data`;
+  return (
+    `${label}: average ${stats.average} days (range ${stats.min}–${stats.max}, ` +
+    `SD ${stats.standardDeviation}, n=${stats.count})`
+  );
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Summarise logs in `range` for a clinician: cycle table, length stats,
+ * symptom counts by cycle phase and anything from the serious-symptom list.
+ * Pure — render it with `renderClinicianReportPdf`.
+ */
+export function buildClinicianReport(input: ClinicianReportInput): ClinicianReport {
+  const { periods, symptoms, moods, settings, predictions, range } = input;
+  const flowDays = input.flowDays ?? [];
+  const cycles = buildCycleRows(periods, flowDays, settings, range);
+
+  const symptomRows = new Map<string, SymptomPhaseRow>();
+  const flaggedSymptoms: FlaggedSymptom[] = [];
+  const seriousTypes = new Set<string>(seriousSymptomTypes);
+
+  symptoms
+    .filter((symptom) => inRange(dayOf(symptom.date), range))
+    .forEach((symptom) => {
+      const type = normalizeSymptomType(symptom.type);
+      const date = toLocalDate(dayOf(symptom.date));
+      if (!symptomRows.has(type)) {
+        symptomRows.set(type, {
+          type,
+          label: symptomLabel(symptom.type),
+          total: 0,
+          byPhase: { menstrual: 0, follicular: 0, ovulation: 0, luteal: 0 },
+        });
+      }
+      const row = symptomRows.get(type)!;
+      row.total += 1;
+      const phase = getPhaseDetailsForDate(date, periods, predictions, settings);
+      if (phase) row.byPhase[phase.phase] += 1;
+
+      if (seriousTypes.has(type)) {
+        flaggedSymptoms.push({ date, label: row.label, severity: symptom.severity });
+      }
+    });
+
+  const moodTotals = new Map<string, number>();
+  moods
+    .filter((mood) => inRange(dayOf(mood.date), range))
+    .forEach((mood) => {
+      const label = moodLabel(mood.type);
+      moodTotals.set(label, (moodTotals.get(label) ?? 0) + 1);
+    });
+
+  return {
+    range,
+    patientName: input.patientName ?? null,
+    generatedAt: input.generatedAt ?? new Date(),
+    cycles,
+    cycleLengthStats: computeStats(cycles.flatMap((row) => (row.cycleLength !== null ? [row.cycleLength] : []))),
+    periodLengthStats: computeStats(cycles.flatMap((row) => (row.periodLength !== null ? [row.periodLength] : []))),
+    symptomsByPhase: [...symptomRows.values()].sort((a, b) => b.total - a.total).slice(0, MAX_SYMPTOM_ROWS),
+    flaggedSymptoms: flaggedSymptoms.sort((a, b) => a.date.getTime() - b.date.getTime()),
+    redFlags: evaluateRedFlags(
+      periods.filter((period) => inRange(periodStartDay(period), range)),
+      symptoms.filter((symptom) => inRange(dayOf(symptom.date), range)),
+      range.end,
+      flowDays.filter((flowDay) => inRange(parseDayKey(flowDay.date), range))
+    ),
+    moodCounts: [...moodTotals.entries()]
+      .map(([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_MOOD_ROWS),
+    predictions,
+  };
+}
+
+/** Lay the report out on A4 pages and return the PDF bytes */
+export function renderClinicianReportPdf(report: ClinicianReport): Uint8Array {
+  const pdf = createPdfDocument();
+  const contentWidth = pdf.pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const drawFooter = () => {
+    pdf.text(
+      PAGE_MARGIN,
+      pdf.pageHeight - 24,
+      `Self-reported data from Peri Peri · generated ${formatDate(report.generatedAt)}`,
+      { size: 8, color: MUTED }
+    );
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pdf.pageHeight - PAGE_MARGIN) return;
+    pdf.addPage();
+    drawFooter();
+    y = PAGE_MARGIN;
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(40);
+    y += 14;
+    pdf.text(PAGE_MARGIN, y, title, { size: 14, bold: true, color: ACCENT });
+    y += 6;
+    pdf.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y, { stroke: RULE });
+    y += 16;
+  };
+
+  const paragraph = (value: string, options?: { color?: PdfColor; bold?: boolean }) => {
+    for (const line of pdf.wrapText(value, contentWidth, { size: 10, bold: options?.bold })) {
+      ensureSpace(14);
+      pdf.text(PAGE_MARGIN, y, line, { size: 10, ...options });
+      y += 14;
+    }
+  };
+
+  const table = (columns: { title: string; width: number; align?: 'left' | 'right' }[], rows: string[][]) => {
+    const rowHeight = 18;
+    const drawHeader = () => {
+      let x = PAGE_MARGIN;
+      columns.forEach((column) => {
+        const textX = column.align === 'right' ? x + column.width - 6 : x + 6;
+        pdf.text(textX, y + 12, column.title, { size: 9, bold: true, align: column.align, color: MUTED });
+        x += column.width;
+      });
+      y += rowHeight;
+      pdf.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y, { stroke: RULE });
+    };
+
+    ensureSpace(rowHeight * 2);
+    drawHeader();
+    rows.forEach((row, rowIndex) => {
+      if (y + rowHeight > pdf.pageHeight - PAGE_MARGIN) {
+        ensureSpace(rowHeight * 2);
+        drawHeader();
+      }
+      if (rowIndex % 2 === 1) {
+        pdf.rect(PAGE_MARGIN, y, contentWidth, rowHeight, { fill: ROW_TINT });
+      }
+      let x = PAGE_MARGIN;
+      row.forEach((cell, cellIndex) => {
+        const column = columns[cellIndex];
+        const textX = column.align === 'right' ? x + column.width - 6 : x + 6;
+        pdf.text(textX, y + 12, cell, { size: 9, align: column.align });
+        x += column.width;
+      });
+      y += rowHeight;
+    });
+    y += 8;
+  };
+
+  // Title block
+  drawFooter();
+  pdf.text(PAGE_MARGIN, y + 10, 'Menstrual Cycle Report', { size: 22, bold: true });
+  y += 32;
+  if (report.patientName) {
+    pdf.text(PAGE_MARGIN, y, report.patientName, { size: 12 });
+    y += 16;
+  }
+  pdf.text(PAGE_MARGIN, y, `${formatDate(report.range.start)} – ${formatDate(report.range.end)}`, {
+    size: 11,
+    color: MUTED,
+  });
+  y += 10;
+
+  heading('Cycle summary');
+  paragraph(statsLine('Cycle length', report.cycleLengthStats));
+  paragraph(statsLine('Period length', report.periodLengthStats));
+  if (report.predictions.nextPeriodDate) {
+    paragraph(
+      `Next period expected around ${formatDate(report.predictions.nextPeriodDate)} ` +
+        `(${report.predictions.confidence} confidence, calendar estimate).`
+    );
+  }
+
+  heading('Cycles');
+  if (report.cycles.length) {
+    table(
+      [
+        { title: 'Period start', width: 100 },
+        { title: 'Period end', width: 100 },
+        { title: 'Period length', width: 80, align: 'right' },
+        { title: 'Cycle length', width: 80, align: 'right' },
+        { title: 'Heaviest flow', width: contentWidth - 360 },
+      ],
+      report.cycles.map((row) => [
+        formatDate(row.startDate),
+        row.endDate ? formatDate(row.endDate) : 'Not logged',
+        formatDays(row.periodLength),
+        formatDays(row.cycleLength),
+        flowCell(row),
+      ])
+    );
+  } else {
+    paragraph('No periods were logged in this date range.', { color: MUTED });
+  }
+
+  heading('Flagged symptoms');
+  if (report.redFlags.length) {
+    report.redFlags.forEach((finding) => {
+      paragraph(finding.title, { bold: true, color: WARNING });
+      finding.reasons.forEach((reason) => paragraph(`• ${reason}`));
+      y += 4;
+    });
+  }
+  if (report.flaggedSymptoms.length) {
+    table(
+      [
+        { title: 'Date', width: 140 },
+        { title: 'Symptom', width: contentWidth - 240 },
+        { title: 'Severity', width: 100, align: 'right' },
+      ],
+      report.flaggedSymptoms.map((entry) => [formatDate(entry.date), entry.label, `${entry.severity}/5`])
+    );
+  } else if (!report.redFlags.length) {
+    paragraph('None of the serious symptoms on our checklist were logged.', { color: MUTED });
+  }
+
+  heading('Symptoms by cycle phase');
+  if (report.symptomsByPhase.length) {
+    const phaseWidth = 66;
+    table(
+      [
+        { title: 'Symptom', width: contentWidth - phaseWidth * 5 },
+        ...PHASES.map((phase) => ({ title: PHASE_LABELS[phase], width: phaseWidth, align: 'right' as const })),
+        { title: 'Total', width: phaseWidth, align: 'right' },
+      ],
+      report.symptomsByPhase.map((row) => [
+        row.label,
+        ...PHASES.map((phase) => String(row.byPhase[phase] || '—')),
+        String(row.total),
+      ])
+    );
+  } else {
+    paragraph('No symptoms were logged in this date range.', { color: MUTED });
+  }
+
+  if (report.moodCounts.length) {
+    heading('Mood check-ins');
+    paragraph(report.moodCounts.map((entry) => `${entry.label} (${entry.count})`).join(', '));
+  }
+
+  return pdf.toBytes();
+}
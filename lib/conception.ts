@@ -0,0 +1,208 @@
+import { Period, UserSettings } from './api';
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  daysBetween,
+  fromApiDate,
+  fromLocalDate,
+  getToday,
+  isWithin,
+  parseDayKey,
+  toDayNumber,
+  toLocalDate,
+} from './calendarDate';
+import { hasObservedFertilitySignals } from './fertileWindow';
+import type { IntercourseEntry } from './intercourseLog';
+import type { CyclePredictions, DetailedPhaseInfo } from './periodCalculations';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+// Chance that intercourse on one day leads to pregnancy, days 5 before
+// ovulation through ovulation day (Wilcox et al., NEJM 1995)
+const CONCEPTION_BY_OFFSET = [0.1, 0.16, 0.14, 0.27, 0.31, 0.33];
+const FERTILE_DAYS_BEFORE_OVULATION = CONCEPTION_BY_OFFSET.length - 1;
+const OUTSIDE_PEAK_CHANCE = 0.05;    // fertile-window days the table doesn't cover (mucus opened it early or ran late)
+const BEST_DAYS_BEFORE_OVULATION = 2;  // the two days before ovulation and the day itself
+const LUTEAL_DAYS = 14;              // ovulation to the next period
+const RETEST_AFTER_DAYS = 3;         // a negative test on a late period is worth repeating this much later
+const SEE_DOCTOR_LATE_DAYS = 7;      // still late with negatives after this long: worth a check-up
+
+export const PEAK_CONCEPTION_CHANCE = Math.max(...CONCEPTION_BY_OFFSET);
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface ConceptionDay {
+  date: Date;
+  /** 0–1 */
+  chance: number;
+  /** Unprotected intercourse was logged on this day */
+  logged: boolean;
+}
+
+/** How this cycle's intercourse lines up with the fertile window */
+export interface ConceptionTiming {
+  ovulationDate: Date;
+  days: ConceptionDay[];
+  /** Fertile days with unprotected intercourse logged */
+  loggedDays: number;
+  /** Whether any of them fell on the two days before ovulation or the day itself */
+  coveredBestDays: boolean;
+  /** Rough chance for the cycle from the logged days, 0–1 */
+  cycleChance: number;
+}
+
+export interface PregnancyTestSuggestion {
+  /** The day the period was due; testing is reliable from here on */
+  testFrom: Date;
+  /** 0 or less while the period isn't due yet */
+  daysLate: number;
+  message: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+const formatShort = (day: CalendarDate) =>
+  toLocalDate(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+function chanceOnDay(day: CalendarDate, ovulation: CalendarDate, windowStart: CalendarDate, windowEnd: CalendarDate): number {
+  if (!isWithin(day, windowStart, windowEnd)) return 0;
+  const index = FERTILE_DAYS_BEFORE_OVULATION + daysBetween(ovulation, day);
+  return CONCEPTION_BY_OFFSET[index] ?? OUTSIDE_PEAK_CHANCE;
+}
+
+function latestPeriodStart(periods: Period[]): CalendarDate | null {
+  return periods
+    .map((period) => fromApiDate(period.startDate))
+    .filter((day): day is CalendarDate => day !== null)
+    .reduce<CalendarDate | null>((latest, day) => (!latest || compareDates(day, latest) > 0 ? day : latest), null);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function isTryingToConceive(settings: UserSettings | null | undefined): boolean {
+  return settings?.goal === 'conceive';
+}
+
+/**
+ * Chance of conceiving from intercourse on `date`. The current cycle uses the
+ * predicted fertile window (which takes logged LH tests, mucus and
+ * temperature into account); other cycles use their ovulation phase from
+ * `getPhaseDetailsForDate`. Zero outside a fertile window.
+ */
+export function conceptionChance(
+  date: Date,
+  predictions: CyclePredictions,
+  phase?: DetailedPhaseInfo | null
+): number {
+  const day = fromLocalDate(date);
+  const { ovulationDate, fertileWindowStart, fertileWindowEnd } = predictions;
+  if (ovulationDate && fertileWindowStart && fertileWindowEnd) {
+    const windowStart = fromLocalDate(fertileWindowStart);
+    const windowEnd = fromLocalDate(fertileWindowEnd);
+    if (isWithin(day, windowStart, windowEnd)) {
+      return chanceOnDay(day, fromLocalDate(ovulationDate), windowStart, windowEnd);
+    }
+  }
+  if (phase?.phase !== 'ovulation' || !phase.phaseStart || !phase.phaseEnd) return 0;
+  // The ovulation phase runs from five days before ovulation to ovulation day
+  const ovulation = fromLocalDate(phase.phaseEnd);
+  return chanceOnDay(day, ovulation, fromLocalDate(phase.phaseStart), ovulation);
+}
+
+/** Intercourse timing across this cycle's fertile window; null without a prediction */
+export function summarizeConceptionTiming(
+  predictions: CyclePredictions,
+  entries: IntercourseEntry[]
+): ConceptionTiming | null {
+  const { ovulationDate, fertileWindowStart, fertileWindowEnd } = predictions;
+  if (!ovulationDate || !fertileWindowStart || !fertileWindowEnd) return null;
+
+  const ovulation = fromLocalDate(ovulationDate);
+  const windowStart = fromLocalDate(fertileWindowStart);
+  const windowEnd = fromLocalDate(fertileWindowEnd);
+  const logged = new Set(
+    entries
+      .filter((entry) => !entry.protected)
+      .map((entry) => parseDayKey(entry.date))
+      .filter((day): day is CalendarDate => day !== null)
+      .map(toDayNumber)
+  );
+
+  const days: ConceptionDay[] = [];
+  for (let day = windowStart; compareDates(day, windowEnd) <= 0; day = addDays(day, 1)) {
+    days.push({
+      date: toLocalDate(day),
+      chance: chanceOnDay(day, ovulation, windowStart, windowEnd),
+      logged: logged.has(toDayNumber(day)),
+    });
+  }
+
+  const loggedDays = days.filter((day) => day.logged);
+  const bestStart = addDays(ovulation, -BEST_DAYS_BEFORE_OVULATION);
+  return {
+    ovulationDate: toLocalDate(ovulation),
+    days,
+    loggedDays: loggedDays.length,
+    coveredBestDays: loggedDays.some((day) => isWithin(fromLocalDate(day.date), bestStart, ovulation)),
+    cycleChance: 1 - loggedDays.reduce((miss, day) => miss * (1 - day.chance), 1),
+  };
+}
+
+/**
+ * Which cycle of trying this is: 1 for the cycle `ttcStartedAt` falls in,
+ * plus one for every period that started after it. Null outside TTC mode.
+ */
+export function countCyclesTrying(
+  periods: Period[],
+  settings: UserSettings | null,
+  today: CalendarDate = getToday()
+): number | null {
+  if (!isTryingToConceive(settings)) return null;
+  const startedAt = fromApiDate(settings?.ttcStartedAt) ?? today;
+  const startsSince = new Set(
+    periods
+      .map((period) => fromApiDate(period.startDate))
+      .filter((day): day is CalendarDate => !!day && compareDates(day, startedAt) > 0 && compareDates(day, today) <= 0)
+      .map(toDayNumber)
+  );
+  return startsSince.size + 1;
+}
+
+/**
+ * When a pregnancy test is worth taking this cycle. The period is due a
+ * luteal phase after a logged ovulation sign, otherwise a usual cycle after
+ * the last period — not the forecast date, which moves a late period to
+ * "any day now" and, once well overdue, on to the following cycle. Null
+ * until ovulation, when there's nothing a test could show yet.
+ */
+export function suggestPregnancyTest(
+  predictions: CyclePredictions,
+  periods: Period[],
+  today: CalendarDate = getToday()
+): PregnancyTestSuggestion | null {
+  const lastStart = latestPeriodStart(periods);
+  if (!lastStart) return null;
+
+  const observedOvulation = predictions.ovulationDate && hasObservedFertilitySignals(predictions.fertileWindowSignals)
+    ? fromLocalDate(predictions.ovulationDate)
+    : null;
+  const due = observedOvulation
+    ? addDays(observedOvulation, LUTEAL_DAYS)
+    : addDays(lastStart, predictions.cycleLength);
+  if (compareDates(today, addDays(due, -LUTEAL_DAYS)) <= 0) return null;
+
+  const daysLate = daysBetween(due, today);
+
+  let message: string;
+  if (daysLate < 0) {
+    message = `Testing before ${formatShort(due)} can miss a pregnancy. If your period hasn't started by then, take a test.`;
+  } else if (daysLate === 0) {
+    message = "Your period is due today. If it doesn't start, a test today or tomorrow will be reliable.";
+  } else if (daysLate < SEE_DOCTOR_LATE_DAYS) {
+    const days = daysLate === 1 ? '1 day' : `${daysLate} days`;
+    message = `Your period is ${days} late — take a pregnancy test now. If it's negative and your period still hasn't come, test again in ${RETEST_AFTER_DAYS} days.`;
+  } else {
+    message = `Your period is ${daysLate} days late. Take a test if you haven't; if tests keep coming back negative, check in with your doctor.`;
+  }
+
+  return { testFrom: toLocalDate(due), daysLate, message };
+}
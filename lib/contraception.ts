@@ -0,0 +1,272 @@
+import { ContraceptionMethod, ContraceptionRegimen, UserSettings } from './api';
+import {
+  addDays,
+  CalendarDate,
+  daysBetween,
+  formatDayKey,
+  fromApiDate,
+  fromLocalDate,
+  getToday,
+  toLocalDate,
+} from './calendarDate';
+import type { PillLogEntry } from './pillLog';
+import type { PredictedPeriodRange } from './periodCalculations';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+export const PACK_DAYS = 28;         // every regimen repeats four-weekly, break included
+const PATCH_DAYS = 7;                // each patch is worn for a week
+const PILLS_TO_PROTECT = 7;          // pills in a row before protection is back after missing two or more
+const FIRST_WEEK_DAYS = 7;           // missed pills here follow the break, when ovulation is most likely to restart
+
+const BREAK_DAYS: Record<ContraceptionRegimen, number> = {
+  '21_7': 7,
+  '24_4': 4,
+  continuous: 0,
+};
+
+export const CONTRACEPTION_METHODS: ContraceptionMethod[] = [
+  'pill',
+  'patch',
+  'ring',
+  'hormonal_iud',
+  'copper_iud',
+  'implant',
+];
+
+export const CONTRACEPTION_LABELS: Record<ContraceptionMethod, string> = {
+  pill: 'Pill',
+  patch: 'Patch',
+  ring: 'Ring',
+  hormonal_iud: 'Hormonal IUD',
+  copper_iud: 'Copper IUD',
+  implant: 'Implant',
+};
+
+export const REGIMEN_LABELS: Record<ContraceptionRegimen, string> = {
+  '21_7': '21 days + 7-day break',
+  '24_4': '24 days + 4-day break',
+  continuous: 'No break',
+};
+
+/** The patch and ring don't come in a 24+4 regimen */
+export const METHOD_REGIMENS: Record<RegimenMethod, ContraceptionRegimen[]> = {
+  pill: ['21_7', '24_4', 'continuous'],
+  patch: ['21_7', 'continuous'],
+  ring: ['21_7', 'continuous'],
+};
+
+const BLEEDING_NOTES: Record<ContraceptionMethod, string> = {
+  pill: 'Bleeds on the pill are withdrawal bleeds in the break, not periods. The pill stops ovulation, so there are no fertile days or cycle phases to show.',
+  patch: 'Bleeds on the patch are withdrawal bleeds in the patch-free week, not periods. The patch stops ovulation, so there are no fertile days or cycle phases to show.',
+  ring: 'Bleeds on the ring are withdrawal bleeds in the ring-free week, not periods. The ring stops ovulation, so there are no fertile days or cycle phases to show.',
+  hormonal_iud: 'A hormonal IUD often makes bleeding lighter or irregular, or stops it, so bleeds aren’t predicted. Log any you have.',
+  implant: 'Bleeding on the implant is unpredictable — it can stop, come and go, or last longer — so it isn’t predicted. Log any you have.',
+  copper_iud: 'A copper IUD doesn’t change your cycle, so periods and phases are still predicted. Periods can be heavier for the first few months. Ovulation days aren’t a pregnancy risk while it’s in.',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Methods used on a four-week schedule */
+export type RegimenMethod = 'pill' | 'patch' | 'ring';
+
+/** `start`: a new patch or ring goes on/in; `change`: swap the patch; `remove`: the break begins */
+export type RegimenChange = 'start' | 'change' | 'remove';
+
+export interface RegimenDay {
+  method: RegimenMethod;
+  regimen: ContraceptionRegimen;
+  /** 1 for the pack started on `contraceptionStartDate` */
+  packNumber: number;
+  /** 1–28 */
+  day: number;
+  activeDays: number;
+  /** A hormone-free day, when the withdrawal bleed comes */
+  isBreak: boolean;
+  packStart: Date;
+  /** First break day of this pack; null without a break */
+  breakStart: Date | null;
+  nextPackStart: Date;
+  change: RegimenChange | null;
+}
+
+export interface MissedPillGuidance {
+  missedDays: Date[];
+  /** Two or more missed: condoms are needed for a while */
+  needsBackup: boolean;
+  title: string;
+  steps: string[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+const formatShort = (day: CalendarDate) =>
+  toLocalDate(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+function regimenMethod(settings: UserSettings | null | undefined): RegimenMethod | null {
+  const method = settings?.contraception;
+  return method === 'pill' || method === 'patch' || method === 'ring' ? method : null;
+}
+
+function regimenFor(method: RegimenMethod, settings: UserSettings | null | undefined): ContraceptionRegimen {
+  const regimen = settings?.contraceptionRegimen;
+  return regimen && METHOD_REGIMENS[method].includes(regimen) ? regimen : '21_7';
+}
+
+function changeOn(method: RegimenMethod, day: number, activeDays: number): RegimenChange | null {
+  if (method === 'pill') return null;
+  if (day === 1) return 'start';
+  if (day === activeDays + 1) return 'remove';
+  if (method === 'patch' && day <= activeDays && (day - 1) % PATCH_DAYS === 0) return 'change';
+  return null;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Whether the method stops ovulation, so bleeds aren't periods and there
+ * are no cycle phases or fertile days. The copper IUD is the exception.
+ */
+export function suppressesNaturalCycle(settings: UserSettings | null | undefined): boolean {
+  const method = settings?.contraception;
+  return !!method && method !== 'copper_iud';
+}
+
+/** How bleeding works with the chosen method; null without one */
+export function getContraceptionNote(settings: UserSettings | null | undefined): string | null {
+  return settings?.contraception ? BLEEDING_NOTES[settings.contraception] : null;
+}
+
+/**
+ * Where `day` falls in the pill pack, patch or ring cycle. Null for other
+ * methods, before a start date is set, or before the first pack.
+ */
+export function getRegimenDay(
+  settings: UserSettings | null | undefined,
+  day: CalendarDate = getToday()
+): RegimenDay | null {
+  const method = regimenMethod(settings);
+  const start = fromApiDate(settings?.contraceptionStartDate);
+  if (!method || !start) return null;
+  const elapsed = daysBetween(start, day);
+  if (elapsed < 0) return null;
+
+  const regimen = regimenFor(method, settings);
+  const activeDays = PACK_DAYS - BREAK_DAYS[regimen];
+  const packIndex = Math.floor(elapsed / PACK_DAYS);
+  const packStart = addDays(start, packIndex * PACK_DAYS);
+  const dayInPack = (elapsed % PACK_DAYS) + 1;
+
+  return {
+    method,
+    regimen,
+    packNumber: packIndex + 1,
+    day: dayInPack,
+    activeDays,
+    isBreak: dayInPack > activeDays,
+    packStart: toLocalDate(packStart),
+    breakStart: activeDays < PACK_DAYS ? toLocalDate(addDays(packStart, activeDays)) : null,
+    nextPackStart: toLocalDate(addDays(packStart, PACK_DAYS)),
+    change: changeOn(method, dayInPack, activeDays),
+  };
+}
+
+/** What to do with the patch or ring today, e.g. "Change your patch today" */
+export function describeRegimenChange(regimenDay: RegimenDay): string | null {
+  const { method, change } = regimenDay;
+  if (!change || method === 'pill') return null;
+  if (method === 'patch') {
+    if (change === 'start') return 'Put on a new patch today';
+    if (change === 'change') return 'Change your patch today';
+    return 'Take your patch off today — your patch-free week starts';
+  }
+  if (change === 'start') return 'Put in a new ring today';
+  return 'Take your ring out today — your ring-free week starts';
+}
+
+/**
+ * Withdrawal bleeds expected in the breaks over the next `monthsAhead`
+ * months, from the break in progress onwards. Empty without a break.
+ */
+export function scheduledWithdrawalBleeds(
+  settings: UserSettings | null | undefined,
+  monthsAhead = 6,
+  today: CalendarDate = getToday()
+): PredictedPeriodRange[] {
+  const method = regimenMethod(settings);
+  const start = fromApiDate(settings?.contraceptionStartDate);
+  if (!method || !start) return [];
+  const activeDays = PACK_DAYS - BREAK_DAYS[regimenFor(method, settings)];
+  if (activeDays === PACK_DAYS) return [];
+
+  const horizon = toLocalDate(today);
+  horizon.setMonth(horizon.getMonth() + monthsAhead);
+  const lastDay = fromLocalDate(horizon);
+
+  const results: PredictedPeriodRange[] = [];
+  let packStart = addDays(start, Math.max(0, Math.floor(daysBetween(start, today) / PACK_DAYS)) * PACK_DAYS);
+  while (daysBetween(addDays(packStart, activeDays), lastDay) >= 0) {
+    const breakEnd = addDays(packStart, PACK_DAYS - 1);
+    if (daysBetween(today, breakEnd) >= 0) {
+      results.push({
+        startDate: toLocalDate(addDays(packStart, activeDays)),
+        endDate: toLocalDate(breakEnd, true),
+      });
+    }
+    packStart = addDays(packStart, PACK_DAYS);
+  }
+  return results;
+}
+
+/**
+ * Missed-pill advice for the current pack, following the combined-pill rules:
+ * one missed pill is made up with no extra precautions; two or more mean
+ * condoms for seven days, emergency contraception if they were in the first
+ * week, and skipping the break if seven or fewer pills are left. Only days
+ * since the first pill ticked off count, so a tracker that was never used
+ * doesn't report every pill as missed. Null when nothing is missed.
+ */
+export function getMissedPillGuidance(
+  settings: UserSettings | null | undefined,
+  log: PillLogEntry[],
+  today: CalendarDate = getToday()
+): MissedPillGuidance | null {
+  if (settings?.contraception !== 'pill' || log.length === 0) return null;
+  const current = getRegimenDay(settings, today);
+  if (!current) return null;
+
+  const taken = new Set(log.map((entry) => entry.date));
+  const trackedFrom = log.reduce((earliest, entry) => (entry.date < earliest ? entry.date : earliest), log[0].date);
+  const packStart = fromLocalDate(current.packStart);
+  const missed: CalendarDate[] = [];
+  for (let index = 0; index < Math.min(current.day - 1, current.activeDays); index++) {
+    const key = formatDayKey(addDays(packStart, index));
+    if (key >= trackedFrom && !taken.has(key)) missed.push(addDays(packStart, index));
+  }
+  if (missed.length === 0) return null;
+
+  const steps: string[] = [];
+  let title: string;
+  if (missed.length === 1) {
+    title = 'You missed a pill';
+    steps.push(`Take the pill from ${formatShort(missed[0])} now, even if that means two today, then carry on as usual.`);
+    steps.push('You’re still protected, so there’s no need for extra contraception.');
+  } else {
+    title = `You missed ${missed.length} pills`;
+    steps.push('Take the most recent missed pill now, even if that means two today, and leave the other missed ones. Then carry on with the pack.');
+    steps.push(`Use condoms or avoid sex until you’ve taken ${PILLS_TO_PROTECT} pills in a row.`);
+    if (missed.some((day) => daysBetween(packStart, day) < FIRST_WEEK_DAYS)) {
+      steps.push('Some were in the first week of the pack. If you had unprotected sex in the break or since, you may need emergency contraception — ask a pharmacist.');
+    }
+    const pillsLeft = current.activeDays - current.day + 1;
+    if (current.activeDays < PACK_DAYS && pillsLeft > 0 && pillsLeft <= PILLS_TO_PROTECT) {
+      steps.push(`${PILLS_TO_PROTECT} or fewer pills left in this pack: finish them and start the next pack straight away, skipping the break.`);
+    }
+  }
+  steps.push('This is the advice for combined pills. Progestogen-only pills are stricter: one more than 3 hours late (12 for desogestrel) means 2 days of condoms.');
+
+  return {
+    missedDays: missed.map((day) => toLocalDate(day)),
+    needsBackup: missed.length > 1,
+    title,
+    steps,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, escaped quotes and newlines', () => {
+    const text = 'date,note\r\n2026-05-01,"Cramps, mild"\r\n2026-05-02,"She said ""ouch""\nthen slept"\r\n';
+    assert.deepEqual(parseCsv(text), [
+      ['date', 'note'],
+      ['2026-05-01', 'Cramps, mild'],
+      ['2026-05-02', 'She said "ouch"\nthen slept'],
+    ]);
+  });
+
+  it('strips a leading byte order mark and drops blank lines', () => {
+    assert.deepEqual(parseCsv('\uFEFFday,flow\n\n2026-05-01,light\n\n'), [
+      ['day', 'flow'],
+      ['2026-05-01', 'light'],
+    ]);
+  });
+
+  it('keeps empty fields, including a trailing one', () => {
+    assert.deepEqual(parseCsv('a,,c,\n'), [['a', '', 'c', '']]);
+  });
+
+  it('splits on another delimiter when asked', () => {
+    assert.deepEqual(parseCsv('a;"b;c"', ';'), [['a', 'b;c']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('round-trips through parseCsv', () => {
+    const rows = [
+      ['type', 'value'],
+      ['note', 'Quotes " and, commas\r\nover two lines'],
+      ['count', 3],
+      ['empty', null],
+    ];
+    assert.deepEqual(parseCsv(toCsv(rows)), [
+      ['type', 'value'],
+      ['note', 'Quotes " and, commas\r\nover two lines'],
+      ['count', '3'],
+      ['empty', ''],
+    ]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys rows by trimmed, lower-cased headers behind a byte order mark', () => {
+    const records = parseCsvRecords('\uFEFF Day ,Pain\n2026-05-01," cramps "\n2026-05-02\n');
+    assert.deepEqual(records, [
+      { day: '2026-05-01', pain: 'cramps' },
+      { day: '2026-05-02', pain: '' },
+    ]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    assert.deepEqual(parseCsvRecords(''), []);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Minimal RFC 4180 CSV helpers: quoted fields, escaped quotes ("") and
+ * newlines inside quotes. Blank lines are dropped.
+ */
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip a UTF-8 BOM — spreadsheet apps like to add one
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) endRow();
+  return rows;
+}
+
+/** Parse a CSV with a header row into objects keyed by lower-cased header names */
+export function parseCsvRecords(text: string, delimiter = ','): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text, delimiter);
+  if (!header) return [];
+  const keys = header.map((name) => name.trim().toLowerCase());
+  return rows.map((row) =>
+    keys.reduce<Record<string, string>>((record, key, index) => {
+      record[key] = (row[index] ?? '').trim();
+      return record;
+    }, {})
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Period } from './api';
+import { addDays, daysBetween, formatDayKey, fromLocalDate, parseDayKey, toLocalDate } from './calendarDate';
+import { buildCycleLengthModel, centerForecastOn, forecastNextPeriod, periodLikelihoodByDay } from './cycleForecast';
+
+const TODAY = new Date(2026, 5, 1);
+
+function period(startDate: string): Period {
+  return {
+    id: `period-${startDate}`,
+    startDate: `${startDate}T00:00:00`,
+    endDate: null,
+    flowLevel: null,
+    createdAt: `${startDate}T00:00:00.000Z`,
+    updatedAt: `${startDate}T00:00:00.000Z`,
+  };
+}
+
+/** Period starts from `first` with the given cycle lengths between them, oldest first */
+function startsAfter(first: string, lengths: number[]): string[] {
+  const starts = [parseDayKey(first)!];
+  lengths.forEach((length) => starts.push(addDays(starts[starts.length - 1], length)));
+  return starts.map(formatDayKey);
+}
+
+const dayKey = (date: Date) => formatDayKey(fromLocalDate(date));
+
+function forecastFor(starts: string[]) {
+  const forecast = forecastNextPeriod(starts.map(period), null, { today: TODAY, reviews: {} });
+  assert.ok(forecast);
+  return forecast;
+}
+
+describe('centerForecastOn', () => {
+  it('moves the distribution, interval and shading to the given date', () => {
+    const forecast = forecastFor(['2026-03-02', '2026-03-30', '2026-04-27', '2026-05-25']);
+    const centred = centerForecastOn(forecast, new Date(2026, 5, 25));
+
+    assert.equal(centred.mostLikelyDate.getTime(), new Date(2026, 5, 25).getTime());
+    const shift = (from: Date, to: Date) => daysBetween(fromLocalDate(from), fromLocalDate(to));
+    assert.equal(shift(forecast.interval.start, centred.interval.start), shift(forecast.mostLikelyDate, centred.mostLikelyDate));
+    assert.equal(shift(forecast.interval.end, centred.interval.end), shift(forecast.mostLikelyDate, centred.mostLikelyDate));
+    assert.equal(centred.interval.probability, forecast.interval.probability);
+
+    const likelihood = periodLikelihoodByDay(centred, 5);
+    const peak = [...likelihood.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    assert.ok(peak[0] >= new Date(2026, 5, 25).getTime() && peak[0] <= new Date(2026, 5, 29).getTime());
+  });
+
+  it('returns the forecast unchanged when it already agrees', () => {
+    const forecast = forecastFor(['2026-04-27', '2026-05-25']);
+    assert.equal(centerForecastOn(forecast, forecast.mostLikelyDate), forecast);
+  });
+});
+
+describe('buildCycleLengthModel', () => {
+  it('falls back to the settings length without any cycles', () => {
+    const model = buildCycleLengthModel([period('2026-05-20')], null, {});
+    assert.equal(model.mean, 28);
+    assert.equal(model.cyclesUsed, 0);
+    assert.ok(model.sd > 3);
+  });
+
+  it('lets one or two cycles move the mean only part of the way from the settings length', () => {
+    const one = buildCycleLengthModel(startsAfter('2026-04-01', [34]).map(period), null, {});
+    const two = buildCycleLengthModel(startsAfter('2026-03-01', [34, 34]).map(period), null, {});
+    assert.equal(one.cyclesUsed, 1);
+    assert.ok(one.mean > 28 && one.mean < 34);
+    assert.ok(two.mean > one.mean && two.mean < 34);
+  });
+
+  it('keeps a small spread and flags nothing when every cycle is the same length', () => {
+    const model = buildCycleLengthModel(startsAfter('2026-01-01', [28, 28, 28, 28, 28, 28]).map(period), null, {});
+    assert.equal(model.mean, 28);
+    assert.ok(model.sd >= 1 && model.sd < 2);
+    assert.equal(model.outliersIgnored, 0);
+
+    // A two-day change in a perfectly regular history is still a normal cycle
+    const shifted = buildCycleLengthModel(startsAfter('2026-01-01', [28, 28, 28, 28, 28, 30]).map(period), null, {});
+    assert.equal(shifted.outliersIgnored, 0);
+    assert.equal(shifted.cyclesUsed, 6);
+  });
+
+  it('ignores a cycle far from the rest', () => {
+    const lengths = [28, 29, 36, 27, 28, 29];
+    const model = buildCycleLengthModel(startsAfter('2026-01-01', lengths).map(period), null, {});
+    assert.equal(model.outliersIgnored, 1);
+    assert.equal(model.cyclesUsed, 5);
+    assert.ok(Math.abs(model.mean - 28.2) < 0.5);
+  });
+});
+
+describe('forecastNextPeriod', () => {
+  it('gives a wide, low-confidence forecast from fewer than three cycles', () => {
+    const forecast = forecastFor(startsAfter('2026-04-27', [28]));
+    assert.equal(forecast.model.cyclesUsed, 1);
+    assert.notEqual(forecast.confidence, 'high');
+    assert.ok(forecast.interval.start <= forecast.mostLikelyDate && forecast.mostLikelyDate <= forecast.interval.end);
+  });
+
+  it('expects the next period one cycle after the last when every cycle is the same', () => {
+    const forecast = forecastFor(startsAfter('2026-01-05', [28, 28, 28, 28, 28]));
+    assert.equal(dayKey(forecast.mostLikelyDate), '2026-06-22');
+    assert.equal(forecast.confidence, 'high');
+    const total = forecast.distribution.reduce((sum, day) => sum + day.probability, 0);
+    assert.ok(Math.abs(total - 1) < 1e-9);
+  });
+
+  it('rules out days already gone by when the period is late', () => {
+    // Last start 2 May on a 28-day cycle, so due 30 May; by 1 June it hasn't come
+    const forecast = forecastFor(startsAfter('2026-01-10', [28, 28, 28, 28]));
+    const today = toLocalDate(fromLocalDate(TODAY));
+    assert.ok(forecast.distribution.every((day) => day.date >= today));
+    assert.ok(daysBetween(fromLocalDate(TODAY), fromLocalDate(forecast.mostLikelyDate)) <= 2);
+  });
+});
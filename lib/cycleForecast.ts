@@ -0,0 +1,267 @@
+import { Period, UserSettings } from './api';
+import { CycleReviews, getCycleReviewsSnapshot, reviewCycleGaps } from './cycleReview';
+import type { ConfidenceLevel } from './periodCalculations';
+import { addDays, CalendarDate, daysBetween, fromApiDate, fromLocalDate, getNow, toDayNumber, toLocalDate } from './calendarDate';
+import { arePredictionsPaused, postpartumForecastSpread } from './pregnancy';
+import { suppressesNaturalCycle } from './contraception';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const MAX_HISTORY = 12;              // cycles considered, most recent first
+const RECENCY_DECAY = 0.85;          // each older cycle counts this much less than the next
+const OUTLIER_Z = 3;                 // robust z-score beyond which a cycle is ignored
+const MIN_ROBUST_SD = 1.5;           // keeps a perfectly regular history from flagging a 2-day shift
+const PRIOR_WEIGHT = 1;              // the settings cycle length counts as this many cycles
+const PRIOR_SD = 3;                  // typical cycle-to-cycle variation when there's no history
+const MIN_SD = 1;
+const SPREAD_SDS = 4;                // days further than this from the mean carry no real mass
+const MIN_REMAINING_MASS = 0.05;     // below this a late period is centred on today
+const LATE_GRACE_DAYS = 10;          // this far past the mean, an unlogged period is assumed and the next forecast
+const DEFAULT_COVERAGE = 0.8;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface CycleLengthModel {
+  /** Recency-weighted mean cycle length, shrunk toward the settings value */
+  mean: number;
+  /** Spread of the next cycle's length, including uncertainty in the mean */
+  sd: number;
+  cyclesUsed: number;
+  outliersIgnored: number;
+  /** Likely missed logs or double logs left out until the user confirms them */
+  flaggedIgnored: number;
+}
+
+export interface ForecastOptions {
+  today?: Date;
+  /** Share of the distribution the interval should hold */
+  coverage?: number;
+  reviews?: CycleReviews;
+}
+
+export interface PeriodStartProbability {
+  date: Date;
+  probability: number;
+}
+
+export interface PredictionInterval {
+  start: Date;
+  end: Date;
+  /** Share of the distribution inside the interval, e.g. 0.8 */
+  probability: number;
+}
+
+export interface NextPeriodForecast {
+  model: CycleLengthModel;
+  /** Whole-day cycle length to use wherever a single number is needed */
+  cycleLength: number;
+  lastPeriodStart: Date;
+  mostLikelyDate: Date;
+  /** Probability of the next period starting on each day, in date order; sums to 1 */
+  distribution: PeriodStartProbability[];
+  interval: PredictionInterval;
+  confidence: ConfidenceLevel;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Abramowitz–Stegun 7.1.26; accurate to ~1e-7, plenty for day-level probabilities */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+function normalCdf(x: number, mean: number, sd: number): number {
+  return 0.5 * (1 + erf((x - mean) / (sd * Math.SQRT2)));
+}
+
+interface CycleSample {
+  length: number;
+  /** Confirmed by the user, so never treated as an outlier */
+  confirmed: boolean;
+}
+
+/** Drops cycles far from the median (by median absolute deviation) */
+function withoutOutliers(samples: CycleSample[]): CycleSample[] {
+  if (samples.length < 4) return samples;
+  const center = median(samples.map((sample) => sample.length));
+  const robustSd = Math.max(
+    MIN_ROBUST_SD,
+    1.4826 * median(samples.map((sample) => Math.abs(sample.length - center)))
+  );
+  const kept = samples.filter((sample) => sample.confirmed || Math.abs(sample.length - center) <= OUTLIER_Z * robustSd);
+  return kept.length ? kept : samples;
+}
+
+/** Smallest set of days holding `coverage` of the mass; contiguous for a single-peaked distribution */
+function highestDensityInterval(distribution: PeriodStartProbability[], coverage: number): PredictionInterval {
+  const ranked = [...distribution].sort((a, b) => b.probability - a.probability);
+  let covered = 0;
+  let start = ranked[0].date;
+  let end = ranked[0].date;
+  for (const day of ranked) {
+    if (covered >= coverage) break;
+    covered += day.probability;
+    if (day.date < start) start = day.date;
+    if (day.date > end) end = day.date;
+  }
+  const probability = distribution
+    .filter((day) => day.date >= start && day.date <= end)
+    .reduce((sum, day) => sum + day.probability, 0);
+  return { start, end, probability: Math.round(probability * 100) / 100 };
+}
+
+function confidenceFor(interval: PredictionInterval, cyclesUsed: number): ConfidenceLevel {
+  const width = daysBetween(fromLocalDate(interval.start), fromLocalDate(interval.end)) + 1;
+  if (cyclesUsed >= 3 && width <= 5) return 'high';
+  if (cyclesUsed >= 1 && width <= 9) return 'medium';
+  return 'low';
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Next cycle's length from the user's history: recent cycles weigh more,
+ * flagged cycles (see lib/cycleReview.ts) and outliers are ignored, and the
+ * settings value acts as a prior so one or two logged cycles don't swing the
+ * prediction.
+ */
+export function buildCycleLengthModel(
+  periods: Period[],
+  settings: UserSettings | null,
+  reviews: CycleReviews = getCycleReviewsSnapshot()
+): CycleLengthModel {
+  const priorMean = settings?.averageCycleLength || 28;
+  const gaps = reviewCycleGaps(periods, settings, reviews);
+  const all = gaps
+    .filter((gap) => gap.counts)
+    .slice(0, MAX_HISTORY)
+    .map((gap) => ({ length: gap.length, confirmed: gap.answer === 'genuine' }));
+  const lengths = withoutOutliers(all).map((sample) => sample.length);
+
+  let weightSum = PRIOR_WEIGHT;
+  let weightedTotal = PRIOR_WEIGHT * priorMean;
+  lengths.forEach((length, age) => {
+    const weight = RECENCY_DECAY ** age;
+    weightSum += weight;
+    weightedTotal += weight * length;
+  });
+  const mean = weightedTotal / weightSum;
+
+  let squaredDeviation = PRIOR_WEIGHT * PRIOR_SD ** 2;
+  lengths.forEach((length, age) => {
+    squaredDeviation += RECENCY_DECAY ** age * (length - mean) ** 2;
+  });
+  const variance = squaredDeviation / weightSum;
+
+  return {
+    mean,
+    sd: Math.max(MIN_SD, Math.sqrt(variance * (1 + 1 / weightSum))),
+    cyclesUsed: lengths.length,
+    outliersIgnored: all.length - lengths.length,
+    flaggedIgnored: gaps.filter((gap) => !gap.counts && !gap.spansPregnancy).length,
+  };
+}
+
+/**
+ * Probability distribution for the next period start. Days before today are
+ * ruled out (the period would have been logged), so a late period narrows
+ * toward "any day now"; once it's well overdue, the period is assumed to
+ * have gone unlogged and the following cycle is forecast instead. Null while
+ * predictions are paused for a pregnancy (see lib/pregnancy.ts) or hormonal
+ * contraception sets the bleeds (see lib/contraception.ts).
+ */
+export function forecastNextPeriod(
+  periods: Period[],
+  settings: UserSettings | null,
+  options: ForecastOptions = {}
+): NextPeriodForecast | null {
+  // Nothing to forecast during a pregnancy, after a birth until periods return, or on hormonal contraception
+  if (periods.length === 0 || arePredictionsPaused(periods, settings) || suppressesNaturalCycle(settings)) return null;
+
+  const { today = getNow(), coverage = DEFAULT_COVERAGE, reviews } = options;
+  const model = buildCycleLengthModel(periods, settings, reviews);
+  const startDays = periods
+    .map((period) => fromApiDate(period.startDate))
+    .filter((day): day is CalendarDate => day !== null);
+  if (startDays.length === 0) return null;
+  const lastStartDay = startDays.reduce((latest, start) => (toDayNumber(start) > toDayNumber(latest) ? start : latest));
+  const lastPeriodStart = toLocalDate(lastStartDay);
+  const daysSinceStart = daysBetween(lastStartDay, fromLocalDate(today));
+
+  // Cycles ahead: the sum of k cycle lengths has k times the mean and √k times the spread
+  const cyclesAhead =
+    daysSinceStart > model.mean + LATE_GRACE_DAYS ? Math.ceil((daysSinceStart - LATE_GRACE_DAYS) / model.mean) : 1;
+  let mean = model.mean * cyclesAhead;
+  // Cycles coming back after a birth are less predictable than the history suggests
+  const sd = model.sd * Math.sqrt(cyclesAhead) * postpartumForecastSpread(settings);
+
+  // A late period is expected any day now rather than a whole cycle later
+  if (1 - normalCdf(daysSinceStart - 0.5, mean, sd) < MIN_REMAINING_MASS) {
+    mean = daysSinceStart;
+  }
+
+  const first = Math.max(daysSinceStart, Math.floor(mean - SPREAD_SDS * sd));
+  const last = Math.max(first, Math.ceil(mean + SPREAD_SDS * sd));
+  const raw: { offset: number; mass: number }[] = [];
+  for (let offset = first; offset <= last; offset++) {
+    raw.push({ offset, mass: normalCdf(offset + 0.5, mean, sd) - normalCdf(offset - 0.5, mean, sd) });
+  }
+  const total = raw.reduce((sum, day) => sum + day.mass, 0) || 1;
+  const distribution = raw.map((day) => ({
+    date: toLocalDate(addDays(lastStartDay, day.offset)),
+    probability: day.mass / total,
+  }));
+
+  const mostLikely = distribution.reduce((best, day) => (day.probability > best.probability ? day : best));
+  const interval = highestDensityInterval(distribution, coverage);
+
+  return {
+    model,
+    cycleLength: Math.max(1, Math.round(model.mean)),
+    lastPeriodStart,
+    mostLikelyDate: mostLikely.date,
+    distribution,
+    interval,
+    confidence: confidenceFor(interval, model.cyclesUsed),
+  };
+}
+
+/**
+ * The same forecast moved so its most likely day is `date`, keeping the spread
+ * the history gives. Used when another source (the blended AI forecast) decides
+ * the date, so the shading and the predicted days agree.
+ */
+export function centerForecastOn(forecast: NextPeriodForecast, date: Date): NextPeriodForecast {
+  const shift = daysBetween(fromLocalDate(forecast.mostLikelyDate), fromLocalDate(date));
+  if (shift === 0) return forecast;
+  const move = (day: Date) => toLocalDate(addDays(fromLocalDate(day), shift));
+  return {
+    ...forecast,
+    mostLikelyDate: move(forecast.mostLikelyDate),
+    distribution: forecast.distribution.map((day) => ({ ...day, date: move(day.date) })),
+    interval: { ...forecast.interval, start: move(forecast.interval.start), end: move(forecast.interval.end) },
+  };
+}
+
+/**
+ * Chance that each day falls inside the forecast period: the probability of
+ * the period having started within the preceding `periodLength` days.
+ * Keyed by local-midnight timestamp.
+ */
+export function periodLikelihoodByDay(forecast: NextPeriodForecast, periodLength: number): Map<number, number> {
+  const length = Math.max(1, periodLength);
+  const likelihood = new Map<number, number>();
+  forecast.distribution.forEach(({ date, probability }) => {
+    for (let day = 0; day < length; day++) {
+      const key = toLocalDate(addDays(fromLocalDate(date), day)).getTime();
+      likelihood.set(key, (likelihood.get(key) ?? 0) + probability);
+    }
+  });
+  return likelihood;
+}
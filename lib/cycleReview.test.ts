@@ -0,0 +1,82 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCacheScope, Period, setViewMode } from './api';
+import { addDays, formatDayKey, fromLocalDate, parseDayKey } from './calendarDate';
+import { buildCycleLengthModel } from './cycleForecast';
+import { cycleGapKey, CycleReviews, getCycleReviewsSnapshot, loadCycleReviews, reviewCycleGaps } from './cycleReview';
+import { clearTestStorage } from './testSetup';
+
+function answers(key: string): CycleReviews {
+  return { [key]: { key, answer: 'genuine', answeredAt: '2026-05-01T00:00:00.000Z' } };
+}
+
+/** Periods starting on `first` and then after each of `lengths` days */
+function periodsAfter(first: string, lengths: number[]): Period[] {
+  const starts = [parseDayKey(first)!];
+  lengths.forEach((length) => starts.push(addDays(starts[starts.length - 1], length)));
+  return starts.map((start) => {
+    const date = `${formatDayKey(start)}T00:00:00`;
+    return { id: date, startDate: date, endDate: null, flowLevel: null, createdAt: date, updatedAt: date };
+  });
+}
+
+const dayKey = (date: Date | null) => (date ? formatDayKey(fromLocalDate(date)) : null);
+
+async function storeFor(email: string, reviews: CycleReviews): Promise<void> {
+  await setViewMode('SELF', { email, persist: false });
+  await AsyncStorage.setItem(`cycle_reviews_v1::${getCacheScope()}`, JSON.stringify(reviews));
+}
+
+beforeEach(async () => {
+  clearTestStorage();
+  await storeFor('first@example.com', answers('first-gap'));
+  await storeFor('second@example.com', answers('second-gap'));
+});
+
+describe('loadCycleReviews', () => {
+  it('loads the new scope when the scope changes during a load', async () => {
+    await setViewMode('SELF', { email: 'first@example.com', persist: false });
+    const firstLoad = loadCycleReviews();
+    // Without persisting, the switch lands before the first read finishes
+    void setViewMode('SELF', { email: 'second@example.com', persist: false });
+    const secondLoad = loadCycleReviews();
+    await Promise.all([firstLoad, secondLoad]);
+
+    assert.deepEqual(Object.keys(getCycleReviewsSnapshot()), ['second-gap']);
+  });
+});
+
+describe('reviewCycleGaps', () => {
+  it('flags a gap that likely hides a missed period and suggests when it started', () => {
+    const periods = periodsAfter('2026-01-01', [28, 28, 28, 56]);
+    const [latest, ...earlier] = reviewCycleGaps(periods, null, {});
+
+    assert.equal(latest.length, 56);
+    assert.equal(latest.issue, 'too_long');
+    assert.equal(latest.counts, false);
+    assert.equal(dayKey(latest.suggestedMissedDate), '2026-04-23');
+    assert.ok(earlier.every((gap) => gap.issue === null && gap.counts));
+    assert.equal(buildCycleLengthModel(periods, null, {}).flaggedIgnored, 1);
+  });
+
+  it('flags a gap too short to be a cycle', () => {
+    const [latest] = reviewCycleGaps(periodsAfter('2026-01-01', [28, 28, 28, 9]), null, {});
+    assert.equal(latest.issue, 'too_short');
+    assert.equal(latest.suggestedMissedDate, null);
+  });
+
+  it('counts a flagged gap once the user confirms it was a real cycle', () => {
+    const periods = periodsAfter('2026-01-01', [28, 28, 28, 56]);
+    const [latest] = reviewCycleGaps(periods, null, {});
+    const reviews: CycleReviews = {
+      [latest.key]: { key: latest.key, answer: 'genuine', answeredAt: '2026-05-30T00:00:00.000Z' },
+    };
+    assert.equal(latest.key, cycleGapKey(latest.previousStart, latest.nextStart));
+
+    const [answered] = reviewCycleGaps(periods, null, reviews);
+    assert.equal(answered.answer, 'genuine');
+    assert.equal(answered.counts, true);
+    assert.equal(buildCycleLengthModel(periods, null, reviews).flaggedIgnored, 0);
+  });
+});
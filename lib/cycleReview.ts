@@ -0,0 +1,222 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import { getCacheScope, Period, UserSettings } from './api';
+import {
+  addDays,
+  CalendarDate,
+  daysBetween,
+  formatDayKey,
+  fromApiDate,
+  fromDayNumber,
+  fromLocalDate,
+  toDayNumber,
+  toLocalDate,
+} from './calendarDate';
+import { spansPregnancy } from './pregnancy';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const REVIEWS_KEY_PREFIX = 'cycle_reviews_v1::';
+const MIN_CYCLE_LENGTH = 15;         // nothing shorter is a real cycle, whatever the history says
+const MAX_CYCLE_LENGTH = 90;         // nothing longer is plausible without a missed log
+const SHORT_RATIO = 0.6;             // a gap under this share of the usual cycle is suspicious
+const LONG_RATIO = 1.6;              // a gap over this multiple of the usual cycle likely hides a period
+const MIN_TYPICAL_CYCLES = 3;        // fewer logged gaps than this and the settings length is "usual"
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type CycleIssue = 'too_long' | 'too_short';
+
+/**
+ * What the user said about a flagged cycle: `missed_log` — a period went
+ * unlogged in the middle; `not_a_cycle` — the second "period" was really
+ * spotting or a duplicate; `genuine` — the cycle really was that long or short.
+ */
+export type CycleReviewAnswer = 'missed_log' | 'not_a_cycle' | 'genuine';
+
+export interface CycleReview {
+  /** Gap key from `cycleGapKey` */
+  key: string;
+  answer: CycleReviewAnswer;
+  answeredAt: string;
+}
+
+export type CycleReviews = Record<string, CycleReview>;
+
+export interface ReviewedCycleGap {
+  key: string;
+  previousStart: Date;
+  nextStart: Date;
+  length: number;
+  issue: CycleIssue | null;
+  answer: CycleReviewAnswer | null;
+  /** The gap ran through a pregnancy; it isn't a cycle and is never flagged */
+  spansPregnancy: boolean;
+  /** Whether the gap counts as a real cycle in the statistics */
+  counts: boolean;
+  /** For long gaps, where the first unlogged period most likely started */
+  suggestedMissedDate: Date | null;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const EMPTY_REVIEWS: CycleReviews = {};
+let loadedScope: string | null = null;
+let reviews: CycleReviews = EMPTY_REVIEWS;
+let loading: { scope: string; promise: Promise<void> } | null = null;
+const listeners = new Set<() => void>();
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function storageKey(scope: string): string {
+  return `${REVIEWS_KEY_PREFIX}${scope}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+  DeviceEventEmitter.emit('cycleReviewsUpdated');
+}
+
+async function writeReviews(scope: string, next: CycleReviews): Promise<void> {
+  // A load still reading this scope would overwrite the newer answers
+  if (loading?.scope === scope) loading = null;
+  reviews = next;
+  loadedScope = scope;
+  notify();
+  try {
+    await AsyncStorage.setItem(storageKey(scope), JSON.stringify(next));
+  } catch (error) {
+    console.warn('[CycleReview] Failed to save cycle reviews:', error);
+  }
+}
+
+/**
+ * The cycle length flags are judged against: the median of the plausible
+ * logged gaps, or the settings length while there are too few to trust.
+ */
+function typicalCycleLength(lengths: number[], settings: UserSettings | null): number {
+  const plausible = lengths.filter((length) => length >= MIN_CYCLE_LENGTH && length <= MAX_CYCLE_LENGTH);
+  return plausible.length >= MIN_TYPICAL_CYCLES ? median(plausible) : settings?.averageCycleLength || 28;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function cycleGapKey(previousStart: Date, nextStart: Date): string {
+  return `${formatDayKey(fromLocalDate(previousStart))}_${formatDayKey(fromLocalDate(nextStart))}`;
+}
+
+/**
+ * Every gap between consecutive period starts, most recent first, with
+ * implausibly long or short ones flagged. Flagged gaps stay out of the
+ * statistics until the user confirms the cycle was genuine; gaps around a
+ * pregnancy stay out without asking.
+ */
+export function reviewCycleGaps(
+  periods: Period[],
+  settings: UserSettings | null,
+  answers: CycleReviews = getCycleReviewsSnapshot()
+): ReviewedCycleGap[] {
+  const startDays = periods
+    .map((period) => fromApiDate(period.startDate))
+    .filter((day): day is CalendarDate => day !== null);
+  const starts = [...new Set(startDays.map(toDayNumber))].sort((a, b) => b - a).map(fromDayNumber);
+
+  const lengths = starts.slice(0, -1).map((start, i) => daysBetween(starts[i + 1], start));
+  const pregnancyGaps = lengths.map((_, i) => spansPregnancy(toLocalDate(starts[i + 1]), toLocalDate(starts[i]), settings));
+  const typical = typicalCycleLength(lengths.filter((_, i) => !pregnancyGaps[i]), settings);
+
+  return lengths.map((length, i) => {
+    const nextStart = toLocalDate(starts[i]);
+    const previousStart = toLocalDate(starts[i + 1]);
+    const key = cycleGapKey(previousStart, nextStart);
+
+    let issue: CycleIssue | null = null;
+    // A pregnancy isn't a cycle at all, so there's nothing to ask about
+    const flaggable = !pregnancyGaps[i];
+    if (flaggable && (length < MIN_CYCLE_LENGTH || length < typical * SHORT_RATIO)) issue = 'too_short';
+    else if (flaggable && (length > MAX_CYCLE_LENGTH || length > typical * LONG_RATIO)) issue = 'too_long';
+
+    let suggestedMissedDate: Date | null = null;
+    if (issue === 'too_long') {
+      // A 56-day gap in a 28-day history is two cycles, so the missing period sat halfway
+      const cycles = Math.max(2, Math.round(length / typical));
+      suggestedMissedDate = toLocalDate(addDays(starts[i + 1], Math.round(length / cycles)));
+    }
+
+    const answer = issue ? answers[key]?.answer ?? null : null;
+    return {
+      key,
+      previousStart,
+      nextStart,
+      length,
+      issue,
+      answer,
+      spansPregnancy: pregnancyGaps[i],
+      counts: !pregnancyGaps[i] && (issue === null || answer === 'genuine'),
+      suggestedMissedDate,
+    };
+  });
+}
+
+/** The most recent flagged cycle the user hasn't answered yet, if any */
+export function findPendingCycleReview(
+  periods: Period[],
+  settings: UserSettings | null,
+  answers: CycleReviews = getCycleReviewsSnapshot()
+): ReviewedCycleGap | null {
+  return reviewCycleGaps(periods, settings, answers).find((gap) => gap.issue && !gap.answer) ?? null;
+}
+
+/**
+ * Answers for the current scope, kept in memory so the synchronous
+ * prediction code can read them. Empty until `loadCycleReviews` resolves.
+ */
+export function getCycleReviewsSnapshot(): CycleReviews {
+  return loadedScope === getCacheScope() ? reviews : EMPTY_REVIEWS;
+}
+
+/** Subscribe to answer changes (`useSyncExternalStore` compatible) */
+export function subscribeToCycleReviews(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Read the stored answers for the current scope. Only hits storage once per scope. */
+export async function loadCycleReviews(): Promise<void> {
+  const scope = getCacheScope();
+  if (loadedScope === scope) return;
+  if (loading?.scope === scope) return loading.promise;
+
+  const promise = (async () => {
+    let stored: CycleReviews = {};
+    try {
+      const raw = await AsyncStorage.getItem(storageKey(scope));
+      const parsed = raw ? JSON.parse(raw) : {};
+      stored = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      console.warn('[CycleReview] Failed to read cycle reviews:', error);
+    }
+    // The scope changed or answers were written while reading; this result is stale
+    if (loading?.scope !== scope) return;
+    loading = null;
+    reviews = stored;
+    loadedScope = scope;
+    notify();
+  })();
+  loading = { scope, promise };
+  return promise;
+}
+
+/** Record the user's answer for a flagged cycle; it's never asked about again */
+export async function saveCycleReview(key: string, answer: CycleReviewAnswer): Promise<void> {
+  await loadCycleReviews();
+  const scope = getCacheScope();
+  await writeReviews(scope, {
+    ...getCycleReviewsSnapshot(),
+    [key]: { key, answer, answeredAt: new Date().toISOString() },
+  });
+}
@@ -0,0 +1,338 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import {
+  getCacheScope,
+  getPeriodChanges,
+  getSymptomChanges,
+  getMoodChanges,
+  getSettings,
+  normalizePeriod,
+  normalizeDatedRecord,
+  ChangeSet,
+  Period,
+  Symptom,
+  Mood,
+  UserSettings,
+} from './api';
+import { applyPendingMutations, flushOutbox, isNetworkError } from './outbox';
+import { syncDayLogs } from './dayLogStore';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const STORE_KEY_PREFIX = 'cycle_store_v1::';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+type CycleCollection = 'periods' | 'symptoms' | 'moods';
+
+interface PersistedCycleData {
+  periods: Record<string, Period>;
+  symptoms: Record<string, Symptom>;
+  moods: Record<string, Mood>;
+  settings: UserSettings | null;
+  /** Newest `updatedAt` (or `createdAt`) seen per collection — the next pull only asks for later changes */
+  watermarks: Record<CycleCollection, string | null>;
+  lastSyncedAt: number | null;
+}
+
+export interface CycleDataSnapshot {
+  /** Cache scope (`MODE::email`) the data belongs to */
+  scope: string | null;
+  /** Server records with writes still waiting in the outbox applied on top */
+  periods: Period[];
+  symptoms: Symptom[];
+  moods: Mood[];
+  settings: UserSettings | null;
+  isHydrated: boolean;
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+let activeScope: string | null = null;
+let data: PersistedCycleData = emptyData();
+let hydratePromise: Promise<void> | null = null;
+let syncPromise: Promise<void> | null = null;
+let isHydrated = false;
+let isSyncing = false;
+let lastError: string | null = null;
+let publishVersion = 0;
+
+const listeners = new Set<() => void>();
+let outboxSubscription: { remove: () => void } | null = null;
+
+let snapshot: CycleDataSnapshot = {
+  scope: null,
+  periods: [],
+  symptoms: [],
+  moods: [],
+  settings: null,
+  isHydrated: false,
+  isSyncing: false,
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function emptyData(): PersistedCycleData {
+  return {
+    periods: {},
+    symptoms: {},
+    moods: {},
+    settings: null,
+    watermarks: { periods: null, symptoms: null, moods: null },
+    lastSyncedAt: null,
+  };
+}
+
+function changedAt(record: { createdAt: string; updatedAt?: string }): string {
+  return record.updatedAt ?? record.createdAt;
+}
+
+function newestTimestamp(current: string | null, records: { createdAt: string; updatedAt?: string }[]): string | null {
+  let newest = current;
+  let newestTime = current ? new Date(current).getTime() : -Infinity;
+  records.forEach((record) => {
+    const value = changedAt(record);
+    const time = new Date(value).getTime();
+    if (!Number.isNaN(time) && time > newestTime) {
+      newest = value;
+      newestTime = time;
+    }
+  });
+  return newest;
+}
+
+/**
+ * Fold a pull into a collection. Full lists replace the collection outright so
+ * records deleted on another device disappear even without server tombstones.
+ */
+function mergeChanges<T extends { id: string }>(
+  current: Record<string, T>,
+  changes: ChangeSet<T>
+): Record<string, T> {
+  const next: Record<string, T> = changes.isDelta ? { ...current } : {};
+  changes.deletedIds.forEach((id) => {
+    delete next[id];
+  });
+  changes.records.forEach((record) => {
+    next[record.id] = record;
+  });
+  return next;
+}
+
+function byDateDesc<T>(getDate: (record: T) => string) {
+  return (a: T, b: T) => new Date(getDate(b)).getTime() - new Date(getDate(a)).getTime();
+}
+
+async function persist(scope: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${STORE_KEY_PREFIX}${scope}`, JSON.stringify(data));
+  } catch (error) {
+    console.warn('[CycleStore] Failed to persist store:', error);
+  }
+}
+
+/**
+ * Rebuild the snapshot handed to subscribers. Pending outbox writes are layered
+ * on here rather than stored, so they drop out on their own once synced.
+ */
+async function publish(): Promise<void> {
+  const version = ++publishVersion;
+  const scope = activeScope;
+
+  let periods = Object.values(data.periods);
+  let symptoms = Object.values(data.symptoms);
+  let moods = Object.values(data.moods);
+
+  if (scope) {
+    [periods, symptoms, moods] = await Promise.all([
+      applyPendingMutations('period', scope, periods),
+      applyPendingMutations('symptom', scope, symptoms),
+      applyPendingMutations('mood', scope, moods),
+    ]);
+  }
+
+  // A newer publish (or a scope switch) started while we were reading the outbox
+  if (version !== publishVersion) return;
+
+  // Stores persisted before dates were normalized at the API boundary still hold raw instants
+  snapshot = {
+    scope,
+    periods: periods.map(normalizePeriod).sort(byDateDesc((period) => period.startDate)),
+    symptoms: symptoms.map(normalizeDatedRecord).sort(byDateDesc((symptom) => symptom.date)),
+    moods: moods.map(normalizeDatedRecord).sort(byDateDesc((mood) => mood.date)),
+    settings: data.settings,
+    isHydrated,
+    isSyncing,
+    lastSyncedAt: data.lastSyncedAt,
+    lastError,
+  };
+  listeners.forEach((listener) => listener());
+}
+
+/** Point the store at the scope lib/api.ts is currently using, dropping the old scope's data from memory. */
+function ensureScope(): string {
+  const scope = getCacheScope();
+  if (scope !== activeScope) {
+    activeScope = scope;
+    data = emptyData();
+    hydratePromise = null;
+    syncPromise = null;
+    isHydrated = false;
+    isSyncing = false;
+    lastError = null;
+  }
+  return scope;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Load the persisted dataset for the current scope. Cheap to call repeatedly —
+ * it only reads storage once per scope.
+ */
+export async function hydrateCycleStore(): Promise<void> {
+  const scope = ensureScope();
+  if (!hydratePromise) {
+    hydratePromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(`${STORE_KEY_PREFIX}${scope}`);
+        const parsed = raw ? (JSON.parse(raw) as PersistedCycleData) : null;
+        if (parsed && activeScope === scope) {
+          data = { ...emptyData(), ...parsed };
+        }
+      } catch (error) {
+        console.warn('[CycleStore] Failed to read store:', error);
+      }
+      if (activeScope === scope) {
+        isHydrated = true;
+        await publish();
+      }
+    })();
+  }
+  return hydratePromise;
+}
+
+/**
+ * Push queued local writes, then pull only what changed since the last pull.
+ * Pass `full` to ignore the watermarks and re-download everything (pull-to-refresh).
+ * Concurrent calls share one run; failures keep the local data and are reported
+ * through `lastError` instead of throwing, so screens keep working offline.
+ */
+export async function syncCycleStore(options?: { full?: boolean }): Promise<void> {
+  await hydrateCycleStore();
+  const scope = ensureScope();
+  if (syncPromise) return syncPromise;
+
+  syncPromise = (async () => {
+    isSyncing = true;
+    await publish();
+
+    try {
+      await flushOutbox();
+    } catch (error) {
+      console.warn('[CycleStore] Outbox flush failed:', error);
+    }
+
+    const watermarks = options?.full
+      ? { periods: null, symptoms: null, moods: null }
+      : data.watermarks;
+
+    // Per-day logs (flow, temperature, …) keep their own stores; they never throw
+    const dayLogsSync = syncDayLogs();
+    const [periodsResult, symptomsResult, moodsResult, settingsResult] = await Promise.allSettled([
+      getPeriodChanges(watermarks.periods),
+      getSymptomChanges(watermarks.symptoms),
+      getMoodChanges(watermarks.moods),
+      getSettings(true),
+    ]);
+    await dayLogsSync;
+
+    // The user switched view mode mid-pull; these results belong to the old scope
+    if (activeScope !== scope) return;
+
+    let failure: any = null;
+    const next: PersistedCycleData = { ...data, watermarks: { ...data.watermarks } };
+
+    if (periodsResult.status === 'fulfilled') {
+      next.periods = mergeChanges(data.periods, periodsResult.value);
+      next.watermarks.periods = newestTimestamp(
+        periodsResult.value.isDelta ? watermarks.periods : null,
+        periodsResult.value.records
+      );
+    } else {
+      failure = periodsResult.reason;
+    }
+
+    if (symptomsResult.status === 'fulfilled') {
+      next.symptoms = mergeChanges(data.symptoms, symptomsResult.value);
+      next.watermarks.symptoms = newestTimestamp(
+        symptomsResult.value.isDelta ? watermarks.symptoms : null,
+        symptomsResult.value.records
+      );
+    } else {
+      failure = failure ?? symptomsResult.reason;
+    }
+
+    if (moodsResult.status === 'fulfilled') {
+      next.moods = mergeChanges(data.moods, moodsResult.value);
+      next.watermarks.moods = newestTimestamp(
+        moodsResult.value.isDelta ? watermarks.moods : null,
+        moodsResult.value.records
+      );
+    } else {
+      failure = failure ?? moodsResult.reason;
+    }
+
+    if (settingsResult.status === 'fulfilled') {
+      next.settings = settingsResult.value;
+    } else {
+      failure = failure ?? settingsResult.reason;
+    }
+
+    if (!failure) {
+      next.lastSyncedAt = Date.now();
+      lastError = null;
+    } else {
+      if (failure.response?.status !== 401 && !isNetworkError(failure)) {
+        console.error('[CycleStore] Sync failed:', failure);
+      }
+      lastError = isNetworkError(failure) ? 'offline' : failure.message || 'Sync failed';
+    }
+
+    data = next;
+    await persist(scope);
+  })().finally(async () => {
+    if (activeScope !== scope) return;
+    syncPromise = null;
+    isSyncing = false;
+    await publish();
+  });
+
+  return syncPromise;
+}
+
+export function getCycleStoreSnapshot(): CycleDataSnapshot {
+  return snapshot;
+}
+
+/**
+ * Subscribe to dataset changes (`useSyncExternalStore` compatible). While anyone
+ * is listening the store also follows the outbox, so offline writes show up
+ * immediately.
+ */
+export function subscribeToCycleStore(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!outboxSubscription) {
+    outboxSubscription = DeviceEventEmitter.addListener('outboxUpdated', () => {
+      publish().catch((error) => console.warn('[CycleStore] Failed to publish:', error));
+    });
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && outboxSubscription) {
+      outboxSubscription.remove();
+      outboxSubscription = null;
+    }
+  };
+}
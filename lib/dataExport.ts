@@ -0,0 +1,131 @@
+import { Period, Symptom, Mood, UserSettings, DayLogKind } from './api';
+import { toCsv } from './csv';
+import type { DayLogEntry } from './dayLogStore';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+export const EXPORT_FORMAT = 'peri-peri-export';
+export const EXPORT_VERSION = 1;
+
+/** Column order of the CSV export; one row per record, `record_type` says which */
+export const EXPORT_CSV_COLUMNS = [
+  'record_type',
+  'id',
+  'start_date',
+  'end_date',
+  'date',
+  'type',
+  'flow_level',
+  'severity',
+  'value',
+  'created_at',
+] as const;
+
+const EXPORTED_SETTINGS: (keyof UserSettings)[] = [
+  'averageCycleLength',
+  'averagePeriodLength',
+  'periodDuration',
+  'lastPeriodDate',
+  'birthYear',
+  'reminderEnabled',
+  'reminderDaysBefore',
+  'goal',
+  'ttcStartedAt',
+  'pregnancyStartDate',
+  'dueDate',
+  'pregnancyEndDate',
+  'breastfeeding',
+  'contraception',
+  'contraceptionRegimen',
+  'contraceptionStartDate',
+  'contraceptionReminderTime',
+];
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  periods: Period[];
+  symptoms: Symptom[];
+  moods: Mood[];
+  settings: Partial<UserSettings> | null;
+  /** Per-day logs (flow, …) by kind, oldest first */
+  dayLogs: Partial<Record<DayLogKind, DayLogEntry[]>>;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function pickSettings(settings: UserSettings | null): Partial<UserSettings> | null {
+  if (!settings) return null;
+  return EXPORTED_SETTINGS.reduce<Partial<UserSettings>>((picked, key) => {
+    if (settings[key] !== undefined) {
+      (picked as Record<string, unknown>)[key] = settings[key];
+    }
+    return picked;
+  }, {});
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function buildExportBundle(data: {
+  periods: Period[];
+  symptoms: Symptom[];
+  moods: Mood[];
+  settings: UserSettings | null;
+  dayLogs?: Partial<Record<DayLogKind, DayLogEntry[]>>;
+}): ExportBundle {
+  const byDate = <T>(getDate: (record: T) => string) => (a: T, b: T) =>
+    new Date(getDate(a)).getTime() - new Date(getDate(b)).getTime();
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    periods: [...data.periods].sort(byDate<Period>((period) => period.startDate)),
+    symptoms: [...data.symptoms].sort(byDate<Symptom>((symptom) => symptom.date)),
+    moods: [...data.moods].sort(byDate<Mood>((mood) => mood.date)),
+    settings: pickSettings(data.settings),
+    dayLogs: Object.fromEntries(
+      Object.entries(data.dayLogs ?? {}).map(([kind, entries]) => [
+        kind,
+        [...entries].sort((a, b) => a.date.localeCompare(b.date)),
+      ])
+    ),
+  };
+}
+
+export function serializeBundleJson(bundle: ExportBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Flatten the bundle into a single CSV. The first row after the header is a
+ * `meta` row carrying the format and version so imports can recognise it.
+ * Day log rows put the log kind in `type` and the rest of the entry, as JSON,
+ * in `value`.
+ */
+export function serializeBundleCsv(bundle: ExportBundle): string {
+  const rows: (string | number | null)[][] = [
+    [...EXPORT_CSV_COLUMNS],
+    ['meta', null, null, null, null, 'format', null, null, `${bundle.format}@${bundle.version}`, bundle.exportedAt],
+  ];
+
+  bundle.periods.forEach((period) => {
+    rows.push(['period', period.id, period.startDate, period.endDate, null, null, period.flowLevel, null, null, period.createdAt]);
+  });
+  bundle.symptoms.forEach((symptom) => {
+    rows.push(['symptom', symptom.id, null, null, symptom.date, symptom.type, null, symptom.severity, null, symptom.createdAt]);
+  });
+  bundle.moods.forEach((mood) => {
+    rows.push(['mood', mood.id, null, null, mood.date, mood.type, null, null, null, mood.createdAt]);
+  });
+  Object.entries(bundle.settings ?? {}).forEach(([key, value]) => {
+    rows.push(['setting', null, null, null, null, key, null, null, value === null ? null : String(value), null]);
+  });
+  Object.entries(bundle.dayLogs).forEach(([kind, entries]) => {
+    entries.forEach(({ date, ...fields }) => {
+      rows.push(['day_log', null, null, null, date, kind, null, null, JSON.stringify(fields), null]);
+    });
+  });
+
+  return toCsv(rows);
+}
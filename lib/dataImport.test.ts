@@ -0,0 +1,234 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Mood, Period, Symptom } from './api';
+import { buildExportBundle, serializeBundleCsv, serializeBundleJson } from './dataExport';
+import { parseAppExport, parseImportDate, planImport, RawImportData, validateImportData } from './dataImport';
+import type { FlowDay } from './flowLog';
+import type { LHTest } from './lhTestLog';
+import type { TemperatureReading } from './temperatureLog';
+
+const TODAY = new Date(2026, 5, 15);
+
+/** Stored dates are local midnight as ISO strings, as the app writes them */
+const iso = (year: number, month: number, day: number) => new Date(year, month - 1, day).toISOString();
+
+function period(id: string, startDate: string, endDate: string | null): Period {
+  return { id, startDate, endDate, flowLevel: 'medium', createdAt: startDate, updatedAt: startDate };
+}
+
+function raw(periods: RawImportData['periods'], rest: Partial<RawImportData> = {}): RawImportData {
+  return { source: 'Test', periods, symptoms: [], moods: [], ...rest };
+}
+
+const messages = (data: { issues: { message: string }[] }) => data.issues.map((issue) => issue.message);
+
+describe('parseImportDate', () => {
+  it('reads plain, US-style and Apple Health dates as local days', () => {
+    assert.equal(parseImportDate('2026-03-05'), '2026-03-05');
+    assert.equal(parseImportDate('3/5/2026'), '2026-03-05');
+    assert.equal(parseImportDate('12/31/2025'), '2025-12-31');
+    assert.equal(parseImportDate('2026-03-05 23:30:00 -0500'), '2026-03-05');
+    assert.equal(parseImportDate(new Date(2026, 2, 5, 22)), '2026-03-05');
+  });
+
+  it('rejects dates that do not exist and values that are not dates', () => {
+    assert.equal(parseImportDate('2/30/2026'), null);
+    assert.equal(parseImportDate('2026-13-01'), null);
+    assert.equal(parseImportDate('not a date'), null);
+    assert.equal(parseImportDate('  '), null);
+    assert.equal(parseImportDate(20260305), null);
+    assert.equal(parseImportDate(new Date(NaN)), null);
+  });
+});
+
+describe('validateImportData', () => {
+  it('skips periods that start in the future and opens ones that end in the future', () => {
+    const bundle = validateImportData(
+      raw([
+        { where: 'Row 2', startDate: '2026-06-20', endDate: '2026-06-24' },
+        { where: 'Row 3', startDate: '2026-06-12', endDate: '2026-06-17' },
+      ]),
+      TODAY
+    );
+    assert.deepEqual(bundle.periods, [{ startDate: '2026-06-12', endDate: null, flowLevel: null }]);
+    assert.deepEqual(messages(bundle), [
+      'Period starts in the future — skipped.',
+      'End date is in the future — imported without an end date.',
+    ]);
+  });
+
+  it('skips over-long periods and ones that end before they start', () => {
+    const bundle = validateImportData(
+      raw([
+        { where: 'Row 2', startDate: '2026-01-01', endDate: '2026-01-21' },
+        { where: 'Row 3', startDate: '2026-02-10', endDate: '2026-02-05' },
+        { where: 'Row 4', startDate: '2026-03-01', endDate: '2026-03-20' },
+      ]),
+      TODAY
+    );
+    assert.deepEqual(bundle.periods.map((p) => p.startDate), ['2026-03-01']);
+    assert.deepEqual(messages(bundle), ['Period lasts more than 20 days — skipped.', 'Period ends before it starts — skipped.']);
+  });
+
+  it('collapses repeats within the file and clamps symptom severity', () => {
+    const bundle = validateImportData(
+      raw([{ where: 'a', startDate: '2026-05-01' }, { where: 'b', startDate: '5/1/2026', flowLevel: 'Heavy' }], {
+        symptoms: [
+          { where: 'c', date: '2026-05-02', type: 'cramps', severity: 9 },
+          { where: 'd', date: '2026-05-02', type: 'Cramps', severity: 1 },
+          { where: 'e', date: '2026-05-03', type: 'headache', severity: 'bad' },
+        ],
+      }),
+      TODAY
+    );
+    assert.equal(bundle.periods.length, 1);
+    assert.deepEqual(bundle.symptoms, [
+      { date: '2026-05-02', type: 'cramps', severity: 5 },
+      { date: '2026-05-03', type: 'headache', severity: 3 },
+    ]);
+  });
+
+  it('checks each day log against its own fields', () => {
+    const bundle = validateImportData(
+      raw([], {
+        dayLogs: [
+          { where: 'a', kind: 'flow', date: '2026-05-01', entry: { intensity: 'heavy', updatedAt: 'x' } },
+          { where: 'b', kind: 'flow', date: '2026-05-02', entry: { intensity: 'gushing' } },
+          { where: 'c', kind: 'temperature', date: '2026-05-03', entry: { value: 52, unit: 'C', disturbances: [] } },
+          { where: 'd', kind: 'mystery', date: '2026-05-04', entry: {} },
+          { where: 'e', kind: 'flow', date: '2026-07-01', entry: { intensity: 'light' } },
+        ],
+      }),
+      TODAY
+    );
+    assert.deepEqual(bundle.dayLogs, [
+      { kind: 'flow', date: '2026-05-01', entry: { intensity: 'heavy', updatedAt: 'x', date: '2026-05-01' } },
+    ]);
+    assert.deepEqual(messages(bundle), [
+      'Flow entry is missing a date or value — skipped.',
+      'Temperature entry is missing a date or value — skipped.',
+      'Unknown log "mystery" — skipped.',
+      'Flow entry is dated in the future — skipped.',
+    ]);
+  });
+});
+
+describe('planImport', () => {
+  const existing = {
+    periods: [period('closed', iso(2026, 4, 1), iso(2026, 4, 5)), period('open', iso(2026, 5, 20), null)],
+    symptoms: [] as Symptom[],
+    moods: [] as Mood[],
+  };
+
+  it('leaves out open periods that would overlap an existing one', () => {
+    const bundle = validateImportData(
+      raw([
+        // Open, so assumed to last a week: runs into the logged 1–5 April period
+        { where: 'a', startDate: '2026-03-27' },
+        // Inside the week assumed for the open period from 20 May
+        { where: 'b', startDate: '2026-05-24', endDate: '2026-05-27' },
+        { where: 'c', startDate: '2026-04-28', endDate: '2026-05-02' },
+      ]),
+      TODAY
+    );
+    const plan = planImport(bundle, existing);
+    assert.deepEqual(plan.periods.map((p) => p.startDate), ['2026-04-28']);
+    assert.equal(plan.duplicates.periods, 2);
+  });
+
+  it('does not import two overlapping periods from the same file', () => {
+    const bundle = validateImportData(
+      raw([
+        { where: 'a', startDate: '2026-02-01', endDate: '2026-02-05' },
+        { where: 'b', startDate: '2026-02-04' },
+      ]),
+      TODAY
+    );
+    assert.deepEqual(planImport(bundle, existing).periods.map((p) => p.startDate), ['2026-02-01']);
+  });
+
+  it('leaves out symptoms, moods and day logs already logged for that day', () => {
+    const bundle = validateImportData(
+      raw([], {
+        symptoms: [
+          { where: 'a', date: '2026-05-02', type: 'Cramps' },
+          { where: 'b', date: '2026-05-03', type: 'cramps' },
+        ],
+        moods: [{ where: 'c', date: '2026-05-02', type: 'calm' }],
+        dayLogs: [
+          { where: 'd', kind: 'flow', date: '2026-05-02', entry: { intensity: 'light' } },
+          { where: 'e', kind: 'flow', date: '2026-05-03', entry: { intensity: 'light' } },
+        ],
+      }),
+      TODAY
+    );
+    const plan = planImport(bundle, {
+      periods: [],
+      symptoms: [{ id: 's', date: iso(2026, 5, 2), type: 'cramps', severity: 3, createdAt: '' }],
+      moods: [{ id: 'm', date: iso(2026, 5, 2), type: 'calm', createdAt: '' }],
+      dayLogs: { flow: [{ date: '2026-05-02' }] },
+    });
+    assert.deepEqual(plan.symptoms.map((s) => s.date), ['2026-05-03']);
+    assert.deepEqual(plan.moods, []);
+    assert.deepEqual(plan.dayLogs.map((log) => log.date), ['2026-05-03']);
+    assert.deepEqual(plan.duplicates, { periods: 0, symptoms: 1, moods: 1, dayLogs: 1 });
+  });
+});
+
+describe('parseAppExport', () => {
+  const flow: FlowDay = { date: '2026-04-01', intensity: 'heavy', updatedAt: iso(2026, 4, 1) };
+  const temperature: TemperatureReading = {
+    date: '2026-04-10',
+    value: 36.4,
+    unit: 'C',
+    time: '07:00',
+    disturbances: ['alcohol'],
+    updatedAt: iso(2026, 4, 10),
+  };
+  const lhTest: LHTest = { date: '2026-04-12', result: 'positive', ratio: 1.2, updatedAt: iso(2026, 4, 12) };
+  const bundle = buildExportBundle({
+    periods: [period('p1', iso(2026, 4, 1), iso(2026, 4, 5)), period('p2', iso(2026, 5, 1), null)],
+    symptoms: [{ id: 's1', date: iso(2026, 4, 2), type: 'cramps', severity: 4, createdAt: iso(2026, 4, 2) }],
+    moods: [{ id: 'm1', date: iso(2026, 4, 3), type: 'calm', createdAt: iso(2026, 4, 3) }],
+    settings: null,
+    dayLogs: { flow: [flow], temperature: [temperature], lh_test: [lhTest] },
+  });
+
+  const imported = (text: string) => {
+    const { source: _source, ...rest } = validateImportData(parseAppExport(text), TODAY);
+    return rest;
+  };
+
+  it('reads back everything an export wrote, from JSON and CSV alike', () => {
+    const fromJson = imported(serializeBundleJson(bundle));
+    assert.deepEqual(fromJson.periods, [
+      { startDate: '2026-04-01', endDate: '2026-04-05', flowLevel: 'medium' },
+      { startDate: '2026-05-01', endDate: null, flowLevel: 'medium' },
+    ]);
+    assert.deepEqual(fromJson.symptoms, [{ date: '2026-04-02', type: 'cramps', severity: 4 }]);
+    assert.deepEqual(fromJson.moods, [{ date: '2026-04-03', type: 'calm' }]);
+    assert.deepEqual(
+      fromJson.dayLogs,
+      Object.entries(bundle.dayLogs).flatMap(([kind, entries]) => entries.map((entry) => ({ kind, date: entry.date, entry })))
+    );
+    assert.deepEqual(fromJson.issues, []);
+
+    assert.deepEqual(imported(serializeBundleCsv(bundle)), fromJson);
+  });
+
+  it('rejects files that are not ours or come from a newer version', () => {
+    assert.throws(() => parseAppExport('{ not json'), /not valid JSON/);
+    assert.throws(() => parseAppExport('{"format":"other"}'), /not exported from Peri Peri/);
+    assert.throws(() => parseAppExport('[1, 2]'), /not exported from Peri Peri/);
+    assert.throws(() => parseAppExport(serializeBundleJson({ ...bundle, version: 99 })), /newer version/);
+    assert.throws(() => parseAppExport('date,type\n2026-04-01,cramps\n'), /CSV file was not exported/);
+  });
+
+  it('reports malformed records instead of failing the whole file', () => {
+    const text = JSON.stringify({ ...bundle, periods: ['oops', { startDate: 'soon' }], symptoms: 'none', dayLogs: null });
+    const result = validateImportData(parseAppExport(text), TODAY);
+    assert.deepEqual(result.periods, []);
+    assert.deepEqual(result.symptoms, []);
+    assert.deepEqual(messages(result), ['Period has no valid start date — skipped.', 'Period has no valid start date — skipped.']);
+  });
+});
@@ -0,0 +1,505 @@
+import { Period, Symptom, Mood, DayLogKind, createPeriod, createSymptom, createMood, buildFriendlyMessage } from './api';
+import { parseCsvRecords } from './csv';
+import { EXPORT_FORMAT, EXPORT_VERSION } from './dataExport';
+import {
+  addDays,
+  calendarDate,
+  CalendarDate,
+  compareDates,
+  daysBetween,
+  formatDayKey,
+  fromLocalDate,
+  parseDayKey,
+  toLocalDate,
+} from './calendarDate';
+import { DayLogEntry, getDayLogStore } from './dayLogStore';
+import { FLOW_INTENSITIES } from './flowLog';
+import { validateTemperature } from './temperatureLog';
+import { LH_RESULTS, validateLHRatio } from './lhTestLog';
+// Loaded for their side effect: each log registers its store for getDayLogStore in runImport
+import './intercourseLog';
+import './pillLog';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const MAX_PERIOD_DAYS = 20;          // longer "periods" are almost always a missing end date
+const OPEN_PERIOD_DAYS = 7;          // assumed length of a period without an end date when checking overlap
+const FLOW_LEVELS = ['light', 'medium', 'heavy'] as const;
+
+/** Per-day logs the importer accepts, with a check for each entry's own fields */
+const IMPORTED_DAY_LOGS: Partial<Record<DayLogKind, { label: string; isValid: (entry: Record<string, unknown>) => boolean }>> = {
+  flow: {
+    label: 'Flow',
+    isValid: (entry) => (FLOW_INTENSITIES as readonly unknown[]).includes(entry.intensity),
+  },
+  temperature: {
+    label: 'Temperature',
+    isValid: (entry) =>
+      typeof entry.value === 'number' &&
+      (entry.unit === 'C' || entry.unit === 'F') &&
+      validateTemperature(entry.value, entry.unit) === null &&
+      Array.isArray(entry.disturbances),
+  },
+  lh_test: {
+    label: 'LH test',
+    isValid: (entry) =>
+      (LH_RESULTS as readonly unknown[]).includes(entry.result) &&
+      (entry.ratio === null || typeof entry.ratio === 'number') &&
+      validateLHRatio(entry.ratio) === null,
+  },
+  intercourse: {
+    label: 'Intercourse',
+    isValid: (entry) => typeof entry.protected === 'boolean',
+  },
+  pill: {
+    label: 'Pill',
+    isValid: (entry) => typeof entry.takenAt === 'string' && !Number.isNaN(Date.parse(entry.takenAt)),
+  },
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+/** A problem with one record (or the whole file), shown to the user */
+export interface ImportIssue {
+  /** e.g. "Row 12" or "periods[3]" */
+  where: string;
+  message: string;
+}
+
+/** Records as read from a file, before validation. `where` locates them in the source */
+export interface RawImportData {
+  source: string;
+  periods: { where: string; startDate?: unknown; endDate?: unknown; flowLevel?: unknown }[];
+  symptoms: { where: string; date?: unknown; type?: unknown; severity?: unknown }[];
+  moods: { where: string; date?: unknown; type?: unknown }[];
+  /** Only Peri Peri exports carry these */
+  dayLogs?: { where: string; kind?: unknown; date?: unknown; entry?: unknown }[];
+  issues?: ImportIssue[];
+  /** Source values with no equivalent in this app, e.g. `"pain: ovulation" → 4` */
+  unmapped?: Record<string, number>;
+}
+
+/** Dates are YYYY-MM-DD in the device's time zone */
+export interface ImportedPeriod {
+  startDate: string;
+  endDate: string | null;
+  flowLevel: Period['flowLevel'];
+}
+
+export interface ImportedSymptom {
+  date: string;
+  type: string;
+  severity: number;
+}
+
+export interface ImportedMood {
+  date: string;
+  type: string;
+}
+
+export interface ImportedDayLog {
+  kind: DayLogKind;
+  date: string;
+  entry: DayLogEntry;
+}
+
+export interface ImportBundle {
+  source: string;
+  periods: ImportedPeriod[];
+  symptoms: ImportedSymptom[];
+  moods: ImportedMood[];
+  dayLogs: ImportedDayLog[];
+  issues: ImportIssue[];
+  /** Most frequent first */
+  unmapped: { value: string; count: number }[];
+}
+
+export interface ImportPlan extends ImportBundle {
+  /** Records left out because they match something already logged */
+  duplicates: { periods: number; symptoms: number; moods: number; dayLogs: number };
+}
+
+export interface ImportResult {
+  created: number;
+  failed: ImportIssue[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Keys passed here have already been through `parseImportDate` */
+function toCalendarDate(key: string): CalendarDate {
+  return parseDayKey(key) as CalendarDate;
+}
+
+function daySpan(startKey: string, endKey: string): number {
+  return daysBetween(toCalendarDate(startKey), toCalendarDate(endKey)) + 1;
+}
+
+/** Inclusive [start, end] day range; open periods get an assumed length */
+function periodInterval(startKey: string, endKey: string | null): [CalendarDate, CalendarDate] {
+  const start = toCalendarDate(startKey);
+  const end = endKey ? toCalendarDate(endKey) : addDays(start, OPEN_PERIOD_DAYS - 1);
+  return [start, end];
+}
+
+function overlaps(a: [CalendarDate, CalendarDate], b: [CalendarDate, CalendarDate]): boolean {
+  return compareDates(a[0], b[1]) <= 0 && compareDates(b[0], a[1]) <= 0;
+}
+
+function normalizeType(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Read a date from an import file as a local calendar day (YYYY-MM-DD).
+ * Plain dates (YYYY-MM-DD or US-style MM/DD/YYYY) are taken as-is rather than
+ * as UTC midnight, which would shift them by a day west of Greenwich.
+ */
+export function parseImportDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : formatDayKey(fromLocalDate(value));
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+  // YYYY-MM-DD, optionally followed by a time we don't need (Apple Health: "2024-01-05 08:00:00 -0500")
+  const plain = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:$|[ T]\d{2}:\d{2}(?::\d{2})? [+-]\d{4}$)/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (plain || us) {
+    const [year, month, day] = plain
+      ? [Number(plain[1]), Number(plain[2]), Number(plain[3])]
+      : [Number(us![3]), Number(us![1]), Number(us![2])];
+    // Out-of-range parts roll over (2/30 → 3/2), which is how an impossible date shows up
+    const date = calendarDate(year, month, day);
+    return date.month === month && date.day === day ? formatDayKey(date) : null;
+  }
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? null : formatDayKey(fromLocalDate(parsed));
+}
+
+/**
+ * Check every record, drop the ones that can't be imported and explain why.
+ * Also collapses exact repeats within the file.
+ */
+export function validateImportData(raw: RawImportData, today: Date = new Date()): ImportBundle {
+  const todayKey = formatDayKey(fromLocalDate(today));
+  const issues: ImportIssue[] = [...(raw.issues ?? [])];
+  const periods: ImportedPeriod[] = [];
+  const symptoms: ImportedSymptom[] = [];
+  const moods: ImportedMood[] = [];
+  const dayLogs: ImportedDayLog[] = [];
+  const seen = new Set<string>();
+
+  raw.periods.forEach((record) => {
+    const startDate = parseImportDate(record.startDate);
+    if (!startDate) {
+      issues.push({ where: record.where, message: 'Period has no valid start date — skipped.' });
+      return;
+    }
+    if (startDate > todayKey) {
+      issues.push({ where: record.where, message: 'Period starts in the future — skipped.' });
+      return;
+    }
+
+    let endDate = record.endDate === null || record.endDate === undefined || record.endDate === ''
+      ? null
+      : parseImportDate(record.endDate);
+    if (endDate === null && record.endDate) {
+      issues.push({ where: record.where, message: 'End date could not be read — imported without an end date.' });
+    }
+    if (endDate && endDate < startDate) {
+      issues.push({ where: record.where, message: 'Period ends before it starts — skipped.' });
+      return;
+    }
+    if (endDate && endDate > todayKey) {
+      issues.push({ where: record.where, message: 'End date is in the future — imported without an end date.' });
+      endDate = null;
+    }
+    if (endDate && daySpan(startDate, endDate) > MAX_PERIOD_DAYS) {
+      issues.push({ where: record.where, message: `Period lasts more than ${MAX_PERIOD_DAYS} days — skipped.` });
+      return;
+    }
+
+    const flowText = normalizeType(record.flowLevel).toLowerCase();
+    const flowLevel = (FLOW_LEVELS as readonly string[]).includes(flowText)
+      ? (flowText as Period['flowLevel'])
+      : null;
+    if (flowText && !flowLevel) {
+      issues.push({ where: record.where, message: `Unknown flow level "${flowText}" — imported without one.` });
+    }
+
+    const key = `period:${startDate}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    periods.push({ startDate, endDate, flowLevel });
+  });
+
+  raw.symptoms.forEach((record) => {
+    const date = parseImportDate(record.date);
+    const type = normalizeType(record.type);
+    if (!date || !type) {
+      issues.push({ where: record.where, message: 'Symptom is missing a date or type — skipped.' });
+      return;
+    }
+    if (date > todayKey) {
+      issues.push({ where: record.where, message: 'Symptom is dated in the future — skipped.' });
+      return;
+    }
+    const severityNumber = Number(record.severity);
+    const severity = Number.isFinite(severityNumber) && severityNumber > 0
+      ? Math.min(5, Math.max(1, Math.round(severityNumber)))
+      : 3;
+
+    const key = `symptom:${date}:${type.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    symptoms.push({ date, type, severity });
+  });
+
+  raw.moods.forEach((record) => {
+    const date = parseImportDate(record.date);
+    const type = normalizeType(record.type);
+    if (!date || !type) {
+      issues.push({ where: record.where, message: 'Mood is missing a date or type — skipped.' });
+      return;
+    }
+    if (date > todayKey) {
+      issues.push({ where: record.where, message: 'Mood is dated in the future — skipped.' });
+      return;
+    }
+
+    const key = `mood:${date}:${type.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    moods.push({ date, type });
+  });
+
+  (raw.dayLogs ?? []).forEach((record) => {
+    const log = typeof record.kind === 'string' ? IMPORTED_DAY_LOGS[record.kind as DayLogKind] : undefined;
+    if (!log) {
+      issues.push({ where: record.where, message: `Unknown log "${String(record.kind)}" — skipped.` });
+      return;
+    }
+    const date = parseImportDate(record.date);
+    const entry = isRecord(record.entry) ? record.entry : null;
+    if (!date || !entry || !log.isValid(entry)) {
+      issues.push({ where: record.where, message: `${log.label} entry is missing a date or value — skipped.` });
+      return;
+    }
+    if (date > todayKey) {
+      issues.push({ where: record.where, message: `${log.label} entry is dated in the future — skipped.` });
+      return;
+    }
+
+    const kind = record.kind as DayLogKind;
+    const key = `day_log:${kind}:${date}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    dayLogs.push({ kind, date, entry: { ...entry, date } });
+  });
+
+  return {
+    source: raw.source,
+    periods: periods.sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    symptoms: symptoms.sort((a, b) => a.date.localeCompare(b.date)),
+    moods: moods.sort((a, b) => a.date.localeCompare(b.date)),
+    dayLogs: dayLogs.sort((a, b) => a.date.localeCompare(b.date)),
+    issues,
+    unmapped: Object.entries(raw.unmapped ?? {})
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Read a file produced by this app's export (JSON bundle or CSV). Throws with
+ * a user-facing message when the file isn't one of ours.
+ */
+export function parseAppExport(text: string): RawImportData {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(trimmed);
+    } catch {
+      throw new Error('This file is not valid JSON.');
+    }
+    if (!isRecord(bundle) || bundle.format !== EXPORT_FORMAT) {
+      throw new Error('This JSON file was not exported from Peri Peri.');
+    }
+    if (typeof bundle.version !== 'number' || bundle.version > EXPORT_VERSION) {
+      throw new Error('This export was made by a newer version of the app. Please update and try again.');
+    }
+    // Anything that isn't an object is kept as an empty record so validation reports it
+    const list = (value: unknown): Record<string, unknown>[] =>
+      Array.isArray(value) ? value.map((item) => (isRecord(item) ? item : {})) : [];
+    return {
+      source: 'Peri Peri (JSON)',
+      periods: list(bundle.periods).map((period, index) => ({ where: `periods[${index}]`, ...period })),
+      symptoms: list(bundle.symptoms).map((symptom, index) => ({ where: `symptoms[${index}]`, ...symptom })),
+      moods: list(bundle.moods).map((mood, index) => ({ where: `moods[${index}]`, ...mood })),
+      dayLogs: Object.entries(isRecord(bundle.dayLogs) ? bundle.dayLogs : {}).flatMap(([kind, entries]) =>
+        list(entries).map((entry, index) => ({ where: `dayLogs.${kind}[${index}]`, kind, date: entry.date, entry }))
+      ),
+    };
+  }
+
+  const records = parseCsvRecords(text);
+  const meta = records.find((record) => record.record_type === 'meta');
+  if (!meta || !meta.value?.startsWith(`${EXPORT_FORMAT}@`)) {
+    throw new Error('This CSV file was not exported from Peri Peri.');
+  }
+  if (Number(meta.value.split('@')[1]) > EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of the app. Please update and try again.');
+  }
+
+  const data: RawImportData = {
+    source: 'Peri Peri (CSV)',
+    periods: [],
+    symptoms: [],
+    moods: [],
+    dayLogs: [],
+    issues: [],
+  };
+  records.forEach((record, index) => {
+    // +2: one for the header row, one because rows are numbered from 1
+    const where = `Row ${index + 2}`;
+    switch (record.record_type) {
+      case 'period':
+        data.periods.push({ where, startDate: record.start_date, endDate: record.end_date, flowLevel: record.flow_level });
+        break;
+      case 'symptom':
+        data.symptoms.push({ where, date: record.date, type: record.type, severity: record.severity });
+        break;
+      case 'mood':
+        data.moods.push({ where, date: record.date, type: record.type });
+        break;
+      case 'day_log': {
+        let entry: unknown = null;
+        try {
+          entry = JSON.parse(record.value || '{}');
+        } catch {
+          // Reported as a missing value by validateImportData
+        }
+        data.dayLogs!.push({ where, kind: record.type, date: record.date, entry });
+        break;
+      }
+      case 'meta':
+      case 'setting':
+        break;
+      default:
+        data.issues!.push({ where, message: `Unknown record type "${record.record_type}" — skipped.` });
+    }
+  });
+  return data;
+}
+
+/**
+ * Compare a validated bundle with what's already logged: periods that overlap
+ * an existing period, symptoms/moods of the same type on the same day, and
+ * day log entries for a day that already has one, are left out.
+ */
+export function planImport(
+  bundle: ImportBundle,
+  existing: {
+    periods: Period[];
+    symptoms: Symptom[];
+    moods: Mood[];
+    dayLogs?: Partial<Record<DayLogKind, DayLogEntry[]>>;
+  }
+): ImportPlan {
+  const existingIntervals = existing.periods.map((period) =>
+    periodInterval(
+      parseImportDate(period.startDate) ?? '1970-01-01',
+      period.endDate ? parseImportDate(period.endDate) : null
+    )
+  );
+  const accepted: [CalendarDate, CalendarDate][] = [];
+  const periods = bundle.periods.filter((period) => {
+    const interval = periodInterval(period.startDate, period.endDate);
+    if ([...existingIntervals, ...accepted].some((other) => overlaps(interval, other))) return false;
+    accepted.push(interval);
+    return true;
+  });
+
+  const logKey = (log: { date: string; type: string }) => `${parseImportDate(log.date)}:${log.type.trim().toLowerCase()}`;
+  const existingSymptoms = new Set(existing.symptoms.map(logKey));
+  const existingMoods = new Set(existing.moods.map(logKey));
+  const symptoms = bundle.symptoms.filter((symptom) => !existingSymptoms.has(logKey(symptom)));
+  const moods = bundle.moods.filter((mood) => !existingMoods.has(logKey(mood)));
+
+  const existingDayLogs = new Set(
+    Object.entries(existing.dayLogs ?? {}).flatMap(([kind, entries]) => entries.map((entry) => `${kind}:${entry.date}`))
+  );
+  const dayLogs = bundle.dayLogs.filter((log) => !existingDayLogs.has(`${log.kind}:${log.date}`));
+
+  return {
+    ...bundle,
+    periods,
+    symptoms,
+    moods,
+    dayLogs,
+    duplicates: {
+      periods: bundle.periods.length - periods.length,
+      symptoms: bundle.symptoms.length - symptoms.length,
+      moods: bundle.moods.length - moods.length,
+      dayLogs: bundle.dayLogs.length - dayLogs.length,
+    },
+  };
+}
+
+/**
+ * Create every planned record through the regular API functions and log
+ * stores (so offline imports queue in the outbox like any other write). One failure doesn't stop
+ * the rest; failures are returned with a friendly message.
+ */
+export async function runImport(
+  plan: ImportPlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  const toIso = (key: string) => toLocalDate(toCalendarDate(key)).toISOString();
+  const tasks: { where: string; run: () => Promise<unknown> }[] = [
+    ...plan.periods.map((period) => ({
+      where: `Period starting ${period.startDate}`,
+      run: () =>
+        createPeriod({
+          startDate: toIso(period.startDate),
+          endDate: period.endDate ? toIso(period.endDate) : null,
+          flowLevel: period.flowLevel,
+        }),
+    })),
+    ...plan.symptoms.map((symptom) => ({
+      where: `Symptom on ${symptom.date}`,
+      run: () => createSymptom({ date: toIso(symptom.date), type: symptom.type, severity: symptom.severity }),
+    })),
+    ...plan.moods.map((mood) => ({
+      where: `Mood on ${mood.date}`,
+      run: () => createMood({ date: toIso(mood.date), type: mood.type }),
+    })),
+    ...plan.dayLogs.map((log) => ({
+      where: `${IMPORTED_DAY_LOGS[log.kind]?.label ?? log.kind} on ${log.date}`,
+      run: async () => {
+        const store = getDayLogStore(log.kind);
+        if (!store) throw new Error('This log is not available in this version of the app.');
+        await store.setDay(log.date, log.entry);
+      },
+    })),
+  ];
+
+  const failed: ImportIssue[] = [];
+  let created = 0;
+  onProgress?.(0, tasks.length);
+  for (let i = 0; i < tasks.length; i++) {
+    try {
+      await tasks[i].run();
+      created += 1;
+    } catch (error) {
+      failed.push({ where: tasks[i].where, message: buildFriendlyMessage(error) });
+    }
+    onProgress?.(i + 1, tasks.length);
+  }
+  return { created, failed };
+}
@@ -0,0 +1,193 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import { DAY_LOG_SYNC_ENABLED, DayLogKind, getCacheScope, getDayLogs, queueDayLog } from './api';
+import { getPendingOutboxItems, isNetworkError } from './outbox';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** At most one entry per day */
+export interface DayLogEntry {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+}
+
+/**
+ * An in-memory copy of one per-day log for the current scope, persisted to
+ * AsyncStorage under `<prefix><scope>`. The snapshot is kept so synchronous
+ * code (predictions, reminders) can read it; it's empty until `load` resolves.
+ * Logs created with a `kind` are also queued for the server while
+ * `DAY_LOG_SYNC_ENABLED` is on (see `queueDayLog`).
+ */
+export interface DayLogStore<T extends DayLogEntry> {
+  /** Entries for the current scope, oldest first */
+  getSnapshot(): T[];
+  /** Subscribe to changes (`useSyncExternalStore` compatible) */
+  subscribe(listener: () => void): () => void;
+  /** Read the stored entries for the current scope. Only hits storage once per scope. */
+  load(): Promise<void>;
+  /**
+   * Set the entry for a day, or clear the day with `null`. Saved on the device
+   * first; synced logs then queue the change in the outbox.
+   */
+  setDay(date: string, entry: T | null): Promise<void>;
+  /** Replace every entry for the current scope */
+  replaceAll(entries: T[]): Promise<void>;
+  /** Replace the local copy with the server's, keeping queued writes. No-op for local-only logs or while sync is off. */
+  sync(): Promise<void>;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const stores = new Map<DayLogKind, DayLogStore<any>>();
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Create the store behind a per-day log. `event` is emitted on the
+ * DeviceEventEmitter after every change and `name` prefixes its warnings.
+ * Pass `kind` to register it for `getDayLogStore`, export and `syncDayLogs`.
+ */
+export function createDayLogStore<T extends DayLogEntry>(
+  prefix: string,
+  event: string,
+  name: string,
+  kind?: DayLogKind
+): DayLogStore<T> {
+  const EMPTY_ENTRIES: T[] = [];
+  let loadedScope: string | null = null;
+  let entries: T[] = EMPTY_ENTRIES;
+  // Keyed by scope: a load for one scope must never satisfy a load for another
+  let loading: { scope: string; promise: Promise<void> } | null = null;
+  const listeners = new Set<() => void>();
+
+  const storageKey = (scope: string) => `${prefix}${scope}`;
+  // Set once this scope's local entries have been offered to the server
+  const uploadedKey = (scope: string) => `${prefix}uploaded::${scope}`;
+  const sortByDate = (list: T[]) => [...list].sort((a, b) => a.date.localeCompare(b.date));
+
+  const notify = () => {
+    listeners.forEach((listener) => listener());
+    DeviceEventEmitter.emit(event);
+  };
+
+  const write = async (scope: string, next: T[]) => {
+    // Whatever a load still in flight for this scope reads is older than this
+    if (loading?.scope === scope) loading = null;
+    entries = sortByDate(next);
+    loadedScope = scope;
+    notify();
+    try {
+      await AsyncStorage.setItem(storageKey(scope), JSON.stringify(entries));
+    } catch (error) {
+      console.warn(`[${name}] Failed to save entries:`, error);
+    }
+  };
+
+  const getSnapshot = () => (loadedScope === getCacheScope() ? entries : EMPTY_ENTRIES);
+
+  const load = (): Promise<void> => {
+    const scope = getCacheScope();
+    if (loadedScope === scope) return Promise.resolve();
+    if (loading?.scope === scope) return loading.promise;
+
+    const promise = (async () => {
+      let stored: T[] = [];
+      try {
+        const raw = await AsyncStorage.getItem(storageKey(scope));
+        const parsed = raw ? JSON.parse(raw) : [];
+        // Older versions stored an object keyed by day
+        const list = Array.isArray(parsed) ? parsed : parsed && typeof parsed === 'object' ? Object.values(parsed) : [];
+        stored = sortByDate(list as T[]);
+      } catch (error) {
+        console.warn(`[${name}] Failed to read entries:`, error);
+      }
+      // The scope changed while we were reading, or a write made this read stale
+      if (loading?.scope !== scope) return;
+      loading = null;
+      entries = stored;
+      loadedScope = scope;
+      notify();
+    })();
+    loading = { scope, promise };
+    return promise;
+  };
+
+  /**
+   * Entries from before the log was synced only exist on this device; send
+   * them up once per scope so the first pull doesn't drop them.
+   */
+  const uploadLocalOnly = async (scope: string, remote: T[]): Promise<T[]> => {
+    if (!kind || (await AsyncStorage.getItem(uploadedKey(scope)))) return [];
+    const remoteDays = new Set(remote.map((entry) => entry.date));
+    const localOnly = getSnapshot().filter((entry) => !remoteDays.has(entry.date));
+    for (const entry of localOnly) {
+      await queueDayLog(kind, entry.date, entry);
+    }
+    await AsyncStorage.setItem(uploadedKey(scope), new Date().toISOString());
+    return localOnly;
+  };
+
+  const store: DayLogStore<T> = {
+    getSnapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load,
+    async setDay(date, entry) {
+      await load();
+      const others = getSnapshot().filter((item) => item.date !== date);
+      await write(getCacheScope(), entry ? [...others, entry] : others);
+      if (kind && DAY_LOG_SYNC_ENABLED) {
+        try {
+          await queueDayLog(kind, date, entry);
+        } catch (error) {
+          console.warn(`[${name}] Failed to queue upload:`, error);
+        }
+      }
+    },
+    async replaceAll(next) {
+      await write(getCacheScope(), next);
+    },
+    async sync() {
+      if (!kind || !DAY_LOG_SYNC_ENABLED) return;
+      const scope = getCacheScope();
+      await load();
+      const remote = await getDayLogs<T>(kind);
+      const localOnly = await uploadLocalOnly(scope, remote);
+      const pending = (await getPendingOutboxItems(scope)).filter(
+        (item) => item.entity === 'day_log' && item.targetId.startsWith(`${kind}/`)
+      );
+      // The user switched view mode mid-pull; these entries belong to the old scope
+      if (getCacheScope() !== scope) return;
+
+      const byDay = new Map([...remote, ...localOnly].map((entry) => [entry.date, entry]));
+      pending.forEach((item) => {
+        const date = item.targetId.slice(kind.length + 1);
+        if (item.operation === 'delete') byDay.delete(date);
+        else byDay.set(date, { ...(item.payload as T), date });
+      });
+      await write(scope, Array.from(byDay.values()));
+    },
+  };
+  if (kind) stores.set(kind, store);
+  return store;
+}
+
+/** The store for a log, once its module has been loaded */
+export function getDayLogStore(kind: DayLogKind): DayLogStore<DayLogEntry> | undefined {
+  return stores.get(kind);
+}
+
+/** Pull every synced log for the current scope. Failures are logged, not thrown. */
+export async function syncDayLogs(): Promise<void> {
+  if (!DAY_LOG_SYNC_ENABLED) return;
+  const registered = Array.from(stores.entries());
+  const results = await Promise.allSettled(registered.map(([, store]) => store.sync()));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected' && !isNetworkError(result.reason)) {
+      console.warn(`[DayLogStore] Sync failed for ${registered[index][0]}:`, result.reason?.message ?? result.reason);
+    }
+  });
+}
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Symptom } from './api';
+import { calendarDate, formatDayKey, fromLocalDate } from './calendarDate';
+import { estimateFertileWindow, FertileWindowEstimate, FertilitySignals, hasObservedFertilitySignals } from './fertileWindow';
+import type { LHResult, LHTest } from './lhTestLog';
+
+const TODAY = calendarDate(2026, 4, 20);
+const CYCLE_START = new Date(2026, 3, 1);
+const CALENDAR_OVULATION = new Date(2026, 3, 15);
+
+/** Stored dates are local midnight as ISO strings, as the app writes them */
+function mucus(day: number, type: string): Symptom {
+  const date = new Date(2026, 3, day).toISOString();
+  return { id: `${type}-${day}`, date, type, severity: 3, createdAt: date };
+}
+
+function lhTest(date: string, result: LHResult): LHTest {
+  return { date, result, ratio: null, updatedAt: `${date}T08:00:00.000Z` };
+}
+
+function estimate(signals: Partial<FertilitySignals> = {}): FertileWindowEstimate {
+  return estimateFertileWindow(CYCLE_START, CALENDAR_OVULATION, { symptoms: [], lhTests: [], ...signals }, TODAY);
+}
+
+const dayKey = (date: Date) => formatDayKey(fromLocalDate(date));
+
+/** Ovulation, window start and window end as day keys */
+const days = (result: FertileWindowEstimate) => [result.ovulationDate, result.start, result.end].map(dayKey);
+const kinds = (result: FertileWindowEstimate) => result.signals.map((entry) => entry.kind);
+
+describe('estimateFertileWindow', () => {
+  it('falls back to the calendar when nothing was logged this cycle', () => {
+    const result = estimate({ lhTests: [lhTest('2026-03-30', 'positive')] });
+    assert.deepEqual(days(result), ['2026-04-15', '2026-04-10', '2026-04-15']);
+    assert.deepEqual(kinds(result), ['calendar']);
+    assert.equal(result.end.getHours(), 23);
+  });
+
+  it('puts ovulation the day after the first positive LH test', () => {
+    const result = estimate({
+      lhTests: [lhTest('2026-04-13', 'peak'), lhTest('2026-04-11', 'negative'), lhTest('2026-04-12', 'positive')],
+    });
+    assert.deepEqual(days(result), ['2026-04-13', '2026-04-08', '2026-04-13']);
+    assert.deepEqual(
+      result.signals.map((entry) => entry.detail),
+      ['Positive LH test on Apr 12']
+    );
+  });
+
+  it('uses the peak mucus day once drier mucus follows, opening the window at the first fertile day', () => {
+    const result = estimate({
+      symptoms: [mucus(6, 'watery'), mucus(12, 'creamy'), mucus(12, 'egg_white'), mucus(14, 'creamy')],
+    });
+    assert.deepEqual(days(result), ['2026-04-12', '2026-04-06', '2026-04-12']);
+    assert.deepEqual(kinds(result), ['cervical_mucus']);
+  });
+
+  it('keeps the window open through today while fertile mucus has not peaked', () => {
+    const result = estimate({ symptoms: [mucus(9, 'egg_white')] });
+    assert.deepEqual(days(result), ['2026-04-15', '2026-04-09', '2026-04-20']);
+    assert.deepEqual(kinds(result), ['calendar', 'cervical_mucus']);
+    assert.equal(result.signals[1].detail, 'Fertile mucus since Apr 9');
+  });
+
+  it("prefers this cycle's confirmed temperature shift over an LH surge", () => {
+    const result = estimate({
+      lhTests: [lhTest('2026-04-12', 'positive')],
+      confirmedOvulations: [new Date(2026, 2, 14), new Date(2026, 3, 16)],
+    });
+    assert.deepEqual(days(result), ['2026-04-16', '2026-04-11', '2026-04-16']);
+    assert.deepEqual(kinds(result), ['temperature', 'lh_test']);
+  });
+});
+
+describe('hasObservedFertilitySignals', () => {
+  it('counts logged observations but not forecasts', () => {
+    assert.equal(hasObservedFertilitySignals(estimate().signals), false);
+    assert.equal(hasObservedFertilitySignals(estimate({ symptoms: [mucus(9, 'egg_white')] }).signals), true);
+    assert.equal(hasObservedFertilitySignals([{ kind: 'ai_forecast', date: CALENDAR_OVULATION, detail: '' }]), false);
+    assert.equal(hasObservedFertilitySignals(undefined), false);
+  });
+});
@@ -0,0 +1,179 @@
+import { Symptom } from './api';
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  formatDayKey,
+  fromApiDate,
+  fromLocalDate,
+  getToday,
+  isWithin,
+  parseDayKey,
+  toLocalDate,
+} from './calendarDate';
+import { isPositiveLHTest, LHTest } from './lhTestLog';
+import { normalizeSymptomType } from './symptomTriage';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const FERTILE_DAYS_BEFORE_OVULATION = 5;  // sperm survive up to five days
+const LH_TO_OVULATION_DAYS = 1;           // ovulation follows the start of the surge by 24–36 hours
+
+// Egg-white or watery mucus marks fertile days; a drier day logged after them means the peak has passed
+const FERTILE_MUCUS = ['egg_white', 'watery'];
+const DRY_MUCUS = ['creamy', 'sticky', 'no_discharge'];
+
+export const FERTILE_SIGNAL_LABELS: Record<FertileSignalKind, string> = {
+  calendar: 'Calendar',
+  ai_forecast: 'AI forecast',
+  cervical_mucus: 'Mucus',
+  lh_test: 'LH test',
+  temperature: 'Temperature',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * What placed the fertile window: `calendar` — 14 days before the predicted
+ * period; `ai_forecast` — the AI prediction; the rest are logged observations.
+ */
+export type FertileSignalKind = 'calendar' | 'ai_forecast' | 'cervical_mucus' | 'lh_test' | 'temperature';
+
+export interface FertileWindowSignal {
+  kind: FertileSignalKind;
+  /** Day the observation was made, or the estimated ovulation for `calendar`/`ai_forecast` */
+  date: Date;
+  /** e.g. "Positive LH test on Mar 12" */
+  detail: string;
+}
+
+export interface FertilitySignals {
+  symptoms: Symptom[];
+  lhTests: LHTest[];
+  /** From `findConfirmedOvulations` */
+  confirmedOvulations?: Date[];
+}
+
+export interface FertileWindowEstimate {
+  ovulationDate: Date;
+  start: Date;
+  end: Date;
+  /** Strongest first */
+  signals: FertileWindowSignal[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+const formatShort = (day: CalendarDate) =>
+  toLocalDate(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+function signal(kind: FertileSignalKind, day: CalendarDate, detail: string): FertileWindowSignal {
+  return { kind, date: toLocalDate(day), detail };
+}
+
+function earliest(a: CalendarDate, b: CalendarDate): CalendarDate {
+  return compareDates(a, b) <= 0 ? a : b;
+}
+
+function latest(a: CalendarDate, b: CalendarDate): CalendarDate {
+  return compareDates(a, b) >= 0 ? a : b;
+}
+
+/**
+ * The most fertile mucus logged on each day of the cycle, in date order.
+ * Days with both kinds count as fertile.
+ */
+function mucusByDay(symptoms: Symptom[], start: CalendarDate, end: CalendarDate) {
+  const days = new Map<string, { day: CalendarDate; fertile: boolean }>();
+  symptoms.forEach((symptom) => {
+    const type = normalizeSymptomType(symptom.type);
+    const fertile = FERTILE_MUCUS.includes(type);
+    if (!fertile && !DRY_MUCUS.includes(type)) return;
+    const day = fromApiDate(symptom.date);
+    if (!day || !isWithin(day, start, end)) return;
+    const key = formatDayKey(day);
+    days.set(key, { day, fertile: fertile || !!days.get(key)?.fertile });
+  });
+  return [...days.values()].sort((a, b) => compareDates(a.day, b.day));
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Fertile window for the cycle that started on `cycleStart`. Ovulation comes
+ * from the strongest signal logged this cycle: a confirmed temperature shift,
+ * then the day after the first positive LH test, then the peak mucus day
+ * (the last egg-white or watery day, once a drier day has been logged after
+ * it), and otherwise the calendar estimate. Fertile mucus seen earlier than
+ * five days before ovulation opens the window early, and fertile mucus with
+ * no peak yet keeps it open through today.
+ */
+export function estimateFertileWindow(
+  cycleStart: Date,
+  calendarOvulation: Date,
+  signals: FertilitySignals,
+  today: CalendarDate = getToday()
+): FertileWindowEstimate {
+  const start = fromLocalDate(cycleStart);
+  const inCycle = (day: CalendarDate | null): day is CalendarDate => !!day && isWithin(day, start, today);
+
+  const observed: FertileWindowSignal[] = [];
+  let ovulation: CalendarDate | null = null;
+
+  const temperature = (signals.confirmedOvulations ?? []).map(fromLocalDate).filter(inCycle).pop();
+  if (temperature) {
+    ovulation = temperature;
+    observed.push(signal('temperature', temperature, `Temperature shift confirmed ovulation around ${formatShort(temperature)}`));
+  }
+
+  const surge = signals.lhTests
+    .filter(isPositiveLHTest)
+    .map((test) => ({ test, day: parseDayKey(test.date) }))
+    .filter((entry): entry is { test: LHTest; day: CalendarDate } => inCycle(entry.day))
+    .sort((a, b) => compareDates(a.day, b.day))[0];
+  if (surge) {
+    ovulation ??= addDays(surge.day, LH_TO_OVULATION_DAYS);
+    const label = surge.test.result === 'peak' ? 'Peak' : 'Positive';
+    observed.push(signal('lh_test', surge.day, `${label} LH test on ${formatShort(surge.day)}`));
+  }
+
+  const mucus = mucusByDay(signals.symptoms, start, today);
+  const fertileDays = mucus.filter((entry) => entry.fertile);
+  let firstFertile: CalendarDate | null = null;
+  let peak: CalendarDate | null = null;
+  if (fertileDays.length) {
+    firstFertile = fertileDays[0].day;
+    const last = fertileDays[fertileDays.length - 1].day;
+    const driedUp = mucus.some((entry) => !entry.fertile && compareDates(entry.day, last) > 0);
+    if (driedUp) {
+      peak = last;
+      ovulation ??= peak;
+      observed.push(signal('cervical_mucus', peak, `Peak fertile mucus on ${formatShort(peak)}`));
+    } else {
+      observed.push(signal('cervical_mucus', firstFertile, `Fertile mucus since ${formatShort(firstFertile)}`));
+    }
+  }
+
+  const fromCalendar = !ovulation;
+  const ovulationDay = ovulation ?? fromLocalDate(calendarOvulation);
+  let windowStart = addDays(ovulationDay, -FERTILE_DAYS_BEFORE_OVULATION);
+  let windowEnd = ovulationDay;
+  if (firstFertile) windowStart = earliest(windowStart, firstFertile);
+  if (peak) windowEnd = latest(windowEnd, peak);
+  // Fertile mucus with nothing yet pinning ovulation down: the window is open now
+  if (firstFertile && !peak && fromCalendar) windowEnd = latest(windowEnd, today);
+
+  const signalsUsed = fromCalendar
+    ? [signal('calendar', ovulationDay, `Calendar estimate: ovulation around ${formatShort(ovulationDay)}`), ...observed]
+    : observed;
+
+  return {
+    ovulationDate: toLocalDate(ovulationDay),
+    start: toLocalDate(windowStart),
+    end: toLocalDate(windowEnd, true),
+    signals: signalsUsed,
+  };
+}
+
+/** Whether anything the user logged, rather than the calendar alone, placed the window */
+export function hasObservedFertilitySignals(signals: FertileWindowSignal[] | undefined): boolean {
+  return !!signals?.some((entry) => entry.kind !== 'calendar' && entry.kind !== 'ai_forecast');
+}
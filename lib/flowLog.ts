@@ -0,0 +1,127 @@
+import type { Period } from './api';
+import { addDays, daysBetween, formatDayKey, fromLocalDate, getNow, toLocalDate } from './calendarDate';
+import { createDayLogStore } from './dayLogStore';
+import { getPeriodDays, periodStartDay } from './periodRange';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const FLOW_KEY_PREFIX = 'flow_days_v1::';
+
+export const FLOW_INTENSITIES = ['spotting', 'light', 'medium', 'heavy', 'very_heavy'] as const;
+
+export const FLOW_INTENSITY_LABELS: Record<FlowIntensity, string> = {
+  spotting: 'Spotting',
+  light: 'Light',
+  medium: 'Medium',
+  heavy: 'Heavy',
+  very_heavy: 'Very heavy',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type FlowIntensity = (typeof FLOW_INTENSITIES)[number];
+
+export interface FlowDay {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  intensity: FlowIntensity;
+  updatedAt: string;
+}
+
+export interface CycleFlowSummary {
+  periodId: string;
+  startDate: Date;
+  /** Days inside the period with a flow entry */
+  loggedDays: number;
+  heaviest: FlowIntensity | null;
+  heaviestDate: Date | null;
+  /** Days logged as heavy or very heavy */
+  heavyDays: number;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const store = createDayLogStore<FlowDay>(FLOW_KEY_PREFIX, 'flowDaysUpdated', 'FlowLog', 'flow');
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** 1 (spotting) to 5 (very heavy), for grading and comparisons */
+export function flowWeight(intensity: FlowIntensity): number {
+  return FLOW_INTENSITIES.indexOf(intensity) + 1;
+}
+
+export function isHeavyFlow(intensity: FlowIntensity): boolean {
+  return intensity === 'heavy' || intensity === 'very_heavy';
+}
+
+/** The coarser per-period level the API stores */
+export function toPeriodFlowLevel(intensity: FlowIntensity): NonNullable<Period['flowLevel']> {
+  if (isHeavyFlow(intensity)) return 'heavy';
+  return intensity === 'medium' ? 'medium' : 'light';
+}
+
+/**
+ * Flow entries for the current scope, oldest first, kept in memory for
+ * synchronous readers. Empty until `loadFlowDays` resolves.
+ */
+export function getFlowDaysSnapshot(): FlowDay[] {
+  return store.getSnapshot();
+}
+
+/** Subscribe to flow changes (`useSyncExternalStore` compatible) */
+export function subscribeToFlowDays(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+/** Read the stored flow entries for the current scope. Only hits storage once per scope. */
+export function loadFlowDays(): Promise<void> {
+  return store.load();
+}
+
+/** Flow entries for the current user and view mode, oldest first */
+export async function listFlowDays(): Promise<FlowDay[]> {
+  await store.load();
+  return store.getSnapshot();
+}
+
+/** Set the flow for one day, or clear it with `null` */
+export async function setFlowDay(date: Date, intensity: FlowIntensity | null): Promise<void> {
+  const key = formatDayKey(fromLocalDate(date));
+  await store.setDay(key, intensity ? { date: key, intensity, updatedAt: getNow().toISOString() } : null);
+}
+
+/**
+ * Heaviest day and heavy-day count for each period, newest first. Open
+ * periods cover the fallback length, matching how the calendar draws them.
+ */
+export function summarizeCycleFlow(
+  periods: Period[],
+  flowDays: FlowDay[],
+  fallbackPeriodLength = 5
+): CycleFlowSummary[] {
+  const byDay = new Map(flowDays.map((day) => [day.date, day.intensity]));
+
+  return [...periods]
+    .sort((a, b) => daysBetween(periodStartDay(a), periodStartDay(b)))
+    .map((period) => {
+      const { start, length } = getPeriodDays(period, fallbackPeriodLength);
+
+      const summary: CycleFlowSummary = {
+        periodId: period.id,
+        startDate: toLocalDate(start),
+        loggedDays: 0,
+        heaviest: null,
+        heaviestDate: null,
+        heavyDays: 0,
+      };
+      for (let offset = 0; offset < length; offset++) {
+        const day = addDays(start, offset);
+        const intensity = byDay.get(formatDayKey(day));
+        if (!intensity) continue;
+        summary.loggedDays += 1;
+        if (isHeavyFlow(intensity)) summary.heavyDays += 1;
+        if (!summary.heaviest || flowWeight(intensity) > flowWeight(summary.heaviest)) {
+          summary.heaviest = intensity;
+          summary.heaviestDate = toLocalDate(day);
+        }
+      }
+      return summary;
+    });
+}
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildExportBundle, serializeBundleCsv } from './dataExport';
+import { RawImportData } from './dataImport';
+import { parseImportFile } from './importAdapters';
+
+const periodsOf = (data: RawImportData) =>
+  data.periods.map(({ startDate, endDate, flowLevel }) => ({ startDate, endDate, flowLevel }));
+
+function appleRecord(type: string, value: string, date: string, cycleStart = false): string {
+  const open = `<Record type="HKCategoryTypeIdentifier${type}" sourceName="Health" value="${value}" startDate="${date} 08:00:00 -0500" endDate="${date} 08:00:00 -0500"`;
+  return cycleStart ? `${open}>\n  <MetadataEntry key="HKMenstrualCycleStart" value="1"/>\n</Record>` : `${open}/>`;
+}
+
+describe('Clue import', () => {
+  const csv = [
+    '\uFEFFday,period,pain,emotions',
+    '2026-05-01,medium,"cramps, headache",happy',
+    '2026-05-02,heavy,,',
+    // One day without flow doesn't end the period
+    '2026-05-04,light,,',
+    // Two days without flow does
+    '2026-05-07,light,,"sad, jealous"',
+    'someday,light,,',
+  ].join('\n');
+
+  it('joins flow days into periods, bridging a single day without flow', () => {
+    const data = parseImportFile(csv, 'export.csv');
+    assert.equal(data.source, 'Clue');
+    assert.deepEqual(periodsOf(data), [
+      { startDate: '2026-05-01', endDate: '2026-05-04', flowLevel: 'heavy' },
+      { startDate: '2026-05-07', endDate: '2026-05-07', flowLevel: 'light' },
+    ]);
+  });
+
+  it('maps options, notes the ones without an equivalent and reports unreadable rows', () => {
+    const data = parseImportFile(csv, 'export.csv');
+    assert.deepEqual(
+      data.symptoms.map((symptom) => `${symptom.date} ${symptom.type}`),
+      ['2026-05-01 cramps', '2026-05-01 headache']
+    );
+    assert.deepEqual(
+      data.moods.map((mood) => `${mood.date} ${mood.type}`),
+      ['2026-05-01 happy', '2026-05-07 sad']
+    );
+    assert.deepEqual(data.unmapped, { 'emotions: jealous': 1 });
+    assert.deepEqual(data.issues, [{ where: 'Row 6', message: 'Row has no readable date — skipped.' }]);
+  });
+});
+
+describe('Flo import', () => {
+  it('reads US-style dates, flow, spotting and labelled symptoms and moods', () => {
+    const csv = [
+      'Date,Period,Symptoms,Moods,Discharge',
+      '5/1/2026,Light,Cramps,Calm,',
+      '5/2/2026,Heavy,"Headache; Hiccups",,',
+      '5/3/2026,Spotting,,,Egg white',
+    ].join('\r\n');
+    const data = parseImportFile(csv, 'flo_data.csv');
+
+    assert.equal(data.source, 'Flo');
+    assert.deepEqual(periodsOf(data), [{ startDate: '2026-05-01', endDate: '2026-05-02', flowLevel: 'heavy' }]);
+    assert.deepEqual(
+      data.symptoms.map((symptom) => `${symptom.date} ${symptom.type}`),
+      ['2026-05-01 cramps', '2026-05-02 headache', '2026-05-03 spotting', '2026-05-03 egg_white']
+    );
+    assert.deepEqual(data.moods, [{ where: 'Row 2', date: '2026-05-01', type: 'calm' }]);
+    assert.deepEqual(data.unmapped, { 'Symptom: Hiccups': 1 });
+  });
+});
+
+describe('Apple Health import', () => {
+  it('starts a new period where Health marks a cycle start, even on back-to-back days', () => {
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<HealthData locale="en_US">',
+      appleRecord('MenstrualFlow', 'HKCategoryValueMenstrualFlowMedium', '2026-04-01', true),
+      appleRecord('MenstrualFlow', 'HKCategoryValueMenstrualFlowHeavy', '2026-04-02'),
+      appleRecord('MenstrualFlow', 'HKCategoryValueMenstrualFlowNone', '2026-04-03'),
+      appleRecord('MenstrualFlow', 'HKCategoryValueMenstrualFlowLight', '2026-04-04', true),
+      appleRecord('AbdominalCramps', 'HKCategoryValueSeveritySevere', '2026-04-01'),
+      appleRecord('Headache', 'HKCategoryValueSeverityNotPresent', '2026-04-02'),
+      appleRecord('CervicalMucusQuality', 'HKCategoryValueCervicalMucusQualityEggWhite', '2026-04-15'),
+      appleRecord('MoodChanges', 'HKCategoryValueSeverityMild', '2026-04-16'),
+      appleRecord('SexualActivity', 'HKCategoryValueNotApplicable', '2026-04-16'),
+      '<Record type="HKQuantityTypeIdentifierStepCount" value="1000" startDate="2026-04-01 08:00:00 -0500"/>',
+      '</HealthData>',
+    ].join('\n');
+    const data = parseImportFile(xml, 'export.xml');
+
+    assert.equal(data.source, 'Apple Health');
+    assert.deepEqual(periodsOf(data), [
+      { startDate: '2026-04-01', endDate: '2026-04-02', flowLevel: 'heavy' },
+      { startDate: '2026-04-04', endDate: '2026-04-04', flowLevel: 'light' },
+    ]);
+    assert.deepEqual(
+      data.symptoms.map((symptom) => `${symptom.date} ${symptom.type} ${symptom.severity}`),
+      ['2026-04-01 cramps 5', '2026-04-15 egg_white 3']
+    );
+    assert.deepEqual(data.moods, [{ where: 'Record 8', date: '2026-04-16', type: 'mood_swings' }]);
+    assert.deepEqual(data.unmapped, { 'Sexual Activity': 1 });
+  });
+});
+
+describe('parseImportFile', () => {
+  it("recognises the app's own export before any tracker", () => {
+    const bundle = buildExportBundle({ periods: [], symptoms: [], moods: [], settings: null });
+    assert.equal(parseImportFile(serializeBundleCsv(bundle), 'clue-backup.csv').source, 'Peri Peri (CSV)');
+  });
+
+  it('refuses files it does not recognise', () => {
+    assert.throws(() => parseImportFile('name,age\nAda,36\n', 'people.csv'), /don’t recognise this file/);
+  });
+});
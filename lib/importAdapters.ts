@@ -0,0 +1,390 @@
+import { Period } from './api';
+import { daysBetween, parseDayKey } from './calendarDate';
+import { parseCsvRecords } from './csv';
+import { EXPORT_FORMAT } from './dataExport';
+import { RawImportData, parseAppExport, parseImportDate } from './dataImport';
+import { symptomOptions, moodOptions, SymptomType, MoodType } from './symptomTips';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+type FlowLevel = NonNullable<Period['flowLevel']>;
+
+const FLOW_RANK: Record<FlowLevel, number> = { light: 1, medium: 2, heavy: 3 };
+const MAX_FLOW_GAP_DAYS = 1;         // a single day without flow doesn't end a period
+
+/** What a source value becomes in this app */
+type Mapping =
+  | { symptom: SymptomType }
+  | { mood: MoodType }
+  | { flow: FlowLevel }
+  | { symptom: SymptomType; mood: MoodType };
+
+/**
+ * Clue tracking options, keyed `category.option` as they appear in Clue's CSV
+ * export. Clue uses its own vocabulary, so most options need a hand mapping.
+ */
+const CLUE_VOCABULARY: Record<string, Mapping> = {
+  'period.light': { flow: 'light' },
+  'period.medium': { flow: 'medium' },
+  'period.heavy': { flow: 'heavy' },
+  'period.spotting': { symptom: 'spotting' },
+  'pain.cramps': { symptom: 'cramps' },
+  'pain.headache': { symptom: 'headache' },
+  'pain.tender_breasts': { symptom: 'tender_breasts' },
+  'emotions.happy': { mood: 'happy' },
+  'emotions.sensitive': { mood: 'mood_swings' },
+  'emotions.sad': { mood: 'sad' },
+  'emotions.pms': { mood: 'mood_swings' },
+  'energy.energized': { mood: 'energetic' },
+  'energy.high_energy': { mood: 'energetic' },
+  'energy.low_energy': { symptom: 'fatigue', mood: 'low_energy' },
+  'energy.exhausted': { symptom: 'fatigue', mood: 'low_energy' },
+  'mental.calm': { mood: 'calm' },
+  'mental.stressed': { mood: 'anxious' },
+  'digestion.bloated': { symptom: 'bloating' },
+  'digestion.nauseated': { symptom: 'nausea' },
+  'stool.great': { symptom: 'normal_stool' },
+  'stool.normal': { symptom: 'normal_stool' },
+  'stool.constipated': { symptom: 'constipation' },
+  'stool.diarrhea': { symptom: 'diarrhea' },
+  'fluid.creamy': { symptom: 'creamy' },
+  'fluid.egg_white': { symptom: 'egg_white' },
+  'fluid.sticky': { symptom: 'sticky' },
+  'fluid.watery': { symptom: 'watery' },
+  'fluid.atypical': { symptom: 'unusual' },
+  'skin.acne': { symptom: 'acne' },
+  'sleep.poor': { symptom: 'insomnia' },
+  'craving.sweet': { symptom: 'cravings' },
+  'craving.salty': { symptom: 'cravings' },
+  'craving.carbs': { symptom: 'cravings' },
+  'craving.chocolate': { symptom: 'cravings' },
+};
+
+/** Apple Health category types (minus the `HKCategoryTypeIdentifier` prefix) */
+const APPLE_SYMPTOMS: Record<string, SymptomType> = {
+  AbdominalCramps: 'cramps',
+  Acne: 'acne',
+  AppetiteChanges: 'cravings',
+  Bloating: 'bloating',
+  BreastPain: 'tender_breasts',
+  Chills: 'feeling_cold',
+  Constipation: 'constipation',
+  Diarrhea: 'diarrhea',
+  Dizziness: 'dizziness',
+  Fainting: 'fainting',
+  Fatigue: 'fatigue',
+  HairLoss: 'hair_loss',
+  Headache: 'headache',
+  HotFlashes: 'feeling_hot',
+  IntermenstrualBleeding: 'spotting',
+  LowerBackPain: 'backache',
+  Nausea: 'nausea',
+  PelvicPain: 'abdominal_pain',
+  RapidPoundingOrFlutteringHeartbeat: 'fast_heartbeat',
+  ShortnessOfBreath: 'shortness_of_breath',
+  SleepChanges: 'insomnia',
+  VaginalDryness: 'vaginal_dryness',
+  Vomiting: 'vomiting',
+};
+
+const APPLE_SEVERITY: Record<string, number | null> = {
+  HKCategoryValueSeverityNotPresent: null,
+  HKCategoryValueSeverityMild: 2,
+  HKCategoryValueSeverityModerate: 3,
+  HKCategoryValueSeveritySevere: 5,
+  HKCategoryValueSeverityUnspecified: 3,
+};
+
+const APPLE_FLOW: Record<string, FlowLevel | null> = {
+  HKCategoryValueMenstrualFlowUnspecified: 'medium',
+  HKCategoryValueMenstrualFlowLight: 'light',
+  HKCategoryValueMenstrualFlowMedium: 'medium',
+  HKCategoryValueMenstrualFlowHeavy: 'heavy',
+  HKCategoryValueMenstrualFlowNone: null,
+};
+
+const APPLE_CERVICAL_MUCUS: Record<string, SymptomType> = {
+  HKCategoryValueCervicalMucusQualityDry: 'no_discharge',
+  HKCategoryValueCervicalMucusQualitySticky: 'sticky',
+  HKCategoryValueCervicalMucusQualityCreamy: 'creamy',
+  HKCategoryValueCervicalMucusQualityWatery: 'watery',
+  HKCategoryValueCervicalMucusQualityEggWhite: 'egg_white',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type ImportSourceId = 'peri-peri' | 'clue' | 'flo' | 'apple-health';
+
+export interface ImportAdapter {
+  id: ImportSourceId;
+  label: string;
+  /** Cheap check on the file name and the start of the file */
+  detect: (text: string, filename: string) => boolean;
+  parse: (text: string) => RawImportData;
+}
+
+interface FlowDay {
+  date: string;
+  flow: FlowLevel;
+  /** The source explicitly marked this day as the first of a period */
+  cycleStart?: boolean;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function emptyData(source: string): RawImportData {
+  return { source, periods: [], symptoms: [], moods: [], issues: [], unmapped: {} };
+}
+
+function noteUnmapped(data: RawImportData, value: string): void {
+  data.unmapped![value] = (data.unmapped![value] ?? 0) + 1;
+}
+
+function slug(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Trackers that log flow per day (Clue, Flo, Apple Health) are turned into
+ * periods by joining consecutive flow days; the heaviest day sets the level.
+ */
+function flowDaysToPeriods(days: FlowDay[], data: RawImportData): void {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  let current: { start: string; end: string; flow: FlowLevel } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    data.periods.push({
+      where: `${data.source} period from ${current.start}`,
+      startDate: current.start,
+      endDate: current.end,
+      flowLevel: current.flow,
+    });
+  };
+
+  for (const day of sorted) {
+    // Dates here came through parseImportDate, so they are valid day keys
+    const continues =
+      current && !day.cycleStart && daysBetween(parseDayKey(current.end)!, parseDayKey(day.date)!) <= MAX_FLOW_GAP_DAYS + 1;
+    if (current && continues) {
+      if (day.date > current.end) current.end = day.date;
+      if (FLOW_RANK[day.flow] > FLOW_RANK[current.flow]) current.flow = day.flow;
+    } else {
+      flush();
+      current = { start: day.date, end: day.date, flow: day.flow };
+    }
+  }
+  flush();
+}
+
+/** Apply one mapped value for a day; returns false when there is no mapping */
+function applyMapping(
+  data: RawImportData,
+  flowDays: FlowDay[],
+  mapping: Mapping | undefined,
+  date: string,
+  where: string
+): boolean {
+  if (!mapping) return false;
+  if ('flow' in mapping) {
+    flowDays.push({ date, flow: mapping.flow });
+    return true;
+  }
+  if ('symptom' in mapping) {
+    data.symptoms.push({ where, date, type: mapping.symptom, severity: 3 });
+  }
+  if ('mood' in mapping) {
+    data.moods.push({ where, date, type: mapping.mood });
+  }
+  return true;
+}
+
+/** Multi-select CSV cells: "Cramps, Headache" or "cramps; headache" */
+function splitValues(cell: string): string[] {
+  return cell
+    .split(/[;,|]/)
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function csvHeader(text: string): string[] {
+  const firstLine = text.replace(/^﻿/, '').split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.split(',').map((name) => name.trim().replace(/^"|"$/g, '').toLowerCase());
+}
+
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/(\w+)="([^"]*)"/g)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+// ─── Adapters ─────────────────────────────────────────────────────────────────
+const periPeriAdapter: ImportAdapter = {
+  id: 'peri-peri',
+  label: 'Peri Peri export',
+  detect: (text) => text.includes(EXPORT_FORMAT),
+  parse: parseAppExport,
+};
+
+/**
+ * Clue CSV: one row per day with a `day`/`date` column and one column per
+ * tracking category whose cells hold the selected options.
+ */
+const clueAdapter: ImportAdapter = {
+  id: 'clue',
+  label: 'Clue',
+  detect: (text, filename) => {
+    if (/clue/i.test(filename)) return true;
+    const header = csvHeader(text);
+    return header.includes('day') && header.some((name) => ['pain', 'emotions', 'fluid'].includes(name));
+  },
+  parse: (text) => {
+    const data = emptyData('Clue');
+    const flowDays: FlowDay[] = [];
+
+    parseCsvRecords(text).forEach((record, index) => {
+      const where = `Row ${index + 2}`;
+      const date = parseImportDate(record.day ?? record.date);
+      if (!date) {
+        data.issues!.push({ where, message: 'Row has no readable date — skipped.' });
+        return;
+      }
+      Object.entries(record).forEach(([column, cell]) => {
+        if (column === 'day' || column === 'date' || !cell) return;
+        const category = slug(column);
+        splitValues(cell).forEach((value) => {
+          const option = slug(value);
+          const mapped = applyMapping(data, flowDays, CLUE_VOCABULARY[`${category}.${option}`], date, where);
+          if (!mapped) noteUnmapped(data, `${column}: ${value}`);
+        });
+      });
+    });
+
+    flowDaysToPeriods(flowDays, data);
+    return data;
+  },
+};
+
+/**
+ * Flo CSV: `date`, a flow column (`period`/`menstruation`/`flow`) and
+ * multi-select `symptoms`, `mood(s)` and `discharge` columns. Flo's labels
+ * match the ones this app shows, so they are mapped by label.
+ */
+const floAdapter: ImportAdapter = {
+  id: 'flo',
+  label: 'Flo',
+  detect: (text, filename) => {
+    if (/flo/i.test(filename) && !/clue/i.test(filename)) return true;
+    const header = csvHeader(text);
+    return header.includes('date') && header.includes('symptoms') && header.some((name) => name.startsWith('mood'));
+  },
+  parse: (text) => {
+    const data = emptyData('Flo');
+    const flowDays: FlowDay[] = [];
+    const symptomByLabel = new Map(symptomOptions.map((option) => [slug(option.label), option.type]));
+    const moodByLabel = new Map(moodOptions.map((option) => [slug(option.label), option.type]));
+
+    parseCsvRecords(text).forEach((record, index) => {
+      const where = `Row ${index + 2}`;
+      const date = parseImportDate(record.date);
+      if (!date) {
+        data.issues!.push({ where, message: 'Row has no readable date — skipped.' });
+        return;
+      }
+
+      const flowCell = slug(record.period ?? record.menstruation ?? record.flow ?? '');
+      if (flowCell === 'spotting') {
+        data.symptoms.push({ where, date, type: 'spotting', severity: 3 });
+      } else if (flowCell in FLOW_RANK) {
+        flowDays.push({ date, flow: flowCell as FlowLevel });
+      } else if (flowCell) {
+        noteUnmapped(data, `Period: ${record.period ?? record.menstruation ?? record.flow}`);
+      }
+
+      [record.symptoms, record.discharge].forEach((cell) => {
+        splitValues(cell ?? '').forEach((value) => {
+          const type = symptomByLabel.get(slug(value));
+          if (type) data.symptoms.push({ where, date, type, severity: 3 });
+          else noteUnmapped(data, `Symptom: ${value}`);
+        });
+      });
+      splitValues(record.moods ?? record.mood ?? '').forEach((value) => {
+        const type = moodByLabel.get(slug(value));
+        if (type) data.moods.push({ where, date, type });
+        else noteUnmapped(data, `Mood: ${value}`);
+      });
+    });
+
+    flowDaysToPeriods(flowDays, data);
+    return data;
+  },
+};
+
+/**
+ * Apple Health `export.xml`: `<Record>` elements for menstrual flow, cycle
+ * tracking symptoms, intermenstrual bleeding and cervical mucus.
+ */
+const appleHealthAdapter: ImportAdapter = {
+  id: 'apple-health',
+  label: 'Apple Health',
+  detect: (text) => text.includes('<HealthData') || text.includes('HKCategoryTypeIdentifier'),
+  parse: (text) => {
+    const data = emptyData('Apple Health');
+    const flowDays: FlowDay[] = [];
+    let recordIndex = 0;
+
+    for (const match of text.matchAll(/<Record\b[^>]*?(?:\/>|>[\s\S]*?<\/Record>)/g)) {
+      const element = match[0];
+      const attributes = xmlAttributes(element.slice(0, element.indexOf('>') + 1));
+      const type = attributes.type?.replace('HKCategoryTypeIdentifier', '');
+      if (!attributes.type?.startsWith('HKCategoryTypeIdentifier') || !type) continue;
+
+      recordIndex += 1;
+      const where = `Record ${recordIndex}`;
+      const date = parseImportDate(attributes.startDate);
+      if (!date) {
+        data.issues!.push({ where, message: 'Record has no readable date — skipped.' });
+        continue;
+      }
+
+      if (type === 'MenstrualFlow') {
+        const flow = APPLE_FLOW[attributes.value];
+        if (flow === undefined) noteUnmapped(data, `Menstrual flow: ${attributes.value}`);
+        if (flow) {
+          flowDays.push({ date, flow, cycleStart: /key="HKMenstrualCycleStart" value="1"/.test(element) });
+        }
+      } else if (type === 'CervicalMucusQuality') {
+        const symptom = APPLE_CERVICAL_MUCUS[attributes.value];
+        if (symptom) data.symptoms.push({ where, date, type: symptom, severity: 3 });
+        else noteUnmapped(data, `Cervical mucus: ${attributes.value}`);
+      } else if (type === 'MoodChanges') {
+        if (APPLE_SEVERITY[attributes.value] !== null) data.moods.push({ where, date, type: 'mood_swings' });
+      } else if (APPLE_SYMPTOMS[type]) {
+        // Intermenstrual bleeding carries no severity; "not present" means the user logged its absence
+        const severity = attributes.value in APPLE_SEVERITY ? APPLE_SEVERITY[attributes.value] : 3;
+        if (severity !== null) data.symptoms.push({ where, date, type: APPLE_SYMPTOMS[type], severity });
+      } else {
+        noteUnmapped(data, type.replace(/([a-z])([A-Z])/g, '$1 $2'));
+      }
+    }
+
+    flowDaysToPeriods(flowDays, data);
+    return data;
+  },
+};
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Tried in order; the app's own format goes first since it's the most specific */
+export const IMPORT_ADAPTERS: ImportAdapter[] = [periPeriAdapter, appleHealthAdapter, clueAdapter, floAdapter];
+
+/**
+ * Pick the adapter for a file and read it into the shared import pipeline
+ * (`validateImportData` → `planImport` → `runImport`).
+ */
+export function parseImportFile(text: string, filename: string): RawImportData {
+  const adapter = IMPORT_ADAPTERS.find((candidate) => candidate.detect(text, filename));
+  if (!adapter) {
+    throw new Error('We don’t recognise this file. Import a Peri Peri, Clue or Flo CSV, or an Apple Health export.xml.');
+  }
+  return adapter.parse(text);
+}
@@ -0,0 +1,48 @@
+import { formatDayKey, fromLocalDate, getNow } from './calendarDate';
+import { createDayLogStore } from './dayLogStore';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const INTERCOURSE_KEY_PREFIX = 'intercourse_v1::';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface IntercourseEntry {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  /** Protected sex doesn't count towards conception timing */
+  protected: boolean;
+  updatedAt: string;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const store = createDayLogStore<IntercourseEntry>(
+  INTERCOURSE_KEY_PREFIX,
+  'intercourseUpdated',
+  'IntercourseLog',
+  'intercourse'
+);
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Logged days for the current scope, oldest first, kept in memory so the
+ * synchronous conception code can read them. Empty until `loadIntercourseLog` resolves.
+ */
+export function getIntercourseSnapshot(): IntercourseEntry[] {
+  return store.getSnapshot();
+}
+
+/** Subscribe to log changes (`useSyncExternalStore` compatible) */
+export function subscribeToIntercourseLog(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+/** Read the stored log for the current scope. Only hits storage once per scope. */
+export function loadIntercourseLog(): Promise<void> {
+  return store.load();
+}
+
+/** Log intercourse on a day, or clear the day with `null` */
+export async function setIntercourse(date: Date, entry: { protected: boolean } | null): Promise<void> {
+  const key = formatDayKey(fromLocalDate(date));
+  await store.setDay(key, entry ? { date: key, protected: entry.protected, updatedAt: getNow().toISOString() } : null);
+}
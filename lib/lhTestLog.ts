@@ -0,0 +1,73 @@
+import { formatDayKey, fromLocalDate, getNow } from './calendarDate';
+import { createDayLogStore } from './dayLogStore';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const LH_KEY_PREFIX = 'lh_tests_v1::';
+const POSITIVE_RATIO = 1;            // test line as dark as the control line or darker
+const MAX_RATIO = 5;
+
+export const LH_RESULTS = ['negative', 'positive', 'peak'] as const;
+
+export const LH_RESULT_LABELS: Record<LHResult, string> = {
+  negative: 'Negative',
+  positive: 'Positive',
+  peak: 'Peak',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type LHResult = (typeof LH_RESULTS)[number];
+
+export interface LHTest {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  result: LHResult;
+  /** Test-line to control-line intensity, when a reader or app reports one */
+  ratio: number | null;
+  updatedAt: string;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const store = createDayLogStore<LHTest>(LH_KEY_PREFIX, 'lhTestsUpdated', 'LHTestLog', 'lh_test');
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Positive or peak, or a ratio at or above the control line whatever the result says */
+export function isPositiveLHTest(test: LHTest): boolean {
+  return test.result !== 'negative' || (test.ratio !== null && test.ratio >= POSITIVE_RATIO);
+}
+
+/** A message for ratios no test strip can produce, otherwise null */
+export function validateLHRatio(ratio: number | null): string | null {
+  if (ratio === null) return null;
+  if (!Number.isFinite(ratio) || ratio < 0 || ratio > MAX_RATIO) {
+    return `The ratio should be between 0 and ${MAX_RATIO}.`;
+  }
+  return null;
+}
+
+/**
+ * Tests for the current scope, oldest first, kept in memory so the
+ * synchronous prediction code can read them. Empty until `loadLHTests` resolves.
+ */
+export function getLHTestsSnapshot(): LHTest[] {
+  return store.getSnapshot();
+}
+
+/** Subscribe to test changes (`useSyncExternalStore` compatible) */
+export function subscribeToLHTests(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+/** Read the stored tests for the current scope. Only hits storage once per scope. */
+export function loadLHTests(): Promise<void> {
+  return store.load();
+}
+
+/** Set the test result for one day, or clear it with `null` */
+export async function setLHTest(date: Date, result: LHResult | null, ratio: number | null = null): Promise<void> {
+  const problem = validateLHRatio(ratio);
+  if (problem) throw new Error(problem);
+
+  const key = formatDayKey(fromLocalDate(date));
+  await store.setDay(key, result ? { date: key, result, ratio, updatedAt: getNow().toISOString() } : null);
+}
@@ -1,6 +1,198 @@
-import { ViewMode } from './api'
+import * as Notifications from 'expo-notifications'
+import { Platform } from 'react-native'
+import { ViewMode, UserSettings } from './api'
+import { CyclePredictions } from './periodCalculations'
+import { addDays, formatDayKey, fromLocalDate, toLocalDate } from './calendarDate'
+import { describeRegimenChange, getRegimenDay, suppressesNaturalCycle } from './contraception'
+import { getPillLogSnapshot, PillLogEntry } from './pillLog'
 
-// Temporary no-op implementations while push notifications are disabled.
+// ─── Configuration ────────────────────────────────────────────────────────────
+const REMINDER_SOURCE = 'cycle-reminder'      // marks notifications this module owns
+const REMINDER_CHANNEL_ID = 'cycle-reminders'
+const REMINDER_HOUR = 9                       // local time reminders fire at
+const CYCLES_AHEAD = 2                        // also schedule the cycle after next, in case the app isn't opened
+const DEFAULT_DAYS_BEFORE = 2
+const CONTRACEPTION_DAYS_AHEAD = 14           // pill and patch/ring reminders, topped up whenever the app opens
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type CycleReminderKind =
+  | 'period_due_soon'
+  | 'period_due'
+  | 'fertile_window'
+  | 'pms'
+  | 'pill'
+  | 'contraception_change'
+
+export interface CycleReminder {
+  /** Stable per kind and cycle, e.g. `period_due:2025-03-14` */
+  key: string
+  kind: CycleReminderKind
+  title: string
+  body: string
+  fireAt: Date
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+let lastScheduledSignature: string | null = null
+let scheduling: Promise<void> = Promise.resolve()
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function atReminderHour(date: Date, dayOffset = 0): Date {
+  const copy = new Date(date)
+  copy.setDate(copy.getDate() + dayOffset)
+  copy.setHours(REMINDER_HOUR, 0, 0, 0)
+  return copy
+}
+
+function atTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const copy = new Date(date)
+  copy.setHours(hours || 0, minutes || 0, 0, 0)
+  return copy
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+/**
+ * Period, fertile-window and PMS reminders. Empty when reminders are turned
+ * off or there's nothing to predict from. On hormonal contraception the only
+ * prediction is the withdrawal bleed, and the wording says so.
+ */
+function periodReminders(predictions: CyclePredictions, settings: UserSettings | null): CycleReminder[] {
+  if (!settings?.reminderEnabled || !predictions.nextPeriodDate) return []
+
+  const daysBefore = Math.max(0, settings.reminderDaysBefore ?? DEFAULT_DAYS_BEFORE)
+  const withdrawalBleed = suppressesNaturalCycle(settings)
+  const reminders: CycleReminder[] = []
+
+  for (let cycle = 0; cycle < CYCLES_AHEAD; cycle++) {
+    const shift = cycle * predictions.cycleLength
+    const periodDate = atReminderHour(predictions.nextPeriodDate, shift)
+    const days = `${daysBefore} ${daysBefore === 1 ? 'day' : 'days'}`
+
+    if (daysBefore > 0) {
+      reminders.push({
+        key: `period_due_soon:${dayKey(periodDate)}`,
+        kind: 'period_due_soon',
+        title: withdrawalBleed ? 'Break coming up' : 'Period coming up',
+        body: withdrawalBleed
+          ? `Your break starts in ${days}, and your withdrawal bleed with it. A good time to pack supplies.`
+          : `Your period is expected in ${days}. A good time to pack supplies.`,
+        fireAt: atReminderHour(periodDate, -daysBefore),
+      })
+    }
+    reminders.push({
+      key: `period_due:${dayKey(periodDate)}`,
+      kind: 'period_due',
+      title: withdrawalBleed ? 'Break starts today' : 'Period expected today',
+      body: withdrawalBleed
+        ? 'Your withdrawal bleed should come over the next few days. Log it in Peri Peri when it does.'
+        : 'Your period may start today. Log it in Peri Peri when it does.',
+      fireAt: periodDate,
+    })
+
+    if (predictions.fertileWindowStart) {
+      const fertileDate = atReminderHour(predictions.fertileWindowStart, shift)
+      reminders.push({
+        key: `fertile_window:${dayKey(fertileDate)}`,
+        kind: 'fertile_window',
+        title: 'Fertile window starting',
+        body: 'Your fertile window is predicted to start today.',
+        fireAt: fertileDate,
+      })
+    }
+
+    if (predictions.pmsStart) {
+      const pmsDate = atReminderHour(predictions.pmsStart, shift)
+      reminders.push({
+        key: `pms:${dayKey(pmsDate)}`,
+        kind: 'pms',
+        title: 'PMS days ahead',
+        body: 'You may notice PMS symptoms over the next few days. Be gentle with yourself.',
+        fireAt: pmsDate,
+      })
+    }
+  }
+
+  return reminders
+}
+
+/**
+ * A daily reminder for each active pill not yet ticked off, and one on the
+ * days a patch or ring goes on, is changed or comes off. Independent of the
+ * period reminders toggle; off without a reminder time.
+ */
+function contraceptionReminders(
+  settings: UserSettings | null,
+  now: Date,
+  pillLog: PillLogEntry[]
+): CycleReminder[] {
+  const time = settings?.contraceptionReminderTime
+  if (!time) return []
+
+  const taken = new Set(pillLog.map((entry) => entry.date))
+  const reminders: CycleReminder[] = []
+  for (let offset = 0; offset < CONTRACEPTION_DAYS_AHEAD; offset++) {
+    const day = addDays(fromLocalDate(now), offset)
+    const regimenDay = getRegimenDay(settings, day)
+    if (!regimenDay) continue
+    const fireAt = atTime(toLocalDate(day), time)
+
+    if (regimenDay.method === 'pill') {
+      if (regimenDay.isBreak || taken.has(formatDayKey(day))) continue
+      reminders.push({
+        key: `pill:${dayKey(fireAt)}`,
+        kind: 'pill',
+        title: 'Time for your pill',
+        body: `Pill ${regimenDay.day} of ${regimenDay.activeDays}. Tick it off in Peri Peri once you've taken it.`,
+        fireAt,
+      })
+      continue
+    }
+
+    const change = describeRegimenChange(regimenDay)
+    if (!change) continue
+    reminders.push({
+      key: `contraception_change:${dayKey(fireAt)}`,
+      kind: 'contraception_change',
+      title: regimenDay.method === 'patch' ? 'Patch reminder' : 'Ring reminder',
+      body: `${change}.`,
+      fireAt,
+    })
+  }
+  return reminders
+}
+
+async function ensureChannel(): Promise<void> {
+  if (Platform.OS !== 'android') return
+  await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+    name: 'Cycle reminders',
+    importance: Notifications.AndroidImportance.DEFAULT,
+  })
+}
+
+async function hasPermission(): Promise<boolean> {
+  const current = await Notifications.getPermissionsAsync()
+  if (current.granted) return true
+  if (!current.canAskAgain) return false
+  const requested = await Notifications.requestPermissionsAsync()
+  return requested.granted
+}
+
+async function cancelScheduledReminders(): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync()
+  await Promise.all(
+    scheduled
+      .filter((request) => request.content.data?.source === REMINDER_SOURCE)
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  )
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+// Push notifications stay disabled; reminders are scheduled locally below.
 
 export async function registerForPushNotifications(_context: {
   mode: ViewMode
@@ -14,3 +206,74 @@ export async function clearStoredPushToken(): Promise<void> {
   console.log('[Notifications] Clearing stored push tokens skipped (notifications disabled).')
 }
 
+/**
+ * The reminders to show for the next cycles, from the calendar predictions,
+ * plus pill and patch/ring reminders when a contraception reminder time is
+ * set. Pills already ticked off in `pillLog` aren't reminded about.
+ */
+export function buildCycleReminders(
+  predictions: CyclePredictions,
+  settings: UserSettings | null,
+  now: Date = new Date(),
+  pillLog: PillLogEntry[] = getPillLogSnapshot()
+): CycleReminder[] {
+  return [...periodReminders(predictions, settings), ...contraceptionReminders(settings, now, pillLog)]
+    .filter((reminder) => reminder.fireAt.getTime() > now.getTime())
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+}
+
+/**
+ * Replace this module's scheduled notifications with reminders for the given
+ * predictions. Calls are serialised and skipped when nothing changed, so it's
+ * safe to call on every data update.
+ */
+export function scheduleCycleReminders(
+  predictions: CyclePredictions,
+  settings: UserSettings | null,
+  pillLog: PillLogEntry[] = getPillLogSnapshot()
+): Promise<void> {
+  const reminders = buildCycleReminders(predictions, settings, new Date(), pillLog)
+  const signature = reminders.map((reminder) => `${reminder.key}@${reminder.fireAt.getTime()}`).join('|')
+
+  scheduling = scheduling.then(async () => {
+    if (signature === lastScheduledSignature) return
+    try {
+      await cancelScheduledReminders()
+      if (reminders.length && (await hasPermission())) {
+        await ensureChannel()
+        for (const reminder of reminders) {
+          await Notifications.scheduleNotificationAsync({
+            content: {
+              title: reminder.title,
+              body: reminder.body,
+              data: { source: REMINDER_SOURCE, kind: reminder.kind },
+            },
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.DATE,
+              date: reminder.fireAt,
+              channelId: REMINDER_CHANNEL_ID,
+            },
+          })
+        }
+      }
+      lastScheduledSignature = signature
+      console.log(`[Notifications] Scheduled ${reminders.length} cycle reminders`)
+    } catch (error) {
+      console.warn('[Notifications] Failed to schedule reminders:', error)
+    }
+  })
+  return scheduling
+}
+
+/** Remove every scheduled cycle reminder (sign-out, switching accounts) */
+export function cancelCycleReminders(): Promise<void> {
+  scheduling = scheduling.then(async () => {
+    try {
+      await cancelScheduledReminders()
+    } catch (error) {
+      console.warn('[Notifications] Failed to cancel reminders:', error)
+    }
+    lastScheduledSignature = null
+  })
+  return scheduling
+}
@@ -0,0 +1,439 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import { clearCacheByPattern, updateCachedDataByPattern } from './cache';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const OUTBOX_KEY = 'outbox_v1';
+const CONFLICTS_KEY = 'outbox_conflicts_v1';
+const LOCAL_ID_PREFIX = 'local-';
+const BASE_RETRY_DELAY_MS = 5 * 1000;        // first retry after 5s
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;   // never wait more than 10 min between retries
+const MAX_SERVER_ATTEMPTS = 8;               // give up on server errors after this many tries
+const MAX_STORED_CONFLICTS = 50;
+
+// Cache key prefix used by lib/api.ts for each entity's list
+const CACHE_PREFIXES: Record<OutboxEntity, string> = {
+  period: 'periods',
+  symptom: 'symptoms',
+  mood: 'moods',
+  day_log: 'day_logs',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type OutboxEntity = 'period' | 'symptom' | 'mood' | 'day_log';
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+export interface OutboxItem {
+  id: string;
+  entity: OutboxEntity;
+  operation: OutboxOperation;
+  /** Cache scope (`MODE::email`) the write was made in — it is only replayed in that scope */
+  scope: string;
+  /** Record id the write targets. For creates this is the temporary local id. */
+  targetId: string;
+  /** Request body sent to the server */
+  payload: Record<string, any> | null;
+  /** Optimistic version of the record, merged into cached lists */
+  record: Record<string, any> | null;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastFailure: 'network' | 'server' | null;
+  lastError: string | null;
+}
+
+export interface OutboxConflict {
+  id: string;
+  item: OutboxItem;
+  status: number | null;
+  message: string;
+  recordedAt: number;
+}
+
+export interface OutboxFlushResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+}
+
+interface OutboxConfig {
+  /** Sends one queued write to the server. Resolves with the server record for creates/updates. */
+  send: (item: OutboxItem) => Promise<any>;
+  /** Returns the cache scope currently active in lib/api.ts */
+  getScope: () => string;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+let config: OutboxConfig | null = null;
+let queue: OutboxItem[] | null = null;
+let loadPromise: Promise<OutboxItem[]> | null = null;
+let isFlushing = false;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function createId(prefix: string): string {
+  return `${prefix}${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function retryDelay(attempts: number): number {
+  const exponential = BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+  const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(MAX_RETRY_DELAY_MS, exponential + jitter);
+}
+
+async function loadQueue(): Promise<OutboxItem[]> {
+  if (queue) return queue;
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        queue = Array.isArray(parsed) ? parsed : [];
+      } catch (error) {
+        console.warn('[Outbox] Failed to read queue:', error);
+        queue = [];
+      }
+      return queue;
+    })();
+  }
+  return loadPromise;
+}
+
+async function persistQueue(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(queue ?? []));
+  } catch (error) {
+    console.warn('[Outbox] Failed to persist queue:', error);
+  }
+  DeviceEventEmitter.emit('outboxUpdated', { pending: queue?.length ?? 0 });
+}
+
+async function recordConflict(conflict: OutboxConflict): Promise<void> {
+  try {
+    const existing = await getOutboxConflicts();
+    const next = [conflict, ...existing].slice(0, MAX_STORED_CONFLICTS);
+    await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('[Outbox] Failed to record conflict:', error);
+  }
+  DeviceEventEmitter.emit('outboxConflict', conflict);
+}
+
+/**
+ * Parse the optional `start::end` range suffix from a symptoms/moods cache key.
+ * Keys look like `symptoms::SELF::a@b.com::<start>::<end>`; periods keys have no range.
+ */
+function parseRangeFromKey(key: string, entity: OutboxEntity): { start: number | null; end: number | null } {
+  if (entity === 'period') return { start: null, end: null };
+  const parts = key.split('::');
+  if (parts.length < 5) return { start: null, end: null };
+  const toTime = (part: string) => {
+    if (!part || part === 'null' || part === 'undefined') return null;
+    const time = new Date(part).getTime();
+    return Number.isNaN(time) ? null : time;
+  };
+  return { start: toTime(parts[parts.length - 2]), end: toTime(parts[parts.length - 1]) };
+}
+
+function isInRange(record: Record<string, any>, range: { start: number | null; end: number | null }): boolean {
+  if (range.start === null && range.end === null) return true;
+  const time = new Date(record.date).getTime();
+  if (Number.isNaN(time)) return true;
+  if (range.start !== null && time < range.start) return false;
+  if (range.end !== null && time > range.end) return false;
+  return true;
+}
+
+/**
+ * Apply one queued write to a list of records. Idempotent: applying the same item
+ * twice yields the same list, so it is safe on lists that already include it.
+ */
+function applyItem<T extends { id: string }>(
+  list: T[],
+  item: OutboxItem,
+  range: { start: number | null; end: number | null }
+): T[] {
+  switch (item.operation) {
+    case 'create': {
+      if (!item.record || list.some((entry) => entry.id === item.targetId)) return list;
+      if (!isInRange(item.record, range)) return list;
+      return [...list, item.record as T];
+    }
+    case 'update':
+      return list.map((entry) =>
+        entry.id === item.targetId ? ({ ...entry, ...(item.record ?? item.payload ?? {}) } as T) : entry
+      );
+    case 'delete':
+      return list.filter((entry) => entry.id !== item.targetId);
+    default:
+      return list;
+  }
+}
+
+async function applyToCache(item: OutboxItem): Promise<void> {
+  const pattern = `${CACHE_PREFIXES[item.entity]}::${item.scope}`;
+  await updateCachedDataByPattern<any>(pattern, (value, key) => {
+    if (!Array.isArray(value)) return value;
+    return applyItem(value, item, parseRangeFromKey(key, item.entity));
+  });
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Wire the outbox to the API layer. Mirrors `setClerkTokenGetter` — lib/api.ts
+ * calls this once so the outbox never imports it directly.
+ */
+export function configureOutbox(nextConfig: OutboxConfig) {
+  config = nextConfig;
+}
+
+/**
+ * True when the request never got a response (offline, DNS failure, timeout).
+ * Errors with an HTTP status are server answers and must not be queued.
+ */
+export function isNetworkError(error: any): boolean {
+  if (!error || error.response) return false;
+  const code = error.code;
+  return (
+    code === 'ERR_NETWORK' ||
+    code === 'ECONNABORTED' ||
+    code === 'ETIMEDOUT' ||
+    !!error.request
+  );
+}
+
+/**
+ * Whether a record only exists locally and is still waiting to be synced.
+ */
+export function isPendingRecord(record: { id?: string | null } | null | undefined): boolean {
+  return !!record?.id && record.id.startsWith(LOCAL_ID_PREFIX);
+}
+
+/**
+ * Record a write that could not reach the server, apply it optimistically to the
+ * cached lists and return the optimistic record (for creates/updates).
+ *
+ * Writes against records that were themselves created offline are collapsed into
+ * the pending create: an update merges into it, a delete cancels it.
+ */
+export async function enqueueMutation<T extends { id: string }>(input: {
+  entity: OutboxEntity;
+  operation: OutboxOperation;
+  scope: string;
+  targetId?: string;
+  payload?: Record<string, any> | null;
+  record?: Omit<T, 'id'> | T | null;
+}): Promise<T | null> {
+  const items = await loadQueue();
+  const now = Date.now();
+  const targetId = input.operation === 'create' ? createId(LOCAL_ID_PREFIX) : input.targetId ?? '';
+  const record = input.record ? ({ ...input.record, id: targetId } as unknown as T) : null;
+
+  const pendingCreate = isPendingRecord({ id: targetId })
+    ? items.find((item) => item.operation === 'create' && item.targetId === targetId)
+    : undefined;
+
+  if (pendingCreate && input.operation === 'update') {
+    pendingCreate.payload = { ...pendingCreate.payload, ...input.payload };
+    pendingCreate.record = { ...pendingCreate.record, ...(record ?? input.payload ?? {}), id: targetId };
+    await persistQueue();
+    await applyToCache({ ...pendingCreate, operation: 'update' });
+    return pendingCreate.record as T;
+  }
+
+  if (pendingCreate && input.operation === 'delete') {
+    queue = items.filter((item) => item.targetId !== targetId);
+    await persistQueue();
+    await applyToCache({ ...pendingCreate, operation: 'delete' });
+    return null;
+  }
+
+  const item: OutboxItem = {
+    id: createId('outbox-'),
+    entity: input.entity,
+    operation: input.operation,
+    scope: input.scope,
+    targetId,
+    payload: input.payload ?? null,
+    record: record as Record<string, any> | null,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    lastFailure: null,
+    lastError: null,
+  };
+
+  items.push(item);
+  await persistQueue();
+  await applyToCache(item);
+
+  console.log('[Outbox] Queued offline write', { entity: item.entity, operation: item.operation });
+  return record;
+}
+
+/**
+ * Overlay every pending write for an entity onto a list fetched from the server
+ * or read from cache, so queued changes survive a refetch.
+ */
+export async function applyPendingMutations<T extends { id: string }>(
+  entity: OutboxEntity,
+  scope: string,
+  list: T[],
+  range?: { startDate?: string; endDate?: string }
+): Promise<T[]> {
+  const items = await loadQueue();
+  const bounds = {
+    start: range?.startDate ? new Date(range.startDate).getTime() : null,
+    end: range?.endDate ? new Date(range.endDate).getTime() : null,
+  };
+  return items
+    .filter((item) => item.entity === entity && item.scope === scope)
+    .reduce((acc, item) => applyItem(acc, item, bounds), list);
+}
+
+export async function getPendingOutboxItems(scope?: string): Promise<OutboxItem[]> {
+  const items = await loadQueue();
+  return scope ? items.filter((item) => item.scope === scope) : [...items];
+}
+
+export async function getOutboxConflicts(): Promise<OutboxConflict[]> {
+  try {
+    const raw = await AsyncStorage.getItem(CONFLICTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('[Outbox] Failed to read conflicts:', error);
+    return [];
+  }
+}
+
+export async function dismissOutboxConflict(id: string): Promise<void> {
+  const conflicts = await getOutboxConflicts();
+  try {
+    await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts.filter((c) => c.id !== id)));
+  } catch (error) {
+    console.warn('[Outbox] Failed to dismiss conflict:', error);
+  }
+}
+
+/**
+ * Called by the API layer whenever a request succeeds: connectivity is back, so
+ * writes waiting out a network backoff become due immediately.
+ */
+export function notifyOnline(): void {
+  if (!queue || queue.length === 0 || isFlushing) return;
+  let changed = false;
+  const now = Date.now();
+  for (const item of queue) {
+    if (item.lastFailure === 'network' && item.nextAttemptAt > now) {
+      item.nextAttemptAt = now;
+      changed = true;
+    }
+  }
+  if (changed) {
+    setTimeout(() => {
+      flushOutbox().catch(() => {});
+    }, 0);
+  }
+}
+
+/**
+ * Replay queued writes for the active scope, oldest first.
+ *
+ * - Stops at the first write that is not yet due or fails with a network/server
+ *   error, so later writes never overtake earlier ones.
+ * - 4xx answers are conflicts: the write is dropped (with anything depending on
+ *   it), recorded for review, and the entity cache is invalidated so the server
+ *   version replaces the optimistic one.
+ * - A 404 on delete counts as success — the record is already gone.
+ */
+export async function flushOutbox(): Promise<OutboxFlushResult> {
+  const items = await loadQueue();
+  if (!config || isFlushing || items.length === 0) {
+    return { synced: 0, conflicts: 0, remaining: items.length };
+  }
+
+  isFlushing = true;
+  const scope = config.getScope();
+  const touched = new Set<OutboxEntity>();
+  let synced = 0;
+  let conflicts = 0;
+
+  try {
+    while (true) {
+      const item = (queue ?? []).find((entry) => entry.scope === scope);
+      if (!item || item.nextAttemptAt > Date.now()) break;
+
+      try {
+        const result = await config.send(item);
+        queue = (queue ?? []).filter((entry) => entry.id !== item.id);
+
+        // Point later writes at the id the server assigned
+        if (item.operation === 'create' && result?.id) {
+          for (const entry of queue) {
+            if (entry.targetId === item.targetId) entry.targetId = result.id;
+          }
+        }
+
+        touched.add(item.entity);
+        synced += 1;
+        await persistQueue();
+      } catch (error: any) {
+        const status: number | undefined = error?.response?.status;
+
+        if (status === 401) {
+          // Token getter not ready yet — try again on the next flush
+          break;
+        }
+
+        if (status === 404 && item.operation === 'delete') {
+          queue = (queue ?? []).filter((entry) => entry.id !== item.id);
+          touched.add(item.entity);
+          synced += 1;
+          await persistQueue();
+          continue;
+        }
+
+        const retryable =
+          isNetworkError(error) || status === undefined || status === 408 || status === 429 || status >= 500;
+
+        if (retryable && (isNetworkError(error) || item.attempts + 1 < MAX_SERVER_ATTEMPTS)) {
+          item.attempts += 1;
+          item.lastFailure = isNetworkError(error) ? 'network' : 'server';
+          item.lastError = error?.friendlyMessage || error?.message || 'Unknown error';
+          item.nextAttemptAt = Date.now() + retryDelay(item.attempts);
+          await persistQueue();
+          break;
+        }
+
+        queue = (queue ?? []).filter(
+          (entry) =>
+            entry.id !== item.id && !(item.operation === 'create' && entry.targetId === item.targetId)
+        );
+        touched.add(item.entity);
+        conflicts += 1;
+        await persistQueue();
+        await recordConflict({
+          id: createId('conflict-'),
+          item,
+          status: status ?? null,
+          message: error?.friendlyMessage || error?.message || 'The server rejected this change.',
+          recordedAt: Date.now(),
+        });
+        console.warn('[Outbox] Dropped conflicting write', { entity: item.entity, operation: item.operation, status });
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+
+  for (const entity of touched) {
+    await clearCacheByPattern(`${CACHE_PREFIXES[entity]}::${scope}`);
+  }
+
+  if (touched.size > 0) {
+    DeviceEventEmitter.emit('outboxSynced', { entities: Array.from(touched), synced, conflicts });
+  }
+
+  return { synced, conflicts, remaining: (queue ?? []).length };
+}
@@ -0,0 +1,230 @@
+// ─── Configuration ────────────────────────────────────────────────────────────
+/** A4 in PDF points */
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+/**
+ * Helvetica advance widths (per 1000 em) for ASCII 32–126, from the standard
+ * AFM metrics. Bold text is measured with a small multiplier — close enough
+ * for wrapping and right-aligning table cells.
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_WIDTH_FACTOR = 1.06;
+const FALLBACK_WIDTH = 556;
+
+/** Characters outside ASCII that the standard fonts can draw (WinAnsiEncoding) */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '…': 0x85,
+  '°': 0xb0,
+  '±': 0xb1,
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+/** RGB components in the 0–1 range */
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+/**
+ * A small, dependency-free PDF writer for text-and-table reports. Coordinates
+ * are in points from the top-left corner of the page; `y` for text is the
+ * baseline.
+ */
+export interface PdfDocument {
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  addPage(): void;
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, options?: PdfShapeOptions): void;
+  rect(x: number, y: number, width: number, height: number, options?: PdfShapeOptions): void;
+  measureText(value: string, options?: Pick<PdfTextOptions, 'size' | 'bold'>): number;
+  wrapText(value: string, maxWidth: number, options?: Pick<PdfTextOptions, 'size' | 'bold'>): string[];
+  /** Serialise to PDF 1.4 bytes */
+  toBytes(): Uint8Array;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, '').replace(/\.$/, '');
+}
+
+function colorOperands(color: PdfColor): string {
+  return color.map((component) => formatNumber(Math.min(1, Math.max(0, component)))).join(' ');
+}
+
+/** Map to single-byte WinAnsi codes; anything the base fonts can't draw becomes "?" */
+function encodeText(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else if (code >= 0xa0 && code <= 0xff) {
+      encoded += char;
+    } else if (char === '\t') {
+      encoded += ' ';
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+}
+
+function escapePdfString(encoded: string): string {
+  return encoded.replace(/[\\()]/g, (match) => `\\${match}`);
+}
+
+function charWidth(code: number): number {
+  return code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : FALLBACK_WIDTH;
+}
+
+function toLatin1Bytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function createPdfDocument(): PdfDocument {
+  const pages: string[][] = [[]];
+  const current = () => pages[pages.length - 1];
+  const flipY = (y: number) => formatNumber(PDF_PAGE_HEIGHT - y);
+
+  const measureText: PdfDocument['measureText'] = (value, options) => {
+    const size = options?.size ?? 11;
+    const encoded = encodeText(value);
+    let units = 0;
+    for (let i = 0; i < encoded.length; i++) {
+      units += charWidth(encoded.charCodeAt(i));
+    }
+    return (units / 1000) * size * (options?.bold ? BOLD_WIDTH_FACTOR : 1);
+  };
+
+  const wrapText: PdfDocument['wrapText'] = (value, maxWidth, options) => {
+    const lines: string[] = [];
+    for (const paragraph of value.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measureText(candidate, options) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  return {
+    pageWidth: PDF_PAGE_WIDTH,
+    pageHeight: PDF_PAGE_HEIGHT,
+
+    addPage() {
+      pages.push([]);
+    },
+
+    text(x, y, value, options) {
+      const size = options?.size ?? 11;
+      const width = measureText(value, options);
+      const left = options?.align === 'right' ? x - width : options?.align === 'center' ? x - width / 2 : x;
+      const font = options?.bold ? 'F2' : 'F1';
+      current().push(
+        `BT ${colorOperands(options?.color ?? [0, 0, 0])} rg /${font} ${formatNumber(size)} Tf ` +
+          `${formatNumber(left)} ${flipY(y)} Td (${escapePdfString(encodeText(value))}) Tj ET`
+      );
+    },
+
+    line(x1, y1, x2, y2, options) {
+      current().push(
+        `${formatNumber(options?.lineWidth ?? 0.5)} w ${colorOperands(options?.stroke ?? [0, 0, 0])} RG ` +
+          `${formatNumber(x1)} ${flipY(y1)} m ${formatNumber(x2)} ${flipY(y2)} l S`
+      );
+    },
+
+    rect(x, y, width, height, options) {
+      const path = `${formatNumber(x)} ${flipY(y + height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+      if (options?.fill && options?.stroke) {
+        current().push(
+          `${formatNumber(options.lineWidth ?? 0.5)} w ${colorOperands(options.fill)} rg ${colorOperands(options.stroke)} RG ${path} B`
+        );
+      } else if (options?.fill) {
+        current().push(`${colorOperands(options.fill)} rg ${path} f`);
+      } else {
+        current().push(
+          `${formatNumber(options?.lineWidth ?? 0.5)} w ${colorOperands(options?.stroke ?? [0, 0, 0])} RG ${path} S`
+        );
+      }
+    },
+
+    measureText,
+    wrapText,
+
+    toBytes() {
+      // Object layout: 1 catalog, 2 page tree, 3–4 fonts, then a page + content stream per page
+      const objects: string[] = [];
+      const pageIds = pages.map((_, index) => 5 + index * 2);
+
+      objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+      objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+      pages.forEach((operations, index) => {
+        const stream = operations.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+        );
+        objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      });
+
+      // Every character is a single byte, so string offsets are byte offsets
+      let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+      const offsets: number[] = [];
+      objects.forEach((body, index) => {
+        offsets.push(output.length);
+        output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      });
+
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+      return toLatin1Bytes(output);
+    },
+  };
+}
@@ -1,4 +1,20 @@
 import { Period, UserSettings } from './api';
+import { forecastNextPeriod, PredictionInterval } from './cycleForecast';
+import {
+  addDays,
+  daysBetween,
+  fromApiDate,
+  fromLocalDate,
+  getNow,
+  getToday,
+  toFloatingDate,
+  toLocalDate,
+} from './calendarDate';
+import type { CycleReviews } from './cycleReview';
+import { findConfirmedOvulations } from './temperatureLog';
+import { estimateFertileWindow, FertileWindowSignal, FertilitySignals } from './fertileWindow';
+import { PACK_DAYS, scheduledWithdrawalBleeds, suppressesNaturalCycle } from './contraception';
+import { getPeriodDays, isPeriodDay, periodStartDay } from './periodRange';
 
 export type CyclePhase = 'period' | 'fertile' | 'pms' | 'normal' | 'predicted_period';
 export type ConfidenceLevel = 'high' | 'medium' | 'low';
@@ -32,6 +48,12 @@ export interface CyclePredictions {
   cycleLength: number;
   periodLength: number;
   confidence: ConfidenceLevel;
+  /** Days the next period will most likely start within (80% by default) */
+  nextPeriodWindow?: PredictionInterval | null;
+  /** Every upcoming period in the AI forecast, soonest first; unset for local predictions */
+  upcomingPeriods?: PredictedPeriodRange[];
+  /** What placed the ovulation date and fertile window, strongest first */
+  fertileWindowSignals?: FertileWindowSignal[];
 }
 
 export function buildEffectivePeriods(
@@ -42,27 +64,24 @@ export function buildEffectivePeriods(
     return periods;
   }
 
-  const start = new Date(settings.lastPeriodDate);
-  if (Number.isNaN(start.getTime())) {
+  const start = fromApiDate(settings.lastPeriodDate);
+  if (!start) {
     return periods;
   }
-  start.setHours(0, 0, 0, 0);
 
   const length = Math.max(
     1,
     settings.periodDuration ?? settings.averagePeriodLength ?? 5
   );
-  const end = new Date(start);
-  end.setDate(end.getDate() + length - 1);
-  end.setHours(0, 0, 0, 0);
+  const end = addDays(start, length - 1);
 
   const timestamp =
-    settings.updatedAt ?? settings.createdAt ?? new Date().toISOString();
+    settings.updatedAt ?? settings.createdAt ?? getNow().toISOString();
 
   const fallbackPeriod: Period = {
     id: 'settings-fallback',
-    startDate: start.toISOString(),
-    endDate: end.toISOString(),
+    startDate: toFloatingDate(start),
+    endDate: toFloatingDate(end, true),
     flowLevel: null,
     createdAt: timestamp,
     updatedAt: timestamp,
@@ -72,190 +91,124 @@ export function buildEffectivePeriods(
 }
 
 /**
- * Calculate cycle predictions based on period history (optimized)
+ * Calculate cycle predictions based on period history (optimized). With
+ * `signals`, mucus, LH tests and temperature logged this cycle can move the
+ * ovulation date and fertile window away from the calendar estimate.
  */
 export function calculatePredictions(
   periods: Period[],
-  settings: UserSettings | null
+  settings: UserSettings | null,
+  cycleReviews?: CycleReviews,
+  signals?: FertilitySignals
 ): CyclePredictions {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  // If no periods, use settings defaults with low confidence
-  if (periods.length === 0) {
-    const cycleLength = settings?.averageCycleLength ?? 28;
-    const periodLength = settings?.averagePeriodLength ?? 5;
-    const lastPeriodDate = settings?.lastPeriodDate
-      ? new Date(settings.lastPeriodDate)
-      : null;
-
-    if (!lastPeriodDate) {
-      return {
-        nextPeriodDate: null,
-        ovulationDate: null,
-        fertileWindowStart: null,
-        fertileWindowEnd: null,
-        pmsStart: null,
-        pmsEnd: null,
-        cycleLength,
-        periodLength,
-        confidence: 'low',
-      };
-    }
-
-    lastPeriodDate.setHours(0, 0, 0, 0);
-
-    let nextPeriodDate = new Date(lastPeriodDate);
-    nextPeriodDate.setDate(nextPeriodDate.getDate() + cycleLength);
-    nextPeriodDate.setHours(0, 0, 0, 0);
-
-    while (nextPeriodDate.getTime() <= today.getTime()) {
-      nextPeriodDate.setDate(nextPeriodDate.getDate() + cycleLength);
-    }
-
-    const ovulationDate = new Date(nextPeriodDate);
-    ovulationDate.setDate(ovulationDate.getDate() - 14);
-    ovulationDate.setHours(0, 0, 0, 0);
-
-    const fertileWindowStart = new Date(ovulationDate);
-    fertileWindowStart.setDate(fertileWindowStart.getDate() - 5);
-    fertileWindowStart.setHours(0, 0, 0, 0);
-
-    const fertileWindowEnd = new Date(ovulationDate);
-    fertileWindowEnd.setHours(23, 59, 59, 999);
+  const avgPeriodLength = settings?.averagePeriodLength || settings?.periodDuration || 5;
 
-    const pmsStart = new Date(nextPeriodDate);
-    pmsStart.setDate(pmsStart.getDate() - 5);
-    pmsStart.setHours(0, 0, 0, 0);
+  // Hormonal contraception stops ovulation: the only thing to predict is the
+  // next withdrawal bleed, which follows the pack rather than the cycle
+  if (suppressesNaturalCycle(settings)) {
+    const today = toLocalDate(getToday());
+    const nextBleed = scheduledWithdrawalBleeds(settings, 2).find(
+      (bleed) => bleed.startDate.getTime() > today.getTime()
+    );
+    return {
+      nextPeriodDate: nextBleed?.startDate ?? null,
+      ovulationDate: null,
+      fertileWindowStart: null,
+      fertileWindowEnd: null,
+      pmsStart: null,
+      pmsEnd: null,
+      cycleLength: nextBleed ? PACK_DAYS : settings?.averageCycleLength ?? 28,
+      periodLength: avgPeriodLength,
+      confidence: nextBleed ? 'high' : 'low',
+      nextPeriodWindow: null,
+    };
+  }
 
-    const pmsEnd = new Date(nextPeriodDate);
-    pmsEnd.setDate(pmsEnd.getDate() - 1);
-    pmsEnd.setHours(23, 59, 59, 999);
+  // Without any logged period, fall back to the last period date from settings
+  const forecast = forecastNextPeriod(buildEffectivePeriods(periods, settings), settings, {
+    today: toLocalDate(getToday()),
+    reviews: cycleReviews,
+  });
 
+  if (!forecast) {
     return {
-      nextPeriodDate,
-      ovulationDate,
-      fertileWindowStart,
-      fertileWindowEnd,
-      pmsStart,
-      pmsEnd,
-      cycleLength,
-      periodLength,
+      nextPeriodDate: null,
+      ovulationDate: null,
+      fertileWindowStart: null,
+      fertileWindowEnd: null,
+      pmsStart: null,
+      pmsEnd: null,
+      cycleLength: settings?.averageCycleLength ?? 28,
+      periodLength: avgPeriodLength,
       confidence: 'low',
+      nextPeriodWindow: null,
     };
   }
 
-  // Get the most recent period
-  const sortedPeriods = [...periods].sort(
-    (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
-  );
-  const lastPeriod = sortedPeriods[0];
-  const lastPeriodStart = new Date(lastPeriod.startDate);
-  lastPeriodStart.setHours(0, 0, 0, 0);
-
-  const finalCycleLength = settings?.averageCycleLength || 28;
-  const avgPeriodLength = settings?.averagePeriodLength || settings?.periodDuration || 5;
-
-  // Predict next period - calculate from START of last period
-  // Cycle length is measured from the start of one period to the start of the next period
-  let nextPeriodDate = new Date(lastPeriodStart);
-  nextPeriodDate.setDate(nextPeriodDate.getDate() + finalCycleLength);
-  nextPeriodDate.setHours(0, 0, 0, 0);
-  
-  // If the predicted next period date is in the past, calculate the next future period
-  const todayCheck = new Date();
-  todayCheck.setHours(0, 0, 0, 0);
-  
-  if (nextPeriodDate.getTime() <= todayCheck.getTime()) {
-    // Calculate how many full cycles have passed since the last period start
-    const daysSinceLastPeriodStart = Math.floor((todayCheck.getTime() - lastPeriodStart.getTime()) / (1000 * 60 * 60 * 24));
-    const cyclesSinceLastPeriod = Math.floor(daysSinceLastPeriodStart / finalCycleLength);
-    
-    // Calculate the next period start date
-    const nextCycleStart = new Date(lastPeriodStart);
-    nextCycleStart.setDate(nextCycleStart.getDate() + (cyclesSinceLastPeriod + 1) * finalCycleLength);
-    nextPeriodDate = nextCycleStart;
-    nextPeriodDate.setHours(0, 0, 0, 0);
-  }
+  // The single date shown everywhere is the most likely day of the forecast;
+  // the interval around it is what the user should actually plan for
+  const nextPeriodDay = fromLocalDate(forecast.mostLikelyDate);
 
   // Calculate ovulation - typically occurs 14 days before the next period
   // This gives us the ovulation date for the current cycle
-  const ovulationDate = new Date(nextPeriodDate);
-  ovulationDate.setDate(ovulationDate.getDate() - 14);
-  ovulationDate.setHours(0, 0, 0, 0);
-
-  // Fertile window - typically 5 days before ovulation through ovulation day
-  // This is when conception is most likely
-  const fertileWindowStart = new Date(ovulationDate);
-  fertileWindowStart.setDate(fertileWindowStart.getDate() - 5);
-  fertileWindowStart.setHours(0, 0, 0, 0);
-
-  const fertileWindowEnd = new Date(ovulationDate);
-  fertileWindowEnd.setHours(23, 59, 59, 999);
+  const ovulationDay = addDays(nextPeriodDay, -14);
+
+  // Fertile window - typically 5 days before ovulation through ovulation day,
+  // unless something logged this cycle says otherwise
+  const fertileWindow = estimateFertileWindow(
+    forecast.lastPeriodStart,
+    toLocalDate(ovulationDay),
+    signals ?? { symptoms: [], lhTests: [] },
+    getToday()
+  );
 
   // PMS window
-  const pmsStart = new Date(nextPeriodDate);
-  pmsStart.setDate(pmsStart.getDate() - 5);
-  pmsStart.setHours(0, 0, 0, 0);
-
-  const pmsEnd = new Date(nextPeriodDate);
-  pmsEnd.setDate(pmsEnd.getDate() - 1);
-  pmsEnd.setHours(23, 59, 59, 999);
-
-  // Confidence
-  let confidence: ConfidenceLevel = 'low';
-  const cycleCount = sortedPeriods.length > 0 ? sortedPeriods.length - 1 : 0;
-  if (cycleCount >= 3) {
-    confidence = 'high';
-  } else if (cycleCount >= 1) {
-    confidence = 'medium';
-  }
+  const pmsStartDay = addDays(nextPeriodDay, -5);
+  const pmsEndDay = addDays(nextPeriodDay, -1);
 
   return {
-    nextPeriodDate,
-    ovulationDate,
-    fertileWindowStart,
-    fertileWindowEnd,
-    pmsStart,
-    pmsEnd,
-    cycleLength: finalCycleLength,
+    nextPeriodDate: toLocalDate(nextPeriodDay),
+    ovulationDate: fertileWindow.ovulationDate,
+    fertileWindowStart: fertileWindow.start,
+    fertileWindowEnd: fertileWindow.end,
+    pmsStart: toLocalDate(pmsStartDay),
+    pmsEnd: toLocalDate(pmsEndDay, true),
+    cycleLength: forecast.cycleLength,
     periodLength: avgPeriodLength,
-    confidence,
+    confidence: forecast.confidence,
+    nextPeriodWindow: forecast.interval,
+    fertileWindowSignals: fertileWindow.signals,
   };
 }
 
+const MAX_PERIOD_LENGTH = 15;
+
 function normalise(date: Date | null): Date | null {
   if (!date) return null;
-  const clone = new Date(date);
-  clone.setHours(0, 0, 0, 0);
-  return clone;
+  return toLocalDate(fromLocalDate(date));
 }
 
-function resolvePeriodEnd(period: Period, fallbackLength: number): Date {
-  // Always use the current period length setting, not the stored endDate
-  // This ensures periods display consistently with the user's current preference
-  // If period length is 5, we want days: start, start+1, start+2, start+3, start+4 (5 days total)
-  // So end = start + (length - 1)
-  const assumedEnd = new Date(period.startDate);
-  assumedEnd.setHours(0, 0, 0, 0);
-  // Subtract 1 because if length is 5, we want 5 days: day 0, 1, 2, 3, 4 (which is start + 4)
-  const daysToAdd = Math.max(1, fallbackLength) - 1;
-  assumedEnd.setDate(assumedEnd.getDate() + daysToAdd);
-  // Set to end of day to ensure we include the full last day
-  assumedEnd.setHours(23, 59, 59, 999);
-  return assumedEnd;
+/** End of the last day of a logged period: its own end date, or the fallback length while it's open */
+function resolvePeriodEnd(period: Pick<Period, 'startDate' | 'endDate'>, fallbackLength: number): Date {
+  return toLocalDate(getPeriodDays(period, fallbackLength).end, true);
 }
 
+/**
+ * Phase for a day. Ovulation is placed 14 days before the next period unless
+ * a basal temperature shift confirmed it for that cycle, in which case the
+ * confirmed day sets the fertile window and the phase boundaries around it.
+ * With hormonal contraception only bleeds are returned: there are no phases
+ * between them.
+ */
 export function getPhaseDetailsForDate(
   date: Date,
   periods: Period[],
   predictions: CyclePredictions,
-  settings: UserSettings | null = null
+  settings: UserSettings | null = null,
+  confirmedOvulations: Date[] = findConfirmedOvulations(periods)
 ): DetailedPhaseInfo | null {
-  const dayDate = new Date(date);
-  dayDate.setHours(0, 0, 0, 0);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const dayDate = normalise(date)!;
+  const today = toLocalDate(getToday());
 
   const effectivePeriodLength = Math.max(
     1,
@@ -263,23 +216,18 @@ export function getPhaseDetailsForDate(
   );
 
   const sortedPeriods = [...periods].sort(
-    (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
+    (a, b) => daysBetween(periodStartDay(a), periodStartDay(b))
   );
 
-  const fallbackPeriodStart = settings?.lastPeriodDate
-    ? normalise(new Date(settings.lastPeriodDate))
-    : null;
-  const fallbackPeriodEnd = fallbackPeriodStart
-    ? (() => {
-        const end = new Date(fallbackPeriodStart);
-        end.setDate(end.getDate() + effectivePeriodLength - 1);
-        return end;
-      })()
+  const fallbackStartDay = fromApiDate(settings?.lastPeriodDate);
+  const fallbackPeriodStart = fallbackStartDay ? toLocalDate(fallbackStartDay) : null;
+  const fallbackPeriodEnd = fallbackStartDay
+    ? toLocalDate(addDays(fallbackStartDay, effectivePeriodLength - 1))
     : null;
 
   const lastRecordedPeriod = sortedPeriods[0] || null;
   const lastPeriodStart = lastRecordedPeriod
-    ? normalise(new Date(lastRecordedPeriod.startDate))
+    ? toLocalDate(periodStartDay(lastRecordedPeriod))
     : fallbackPeriodStart;
   const lastPeriodEnd = lastRecordedPeriod
     ? resolvePeriodEnd(lastRecordedPeriod, effectivePeriodLength)
@@ -289,14 +237,13 @@ export function getPhaseDetailsForDate(
   // Combine logged and predicted periods into a unified timeline
   const allPeriods = [
     ...sortedPeriods.map(p => {
-      const start = normalise(new Date(p.startDate));
       return {
-        startDate: start!,
+        startDate: toLocalDate(periodStartDay(p)),
         endDate: resolvePeriodEnd(p, effectivePeriodLength),
         isPredicted: false
       };
     }),
-    ...generatePredictedPeriods(periods, settings, 6).map(p => {
+    ...resolvePredictedPeriods(periods, settings, predictions, 6).map(p => {
       return {
         startDate: normalise(p.startDate)!,
         endDate: normalise(p.endDate)!,
@@ -333,7 +280,7 @@ export function getPhaseDetailsForDate(
   }
 
   // 2. If it's not a period, we only show other phases if it's within the allowed months
-  if (!isAllowedMonth) {
+  if (!isAllowedMonth || suppressesNaturalCycle(settings)) {
     return null;
   }
 
@@ -344,9 +291,14 @@ export function getPhaseDetailsForDate(
   const prevPeriod = allPeriods.find(p => p.endDate < dayDate);
 
   if (prevPeriod && nextPeriod) {
+    const confirmedOvulation = confirmedOvulations.find(
+      (ovulation) => ovulation > prevPeriod.endDate && ovulation < nextPeriod.startDate
+    );
+    const isPredicted = !confirmedOvulation;
+
     // Ovulation is typically 14 days before the NEXT period starts
-    const ovulationDate = new Date(nextPeriod.startDate);
-    ovulationDate.setDate(ovulationDate.getDate() - 14);
+    const ovulationDate = confirmedOvulation ? new Date(confirmedOvulation) : new Date(nextPeriod.startDate);
+    if (!confirmedOvulation) ovulationDate.setDate(ovulationDate.getDate() - 14);
     ovulationDate.setHours(0, 0, 0, 0);
 
     const fertileStart = new Date(ovulationDate);
@@ -359,7 +311,7 @@ export function getPhaseDetailsForDate(
     if (dayDate >= fertileStart && dayDate <= fertileEnd) {
       return {
         phase: 'ovulation',
-        isPredicted: true,
+        isPredicted,
         phaseStart: fertileStart,
         phaseEnd: fertileEnd,
       };
@@ -374,7 +326,7 @@ export function getPhaseDetailsForDate(
       follicularEnd.setHours(23, 59, 59, 999);
       return {
         phase: 'follicular',
-        isPredicted: true,
+        isPredicted,
         phaseStart: follicularStart,
         phaseEnd: follicularEnd,
       };
@@ -389,7 +341,7 @@ export function getPhaseDetailsForDate(
       lutealEnd.setHours(23, 59, 59, 999);
       return {
         phase: 'luteal',
-        isPredicted: true,
+        isPredicted,
         phaseStart: lutealStart,
         phaseEnd: lutealEnd,
       };
@@ -406,12 +358,12 @@ export function getPhaseDetailsForDate(
 export function getDayInfo(
   date: Date,
   periods: Period[],
-  predictions: CyclePredictions
+  predictions: CyclePredictions,
+  settings: UserSettings | null = null
 ): DayInfo {
-  const dayDate = new Date(date);
-  dayDate.setHours(0, 0, 0, 0);
+  const dayDate = normalise(date)!;
 
-  const phaseDetails = getPhaseDetailsForDate(dayDate, periods, predictions, null);
+  const phaseDetails = getPhaseDetailsForDate(dayDate, periods, predictions, settings);
 
   // Handle null phase details (no phase information available)
   if (!phaseDetails) {
@@ -477,13 +429,23 @@ export function getDayInfo(
 export interface PredictedPeriodRange {
   startDate: Date;
   endDate: Date;
+  /** 0–100, only for periods from the AI forecast */
+  confidence?: number;
+  /** The AI's note on this cycle */
+  notes?: string;
 }
 
 export function generatePredictedPeriods(
   periods: Period[],
   settings: UserSettings | null,
-  monthsAhead = 6
+  monthsAhead = 6,
+  cycleReviews?: CycleReviews
 ): PredictedPeriodRange[] {
+  // Pill, patch and ring bleeds come in the breaks, whatever the logged history says
+  if (suppressesNaturalCycle(settings)) {
+    return scheduledWithdrawalBleeds(settings, monthsAhead);
+  }
+
   const fallbackPeriods = buildEffectivePeriods(periods, settings);
   const referencePeriods = periods.length > 0 ? periods : fallbackPeriods;
 
@@ -491,72 +453,36 @@ export function generatePredictedPeriods(
     return [];
   }
 
-  const sorted = [...referencePeriods].sort(
-    (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
-  );
-
-  const lastStart = new Date(sorted[0].startDate);
-  lastStart.setHours(0, 0, 0, 0);
-
-  const fallbackCycleLength = settings?.averageCycleLength ?? 28;
-  let cycleLength = fallbackCycleLength;
-
-  if (sorted.length >= 2) {
-    let total = 0;
-    let count = 0;
-    for (let i = 0; i < sorted.length - 1; i++) {
-      const current = new Date(sorted[i].startDate);
-      const next = new Date(sorted[i + 1].startDate);
-      current.setHours(0, 0, 0, 0);
-      next.setHours(0, 0, 0, 0);
-      const diff = Math.round(
-        (current.getTime() - next.getTime()) / (1000 * 60 * 60 * 24)
-      );
-      if (diff > 0) {
-        total += diff;
-        count += 1;
-      }
-    }
-    if (count > 0) {
-      cycleLength = Math.max(1, Math.round(total / count));
-    }
+  // The first predicted period sits on the forecast's most likely start, so the
+  // hard blocks line up with the likelihood shading on the calendar
+  const forecast = forecastNextPeriod(referencePeriods, settings, { reviews: cycleReviews });
+  if (!forecast) {
+    return [];
   }
+  const cycleLength = forecast.cycleLength;
 
-  // Always use the current period length setting from user settings
-  // Don't calculate from stored endDate as it may be outdated
-  const periodLength = settings?.averagePeriodLength ?? settings?.periodDuration ?? 5;
+  // Predicted periods have no end date of their own: they last the user's usual length
+  const periodLength = Math.max(1, settings?.averagePeriodLength ?? settings?.periodDuration ?? 5);
 
   // Calculate target date (6 months from today)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = toLocalDate(getToday());
   const targetDate = new Date(today);
   targetDate.setMonth(targetDate.getMonth() + monthsAhead);
-  targetDate.setHours(23, 59, 59, 999);
+  const lastDay = fromLocalDate(targetDate);
 
   const results: PredictedPeriodRange[] = [];
-  let anchor = new Date(lastStart);
+  let anchor = fromLocalDate(forecast.mostLikelyDate);
   let generated = 0;
   const safetyLimit = 100; // Safety limit to prevent infinite loops
 
   // Generate predictions until we reach the target date
-  while (generated < safetyLimit) {
-    anchor.setDate(anchor.getDate() + cycleLength);
-    anchor.setHours(0, 0, 0, 0);
-
-    // Stop if we've gone past the target date
-    if (anchor.getTime() > targetDate.getTime()) {
-      break;
-    }
-
-    const end = new Date(anchor);
-    end.setDate(end.getDate() + periodLength - 1);
-    end.setHours(23, 59, 59, 999);
-
+  while (generated < safetyLimit && daysBetween(anchor, lastDay) >= 0) {
     results.push({
-      startDate: new Date(anchor),
-      endDate: end,
+      startDate: toLocalDate(anchor),
+      endDate: toLocalDate(addDays(anchor, periodLength - 1), true),
     });
 
+    anchor = addDays(anchor, cycleLength);
     generated += 1;
   }
 
@@ -578,60 +504,18 @@ export function getPeriodDayInfo(
   isMiddle: boolean;
   isEnd: boolean;
 } | null {
-  const dayDate = new Date(date);
-  dayDate.setHours(0, 0, 0, 0);
-
-  const currentPeriod = periods.find((period) => {
-    const start = new Date(period.startDate);
-    start.setHours(0, 0, 0, 0);
-    // Always use calculated end date based on current period length setting, not stored endDate
-    const end = new Date(period.startDate);
-    end.setHours(0, 0, 0, 0);
-    // Calculate end date: if period length is 5, days are 0,1,2,3,4 (5 days total)
-    // So we add (periodLength - 1) to get the last day
-    const daysToAdd = Math.max(1, fallbackPeriodLength) - 1;
-    end.setDate(end.getDate() + daysToAdd);
-    end.setHours(23, 59, 59, 999); // Set to end of day to include the full last day
-    
-    // Double-check: dayDate should be >= start and <= end
-    // If periodLength is 5 and start is Nov 22, end should be Nov 26 23:59:59:999
-    // Nov 27 00:00:00 should NOT match (27 > 26.999...)
-    const isWithinPeriod = dayDate >= start && dayDate <= end;
-    
-    // Additional safety check: calculate the day difference
-    const dayDiff = Math.floor((dayDate.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    // Day difference should be 0 to (periodLength - 1)
-    if (dayDiff < 0 || dayDiff >= fallbackPeriodLength) {
-      return false; // Date is outside the period range
-    }
-    
-    return isWithinPeriod;
-  });
+  const day = fromLocalDate(date);
+
+  // Counted in calendar days, so a DST change inside the period can't shift it.
+  // A period's own end date wins; the fallback length is only for open periods
+  const currentPeriod = periods.find((period) => isPeriodDay(day, period, fallbackPeriodLength));
 
   if (!currentPeriod) {
     return null;
   }
 
-  const startDate = new Date(currentPeriod.startDate);
-  startDate.setHours(0, 0, 0, 0);
-  // Always calculate end date based on current period length setting, not stored endDate
-  const endDate = new Date(currentPeriod.startDate);
-  endDate.setHours(0, 0, 0, 0);
-  // Calculate end date: if period length is 5, days are 0,1,2,3,4 (5 days total)
-  endDate.setDate(endDate.getDate() + Math.max(1, fallbackPeriodLength) - 1);
-  endDate.setHours(23, 59, 59, 999); // Set to end of day
-
-  const diff = Math.floor((dayDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-  const dayNumber = diff + 1;
-  // Calculate period length: if start is Nov 22 and end is Nov 26 23:59:59:999
-  // The difference in days is 4, but we have 5 days total (22, 23, 24, 25, 26)
-  // So periodLength = fallbackPeriodLength (we already calculated it correctly)
-  const periodLength = Math.max(1, fallbackPeriodLength);
-  
-  // Ensure dayNumber doesn't exceed periodLength
-  if (dayNumber > periodLength) {
-    return null; // This date is beyond the period end
-  }
+  const { start, length: periodLength } = getPeriodDays(currentPeriod, fallbackPeriodLength);
+  const dayNumber = daysBetween(start, day) + 1;
 
   let dayLabel = '';
   if (dayNumber === 1) {
@@ -654,6 +538,52 @@ export function getPeriodDayInfo(
   };
 }
 
+/**
+ * Check an edited period range against today and the other logged periods.
+ * Returns a user-facing message when the change isn't allowed, otherwise null.
+ * Open-ended periods are treated as lasting the fallback length.
+ */
+export function validatePeriodRange(
+  range: { id?: string; startDate: Date; endDate: Date | null },
+  periods: Period[],
+  fallbackPeriodLength = 5,
+  today: Date = getNow()
+): string | null {
+  const start = normalise(range.startDate)!;
+  const end = normalise(range.endDate);
+  const todayStart = normalise(today)!;
+
+  if (start > todayStart) {
+    return 'Cannot log periods for future dates.';
+  }
+  if (end && end > todayStart) {
+    return 'The end date cannot be in the future.';
+  }
+  if (end && end < start) {
+    return 'The end date must be on or after the start date.';
+  }
+  if (end && daysBetween(fromLocalDate(start), fromLocalDate(end)) + 1 > MAX_PERIOD_LENGTH) {
+    return `A period cannot be longer than ${MAX_PERIOD_LENGTH} days.`;
+  }
+
+  const rangeEnd = end
+    ? new Date(end.getFullYear(), end.getMonth(), end.getDate(), 23, 59, 59, 999)
+    : resolvePeriodEnd({ startDate: toFloatingDate(fromLocalDate(start)), endDate: null }, fallbackPeriodLength);
+
+  const overlapping = periods.find((period) => {
+    if (range.id && period.id === range.id) return false;
+    const otherStart = toLocalDate(periodStartDay(period));
+    const otherEnd = resolvePeriodEnd(period, fallbackPeriodLength);
+    return start <= otherEnd && otherStart <= rangeEnd;
+  });
+
+  if (overlapping) {
+    const label = toLocalDate(periodStartDay(overlapping)).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `This overlaps the period that started ${label}.`;
+  }
+  return null;
+}
+
 /**
  * Get a supportive note for a phase
  */
@@ -672,3 +602,40 @@ export function getPhaseNote(phase: CyclePhase): string {
   }
 }
 
+/**
+ * Upcoming periods for the calendar: the AI forecast's cycles when there are
+ * any, continued at the predicted cycle length to fill `monthsAhead`;
+ * otherwise the local projection from `generatePredictedPeriods`.
+ */
+export function resolvePredictedPeriods(
+  periods: Period[],
+  settings: UserSettings | null,
+  predictions: CyclePredictions | null,
+  monthsAhead = 6
+): PredictedPeriodRange[] {
+  const forecastPeriods = predictions?.upcomingPeriods ?? [];
+  if (forecastPeriods.length === 0) {
+    return generatePredictedPeriods(periods, settings, monthsAhead);
+  }
+
+  const today = toLocalDate(getToday());
+  const targetDate = new Date(today);
+  targetDate.setHours(23, 59, 59, 999);
+  targetDate.setMonth(targetDate.getMonth() + monthsAhead);
+
+  // A cached forecast can outlive its first period; unlogged past periods aren't shown
+  const results = forecastPeriods.filter(
+    (period) => period.endDate.getTime() >= today.getTime() && period.startDate.getTime() <= targetDate.getTime()
+  );
+  const last = forecastPeriods[forecastPeriods.length - 1];
+  const cycleLength = Math.max(1, predictions?.cycleLength || settings?.averageCycleLength || 28);
+  const periodDays = daysBetween(fromLocalDate(last.startDate), fromLocalDate(last.endDate));
+
+  let anchor = addDays(fromLocalDate(last.startDate), cycleLength);
+  while (toLocalDate(anchor).getTime() <= targetDate.getTime()) {
+    results.push({ startDate: toLocalDate(anchor), endDate: toLocalDate(addDays(anchor, periodDays), true) });
+    anchor = addDays(anchor, cycleLength);
+  }
+
+  return results;
+}
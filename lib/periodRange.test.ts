@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calendarDate, formatDayKey } from './calendarDate';
+import { getPeriodDays, isPeriodDay } from './periodRange';
+
+const FALLBACK_LENGTH = 5;
+
+function coveredDays(period: { startDate: string; endDate: string | null }): string[] {
+  const days: string[] = [];
+  for (let day = 1; day <= 20; day++) {
+    const date = calendarDate(2026, 3, day);
+    if (isPeriodDay(date, period, FALLBACK_LENGTH)) days.push(formatDayKey(date));
+  }
+  return days;
+}
+
+describe('getPeriodDays', () => {
+  it('ends a shortened period on its own end date, not the length setting', () => {
+    const period = { startDate: '2026-03-02T00:00:00', endDate: '2026-03-04T23:59:59.999' };
+    assert.deepEqual(coveredDays(period), ['2026-03-02', '2026-03-03', '2026-03-04']);
+    assert.equal(getPeriodDays(period, FALLBACK_LENGTH).length, 3);
+  });
+
+  it('keeps every day of a lengthened period', () => {
+    const period = { startDate: '2026-03-02T00:00:00', endDate: '2026-03-09T23:59:59.999' };
+    const days = coveredDays(period);
+    assert.equal(days.length, 8);
+    assert.equal(days[days.length - 1], '2026-03-09');
+    assert.equal(getPeriodDays(period, FALLBACK_LENGTH).isOpen, false);
+  });
+
+  it('falls back to the length setting only while a period is open', () => {
+    const period = { startDate: '2026-03-02T00:00:00', endDate: null };
+    const range = getPeriodDays(period, FALLBACK_LENGTH);
+    assert.equal(range.isOpen, true);
+    assert.equal(formatDayKey(range.end), '2026-03-06');
+    assert.equal(coveredDays(period).length, FALLBACK_LENGTH);
+  });
+
+  it('reads end dates older app versions sent as instants', () => {
+    // Local end of day on a UTC+2 device
+    const period = { startDate: '2026-03-01T22:00:00.000Z', endDate: '2026-03-04T21:59:59.999Z' };
+    const range = getPeriodDays(period, FALLBACK_LENGTH);
+    assert.equal(formatDayKey(range.start), '2026-03-02');
+    assert.equal(formatDayKey(range.end), '2026-03-04');
+  });
+
+  it('counts whole days across a daylight saving change', () => {
+    const period = { startDate: '2026-03-07T00:00:00', endDate: '2026-03-10T23:59:59.999' };
+    assert.equal(getPeriodDays(period, FALLBACK_LENGTH).length, 4);
+  });
+
+  it('treats an end before the start as a one-day period', () => {
+    const period = { startDate: '2026-03-05T00:00:00', endDate: '2026-03-03T23:59:59.999' };
+    assert.deepEqual(coveredDays(period), ['2026-03-05']);
+  });
+});
@@ -0,0 +1,45 @@
+import type { Period } from './api';
+import { addDays, CalendarDate, compareDates, daysBetween, fromApiDate, fromLocalDate, isWithin } from './calendarDate';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface PeriodDays {
+  start: CalendarDate;
+  end: CalendarDate;
+  /** Days from start to end, both included */
+  length: number;
+  /** No end date logged yet, so the end comes from the fallback length */
+  isOpen: boolean;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** The day a period starts on, however its date arrived (see `fromApiDate`) */
+export function periodStartDay(period: Pick<Period, 'startDate'>): CalendarDate {
+  return fromApiDate(period.startDate) ?? fromLocalDate(new Date(period.startDate));
+}
+
+/**
+ * The days a logged period covers. A period with an end date covers exactly
+ * start to end, however it was shortened or lengthened; only an open period
+ * is assumed to last `fallbackLength` days.
+ */
+export function getPeriodDays(period: Pick<Period, 'startDate' | 'endDate'>, fallbackLength: number): PeriodDays {
+  const start = periodStartDay(period);
+  const loggedEnd = fromApiDate(period.endDate);
+  if (loggedEnd) {
+    const end = compareDates(loggedEnd, start) < 0 ? start : loggedEnd;
+    return { start, end, length: daysBetween(start, end) + 1, isOpen: false };
+  }
+  const length = Math.max(1, fallbackLength);
+  return { start, end: addDays(start, length - 1), length, isOpen: true };
+}
+
+/** Whether `day` falls within the logged period (see `getPeriodDays`) */
+export function isPeriodDay(
+  day: CalendarDate,
+  period: Pick<Period, 'startDate' | 'endDate'>,
+  fallbackLength: number
+): boolean {
+  const { start, end } = getPeriodDays(period, fallbackLength);
+  return isWithin(day, start, end);
+}
@@ -0,0 +1,42 @@
+import { formatDayKey, fromLocalDate, getNow } from './calendarDate';
+import { createDayLogStore } from './dayLogStore';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const PILL_KEY_PREFIX = 'pill_log_v1::';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface PillLogEntry {
+  /** Local calendar day the pill was for, YYYY-MM-DD */
+  date: string;
+  /** When it was ticked off, which can be the next day for a late pill */
+  takenAt: string;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const store = createDayLogStore<PillLogEntry>(PILL_KEY_PREFIX, 'pillLogUpdated', 'PillLog', 'pill');
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Pills taken for the current scope, oldest first, kept in memory so the
+ * missed-pill check and reminders can read them. Empty until `loadPillLog` resolves.
+ */
+export function getPillLogSnapshot(): PillLogEntry[] {
+  return store.getSnapshot();
+}
+
+/** Subscribe to log changes (`useSyncExternalStore` compatible) */
+export function subscribeToPillLog(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+/** Read the stored log for the current scope. Only hits storage once per scope. */
+export function loadPillLog(): Promise<void> {
+  return store.load();
+}
+
+/** Tick off the pill for a day, or untick it */
+export async function setPillTaken(date: Date, taken: boolean): Promise<void> {
+  const key = formatDayKey(fromLocalDate(date));
+  await store.setDay(key, taken ? { date: key, takenAt: getNow().toISOString() } : null);
+}
@@ -0,0 +1,219 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import { getCacheScope, Period, UserSettings } from './api';
+import { CycleReviews, reviewCycleGaps } from './cycleReview';
+import { daysBetween, formatDayKey, fromLocalDate, parseDayKey, toLocalDate } from './calendarDate';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const SNAPSHOTS_KEY_PREFIX = 'prediction_snapshots_v1::';
+const MAX_SNAPSHOTS = 300;
+const MIN_SCORED_CYCLES = 2;         // fewer scored cycles than this and a source's record isn't trusted
+const DEFAULT_AI_WEIGHT = 0.5;       // without a track record neither source is preferred
+const MIN_ERROR = 0.5;               // keeps a perfect record from taking all the weight
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type PredictionSource = 'local' | 'ai';
+
+export interface PredictionSnapshot {
+  source: PredictionSource;
+  /** AI model name; null for the on-device calculator */
+  model: string | null;
+  /** When the prediction was generated (the AI's `generated_at`) */
+  generatedAt: string;
+  /** Start of the period the prediction was made from, YYYY-MM-DD */
+  cycleStart: string;
+  /** Predicted start of the following period, YYYY-MM-DD */
+  predictedStart: string;
+}
+
+export interface ScoredPrediction {
+  source: PredictionSource;
+  model: string | null;
+  generatedAt: string;
+  cycleStart: Date;
+  predictedStart: Date;
+  actualStart: Date;
+  /** Positive when the period came later than predicted */
+  errorDays: number;
+}
+
+export interface SourceAccuracy {
+  source: PredictionSource;
+  /** One entry per cycle, newest first */
+  cycles: ScoredPrediction[];
+  meanAbsoluteError: number | null;
+  /** Average signed error; positive means periods tend to come later than predicted */
+  bias: number | null;
+}
+
+export interface PredictionAccuracy {
+  local: SourceAccuracy;
+  ai: SourceAccuracy;
+  /** Share of the AI date in the blended next-period date, 0–1 */
+  aiWeight: number;
+  /** Both sources have enough scored cycles for `aiWeight` to reflect them */
+  hasTrackRecord: boolean;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+// Snapshot writes are read-modify-write, so local and AI recordings take turns
+let writeChain: Promise<void> = Promise.resolve();
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function storageKey(): string {
+  return `${SNAPSHOTS_KEY_PREFIX}${getCacheScope()}`;
+}
+
+function dayKey(date: Date): string {
+  return formatDayKey(fromLocalDate(date));
+}
+
+function fromDayKey(key: string): Date {
+  const day = parseDayKey(key);
+  return day ? toLocalDate(day) : new Date(NaN);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function summarize(source: PredictionSource, cycles: ScoredPrediction[]): SourceAccuracy {
+  if (!cycles.length) {
+    return { source, cycles, meanAbsoluteError: null, bias: null };
+  }
+  const total = (pick: (cycle: ScoredPrediction) => number) =>
+    cycles.reduce((sum, cycle) => sum + pick(cycle), 0) / cycles.length;
+  return {
+    source,
+    cycles,
+    meanAbsoluteError: round1(total((cycle) => Math.abs(cycle.errorDays))),
+    bias: round1(total((cycle) => cycle.errorDays)),
+  };
+}
+
+function hasTrackRecord(local: SourceAccuracy, ai: SourceAccuracy): boolean {
+  return local.cycles.length >= MIN_SCORED_CYCLES && ai.cycles.length >= MIN_SCORED_CYCLES;
+}
+
+/**
+ * Inverse-square weighting of the two sources' typical errors, so a source
+ * that's usually twice as far off gets a fifth of the say.
+ */
+function aiWeightFor(local: SourceAccuracy, ai: SourceAccuracy): number {
+  if (!hasTrackRecord(local, ai)) {
+    return DEFAULT_AI_WEIGHT;
+  }
+  const localPrecision = 1 / Math.max(MIN_ERROR, local.meanAbsoluteError ?? 0) ** 2;
+  const aiPrecision = 1 / Math.max(MIN_ERROR, ai.meanAbsoluteError ?? 0) ** 2;
+  return aiPrecision / (aiPrecision + localPrecision);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export async function listPredictionSnapshots(): Promise<PredictionSnapshot[]> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey());
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('[PredictionAccuracy] Failed to read snapshots:', error);
+    return [];
+  }
+}
+
+/**
+ * Remember a prediction so it can be scored once the real period is logged.
+ * Repeats of the same prediction for the same cycle are ignored.
+ */
+export async function recordPrediction(input: {
+  source: PredictionSource;
+  model: string | null;
+  generatedAt: string;
+  cycleStart: Date;
+  predictedStart: Date;
+}): Promise<void> {
+  writeChain = writeChain.then(() => appendSnapshot(input));
+  return writeChain;
+}
+
+async function appendSnapshot(input: Parameters<typeof recordPrediction>[0]): Promise<void> {
+  const snapshot: PredictionSnapshot = {
+    source: input.source,
+    model: input.model,
+    generatedAt: input.generatedAt,
+    cycleStart: dayKey(input.cycleStart),
+    predictedStart: dayKey(input.predictedStart),
+  };
+
+  const snapshots = await listPredictionSnapshots();
+  const exists = snapshots.some(
+    (entry) =>
+      entry.source === snapshot.source &&
+      entry.model === snapshot.model &&
+      entry.cycleStart === snapshot.cycleStart &&
+      entry.predictedStart === snapshot.predictedStart
+  );
+  if (exists) return;
+
+  try {
+    await AsyncStorage.setItem(storageKey(), JSON.stringify([...snapshots, snapshot].slice(-MAX_SNAPSHOTS)));
+  } catch (error) {
+    console.warn('[PredictionAccuracy] Failed to save snapshot:', error);
+  }
+  DeviceEventEmitter.emit('predictionAccuracyUpdated');
+}
+
+/**
+ * Score each source against the periods logged since. Each cycle is judged by
+ * the first prediction made for it — the one made furthest ahead — and
+ * cycles flagged as a likely missed or double log are skipped.
+ */
+export function scorePredictions(
+  snapshots: PredictionSnapshot[],
+  periods: Period[],
+  settings: UserSettings | null,
+  reviews?: CycleReviews
+): PredictionAccuracy {
+  const countedCycles = new Map<string, Date>();
+  reviewCycleGaps(periods, settings, reviews)
+    .filter((gap) => gap.counts)
+    .forEach((gap) => countedCycles.set(dayKey(gap.previousStart), gap.nextStart));
+
+  const firstPerCycle = new Map<string, PredictionSnapshot>();
+  [...snapshots]
+    .sort((a, b) => a.generatedAt.localeCompare(b.generatedAt))
+    .forEach((snapshot) => {
+      const key = `${snapshot.source}|${snapshot.cycleStart}`;
+      if (!firstPerCycle.has(key)) firstPerCycle.set(key, snapshot);
+    });
+
+  const scored: ScoredPrediction[] = [];
+  firstPerCycle.forEach((snapshot) => {
+    const actualStart = countedCycles.get(snapshot.cycleStart);
+    if (!actualStart) return;
+    const predictedStart = fromDayKey(snapshot.predictedStart);
+    scored.push({
+      source: snapshot.source,
+      model: snapshot.model,
+      generatedAt: snapshot.generatedAt,
+      cycleStart: fromDayKey(snapshot.cycleStart),
+      predictedStart,
+      actualStart,
+      errorDays: daysBetween(fromLocalDate(predictedStart), fromLocalDate(actualStart)),
+    });
+  });
+  scored.sort((a, b) => b.cycleStart.getTime() - a.cycleStart.getTime());
+
+  const local = summarize('local', scored.filter((entry) => entry.source === 'local'));
+  const ai = summarize('ai', scored.filter((entry) => entry.source === 'ai'));
+  return { local, ai, aiWeight: aiWeightFor(local, ai), hasTrackRecord: hasTrackRecord(local, ai) };
+}
+
+/** Scores for the current user and view mode */
+export async function loadPredictionAccuracy(
+  periods: Period[],
+  settings: UserSettings | null,
+  reviews?: CycleReviews
+): Promise<PredictionAccuracy> {
+  return scorePredictions(await listPredictionSnapshots(), periods, settings, reviews);
+}
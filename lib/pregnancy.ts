@@ -0,0 +1,237 @@
+import { Period, TrackingGoal, UserSettings } from './api';
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  daysBetween,
+  fromApiDate,
+  fromLocalDate,
+  getToday,
+  toApiDate,
+  toLocalDate,
+} from './calendarDate';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const PREGNANCY_DAYS = 280;          // due date: 40 weeks from the first day of the last period
+const TYPICAL_CYCLE_DAYS = 28;       // longer cycles ovulate later, pushing the due date back
+const SECOND_TRIMESTER_WEEK = 14;
+const THIRD_TRIMESTER_WEEK = 28;
+const PERIOD_RETURN_WEEKS = 6;       // without breastfeeding, periods usually return 6–8 weeks after birth
+const LATE_RETURN_WEEKS = 12;        // no period by now without breastfeeding is worth mentioning to a doctor
+const POSTPARTUM_SPREAD = 1.5;       // how much wider the forecast is once periods return after a birth
+const BREASTFEEDING_SPREAD = 2;      // …and while breastfeeding, which keeps cycles irregular
+
+const TRIMESTER_NOTES: Record<Trimester, string> = {
+  1: 'Tiredness, nausea and tender breasts are common now. Keep taking folic acid.',
+  2: 'Many people feel more energetic this trimester, and first movements usually show up by week 20–24.',
+  3: 'Your body is getting ready for birth. Keep an eye on movements and ask about anything that feels off.',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type Trimester = 1 | 2 | 3;
+
+export interface PregnancyProgress {
+  dueDate: Date;
+  /** Completed weeks since the first day of the last period */
+  week: number;
+  /** 0–6 days into `week` */
+  day: number;
+  trimester: Trimester;
+  /** Negative once the due date has passed */
+  daysToGo: number;
+  /** 0–1 of the 40 weeks */
+  progress: number;
+  note: string;
+}
+
+export interface PostpartumStatus {
+  birthDate: Date;
+  weeksSinceBirth: number;
+  breastfeeding: boolean;
+  /** First period logged after the birth, if there has been one */
+  firstPeriod: Date | null;
+  message: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+const formatShort = (day: CalendarDate) =>
+  toLocalDate(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+function periodStarts(periods: Period[]): CalendarDate[] {
+  return periods
+    .map((period) => fromApiDate(period.startDate))
+    .filter((day): day is CalendarDate => day !== null)
+    .sort(compareDates);
+}
+
+/** First period that started after the birth */
+function firstPeriodAfter(periods: Period[], birth: CalendarDate): CalendarDate | null {
+  return periodStarts(periods).find((day) => compareDates(day, birth) > 0) ?? null;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Due date from the last period: 280 days after it started (Naegele's
+ * rule), moved by however much the usual cycle differs from 28 days.
+ */
+export function estimateDueDate(periods: Period[], settings: UserSettings | null): Date | null {
+  const lastStart = periodStarts(periods).pop();
+  if (!lastStart) return null;
+  const cycleLength = settings?.averageCycleLength || TYPICAL_CYCLE_DAYS;
+  return toLocalDate(addDays(lastStart, PREGNANCY_DAYS + cycleLength - TYPICAL_CYCLE_DAYS));
+}
+
+/**
+ * Period predictions and reminders stop for a pregnancy, and after a birth
+ * until the first period is logged. Logged periods are never touched.
+ */
+export function arePredictionsPaused(periods: Period[], settings: UserSettings | null): boolean {
+  if (settings?.goal === 'pregnant') return true;
+  if (settings?.goal !== 'postpartum') return false;
+  const birth = fromApiDate(settings.pregnancyEndDate);
+  return !birth || !firstPeriodAfter(periods, birth);
+}
+
+/**
+ * How much wider than usual the period forecast should be: cycles after a
+ * birth take a while to settle, breastfeeding even more so.
+ */
+export function postpartumForecastSpread(settings: UserSettings | null): number {
+  if (settings?.goal !== 'postpartum') return 1;
+  return settings.breastfeeding ? BREASTFEEDING_SPREAD : POSTPARTUM_SPREAD;
+}
+
+/**
+ * Whether the cycle between two period starts ran through a pregnancy. Those
+ * gaps aren't cycles at all, so they're kept out of the statistics and never
+ * flagged as missed periods.
+ */
+export function spansPregnancy(previousStart: Date, nextStart: Date, settings: UserSettings | null): boolean {
+  const start = fromApiDate(settings?.pregnancyStartDate);
+  if (!start) return false;
+  const end = fromApiDate(settings?.pregnancyEndDate) ?? (settings?.goal === 'pregnant' ? getToday() : null);
+  if (!end) return false;
+  return compareDates(fromLocalDate(nextStart), start) > 0 && compareDates(fromLocalDate(previousStart), end) < 0;
+}
+
+/** Week-by-week progress; null unless in pregnancy mode with a due date */
+export function getPregnancyProgress(
+  settings: UserSettings | null,
+  today: CalendarDate = getToday()
+): PregnancyProgress | null {
+  if (settings?.goal !== 'pregnant') return null;
+  const due = fromApiDate(settings.dueDate);
+  if (!due) return null;
+
+  // Counted from a notional last period 280 days before the due date, so an edited due date moves the weeks too
+  const elapsed = Math.max(0, daysBetween(addDays(due, -PREGNANCY_DAYS), today));
+  const week = Math.floor(elapsed / 7);
+  const trimester: Trimester = week >= THIRD_TRIMESTER_WEEK ? 3 : week >= SECOND_TRIMESTER_WEEK ? 2 : 1;
+  return {
+    dueDate: toLocalDate(due),
+    week,
+    day: elapsed % 7,
+    trimester,
+    daysToGo: daysBetween(today, due),
+    progress: Math.min(1, elapsed / PREGNANCY_DAYS),
+    note: TRIMESTER_NOTES[trimester],
+  };
+}
+
+/** Where the return of periods stands after a birth; null outside postpartum mode */
+export function getPostpartumStatus(
+  periods: Period[],
+  settings: UserSettings | null,
+  today: CalendarDate = getToday()
+): PostpartumStatus | null {
+  if (settings?.goal !== 'postpartum') return null;
+  const birth = fromApiDate(settings.pregnancyEndDate);
+  if (!birth) return null;
+
+  const weeksSinceBirth = Math.max(0, Math.floor(daysBetween(birth, today) / 7));
+  const breastfeeding = !!settings.breastfeeding;
+  const firstPeriod = firstPeriodAfter(periods, birth);
+
+  let message: string;
+  if (firstPeriod) {
+    message = breastfeeding
+      ? `Your period came back on ${formatShort(firstPeriod)}. Cycles are often irregular while breastfeeding, so predictions allow for a wide range.`
+      : `Your period came back on ${formatShort(firstPeriod)}. The first few cycles after a birth can be irregular, so predictions allow for a wide range.`;
+  } else if (breastfeeding) {
+    message = 'Breastfeeding can keep periods away for months. You can ovulate before your first period, so use contraception if you don’t want to conceive.';
+  } else if (weeksSinceBirth < PERIOD_RETURN_WEEKS) {
+    message = `Bleeding in the first weeks after birth (lochia) isn’t a period. Without breastfeeding, periods usually return ${PERIOD_RETURN_WEEKS}–8 weeks after birth.`;
+  } else if (weeksSinceBirth < LATE_RETURN_WEEKS) {
+    message = 'Your period could come back any time now. Log it when it does and predictions will pick up again.';
+  } else {
+    message = 'Your period hasn’t come back yet. If you aren’t breastfeeding, it’s worth mentioning to your doctor.';
+  }
+
+  return {
+    birthDate: toLocalDate(birth),
+    weeksSinceBirth,
+    breastfeeding,
+    firstPeriod: firstPeriod ? toLocalDate(firstPeriod) : null,
+    message,
+  };
+}
+
+/**
+ * Settings to send when the goal changes. Starting a pregnancy records its
+ * last period and due date; leaving it records when it ended, so the long
+ * gap around it is never treated as a cycle. Trying to conceive or being
+ * pregnant turns contraception off. Periods themselves stay as logged.
+ */
+export function settingsForGoal(
+  goal: TrackingGoal,
+  settings: UserSettings | null,
+  periods: Period[],
+  options: { birthDate?: Date; breastfeeding?: boolean } = {},
+  today: CalendarDate = getToday()
+): Partial<UserSettings> {
+  const changes: Partial<UserSettings> = { goal };
+  // Cycles trying are counted from the day the goal is switched on
+  changes.ttcStartedAt = goal === 'conceive' ? toApiDate(today) : null;
+  // Trying for or expecting a baby: any contraception has stopped
+  if ((goal === 'conceive' || goal === 'pregnant') && settings?.contraception) {
+    changes.contraception = null;
+  }
+
+  if (goal === 'pregnant') {
+    const lastStart = periodStarts(periods).pop();
+    const dueDate = estimateDueDate(periods, settings);
+    if (!lastStart || !dueDate) {
+      throw new Error('Log your last period first so your due date can be worked out.');
+    }
+    return {
+      ...changes,
+      pregnancyStartDate: toApiDate(lastStart),
+      dueDate: toApiDate(fromLocalDate(dueDate)),
+      pregnancyEndDate: null,
+      breastfeeding: null,
+    };
+  }
+
+  if (goal === 'postpartum') {
+    const birth = options.birthDate
+      ? fromLocalDate(options.birthDate)
+      : fromApiDate(settings?.pregnancyEndDate) ?? today;
+    // Straight to postpartum without pregnancy mode: the pregnancy began with the last period before the birth
+    const lastBeforeBirth = periodStarts(periods).filter((day) => compareDates(day, birth) < 0).pop();
+    const pregnancyStart =
+      (settings?.goal === 'pregnant' ? fromApiDate(settings.pregnancyStartDate) : null) ?? lastBeforeBirth ?? null;
+    return {
+      ...changes,
+      pregnancyStartDate: pregnancyStart ? toApiDate(pregnancyStart) : null,
+      pregnancyEndDate: toApiDate(birth),
+      breastfeeding: !!options.breastfeeding,
+    };
+  }
+
+  // Leaving pregnancy mode any other way still closes the pregnancy off
+  if (settings?.goal === 'pregnant') {
+    return { ...changes, pregnancyEndDate: toApiDate(today) };
+  }
+  return changes;
+}
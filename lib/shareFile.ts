@@ -0,0 +1,35 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface ShareFileOptions {
+  /** File name shown in the share sheet, e.g. `cycle-report.pdf` */
+  filename: string;
+  content: string | Uint8Array;
+  mimeType: string;
+  /** iOS uniform type identifier, e.g. `com.adobe.pdf` */
+  UTI?: string;
+  dialogTitle?: string;
+}
+
+/**
+ * Write `content` to the cache directory and open the OS share sheet for it.
+ * Throws if sharing isn't available on this device.
+ */
+export async function shareFile(options: ShareFileOptions): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, options.filename);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(options.content);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: options.mimeType,
+    UTI: options.UTI,
+    dialogTitle: options.dialogTitle,
+  });
+}
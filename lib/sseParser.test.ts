@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSSEParser, extractToken } from './sseParser';
+
+type Received = { data: string; event: string | null };
+
+function collect() {
+  const received: Received[] = [];
+  const parser = createSSEParser((data, event) => received.push({ data, event }));
+  return { parser, received };
+}
+
+describe('createSSEParser', () => {
+  it('dispatches one call per complete event', () => {
+    const { parser, received } = collect();
+    parser.push('data: Hello\n\ndata: there\n\n');
+    assert.deepEqual(received, [
+      { data: 'Hello', event: null },
+      { data: 'there', event: null },
+    ]);
+  });
+
+  it('waits for the blank line when an event is split across chunks', () => {
+    const { parser, received } = collect();
+    parser.push('da');
+    parser.push('ta: {"token":"Hel');
+    assert.deepEqual(received, []);
+    parser.push('lo"}\n');
+    assert.deepEqual(received, []);
+    parser.push('\ndata: x\n\n');
+    assert.deepEqual(received, [
+      { data: '{"token":"Hello"}', event: null },
+      { data: 'x', event: null },
+    ]);
+  });
+
+  it('handles CRLF separators split between chunks', () => {
+    const { parser, received } = collect();
+    parser.push('data: one\r\n\r');
+    parser.push('\ndata: two\r\n\r\n');
+    assert.deepEqual(received.map((item) => item.data), ['one', 'two']);
+  });
+
+  it('joins multi-line data and only strips the first space', () => {
+    const { parser, received } = collect();
+    parser.push('data: first\ndata:  indented\n\n');
+    assert.equal(received[0].data, 'first\n indented');
+  });
+
+  it('ignores comments and blocks without data', () => {
+    const { parser, received } = collect();
+    parser.push(': keep-alive\n\nevent: ping\n\ndata: real\n\n');
+    assert.deepEqual(received, [{ data: 'real', event: null }]);
+  });
+
+  it('stops at [DONE] and ignores anything after it', () => {
+    const { parser, received } = collect();
+    assert.equal(parser.push('data: a\n\n'), false);
+    assert.equal(parser.push('data: [DONE]\n\ndata: late\n\n'), true);
+    parser.flush();
+    assert.deepEqual(received.map((item) => item.data), ['a']);
+  });
+
+  it('recognises [DONE] split across chunks', () => {
+    const { parser } = collect();
+    assert.equal(parser.push('data: [DO'), false);
+    assert.equal(parser.push('NE]\n\n'), true);
+  });
+
+  it('flushes a final event that has no trailing blank line', () => {
+    const { parser, received } = collect();
+    parser.push('data: tail');
+    assert.deepEqual(received, []);
+    parser.flush();
+    assert.deepEqual(received, [{ data: 'tail', event: null }]);
+  });
+
+  it('passes the event name through for error events', () => {
+    const { parser, received } = collect();
+    parser.push('event: error\ndata: {"error":"Rate limited"}\n\n');
+    assert.deepEqual(received, [{ data: '{"error":"Rate limited"}', event: 'error' }]);
+  });
+
+  it('lets an error thrown by the handler escape push', () => {
+    const parser = createSSEParser((data, event) => {
+      if (event === 'error') throw new Error(data);
+    });
+    assert.throws(() => parser.push('data: ok\n\nevent: error\ndata: boom\n\n'), { message: 'boom' });
+  });
+});
+
+describe('extractToken', () => {
+  it('reads the JSON shapes providers send', () => {
+    assert.equal(extractToken('{"token":"a"}'), 'a');
+    assert.equal(extractToken('{"delta":"b"}'), 'b');
+    assert.equal(extractToken('{"content":"c"}'), 'c');
+    assert.equal(extractToken('{"text":"d"}'), 'd');
+    assert.equal(extractToken('{"choices":[{"delta":{"content":"e"}}]}'), 'e');
+    assert.equal(extractToken('"quoted"'), 'quoted');
+  });
+
+  it('returns plain text as is', () => {
+    assert.equal(extractToken('Hello there'), 'Hello there');
+  });
+
+  it('returns an empty string for JSON without text', () => {
+    assert.equal(extractToken('{"choices":[{"delta":{}}]}'), '');
+    assert.equal(extractToken('{"token":42}'), '');
+  });
+
+  it('throws for error payloads', () => {
+    assert.throws(() => extractToken('{"error":"Quota exceeded"}'), { message: 'Quota exceeded' });
+    assert.throws(() => extractToken('{"error":{"code":500}}'), { message: 'The assistant stopped responding.' });
+  });
+});
@@ -0,0 +1,78 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface SSEParser {
+  /** Feed decoded text; returns `true` once the `[DONE]` sentinel has been seen */
+  push(chunk: string): boolean;
+  /** Dispatch whatever is left in the buffer when the stream ends without a blank line */
+  flush(): void;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Pull the text out of one SSE `data:` payload. Accepts plain text and the JSON
+ * shapes our backend and common providers use (`token`, `delta`, `content`,
+ * OpenAI-style `choices[0].delta.content`). Throws when the payload carries an
+ * `error` instead.
+ */
+export function extractToken(data: string): string {
+  try {
+    const parsed = JSON.parse(data);
+    if (typeof parsed === 'string') return parsed;
+    if (parsed?.error) {
+      throw new Error(typeof parsed.error === 'string' ? parsed.error : 'The assistant stopped responding.');
+    }
+    const token =
+      parsed?.token ??
+      parsed?.delta ??
+      parsed?.content ??
+      parsed?.text ??
+      parsed?.choices?.[0]?.delta?.content;
+    return typeof token === 'string' ? token : '';
+  } catch (error) {
+    if (error instanceof SyntaxError) return data;
+    throw error;
+  }
+}
+
+/**
+ * Incremental Server-Sent Events parser. Feed it decoded text in whatever
+ * chunks the network delivers; it calls `onData` once per complete event.
+ * Anything `onData` throws propagates out of `push`/`flush`.
+ */
+export function createSSEParser(onData: (data: string, event: string | null) => void): SSEParser {
+  let buffer = '';
+  let done = false;
+
+  const dispatch = (block: string) => {
+    let event: string | null = null;
+    const dataLines: string[] = [];
+    block.split(/\r?\n/).forEach((line) => {
+      if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+      else if (line.startsWith('event:')) event = line.slice(6).trim();
+    });
+    if (dataLines.length === 0) return;
+    const data = dataLines.join('\n');
+    if (data === '[DONE]') {
+      done = true;
+      return;
+    }
+    onData(data, event);
+  };
+
+  return {
+    push(chunk: string): boolean {
+      buffer += chunk;
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        if (done) break;
+        dispatch(block);
+      }
+      return done;
+    },
+    flush() {
+      if (!done && buffer.trim()) dispatch(buffer);
+      buffer = '';
+    },
+  };
+}
@@ -924,6 +924,43 @@ export const symptomOptions: Array<{
   { type: 'takes_many_painkillers', label: 'Needs Many Painkillers', emoji: '💊', category: 'symptoms' },
 ]
 
+// Labels for the 1-5 `Symptom.severity` scale
+export const severityLabels: Record<number, string> = {
+  1: 'Very mild',
+  2: 'Mild',
+  3: 'Moderate',
+  4: 'Strong',
+  5: 'Severe',
+}
+
+// Symptoms a doctor should hear about (the "Serious Symptoms" group above)
+export const seriousSymptomTypes: SymptomType[] = [
+  'vomiting',
+  'severe_pain',
+  'very_light_period',
+  'irregular_periods',
+  'excessive_hair_growth',
+  'weight_gain',
+  'dark_skin_patches',
+  'pain_during_sex',
+  'painful_bowel_movements',
+  'fainting',
+  'pale_skin',
+  'dizziness',
+  'shortness_of_breath',
+  'fast_heartbeat',
+  'hair_loss',
+  'feeling_cold',
+  'feeling_hot',
+  'very_heavy_bleeding',
+  'prolonged_bleeding',
+  'pelvic_pressure',
+  'frequent_urination',
+  'heavy_flow',
+  'clotting',
+  'takes_many_painkillers',
+]
+
 export const moodOptions: Array<{
   type: MoodType
   label: string
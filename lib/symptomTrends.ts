@@ -0,0 +1,150 @@
+import { Period, Symptom } from './api';
+import { daysBetween, fromLocalDate } from './calendarDate';
+import { symptomOptions } from './symptomTips';
+import { normalizeSymptomType } from './symptomTriage';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const MAX_CYCLE_DAY = 45;            // logs further from a period start aren't tied to that cycle
+const TREND_CYCLES = 6;              // the direction looks at this many recent cycles
+const MIN_TREND_CYCLES = 3;
+const STABLE_SLOPE = 0.15;           // severity points per cycle treated as "no real change"
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type TrendDirection = 'worsening' | 'improving' | 'stable';
+
+export interface LoggedSymptomType {
+  type: string;
+  label: string;
+  count: number;
+}
+
+export interface CycleDaySeverity {
+  /** 1 = first day of the period */
+  cycleDay: number;
+  average: number;
+  count: number;
+}
+
+export interface CycleSeverity {
+  cycleStart: Date;
+  average: number;
+  max: number;
+  count: number;
+}
+
+export interface SymptomTrend {
+  type: string;
+  label: string;
+  byCycleDay: CycleDaySeverity[];
+  /** Oldest cycle first */
+  byCycle: CycleSeverity[];
+  /** Null until there are enough cycles to tell */
+  direction: TrendDirection | null;
+  /** Change in average severity per cycle over the recent cycles */
+  slope: number | null;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function startOfDay(value: string | Date): Date {
+  const copy = new Date(value);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Least-squares slope of `values` against their index */
+function slopeOf(values: number[]): number {
+  const meanX = (values.length - 1) / 2;
+  const meanY = average(values);
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - meanX) * (value - meanY);
+    denominator += (index - meanX) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function symptomTypeLabel(type: string): string {
+  const normalized = normalizeSymptomType(type);
+  const option = symptomOptions.find((entry) => entry.type === normalized);
+  return option?.label ?? type.replace(/_/g, ' ').replace(/^\w/, (char) => char.toUpperCase());
+}
+
+/** Symptom types the user has logged, most frequent first */
+export function listLoggedSymptomTypes(symptoms: Symptom[]): LoggedSymptomType[] {
+  const counts = new Map<string, number>();
+  symptoms.forEach((symptom) => {
+    const type = normalizeSymptomType(symptom.type);
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .filter(([type]) => type !== 'everything_fine' && type !== 'everything_is_fine')
+    .map(([type, count]) => ({ type, label: symptomTypeLabel(type), count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Severity of one symptom by cycle day (averaged over every cycle) and by
+ * cycle, plus whether it's been getting worse across recent cycles. Symptoms
+ * are tied to the latest period that started on or before them.
+ */
+export function buildSymptomTrend(type: string, symptoms: Symptom[], periods: Period[]): SymptomTrend {
+  const normalized = normalizeSymptomType(type);
+  const starts = periods
+    .map((period) => startOfDay(period.startDate))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const byDay = new Map<number, number[]>();
+  const byCycle = new Map<number, number[]>();
+
+  symptoms
+    .filter((symptom) => normalizeSymptomType(symptom.type) === normalized)
+    .forEach((symptom) => {
+      const day = startOfDay(symptom.date);
+      const cycleStart = [...starts].reverse().find((start) => start.getTime() <= day.getTime());
+      if (!cycleStart) return;
+      const cycleDay = daysBetween(fromLocalDate(cycleStart), fromLocalDate(day)) + 1;
+      if (cycleDay > MAX_CYCLE_DAY) return;
+
+      const severity = symptom.severity || 3;
+      if (!byDay.has(cycleDay)) byDay.set(cycleDay, []);
+      byDay.get(cycleDay)!.push(severity);
+      if (!byCycle.has(cycleStart.getTime())) byCycle.set(cycleStart.getTime(), []);
+      byCycle.get(cycleStart.getTime())!.push(severity);
+    });
+
+  const cycles: CycleSeverity[] = [...byCycle.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, values]) => ({
+      cycleStart: new Date(time),
+      average: round1(average(values)),
+      max: Math.max(...values),
+      count: values.length,
+    }));
+
+  const recent = cycles.slice(-TREND_CYCLES).map((cycle) => cycle.average);
+  const slope = recent.length >= MIN_TREND_CYCLES ? Math.round(slopeOf(recent) * 100) / 100 : null;
+  const direction: TrendDirection | null =
+    slope === null ? null : Math.abs(slope) < STABLE_SLOPE ? 'stable' : slope > 0 ? 'worsening' : 'improving';
+
+  return {
+    type: normalized,
+    label: symptomTypeLabel(normalized),
+    byCycleDay: [...byDay.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([cycleDay, values]) => ({ cycleDay, average: round1(average(values)), count: values.length })),
+    byCycle: cycles,
+    direction,
+    slope,
+  };
+}
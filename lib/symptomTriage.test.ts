@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Period, Symptom } from './api';
+import type { FlowDay } from './flowLog';
+import { evaluateRedFlags } from './symptomTriage';
+
+const TODAY = new Date(2026, 4, 30);
+
+function openPeriod(startDate: string): Period {
+  return {
+    id: `period-${startDate}`,
+    startDate: `${startDate}T00:00:00`,
+    endDate: null,
+    flowLevel: null,
+    createdAt: `${startDate}T00:00:00.000Z`,
+    updatedAt: `${startDate}T00:00:00.000Z`,
+  };
+}
+
+function symptom(date: string, type: string): Symptom {
+  return { id: `${type}-${date}`, date: `${date}T00:00:00`, type, severity: 3, createdAt: `${date}T00:00:00.000Z` };
+}
+
+function flow(date: string, intensity: FlowDay['intensity']): FlowDay {
+  return { date, intensity, updatedAt: `${date}T00:00:00.000Z` };
+}
+
+const prolonged = (findings: ReturnType<typeof evaluateRedFlags>) =>
+  findings.find((finding) => finding.ruleId === 'prolonged_bleeding');
+
+describe('evaluateRedFlags prolonged bleeding', () => {
+  it('does not stretch an open period to mid-cycle spotting', () => {
+    const periods = [openPeriod('2026-05-01')];
+    const symptoms = [symptom('2026-05-02', 'flow'), symptom('2026-05-15', 'spotting')];
+    assert.equal(prolonged(evaluateRedFlags(periods, symptoms, TODAY)), undefined);
+  });
+
+  it("does not stretch an open period to the next cycle's flow", () => {
+    const periods = [openPeriod('2026-04-20')];
+    const flowDays = [flow('2026-04-21', 'medium'), flow('2026-05-18', 'light'), flow('2026-05-19', 'medium')];
+    assert.equal(prolonged(evaluateRedFlags(periods, [], TODAY, flowDays)), undefined);
+  });
+
+  it('still flags an open period with more than a week of back-to-back bleeding', () => {
+    const periods = [openPeriod('2026-05-10')];
+    const flowDays = ['11', '12', '13', '14', '15', '16', '17'].map((day) => flow(`2026-05-${day}`, 'medium'));
+    const finding = prolonged(evaluateRedFlags(periods, [], TODAY, flowDays));
+    assert.ok(finding);
+    assert.equal(finding.startDate, '2026-05-10');
+    assert.equal(finding.endDate, '2026-05-17');
+  });
+});
@@ -0,0 +1,383 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceEventEmitter } from 'react-native';
+import { getCacheScope, Period, Symptom } from './api';
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  daysBetween,
+  formatDayKey,
+  fromDeviceDate,
+  fromLocalDate,
+  isWithin,
+  parseDayKey,
+  toLocalDate,
+} from './calendarDate';
+import { FlowDay, FlowIntensity } from './flowLog';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const ALERTS_KEY_PREFIX = 'triage_alerts_v1::';
+const MAX_STORED_ALERTS = 100;
+const LOOKBACK_DAYS = 45;            // logs older than this never raise a new alert
+const CLUSTER_WINDOW_DAYS = 7;       // symptoms within this many days count as "together"
+const PROLONGED_BLEEDING_DAYS = 8;   // bleeding for more than 7 days in a row
+
+const BLEEDING_TYPES = ['spotting', 'flow', 'heavy_flow', 'very_heavy_bleeding', 'clotting', 'prolonged_bleeding'];
+const HEAVY_BLEEDING_TYPES = ['heavy_flow', 'very_heavy_bleeding', 'clotting'];
+const ANEMIA_SIGN_TYPES = ['dizziness', 'pale_skin', 'fainting', 'shortness_of_breath', 'fast_heartbeat', 'feeling_cold'];
+const SEVERE_PAIN_COMPANIONS = ['vomiting', 'takes_many_painkillers', 'fainting'];
+
+/** Per-day flow entries feed the same rules as the equivalent symptoms */
+const FLOW_AS_SYMPTOM: Record<FlowIntensity, string> = {
+  spotting: 'spotting',
+  light: 'flow',
+  medium: 'flow',
+  heavy: 'heavy_flow',
+  very_heavy: 'very_heavy_bleeding',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type TriageRuleId =
+  | 'prolonged_bleeding'
+  | 'heavy_bleeding_with_anemia_signs'
+  | 'repeated_very_heavy_bleeding'
+  | 'severe_pain_with_complications'
+  | 'fainting';
+
+export type TriageSeverity = 'urgent' | 'warning';
+
+/** A rule match for the current data, before it is written to the alert log */
+export interface TriageFinding {
+  /** Stable across re-evaluations of the same episode, used to dedupe the log */
+  key: string;
+  ruleId: TriageRuleId;
+  severity: TriageSeverity;
+  title: string;
+  /** Plain-language reasons, each tied to something the user logged */
+  reasons: string[];
+  /** YYYY-MM-DD of the first and last day that contributed to the match */
+  startDate: string;
+  endDate: string;
+}
+
+export interface TriageAlert extends TriageFinding {
+  triggeredAt: string;
+  dismissedAt: string | null;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+function storageKey(): string {
+  return `${ALERTS_KEY_PREFIX}${getCacheScope()}`;
+}
+
+/** Day keys in here all come from `formatDayKey`, so they always parse */
+function fromDayKey(key: string): CalendarDate {
+  return parseDayKey(key) as CalendarDate;
+}
+
+function formatDay(key: string): string {
+  return toLocalDate(fromDayKey(key)).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function formatRange(startKey: string, endKey: string): string {
+  return startKey === endKey ? formatDay(startKey) : `${formatDay(startKey)} – ${formatDay(endKey)}`;
+}
+
+/** Symptom and flow day keys grouped by normalized type, limited to the lookback window */
+function groupSymptomDays(symptoms: Symptom[], flowDays: FlowDay[], today: CalendarDate): Map<string, Set<string>> {
+  const cutoff = addDays(today, -LOOKBACK_DAYS);
+  const byType = new Map<string, Set<string>>();
+  const add = (type: string, day: CalendarDate | null) => {
+    if (!day || !isWithin(day, cutoff, today)) return;
+    if (!byType.has(type)) byType.set(type, new Set());
+    byType.get(type)!.add(formatDayKey(day));
+  };
+  symptoms.forEach((symptom) => add(normalizeSymptomType(symptom.type), fromDeviceDate(symptom.date)));
+  flowDays.forEach((flowDay) => add(FLOW_AS_SYMPTOM[flowDay.intensity], parseDayKey(flowDay.date)));
+  return byType;
+}
+
+function daysFor(byType: Map<string, Set<string>>, types: string[]): string[] {
+  const days = new Set<string>();
+  types.forEach((type) => byType.get(type)?.forEach((day) => days.add(day)));
+  return [...days].sort();
+}
+
+/**
+ * Every day with logged bleeding: closed periods count start→end, an open
+ * period counts from its start through the bleeding days that follow it
+ * back-to-back (a forgotten end date shouldn't look like weeks of bleeding,
+ * and mid-cycle spotting or the next period's flow isn't part of it).
+ */
+function collectBleedingDays(periods: Period[], byType: Map<string, Set<string>>, today: CalendarDate): Set<string> {
+  const symptomDays = new Set(daysFor(byType, BLEEDING_TYPES));
+  const days = new Set(symptomDays);
+  const cutoff = addDays(today, -LOOKBACK_DAYS);
+
+  for (const period of periods) {
+    const start = fromDeviceDate(period.startDate);
+    if (!start) continue;
+    let end = start;
+    if (period.endDate) {
+      end = fromDeviceDate(period.endDate) ?? start;
+    } else {
+      while (symptomDays.has(formatDayKey(addDays(end, 1)))) end = addDays(end, 1);
+    }
+    if (compareDates(end, cutoff) < 0) continue;
+    const last = compareDates(end, today) < 0 ? end : today;
+    for (let day = compareDates(start, cutoff) > 0 ? start : cutoff; compareDates(day, last) <= 0; day = addDays(day, 1)) {
+      days.add(formatDayKey(day));
+    }
+  }
+  return days;
+}
+
+function longestRun(dayKeys: Iterable<string>): { start: string; end: string; length: number } | null {
+  const sorted = [...dayKeys].sort();
+  let best: { start: string; end: string; length: number } | null = null;
+  let runStart = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const continues =
+      i > 0 && daysBetween(fromDayKey(sorted[i - 1]), fromDayKey(sorted[i])) === 1;
+    if (!continues) runStart = i;
+    const length = i - runStart + 1;
+    if (!best || length > best.length) {
+      best = { start: sorted[runStart], end: sorted[i], length };
+    }
+  }
+  return best;
+}
+
+/** Days from `candidates` that fall within the cluster window around `anchor` */
+function nearby(anchor: string, candidates: string[]): string[] {
+  const anchorDay = fromDayKey(anchor);
+  return candidates.filter(
+    (day) => Math.abs(daysBetween(anchorDay, fromDayKey(day))) < CLUSTER_WINDOW_DAYS
+  );
+}
+
+function humanize(type: string): string {
+  return type.replace(/_/g, ' ');
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────────
+function checkProlongedBleeding(periods: Period[], byType: Map<string, Set<string>>, today: CalendarDate): TriageFinding | null {
+  const run = longestRun(collectBleedingDays(periods, byType, today));
+  const flagged = daysFor(byType, ['prolonged_bleeding']);
+
+  if (run && run.length >= PROLONGED_BLEEDING_DAYS) {
+    return {
+      key: `prolonged_bleeding:${run.start}`,
+      ruleId: 'prolonged_bleeding',
+      severity: 'warning',
+      title: 'Bleeding for longer than usual',
+      reasons: [
+        `Bleeding was recorded on ${run.length} days in a row (${formatRange(run.start, run.end)}).`,
+        'Periods that last more than 7 days are worth checking with a doctor.',
+      ],
+      startDate: run.start,
+      endDate: run.end,
+    };
+  }
+  if (flagged.length) {
+    const first = flagged[0];
+    const last = flagged[flagged.length - 1];
+    return {
+      key: `prolonged_bleeding:${first}`,
+      ruleId: 'prolonged_bleeding',
+      severity: 'warning',
+      title: 'Bleeding for longer than usual',
+      reasons: [`You logged prolonged bleeding (${formatRange(first, last)}).`],
+      startDate: first,
+      endDate: last,
+    };
+  }
+  return null;
+}
+
+function checkHeavyBleedingWithAnemiaSigns(
+  periods: Period[],
+  byType: Map<string, Set<string>>,
+  today: CalendarDate
+): TriageFinding | null {
+  const cutoff = addDays(today, -LOOKBACK_DAYS);
+  const heavyDays = new Set(daysFor(byType, HEAVY_BLEEDING_TYPES));
+  periods.forEach((period) => {
+    const start = fromDeviceDate(period.startDate);
+    if (period.flowLevel === 'heavy' && start && compareDates(start, cutoff) >= 0) heavyDays.add(formatDayKey(start));
+  });
+  if (!heavyDays.size) return null;
+
+  for (const heavyDay of [...heavyDays].sort().reverse()) {
+    const signs = ANEMIA_SIGN_TYPES.filter((type) => nearby(heavyDay, daysFor(byType, [type])).length > 0);
+    if (signs.length < 2) continue;
+
+    const involved = [heavyDay, ...signs.flatMap((type) => nearby(heavyDay, daysFor(byType, [type])))].sort();
+    return {
+      key: `heavy_bleeding_with_anemia_signs:${involved[0]}`,
+      ruleId: 'heavy_bleeding_with_anemia_signs',
+      severity: 'urgent',
+      title: 'Heavy bleeding with signs of low iron',
+      reasons: [
+        `Heavy flow was logged around ${formatDay(heavyDay)}.`,
+        `Within the same week you also logged ${signs.map(humanize).join(', ')}.`,
+        'Together these can point to anaemia from blood loss.',
+      ],
+      startDate: involved[0],
+      endDate: involved[involved.length - 1],
+    };
+  }
+  return null;
+}
+
+function checkRepeatedVeryHeavyBleeding(byType: Map<string, Set<string>>): TriageFinding | null {
+  const days = daysFor(byType, ['very_heavy_bleeding']);
+  for (let i = days.length - 1; i >= 0; i--) {
+    const cluster = nearby(days[i], days.slice(0, i + 1));
+    if (cluster.length < 3) continue;
+    return {
+      key: `repeated_very_heavy_bleeding:${cluster[0]}`,
+      ruleId: 'repeated_very_heavy_bleeding',
+      severity: 'warning',
+      title: 'Very heavy bleeding on several days',
+      reasons: [
+        `Very heavy bleeding was logged on ${cluster.length} days (${formatRange(cluster[0], cluster[cluster.length - 1])}).`,
+        'Soaking through protection for several days is a reason to get checked.',
+      ],
+      startDate: cluster[0],
+      endDate: cluster[cluster.length - 1],
+    };
+  }
+  return null;
+}
+
+function checkSeverePain(byType: Map<string, Set<string>>): TriageFinding | null {
+  const painDays = daysFor(byType, ['severe_pain']);
+  for (const painDay of [...painDays].reverse()) {
+    const companions = SEVERE_PAIN_COMPANIONS.filter((type) => nearby(painDay, daysFor(byType, [type])).length > 0);
+    if (!companions.length) continue;
+    return {
+      key: `severe_pain_with_complications:${painDay}`,
+      ruleId: 'severe_pain_with_complications',
+      severity: 'warning',
+      title: 'Severe pain that needs a closer look',
+      reasons: [
+        `Severe pain was logged on ${formatDay(painDay)}.`,
+        `Around the same time you logged ${companions.map(humanize).join(', ')}.`,
+      ],
+      startDate: painDay,
+      endDate: painDay,
+    };
+  }
+  return null;
+}
+
+function checkFainting(byType: Map<string, Set<string>>): TriageFinding | null {
+  const days = daysFor(byType, ['fainting']);
+  if (!days.length) return null;
+  const latest = days[days.length - 1];
+  return {
+    key: `fainting:${latest}`,
+    ruleId: 'fainting',
+    severity: 'urgent',
+    title: 'You logged fainting',
+    reasons: [
+      `Fainting was logged on ${formatDay(latest)}.`,
+      'Fainting should always be checked by a doctor, especially during your period.',
+    ],
+    startDate: latest,
+    endDate: latest,
+  };
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Older screens log display labels ("Very heavy bleeding"); the tracker logs `SymptomType` ids */
+export function normalizeSymptomType(type: string): string {
+  return type.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Run the red-flag rules over recent logs. Pure — callers decide whether to
+ * record the findings (see `recordTriageFindings`). Urgent findings come first.
+ */
+export function evaluateRedFlags(
+  periods: Period[],
+  symptoms: Symptom[],
+  today: Date = new Date(),
+  flowDays: FlowDay[] = []
+): TriageFinding[] {
+  const day = fromLocalDate(today);
+  const byType = groupSymptomDays(symptoms, flowDays, day);
+  const findings = [
+    checkFainting(byType),
+    checkHeavyBleedingWithAnemiaSigns(periods, byType, day),
+    checkProlongedBleeding(periods, byType, day),
+    checkRepeatedVeryHeavyBleeding(byType),
+    checkSeverePain(byType),
+  ].filter((finding): finding is TriageFinding => finding !== null);
+
+  return findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'urgent' ? -1 : 1));
+}
+
+/** Alert log for the current user and view mode, newest first */
+export async function listTriageAlerts(): Promise<TriageAlert[]> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey());
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('[SymptomTriage] Failed to read alerts:', error);
+    return [];
+  }
+}
+
+async function writeTriageAlerts(alerts: TriageAlert[]): Promise<void> {
+  const sorted = [...alerts]
+    .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime())
+    .slice(0, MAX_STORED_ALERTS);
+  try {
+    await AsyncStorage.setItem(storageKey(), JSON.stringify(sorted));
+  } catch (error) {
+    console.warn('[SymptomTriage] Failed to save alerts:', error);
+  }
+  DeviceEventEmitter.emit('triageAlertsUpdated');
+}
+
+/**
+ * Add new findings to the alert log. A finding already logged under the same
+ * key keeps its original trigger time and dismissal but picks up the latest
+ * reasons (e.g. a bleeding run that grew longer).
+ */
+export async function recordTriageFindings(findings: TriageFinding[]): Promise<TriageAlert[]> {
+  const alerts = await listTriageAlerts();
+  if (!findings.length) return alerts;
+
+  let changed = false;
+  const now = new Date().toISOString();
+  for (const finding of findings) {
+    const existing = alerts.find((alert) => alert.key === finding.key);
+    if (!existing) {
+      alerts.push({ ...finding, triggeredAt: now, dismissedAt: null });
+      changed = true;
+    } else if (existing.endDate !== finding.endDate || existing.reasons.join() !== finding.reasons.join()) {
+      Object.assign(existing, { reasons: finding.reasons, endDate: finding.endDate });
+      changed = true;
+    }
+  }
+
+  if (changed) await writeTriageAlerts(alerts);
+  return alerts;
+}
+
+export async function dismissTriageAlert(key: string): Promise<void> {
+  const alerts = await listTriageAlerts();
+  const alert = alerts.find((entry) => entry.key === key);
+  if (!alert || alert.dismissedAt) return;
+  alert.dismissedAt = new Date().toISOString();
+  await writeTriageAlerts(alerts);
+}
+
+export async function clearTriageAlerts(): Promise<void> {
+  await writeTriageAlerts([]);
+}
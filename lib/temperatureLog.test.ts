@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Period } from './api';
+import { calendarDate, formatDayKey, fromLocalDate } from './calendarDate';
+import {
+  analyzeTemperatureCycles,
+  findConfirmedOvulations,
+  TemperatureDisturbance,
+  TemperatureReading,
+  TemperatureUnit,
+  validateTemperature,
+} from './temperatureLog';
+
+const TODAY = calendarDate(2026, 5, 10);
+
+function period(startDate: string): Period {
+  const date = `${startDate}T00:00:00`;
+  return { id: date, startDate: date, endDate: null, flowLevel: null, createdAt: date, updatedAt: date };
+}
+
+const PERIODS = [period('2026-04-01'), period('2026-04-29')];
+
+function reading(
+  date: string,
+  value: number,
+  disturbances: TemperatureDisturbance[] = [],
+  unit: TemperatureUnit = 'C'
+): TemperatureReading {
+  return { date, value, unit, time: '06:30', disturbances, updatedAt: `${date}T06:30:00.000Z` };
+}
+
+/** Readings on April `days`, in order */
+const april = (days: number[], values: number[]) =>
+  days.map((day, i) => reading(`2026-04-${String(day).padStart(2, '0')}`, values[i]));
+
+const LOWS = [36.3, 36.35, 36.3, 36.4, 36.35, 36.3];
+const dayKey = (date: Date) => formatDayKey(fromLocalDate(date));
+
+function firstShift(readings: TemperatureReading[]) {
+  return analyzeTemperatureCycles(PERIODS, readings, TODAY)[0].shift;
+}
+
+describe('analyzeTemperatureCycles', () => {
+  it('confirms ovulation with three readings over the six before them', () => {
+    const shift = firstShift(april([8, 9, 10, 11, 12, 13, 14, 15, 16], [...LOWS, 36.5, 36.55, 36.65]));
+    assert.ok(shift);
+    assert.equal(shift.rule, 'three_over_six');
+    assert.equal(shift.coverline, 36.4);
+    assert.equal(dayKey(shift.ovulationDate), '2026-04-13');
+    assert.equal(dayKey(shift.firstHighDate), '2026-04-14');
+    assert.equal(dayKey(shift.confirmedDate), '2026-04-16');
+  });
+
+  it('still finds the shift when days are missing between readings', () => {
+    const cycle = analyzeTemperatureCycles(
+      PERIODS,
+      april([3, 5, 7, 9, 11, 12, 15, 17, 18], [...LOWS, 36.6, 36.6, 36.7]),
+      TODAY
+    )[0];
+    assert.deepEqual(
+      cycle.points.map((point) => point.cycleDay),
+      [3, 5, 7, 9, 11, 12, 15, 17, 18]
+    );
+    assert.ok(cycle.shift);
+    assert.equal(dayKey(cycle.shift.ovulationDate), '2026-04-14');
+  });
+
+  it('leaves disturbed readings out of the coverline', () => {
+    const days = [8, 9, 10, 11, 12, 13, 14, 15, 16, 17];
+    const values = [36.3, 36.35, 36.9, 36.3, 36.4, 36.35, 36.3, 36.5, 36.55, 36.65];
+    const feverish = april(days, values);
+    feverish[2] = reading('2026-04-10', 36.9, ['illness']);
+
+    const shift = firstShift(feverish);
+    assert.ok(shift);
+    assert.equal(shift.coverline, 36.4);
+    assert.equal(dayKey(shift.firstHighDate), '2026-04-15');
+
+    // Unflagged, the same reading sets a coverline nothing clears
+    assert.equal(firstShift(april(days, values)), null);
+  });
+
+  it('takes a fourth high reading to confirm a small rise', () => {
+    const shift = firstShift(april([8, 9, 10, 11, 12, 13, 14, 15, 16, 17], [...LOWS, 36.45, 36.45, 36.5, 36.45]));
+    assert.ok(shift);
+    assert.equal(shift.rule, 'fourth_high');
+    assert.equal(dayKey(shift.confirmedDate), '2026-04-17');
+
+    assert.equal(firstShift(april([8, 9, 10, 11, 12, 13, 14, 15, 16], [...LOWS, 36.45, 36.45, 36.5])), null);
+  });
+
+  it('needs six low readings before the rise', () => {
+    assert.equal(firstShift(april([9, 10, 11, 12, 13, 14, 15, 16], [...LOWS.slice(1), 36.6, 36.65, 36.7])), null);
+  });
+
+  it('groups readings by cycle, converting °F and skipping readings before the first period', () => {
+    const readings = [
+      reading('2026-03-30', 36.2),
+      reading('2026-04-28', 97.7, [], 'F'),
+      reading('2026-04-29', 36.3),
+      reading('2026-05-10', 36.4),
+    ];
+    const [first, current] = analyzeTemperatureCycles(PERIODS, readings, TODAY);
+    assert.deepEqual(
+      first.points.map((point) => [point.cycleDay, Math.round(point.celsius * 100) / 100]),
+      [[28, 36.5]]
+    );
+    assert.equal(dayKey(first.end), '2026-04-28');
+    assert.deepEqual(
+      current.points.map((point) => point.cycleDay),
+      [1, 12]
+    );
+    assert.equal(dayKey(current.end), '2026-05-10');
+  });
+});
+
+describe('findConfirmedOvulations', () => {
+  it('lists one ovulation per cycle with a confirmed shift', () => {
+    const readings = april([8, 9, 10, 11, 12, 13, 14, 15, 16], [...LOWS, 36.5, 36.55, 36.65]);
+    assert.deepEqual(findConfirmedOvulations(PERIODS, readings).map(dayKey), ['2026-04-13']);
+    assert.deepEqual(findConfirmedOvulations(PERIODS, []), []);
+  });
+});
+
+describe('validateTemperature', () => {
+  it('accepts resting temperatures in either unit and rejects the rest', () => {
+    assert.equal(validateTemperature(36.5, 'C'), null);
+    assert.equal(validateTemperature(97.7, 'F'), null);
+    assert.equal(validateTemperature(39.2, 'C'), 'Basal temperatures are between 35.0 and 38.5 °C.');
+    assert.equal(validateTemperature(36.5, 'F'), 'Basal temperatures are between 95.0 and 101.3 °F.');
+    assert.equal(validateTemperature(NaN, 'C'), 'Enter a temperature.');
+  });
+});
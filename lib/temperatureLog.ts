@@ -0,0 +1,264 @@
+import { Period } from './api';
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  daysBetween,
+  formatDayKey,
+  fromApiDate,
+  fromDayNumber,
+  fromLocalDate,
+  getNow,
+  getToday,
+  parseDayKey,
+  toDayNumber,
+  toLocalDate,
+} from './calendarDate';
+import { createDayLogStore } from './dayLogStore';
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+const READINGS_KEY_PREFIX = 'bbt_readings_v1::';
+const LOW_READINGS = 6;              // the coverline is the highest of this many readings before the rise
+const HIGH_READINGS = 3;             // consecutive readings above the coverline that make a shift
+const CONFIRM_RISE_C = 0.2;          // how far the last high must clear the coverline (about 0.4 °F)
+const MIN_CELSIUS = 35;              // anything outside 35–38.5 °C is a typo or a fever, not a BBT
+const MAX_CELSIUS = 38.5;
+
+export const TEMPERATURE_DISTURBANCES = [
+  'illness',
+  'poor_sleep',
+  'alcohol',
+  'late_measurement',
+  'travel',
+  'stress',
+] as const;
+
+export const TEMPERATURE_DISTURBANCE_LABELS: Record<TemperatureDisturbance, string> = {
+  illness: 'Illness or fever',
+  poor_sleep: 'Poor sleep',
+  alcohol: 'Alcohol',
+  late_measurement: 'Measured late',
+  travel: 'Travel',
+  stress: 'Stress',
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export type TemperatureUnit = 'C' | 'F';
+export type TemperatureDisturbance = (typeof TEMPERATURE_DISTURBANCES)[number];
+
+export interface TemperatureReading {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  /** In `unit`, as entered */
+  value: number;
+  unit: TemperatureUnit;
+  /** When it was taken, HH:MM on the device clock */
+  time: string;
+  /** Anything that may have thrown the reading off; disturbed readings are left out of detection */
+  disturbances: TemperatureDisturbance[];
+  updatedAt: string;
+}
+
+export interface TemperatureReadingInput {
+  date: Date;
+  value: number;
+  unit: TemperatureUnit;
+  time: string;
+  disturbances?: TemperatureDisturbance[];
+}
+
+/**
+ * A confirmed thermal shift. `rule` is `three_over_six` when the third high
+ * cleared the coverline by 0.2 °C, or `fourth_high` when it took a fourth
+ * high reading to confirm a smaller rise.
+ */
+export interface ThermalShift {
+  /** Last low day — ovulation is taken to be the day before the rise */
+  ovulationDate: Date;
+  firstHighDate: Date;
+  /** The reading that completed the pattern; ovulation is only known from here on */
+  confirmedDate: Date;
+  /** °C */
+  coverline: number;
+  rule: 'three_over_six' | 'fourth_high';
+}
+
+export interface TemperaturePoint {
+  date: Date;
+  /** 1 = first day of the period */
+  cycleDay: number;
+  celsius: number;
+  disturbed: boolean;
+}
+
+export interface TemperatureCycle {
+  start: Date;
+  /** Day before the next period, or today for the current cycle */
+  end: Date;
+  points: TemperaturePoint[];
+  shift: ThermalShift | null;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const store = createDayLogStore<TemperatureReading>(
+  READINGS_KEY_PREFIX,
+  'temperatureReadingsUpdated',
+  'TemperatureLog',
+  'temperature'
+);
+
+// Detection runs for every calendar day drawn, so the last result is kept
+let lastDetection: { periods: Period[]; readings: TemperatureReading[]; ovulations: Date[] } | null = null;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+/**
+ * First three-over-six shift in a cycle's undisturbed readings: three
+ * consecutive readings above the highest of the six before them, the third
+ * at least 0.2 °C above it. A fourth high reading confirms a smaller rise.
+ */
+function detectShift(points: TemperaturePoint[]): ThermalShift | null {
+  const usable = points.filter((point) => !point.disturbed);
+  for (let i = LOW_READINGS; i + HIGH_READINGS <= usable.length; i++) {
+    const coverline = Math.max(...usable.slice(i - LOW_READINGS, i).map((point) => point.celsius));
+    const highs = usable.slice(i, i + HIGH_READINGS);
+    if (!highs.every((point) => point.celsius > coverline)) continue;
+
+    const third = highs[HIGH_READINGS - 1];
+    const fourth = usable[i + HIGH_READINGS];
+    let confirmedBy: TemperaturePoint | null = null;
+    let rule: ThermalShift['rule'] = 'three_over_six';
+    // Compared in hundredths so °F entries converted to °C don't miss by a rounding error
+    if (Math.round((third.celsius - coverline) * 100) >= Math.round(CONFIRM_RISE_C * 100)) {
+      confirmedBy = third;
+    } else if (fourth && fourth.celsius > coverline) {
+      confirmedBy = fourth;
+      rule = 'fourth_high';
+    }
+    if (!confirmedBy) continue;
+
+    return {
+      ovulationDate: toLocalDate(addDays(fromLocalDate(highs[0].date), -1)),
+      firstHighDate: highs[0].date,
+      confirmedDate: confirmedBy.date,
+      coverline: Math.round(coverline * 100) / 100,
+      rule,
+    };
+  }
+  return null;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? ((value - 32) * 5) / 9 : value;
+}
+
+export function fromCelsius(celsius: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? (celsius * 9) / 5 + 32 : celsius;
+}
+
+/** `36.55 °C` / `97.79 °F` */
+export function formatTemperature(celsius: number, unit: TemperatureUnit): string {
+  return `${fromCelsius(celsius, unit).toFixed(2)} °${unit}`;
+}
+
+/** A message for readings that can't be a resting temperature, otherwise null */
+export function validateTemperature(value: number, unit: TemperatureUnit): string | null {
+  if (!Number.isFinite(value)) return 'Enter a temperature.';
+  const celsius = toCelsius(value, unit);
+  if (celsius < MIN_CELSIUS || celsius > MAX_CELSIUS) {
+    const min = fromCelsius(MIN_CELSIUS, unit).toFixed(1);
+    const max = fromCelsius(MAX_CELSIUS, unit).toFixed(1);
+    return `Basal temperatures are between ${min} and ${max} °${unit}.`;
+  }
+  return null;
+}
+
+/**
+ * Readings for the current scope, oldest first, kept in memory so the
+ * synchronous phase code can read them. Empty until `loadTemperatureReadings` resolves.
+ */
+export function getTemperatureReadingsSnapshot(): TemperatureReading[] {
+  return store.getSnapshot();
+}
+
+/** Subscribe to reading changes (`useSyncExternalStore` compatible) */
+export function subscribeToTemperatureReadings(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+/** Read the stored readings for the current scope. Only hits storage once per scope. */
+export function loadTemperatureReadings(): Promise<void> {
+  return store.load();
+}
+
+/** Save the reading for a day, replacing any earlier one for the same day */
+export async function saveTemperatureReading(input: TemperatureReadingInput): Promise<void> {
+  const problem = validateTemperature(input.value, input.unit);
+  if (problem) throw new Error(problem);
+
+  const key = formatDayKey(fromLocalDate(input.date));
+  const reading: TemperatureReading = {
+    date: key,
+    value: input.value,
+    unit: input.unit,
+    time: input.time,
+    disturbances: input.disturbances ?? [],
+    updatedAt: getNow().toISOString(),
+  };
+  await store.setDay(key, reading);
+}
+
+export async function deleteTemperatureReading(date: Date): Promise<void> {
+  await store.setDay(formatDayKey(fromLocalDate(date)), null);
+}
+
+/**
+ * Readings grouped into cycles (period start to the day before the next),
+ * oldest first, each with its thermal shift if one is confirmed. Readings
+ * from before the first logged period aren't part of any cycle.
+ */
+export function analyzeTemperatureCycles(
+  periods: Period[],
+  entries: TemperatureReading[] = getTemperatureReadingsSnapshot(),
+  today: CalendarDate = getToday()
+): TemperatureCycle[] {
+  const startDays = periods
+    .map((period) => fromApiDate(period.startDate))
+    .filter((day): day is CalendarDate => day !== null);
+  const starts = [...new Set(startDays.map(toDayNumber))].sort((a, b) => a - b).map(fromDayNumber);
+
+  const days = entries
+    .map((entry) => ({ entry, day: parseDayKey(entry.date) }))
+    .filter((item): item is { entry: TemperatureReading; day: CalendarDate } => item.day !== null);
+
+  return starts.map((start, index) => {
+    const next = starts[index + 1];
+    const end = next ? addDays(next, -1) : compareDates(today, start) >= 0 ? today : start;
+    const points = days
+      .filter(({ day }) => compareDates(day, start) >= 0 && compareDates(day, end) <= 0)
+      .map(({ entry, day }) => ({
+        date: toLocalDate(day),
+        cycleDay: daysBetween(start, day) + 1,
+        celsius: toCelsius(entry.value, entry.unit),
+        disturbed: entry.disturbances.length > 0,
+      }));
+    return { start: toLocalDate(start), end: toLocalDate(end), points, shift: detectShift(points) };
+  });
+}
+
+/** Ovulation dates confirmed by a temperature shift, oldest first */
+export function findConfirmedOvulations(
+  periods: Period[],
+  entries: TemperatureReading[] = getTemperatureReadingsSnapshot()
+): Date[] {
+  if (!entries.length) return [];
+  if (lastDetection && lastDetection.periods === periods && lastDetection.readings === entries) {
+    return lastDetection.ovulations;
+  }
+  const ovulations = analyzeTemperatureCycles(periods, entries)
+    .map((cycle) => cycle.shift?.ovulationDate)
+    .filter((date): date is Date => !!date);
+  lastDetection = { periods, readings: entries, ovulations };
+  return ovulations;
+}
@@ -0,0 +1,79 @@
+/**
+ * Loaded with `--require` before every `lib/*.test.ts` run (see `npm test`).
+ * Swaps the native-only packages lib/ imports for in-memory versions so the
+ * modules behind them can be tested under plain Node.
+ */
+import Module from 'node:module';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+export interface TestFetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+type FetchImpl = (url: string, init?: TestFetchInit) => Promise<unknown>;
+
+// ─── State ────────────────────────────────────────────────────────────────────
+const storage = new Map<string, string>();
+let fetchImpl: FetchImpl | null = null;
+
+const asyncStorage = {
+  getItem: async (key: string) => storage.get(key) ?? null,
+  setItem: async (key: string, value: string) => {
+    storage.set(key, value);
+  },
+  removeItem: async (key: string) => {
+    storage.delete(key);
+  },
+  getAllKeys: async () => Array.from(storage.keys()),
+  multiRemove: async (keys: string[]) => {
+    keys.forEach((key) => storage.delete(key));
+  },
+};
+
+const STUBS: Record<string, unknown> = {
+  '@react-native-async-storage/async-storage': asyncStorage,
+  'react-native': {
+    DeviceEventEmitter: {
+      emit: () => {},
+      addListener: () => ({ remove: () => {} }),
+    },
+    AppState: { addEventListener: () => ({ remove: () => {} }) },
+    Platform: { OS: 'ios', select: (options: Record<string, unknown>) => options.ios ?? options.default },
+  },
+  'expo-constants': { expoConfig: { extra: { API_URL: 'http://localhost.test' } } },
+  'expo-secure-store': {
+    getItemAsync: async () => null,
+    setItemAsync: async () => {},
+    deleteItemAsync: async () => {},
+  },
+  'expo/fetch': {
+    fetch: (url: string, init?: TestFetchInit) => {
+      if (!fetchImpl) throw new Error('No fetch set for this test; call setTestFetch first.');
+      return fetchImpl(url, init);
+    },
+  },
+};
+
+const moduleWithLoad = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const originalLoad = moduleWithLoad._load;
+moduleWithLoad._load = function load(request: string, ...rest: unknown[]) {
+  if (request in STUBS) return STUBS[request];
+  return originalLoad.call(this, request, ...rest);
+};
+
+(globalThis as Record<string, unknown>).__DEV__ = false;
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Answer `expo/fetch` calls with `impl` until the next call */
+export function setTestFetch(impl: FetchImpl | null): void {
+  fetchImpl = impl;
+}
+
+/** Empty the in-memory AsyncStorage */
+export function clearTestStorage(): void {
+  storage.clear();
+}